@@ -11,6 +11,8 @@ import Landing from "./pages/Landing";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import ResetPassword from "./pages/ResetPassword";
+import Catalog from "./pages/Catalog";
+import CatalogDetail from "./pages/CatalogDetail";
 import ClickSpark from "./components/ClickSpark";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -66,6 +68,8 @@ const AnimatedRoutes = () => {
         <Route path="/" element={<Landing />} />
         <Route path="/submission" element={<Index />} />
         <Route path="/reset-password" element={<ResetPassword />} />
+        <Route path="/catalog" element={<Catalog />} />
+        <Route path="/catalog/:barcode" element={<CatalogDetail />} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
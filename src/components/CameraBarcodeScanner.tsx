@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// The Barcode Detection API is not in TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+interface CameraBarcodeScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDetected: (barcode: string) => void;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+// Mounted with the dialog content so the video element exists when the camera starts
+const CameraView: React.FC<{ onDetected: (barcode: string) => void }> = ({ onDetected }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector || !navigator.mediaDevices?.getUserMedia) {
+      setError('Camera scanning is not supported in this browser. Please use a barcode scanner or type the barcode.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+    const detector = new BarcodeDetector();
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= 2) {
+          const [barcode] = await detector.detect(video);
+          if (!cancelled && barcode?.rawValue) {
+            onDetectedRef.current(barcode.rawValue);
+            return;
+          }
+        }
+      } catch (err) {
+        console.error('Barcode detection error:', err);
+      }
+      timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          await videoRef.current.play();
+        }
+        scanFrame();
+      })
+      .catch((err) => {
+        console.error('Camera access error:', err);
+        if (!cancelled) setError('Could not access the camera. Please allow camera access or type the barcode.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <div className="bg-red-50 border border-red-200 p-4 rounded-lg text-sm text-red-800">{error}</div>;
+  }
+
+  return (
+    <div className="relative rounded-lg overflow-hidden bg-black">
+      <video ref={videoRef} className="w-full" muted playsInline />
+      <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+    </div>
+  );
+};
+
+const CameraBarcodeScanner: React.FC<CameraBarcodeScannerProps> = ({ isOpen, onClose, onDetected }) => (
+  <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="sm:max-w-[480px]">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Camera className="h-5 w-5" />
+          Scan Thesis Barcode
+        </DialogTitle>
+        <DialogDescription>Hold the barcode on the thesis cover in front of the camera.</DialogDescription>
+      </DialogHeader>
+      <CameraView onDetected={onDetected} />
+    </DialogContent>
+  </Dialog>
+);
+
+export default CameraBarcodeScanner;
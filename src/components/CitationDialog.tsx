@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Copy, Download, Quote } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CITATION_STYLE_LABELS,
+  CITATION_STYLE_OPTIONS,
+  downloadCitations,
+  formatCitations,
+  type CitableThesis,
+  type CitationStyle,
+} from '@/lib/citations';
+
+interface CitationDialogProps {
+  /** Null while closed. */
+  theses: CitableThesis[] | null;
+  onClose: () => void;
+}
+
+const CitationDialog: React.FC<CitationDialogProps> = ({ theses, onClose }) => {
+  const { toast } = useToast();
+  const [style, setStyle] = useState<CitationStyle>('apa');
+
+  const count = theses?.length ?? 0;
+  const citations = theses ? formatCitations(theses, style) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(citations);
+      toast({ title: "Copied", description: `${CITATION_STYLE_LABELS[style]} citation copied to the clipboard.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Could not copy to the clipboard. Select the text and copy it instead.", variant: "destructive" });
+    }
+  };
+
+  const handleDownload = () => {
+    const stamp = new Date().toISOString().split('T')[0];
+    downloadCitations(citations, style, count === 1 ? `citation_${theses![0].id}` : `thesis_citations_${stamp}`);
+  };
+
+  return (
+    <Dialog open={!!theses} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Quote className="h-5 w-5" />
+            Cite {count === 1 ? 'This Thesis' : `${count} Theses`}
+          </DialogTitle>
+          <DialogDescription>
+            {count === 1 ? theses![0].thesis_title : 'Citations for the selected theses.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Citation style">
+          {CITATION_STYLE_OPTIONS.map(option => (
+            <button
+              key={option}
+              role="tab"
+              aria-selected={style === option}
+              onClick={() => setStyle(option)}
+              className={`px-3 py-1.5 text-sm rounded-lg border ${
+                style === option
+                  ? 'bg-red-600 border-red-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {CITATION_STYLE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          readOnly
+          value={citations}
+          rows={count === 1 && style !== 'bibtex' && style !== 'ris' ? 4 : 12}
+          className={`w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50 ${
+            style === 'bibtex' || style === 'ris' ? 'font-mono' : ''
+          }`}
+          onFocus={(e) => e.target.select()}
+          aria-label={`${CITATION_STYLE_LABELS[style]} citation`}
+        />
+
+        <p className="text-xs text-gray-500">
+          Titles are shown as catalogued. Check capitalisation and italics against your style guide.
+        </p>
+
+        <div className="flex justify-end space-x-2">
+          <button onClick={handleDownload} className="btn-secondary flex items-center space-x-1">
+            <Download size={16} />
+            <span>Download</span>
+          </button>
+          <button onClick={handleCopy} className="btn-primary flex items-center space-x-1">
+            <Copy size={16} />
+            <span>Copy</span>
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CitationDialog;
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { LogOut, BookOpen, User } from 'lucide-react';
+import { LogOut, BookOpen, User, Library } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { LogoutConfirmModal } from './admin/LogoutConfirmModal';
 import TutorialModal from './TutorialModal';
@@ -69,6 +69,16 @@ const Header: React.FC<HeaderProps> = ({ onAdminLoginClick, showAdminLogin, enab
 
           {/* Navigation - Right Side */}
           <div className="flex items-center space-x-4">
+            {!user && (
+              <button
+                onClick={() => navigate('/catalog')}
+                className="btn-secondary flex items-center space-x-2 px-4 py-2 min-w-[100px] justify-center"
+              >
+                <Library size={16} />
+                <span className="hidden sm:inline">Catalog</span>
+              </button>
+            )}
+
             {!user && (
               <button 
                 onClick={() => setShowTutorial(true)}
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Mail, UserPlus } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  REGISTRATION_CODE_MESSAGES,
+  sendRegistrationCode,
+  submitRegistrationRequest,
+  verifyRegistrationCode,
+  type RegistrationDetails,
+} from '@/lib/student-registration';
+
+interface StudentRegistrationModalProps {
+  isOpen: boolean;
+  /** Prefilled from the submission form. */
+  studentNumber: string;
+  fullName: string;
+  onClose: () => void;
+}
+
+type Step = 'details' | 'verify' | 'done';
+
+const FIELDS: { key: keyof RegistrationDetails; label: string; placeholder: string; type?: string }[] = [
+  { key: 'student_no', label: 'Student Number', placeholder: 'Enter student number (8-digits)' },
+  { key: 'full_name', label: 'Full Name', placeholder: 'e.g., Juan A. Dela Cruz' },
+  { key: 'course_section', label: 'Course and Section', placeholder: 'e.g., BSIT 3-1' },
+  { key: 'email', label: 'Email', placeholder: 'The code is sent to this address', type: 'email' },
+  { key: 'school_year', label: 'School Year', placeholder: 'e.g., 2026-2027' },
+];
+
+const inputClass = 'w-full p-2 border-2 border-gray-200 rounded-lg focus:border-red-400 focus:ring-1 focus:ring-red-200';
+
+/**
+ * Lets a student who is not in the student records ask to be added: the
+ * email is confirmed with a code, then the request waits for an admin.
+ */
+const StudentRegistrationModal: React.FC<StudentRegistrationModalProps> = ({ isOpen, studentNumber, fullName, onClose }) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('details');
+  const [details, setDetails] = useState<RegistrationDetails>({
+    student_no: '',
+    full_name: '',
+    course_section: '',
+    email: '',
+    school_year: '',
+  });
+  const [requestId, setRequestId] = useState<number | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('details');
+    setRequestId(null);
+    setCode('');
+    setDetails(prev => ({ ...prev, student_no: studentNumber.trim(), full_name: fullName.trim() }));
+  }, [isOpen, studentNumber, fullName]);
+
+  // RPC errors carry the reason (e.g. an open request) in `message`
+  const errorMessage = (error: unknown) => (error as { message?: string })?.message || 'Please try again.';
+
+  const handleSendCode = async (id: number) => {
+    await sendRegistrationCode(id);
+    toast({ title: 'Code sent', description: `Check the inbox (and spam) of ${details.email.trim()}.` });
+  };
+
+  const handleSubmitDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const id = await submitRegistrationRequest(details);
+      setRequestId(id);
+      await handleSendCode(id);
+      setCode('');
+      setStep('verify');
+    } catch (error) {
+      toast({ title: 'Request not sent', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (requestId === null) return;
+    setIsBusy(true);
+    try {
+      await handleSendCode(requestId);
+    } catch (error) {
+      toast({ title: 'Code not sent', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (requestId === null) return;
+    setIsBusy(true);
+    try {
+      const { valid, reason } = await verifyRegistrationCode(requestId, code);
+      if (valid) {
+        setStep('done');
+      } else {
+        toast({
+          title: 'Invalid code',
+          description: reason ? REGISTRATION_CODE_MESSAGES[reason] : 'Please try again.',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({ title: 'Verification failed', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Request Registration
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'details' && 'Your student number is not in our records yet. Send your details and the library staff will add you.'}
+            {step === 'verify' && `Enter the 6-digit code sent to ${details.email.trim()}.`}
+            {step === 'done' && 'Your email is confirmed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'details' && (
+          <form onSubmit={handleSubmitDetails} className="space-y-3">
+            {FIELDS.map(field => (
+              <div key={field.key}>
+                <label htmlFor={`registration-${field.key}`} className="block text-sm font-medium mb-1">{field.label} *</label>
+                <input
+                  id={`registration-${field.key}`}
+                  type={field.type ?? 'text'}
+                  value={details[field.key]}
+                  onChange={(e) => setDetails(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className={inputClass}
+                  placeholder={field.placeholder}
+                  disabled={isBusy}
+                  required
+                />
+              </div>
+            ))}
+            <div className="flex justify-end space-x-2 pt-2">
+              <button type="button" onClick={onClose} className="btn-secondary" disabled={isBusy}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary flex items-center space-x-1" disabled={isBusy}>
+                <Mail size={16} />
+                <span>{isBusy ? 'Sending...' : 'Send Code'}</span>
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'verify' && (
+          <form onSubmit={handleVerify} className="space-y-3">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className={`${inputClass} text-center text-2xl tracking-[0.5em] font-mono`}
+              placeholder="000000"
+              aria-label="Verification code"
+              disabled={isBusy}
+              required
+            />
+            <p className="text-xs text-gray-500">The code expires in 10 minutes.</p>
+            <div className="flex justify-between items-center pt-2">
+              <button
+                type="button"
+                onClick={handleResend}
+                className="text-sm text-red-600 hover:text-red-800 font-medium"
+                disabled={isBusy}
+              >
+                Send a new code
+              </button>
+              <button type="submit" className="btn-primary" disabled={isBusy || code.length !== 6}>
+                {isBusy ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4 text-center">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+            <p className="text-gray-700">
+              Your registration request is waiting for approval. Once the library staff approve it, you can submit with
+              your student number.
+            </p>
+            <button onClick={onClose} className="btn-primary">
+              Close
+            </button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentRegistrationModal;
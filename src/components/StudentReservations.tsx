@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { BookmarkCheck, X } from 'lucide-react';
+import {
+  cancelStudentReservation,
+  fetchStudentReservations,
+  formatHoldExpiry,
+  type StudentReservation,
+} from '@/lib/thesis-reservations';
+import { useToast } from '@/hooks/use-toast';
+
+interface StudentReservationsProps {
+  studentNumber: string;
+  fullName: string;
+  /** Bumped by the form after a new reservation so the list reloads. */
+  refreshKey: number;
+}
+
+const StudentReservations: React.FC<StudentReservationsProps> = ({ studentNumber, fullName, refreshKey }) => {
+  const [reservations, setReservations] = useState<StudentReservation[]>([]);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStudentReservations(studentNumber, fullName)
+      .then((rows) => {
+        if (!cancelled) setReservations(rows);
+      })
+      .catch(() => {
+        if (!cancelled) setReservations([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [studentNumber, fullName, refreshKey]);
+
+  const handleCancel = async (reservation: StudentReservation) => {
+    setCancellingId(reservation.id);
+    try {
+      await cancelStudentReservation(reservation.id, studentNumber, fullName);
+      setReservations((prev) => prev.filter((r) => r.id !== reservation.id));
+      toast({ title: 'Reservation Cancelled', description: `You left the queue for "${reservation.thesis_title}".` });
+    } catch (error) {
+      toast({ title: 'Cancel Failed', description: 'Could not cancel the reservation. Please try again.', variant: 'destructive' });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (reservations.length === 0) return null;
+
+  return (
+    <div className="border border-blue-200 bg-blue-50 rounded-lg px-3 py-2 space-y-1">
+      <p className="flex items-center space-x-1 text-xs font-semibold text-blue-800">
+        <BookmarkCheck size={14} />
+        <span>Your reservations</span>
+      </p>
+      {reservations.map((reservation) => (
+        <div key={reservation.id} className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs text-gray-900 truncate" title={reservation.thesis_title}>{reservation.thesis_title}</p>
+            <p className={`text-xs ${reservation.status === 'ready' ? 'text-green-700 font-medium' : 'text-gray-600'}`}>
+              {reservation.status === 'ready'
+                ? `Ready! Held for you until ${formatHoldExpiry(reservation.hold_expires_at)}`
+                : `#${reservation.queue_position} in line`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleCancel(reservation)}
+            disabled={cancellingId === reservation.id}
+            className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50 shrink-0"
+            title="Cancel reservation"
+            aria-label={`Cancel reservation for ${reservation.thesis_title}`}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StudentReservations;
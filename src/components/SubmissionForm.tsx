@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { FileText, Users, School, BookOpen, ArrowRight } from 'lucide-react';
 import { useToast } from '../hooks/use-toast';
 import { supabase } from '../integrations/supabase/client';
+import { activeTerms } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
 import ThesisTitleSearch from './ThesisTitleSearch';
 import FeedbackModal from './FeedbackModal';
 import styles from './SubmissionForm.module.css';
@@ -33,22 +35,9 @@ const SubmissionForm = () => {
 
   const { toast } = useToast();
 
-  const campusOptions = [
-    'LIMA Campus',
-    'Main Campus',
-    'Riverside Campus'
-  ];
-
-  const programOptions = [
-    'Computer Science',
-    'Information Technology',
-    'Engineering',
-    'Business Administration',
-    'Psychology',
-    'Education',
-    'Nursing',
-    'Accountancy'
-  ];
+  const { vocabulary } = useVocabulary();
+  const campusOptions = activeTerms(vocabulary.campuses).map(campus => campus.name);
+  const programOptions = activeTerms(vocabulary.programs).map(program => program.name);
 
   // Handle page flip animations
   const handleFlipToLPU = () => {
@@ -5,7 +5,15 @@ import { useNavigate } from 'react-router-dom';
 import { useToast } from '../hooks/use-toast';
 import { supabase } from '../integrations/supabase/client';
 import ThesisTitleSearch from './ThesisTitleSearch';
+import ThesisBarcodeInput from './ThesisBarcodeInput';
+import type { BarcodeThesis } from '@/lib/thesis-barcode';
+import { getAvailabilityNotice, isCheckoutBlocked } from '@/lib/thesis-availability';
+import { reserveThesis } from '@/lib/thesis-reservations';
+import { activeTerms, groupPrograms } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import StudentReservations from './StudentReservations';
 import FeedbackModal from './FeedbackModal';
+import StudentRegistrationModal from './StudentRegistrationModal';
 import styles from './SubmissionForm.module.css';
 
 // Terms and Conditions Modal Component
@@ -100,7 +108,16 @@ const SubmissionFormBook = () => {
     thesisTitle: '',
   });
 
+  // Catalog entry picked from search or a barcode scan; dropped once the title is edited
+  const [linkedThesis, setLinkedThesis] = useState<Pick<BarcodeThesis, 'id' | 'barcode' | 'thesis_title' | 'availability'> | null>(null);
+
+  const currentThesis = linkedThesis?.thesis_title === formData.thesisTitle ? linkedThesis : null;
+  const availabilityNotice = getAvailabilityNotice(currentThesis?.availability);
+  const isThesisBlocked = isCheckoutBlocked(currentThesis?.availability);
+
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReserving, setIsReserving] = useState(false);
+  const [reservationsVersion, setReservationsVersion] = useState(0);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [lastSubmissionId, setLastSubmissionId] = useState<string | null>(null);
 
@@ -110,166 +127,22 @@ const SubmissionFormBook = () => {
     message: string;
     nameValid: boolean | null;
     nameMessage: string;
-    expectedName: string | null;
   }>({
     isValidating: false,
     isValid: null,
     message: '',
     nameValid: null,
     nameMessage: '',
-    expectedName: null,
   });
+  // Student number not on file yet: offer a registration request
+  const [isNotRegistered, setIsNotRegistered] = useState(false);
+  const [showRegistrationModal, setShowRegistrationModal] = useState(false);
 
   const { toast } = useToast();
 
-  const campusOptions = ['LIMA Campus', 'Main Campus', 'Riverside Campus'];
-
-  const programsStructure = [
-    {
-      category: 'UNDERGRADUATE PROGRAMS',
-      departments: [
-        {
-          name: 'Lyceum International Maritime Academy',
-          courses: [
-            'BS Marine Transportation',
-            'BS Marine Engineering'
-          ]
-        },
-        {
-          name: 'College of Computing, Arts and Sciences',
-          courses: [
-            'AB Communication',
-            'AB Psychology',
-            'BS Psychology',
-            'Bachelor of Multimedia Arts',
-            'BS Computer Science',
-            'BS Cybersecurity',
-            'BS Information Technology'
-          ]
-        },
-        {
-          name: 'College of Allied Medical Professions',
-          courses: [
-            'BS Biology Major in Medical Biology',
-            'BS Medical Laboratory Science',
-            'BS Pharmacy',
-            'BS Physical Therapy',
-            'BS Radiologic Technology',
-            'Diploma in Pharmacy Assisting',
-            'Diploma in Phlebotomy'
-          ]
-        },
-        {
-          name: 'College of Nursing',
-          courses: [
-            'BS Nursing'
-          ]
-        },
-        {
-          name: 'College of Business Administration',
-          courses: [
-            'BS Accountancy',
-            'BS Business Administration',
-            'BS Customs Administration'
-          ]
-        },
-        {
-          name: 'College of International Tourism & Hospitality Management',
-          courses: [
-            'BS International Tourism Management',
-            'BS International Hospitality Management',
-            'Associate in International Tourism Management'
-          ]
-        },
-        {
-          name: 'College of Criminal Justice Education',
-          courses: [
-            'BS Criminology',
-            'Bachelor of Forensic Science',
-            'Double Degree for Criminology and Forensic Science',
-            'Straight Program BS Criminology to Master of Science in Criminal Justice with specialization in Criminology'
-          ]
-        },
-        {
-          name: 'College of Dentistry',
-          courses: [
-            'Doctor of Dental Medicine'
-          ]
-        },
-        {
-          name: 'Expanded Tertiary Education Equivalency and Accreditation Program',
-          courses: [
-            'Bachelor of Science in Business Administration',
-            'Bachelor of Science in Criminology',
-            'Bachelor of Science in Information Technology',
-            'Bachelor of Science in International Hospitality Management',
-            'Bachelor of Science in Nursing'
-          ]
-        },
-        {
-          name: 'Center for Technical Education and Lifelong Learning',
-          courses: [
-            'Certificate in Culinary Arts',
-            'Certificate in Pastry Arts'
-          ]
-        }
-      ]
-    },
-    {
-      category: 'GRADUATE SCHOOL PROGRAMS',
-      departments: [
-        {
-          name: 'Business Management',
-          courses: [
-            'PhD in Management',
-            'Master in Business Administration'
-          ]
-        },
-        {
-          name: 'Hospitality',
-          courses: [
-            'PhD in International Hospitality and Tourism Management',
-            'Master in International Hospitality and Tourism Management'
-          ]
-        },
-        {
-          name: 'Humanities & Social Sciences',
-          courses: [
-            'Doctor of Public Administration',
-            'PhD in Criminal Justice with specialization in Criminology',
-            'PhD in English Language Studies',
-            'PhD in Management with specialization in Education',
-            'PhD in Psychology',
-            'Master in Public Administration',
-            'Master of Arts in Educational Leadership and Management',
-            'Master of Arts in English Language Studies',
-            'Master of Arts in Psychology',
-            'Master of Science in Criminal Justice with specialization in Criminology',
-            'Straight Master to Phd in Criminal Justice with specialization in Criminology'
-          ]
-        },
-        {
-          name: 'Maritime',
-          courses: [
-            'Master in Maritime Education and Training'
-          ]
-        },
-        {
-          name: 'Engineering & Technology',
-          courses: [
-            'Master of Science in Information Technology'
-          ]
-        },
-        {
-          name: 'Health Sciences',
-          courses: [
-            'Master of Arts in Nursing',
-            'Master of Science in Medical Laboratory Science'
-          ]
-        }
-      ]
-    }
-  ];
+  const { vocabulary } = useVocabulary();
+  const campusOptions = activeTerms(vocabulary.campuses).map(campus => campus.name);
+  const programsStructure = groupPrograms(vocabulary);
 
   /* ---------- cascading dropdown state ---------- */
   const [showProgramDropdown, setShowProgramDropdown] = useState(false);
@@ -345,8 +218,8 @@ const SubmissionFormBook = () => {
           message: '',
           nameValid: null,
           nameMessage: '',
-          expectedName: null,
         });
+        setIsNotRegistered(false);
       }
     }
   };
@@ -354,6 +227,7 @@ const SubmissionFormBook = () => {
   /* ---------- LPU student validation ---------- */
   const validateStudentNumber = async (studentNumber: string, studentName: string) => {
     setStudentValidation((v) => ({ ...v, isValidating: true }));
+    setIsNotRegistered(false);
 
     try {
       // Use the validate_lpu_student_with_name function to check both name and number
@@ -370,7 +244,6 @@ const SubmissionFormBook = () => {
           message: '⚠ Error validating student information',
           nameValid: false,
           nameMessage: '',
-          expectedName: null,
         });
         return;
       }
@@ -383,12 +256,11 @@ const SubmissionFormBook = () => {
           message: '✓ Student name and number verified',
           nameValid: true,
           nameMessage: '',
-          expectedName: null,
         });
       } else {
         // Show the error message from the database function or a default message
         const errorMessage = data?.message || 'Name and student number do not match our records';
-        const expectedName = data?.expected_name || null;
+        setIsNotRegistered(data?.error === 'student_not_found');
 
         setStudentValidation({
           isValidating: false,
@@ -396,7 +268,6 @@ const SubmissionFormBook = () => {
           message: `⚠ ${errorMessage}`,
           nameValid: false,
           nameMessage: '',
-          expectedName: expectedName,
         });
       }
     } catch (err) {
@@ -407,7 +278,6 @@ const SubmissionFormBook = () => {
         message: '⚠ Error validating student information',
         nameValid: false,
         nameMessage: '',
-        expectedName: null,
       });
     }
   };
@@ -425,9 +295,19 @@ const SubmissionFormBook = () => {
       return;
     }
 
+    if (isThesisBlocked) {
+      toast({
+        title: 'Thesis Unavailable',
+        description: availabilityNotice,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
+      const thesis = currentThesis;
       const submissionData = {
         full_name: formData.fullName,
         user_type: type === 'lpu' ? 'LPU Student' : 'Non-LPU Student',
@@ -436,6 +316,8 @@ const SubmissionFormBook = () => {
         campus: formData.campus,
         program: type === 'lpu' ? formData.program : null,
         thesis_title: formData.thesisTitle,
+        thesis_id: thesis?.id ?? null,
+        thesis_barcode: thesis?.barcode ?? null,
         submission_date: new Date().toISOString(),
       };
 
@@ -455,9 +337,13 @@ const SubmissionFormBook = () => {
       });
     } catch (err) {
       console.error('Submission error:', err);
+      // The availability may have changed after the thesis was picked
+      const unavailable = (err as { message?: string })?.message?.includes('not available for reading');
       toast({
         title: 'Submission Failed',
-        description: 'There was an error submitting your record.',
+        description: unavailable
+          ? 'This thesis is no longer available for reading. Please ask the library staff.'
+          : 'There was an error submitting your record.',
         variant: 'destructive',
       });
     } finally {
@@ -465,6 +351,44 @@ const SubmissionFormBook = () => {
     }
   };
 
+  /* ---------- reservations ---------- */
+  const canReserve =
+    studentValidation.isValid === true &&
+    (currentThesis?.availability === 'in_use' || currentThesis?.availability === 'on_hold');
+
+  const handleReserve = async () => {
+    if (!currentThesis) return;
+    setIsReserving(true);
+    try {
+      const result = await reserveThesis(currentThesis.id, formData.studentNumber, formData.fullName);
+      if (!result.success) {
+        toast({
+          title: 'Reservation Failed',
+          description: result.message || 'Could not reserve this thesis.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: result.already_reserved ? 'Already Reserved' : 'Thesis Reserved',
+        description: result.status === 'ready'
+          ? 'This thesis is being held for you. Submit the form to check it out.'
+          : `You are #${result.position} in line. We will hold it for you once it is returned.`,
+      });
+      setReservationsVersion((v) => v + 1);
+    } catch (err) {
+      console.error('Reservation error:', err);
+      toast({
+        title: 'Reservation Failed',
+        description: 'There was an error reserving this thesis.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReserving(false);
+    }
+  };
+
   /* ---------- feedback ---------- */
   const handleFeedbackSubmit = async (feedback: { rating: number; comments: string }) => {
     if (!lastSubmissionId) return;
@@ -496,14 +420,15 @@ const SubmissionFormBook = () => {
       program: '',
       thesisTitle: '',
     });
+    setLinkedThesis(null);
     setStudentValidation({
       isValidating: false,
       isValid: null,
       message: '',
       nameValid: null,
       nameMessage: '',
-      expectedName: null,
     });
+    setIsNotRegistered(false);
   };
 
   /* ---------- terms handlers ---------- */
@@ -620,19 +545,40 @@ const SubmissionFormBook = () => {
                         </select>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Thesis Barcode</label>
+                        <ThesisBarcodeInput
+                          thesisTitle={formData.thesisTitle}
+                          patron={{ fullName: formData.fullName }}
+                          onResolve={(thesis) => {
+                            setLinkedThesis(thesis);
+                            handleInputChange('thesisTitle', thesis.thesis_title);
+                          }}
+                          onReturned={() => {
+                            setLinkedThesis(null);
+                            handleInputChange('thesisTitle', '');
+                          }}
+                          listenForScans={!isFlipped && !showFeedbackModal}
+                        />
+                      </div>
+
                       <div>
                         <label className="block text-sm font-medium mb-1">Title of Thesis *</label>
                         <ThesisTitleSearch
                           value={formData.thesisTitle}
                           onChange={(v) => handleInputChange('thesisTitle', v)}
+                          onSelect={setLinkedThesis}
                           placeholder="Type to search existing thesis titles..."
                           required
                         />
+                        {availabilityNotice && (
+                          <p className={`text-xs mt-1 ${isThesisBlocked ? 'text-red-600' : 'text-amber-700'}`}>⚠ {availabilityNotice}</p>
+                        )}
                       </div>
 
                       <button
                         type="submit"
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || isThesisBlocked}
                         className="w-full py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
                       >
                         {isSubmitting ? 'Submitting...' : 'Submit Record'}
@@ -721,6 +667,25 @@ const SubmissionFormBook = () => {
                             {studentValidation.message}
                           </p>
                         )}
+                        {isNotRegistered && (
+                          <button
+                            type="button"
+                            onClick={() => setShowRegistrationModal(true)}
+                            className="mt-1 flex items-center space-x-1 text-sm text-red-600 hover:text-red-800 font-medium"
+                          >
+                            <UserPlus size={14} />
+                            <span>Not in our records? Request registration</span>
+                          </button>
+                        )}
+                        {studentValidation.isValid === true && (
+                          <div className="mt-2">
+                            <StudentReservations
+                              studentNumber={formData.studentNumber}
+                              fullName={formData.fullName}
+                              refreshKey={reservationsVersion}
+                            />
+                          </div>
+                        )}
                       </div>
 
                       <div ref={dropdownRef}>
@@ -811,19 +776,50 @@ const SubmissionFormBook = () => {
                         </select>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Thesis Barcode</label>
+                        <ThesisBarcodeInput
+                          thesisTitle={formData.thesisTitle}
+                          patron={{ fullName: formData.fullName, studentNumber: formData.studentNumber }}
+                          onResolve={(thesis) => {
+                            setLinkedThesis(thesis);
+                            handleInputChange('thesisTitle', thesis.thesis_title);
+                          }}
+                          onReturned={() => {
+                            setLinkedThesis(null);
+                            handleInputChange('thesisTitle', '');
+                          }}
+                          listenForScans={isFlipped && !showFeedbackModal}
+                        />
+                      </div>
+
                       <div>
                         <label className="block text-sm font-medium mb-1">Title of Thesis *</label>
                         <ThesisTitleSearch
                           value={formData.thesisTitle}
                           onChange={(v) => handleInputChange('thesisTitle', v)}
+                          onSelect={setLinkedThesis}
                           placeholder="Type to search existing thesis titles..."
                           required
                         />
+                        {availabilityNotice && (
+                          <p className={`text-xs mt-1 ${isThesisBlocked ? 'text-red-600' : 'text-amber-700'}`}>⚠ {availabilityNotice}</p>
+                        )}
+                        {canReserve && (
+                          <button
+                            type="button"
+                            onClick={handleReserve}
+                            disabled={isReserving}
+                            className="mt-1 text-xs font-medium text-blue-700 hover:text-blue-900 underline disabled:opacity-50"
+                          >
+                            {isReserving ? 'Reserving...' : 'Reserve this thesis instead'}
+                          </button>
+                        )}
                       </div>
 
                       <button
                         type="submit"
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || isThesisBlocked}
                         className="w-full py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
                       >
                         {isSubmitting ? 'Submitting...' : 'Submit Record'}
@@ -842,6 +838,13 @@ const SubmissionFormBook = () => {
               onSubmit={handleFeedbackSubmit}
             />
           )}
+
+          <StudentRegistrationModal
+            isOpen={showRegistrationModal}
+            studentNumber={formData.studentNumber}
+            fullName={formData.fullName}
+            onClose={() => setShowRegistrationModal(false)}
+          />
         </motion.div>
       )}
     </>
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, RotateCcw, ScanLine } from 'lucide-react';
+import { lookupThesisByBarcode, type BarcodeThesis } from '@/lib/thesis-barcode';
+import { returnThesisByScan, type ReturningPatron } from '@/lib/reading-sessions';
+import { useToast } from '@/hooks/use-toast';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import CameraBarcodeScanner from './CameraBarcodeScanner';
+
+interface ThesisBarcodeInputProps {
+  /** The current thesis title, so a later edit clears the scan result. */
+  thesisTitle: string;
+  onResolve: (thesis: BarcodeThesis) => void;
+  /** Who is filling in the form; only their own check-out can be returned. */
+  patron: ReturningPatron;
+  /** Called after a re-scanned thesis that was still out is returned. */
+  onReturned?: (thesis: BarcodeThesis) => void;
+  /** Only the visible form should pick up scans made while no field has focus. */
+  listenForScans?: boolean;
+}
+
+type LookupState =
+  | { status: 'idle' }
+  | { status: 'looking' }
+  | { status: 'found'; thesis: BarcodeThesis }
+  | { status: 'choose'; theses: BarcodeThesis[] }
+  | { status: 'error'; message: string };
+
+const ThesisBarcodeInput: React.FC<ThesisBarcodeInputProps> = ({ thesisTitle, patron, onResolve, onReturned, listenForScans = true }) => {
+  const [barcode, setBarcode] = useState('');
+  const [lookup, setLookup] = useState<LookupState>({ status: 'idle' });
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isReturning, setIsReturning] = useState(false);
+  const { toast } = useToast();
+
+  // Typing a different title (or the form resetting) drops the scanned thesis
+  useEffect(() => {
+    if (lookup.status === 'found' && lookup.thesis.thesis_title !== thesisTitle) {
+      setLookup({ status: 'idle' });
+      setBarcode('');
+    }
+  }, [thesisTitle, lookup]);
+
+  const selectThesis = (thesis: BarcodeThesis) => {
+    setLookup({ status: 'found', thesis });
+    onResolve(thesis);
+  };
+
+  const resolveBarcode = async (code: string) => {
+    const trimmed = code.trim();
+    setBarcode(trimmed);
+    if (!trimmed) return;
+
+    setLookup({ status: 'looking' });
+    try {
+      const result = await lookupThesisByBarcode(trimmed);
+      if (result.status === 'found') {
+        if (result.theses.length === 1) {
+          selectThesis(result.theses[0]);
+        } else {
+          setLookup({ status: 'choose', theses: result.theses });
+        }
+      } else if (result.status === 'deleted') {
+        setLookup({ status: 'error', message: `Barcode ${trimmed} belongs to a thesis that is no longer in the collection` });
+      } else {
+        setLookup({ status: 'error', message: `No thesis found with barcode ${trimmed}` });
+      }
+    } catch (error) {
+      setLookup({ status: 'error', message: 'Error looking up the barcode. Please try again.' });
+    }
+  };
+
+  const handleReturn = async (thesis: BarcodeThesis) => {
+    if (!patron.fullName.trim()) {
+      toast({ title: 'Name Required', description: 'Enter the name you checked the thesis out under, then return it.', variant: 'destructive' });
+      return;
+    }
+
+    setIsReturning(true);
+    try {
+      const returned = await returnThesisByScan(thesis.id, patron, thesis.barcode);
+      if (returned === 0) {
+        toast({
+          title: 'Not Returned',
+          description: 'This thesis is not checked out under your details. Please ask the library staff.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({ title: 'Thesis Returned', description: `"${thesis.thesis_title}" has been returned. Thank you!` });
+      setLookup({
+        status: 'found',
+        thesis: { ...thesis, checked_out_at: null, availability: thesis.availability === 'in_use' ? 'available' : thesis.availability },
+      });
+      onReturned?.(thesis);
+    } catch (error) {
+      toast({ title: 'Return Failed', description: 'Could not return the thesis. Please ask the library staff.', variant: 'destructive' });
+    } finally {
+      setIsReturning(false);
+    }
+  };
+
+  useBarcodeScanner(resolveBarcode, { enabled: listenForScans && !isCameraOpen });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Scanners end with Enter; resolve instead of submitting the form
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      resolveBarcode(barcode);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <ScanLine className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            value={barcode}
+            onChange={(e) => {
+              setBarcode(e.target.value);
+              if (lookup.status === 'error' || lookup.status === 'choose') setLookup({ status: 'idle' });
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => barcode.trim() && lookup.status === 'idle' && resolveBarcode(barcode)}
+            placeholder="Scan or type the barcode"
+            className={`input-field pl-10 ${lookup.status === 'error' ? 'border-red-400' : lookup.status === 'found' ? 'border-green-400' : ''}`}
+            autoComplete="off"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsCameraOpen(true)}
+          className="px-3 border-2 border-gray-200 rounded-lg text-gray-600 hover:bg-gray-50"
+          title="Scan with camera"
+          aria-label="Scan with camera"
+        >
+          <Camera size={18} />
+        </button>
+      </div>
+
+      {lookup.status === 'looking' && <p className="text-xs text-gray-500">Looking up barcode...</p>}
+      {lookup.status === 'found' && (
+        <p className="text-xs text-green-600">
+          ✓ {lookup.thesis.barcode}: {lookup.thesis.thesis_title}
+          {lookup.thesis.location && <span className="text-gray-500"> • {lookup.thesis.location}</span>}
+        </p>
+      )}
+      {lookup.status === 'found' && lookup.thesis.checked_out_at && (
+        <div className="flex items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          <p className="text-xs text-amber-800">
+            This thesis has been out since{' '}
+            {new Date(lookup.thesis.checked_out_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true })}.
+            Returning it?
+          </p>
+          <button
+            type="button"
+            onClick={() => handleReturn(lookup.thesis)}
+            disabled={isReturning}
+            className="flex items-center space-x-1 px-2 py-1 text-xs font-medium bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50 shrink-0"
+          >
+            <RotateCcw size={12} />
+            <span>{isReturning ? 'Returning...' : 'Return Thesis'}</span>
+          </button>
+        </div>
+      )}
+      {lookup.status === 'error' && <p className="text-xs text-red-600">⚠ {lookup.message}</p>}
+      {lookup.status === 'choose' && (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          <p className="px-3 py-2 text-xs text-gray-600">This barcode is used in more than one department. Select your thesis:</p>
+          {lookup.theses.map((thesis) => (
+            <button
+              key={thesis.id}
+              type="button"
+              onClick={() => selectThesis(thesis)}
+              className="w-full px-3 py-2 text-left hover:bg-gray-50"
+            >
+              <div className="text-sm font-medium text-gray-900">{thesis.thesis_title}</div>
+              <div className="text-xs text-gray-500">{thesis.department} • {thesis.publication_year}</div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <CameraBarcodeScanner
+        isOpen={isCameraOpen}
+        onClose={() => setIsCameraOpen(false)}
+        onDetected={(code) => {
+          setIsCameraOpen(false);
+          resolveBarcode(code);
+        }}
+      />
+    </div>
+  );
+};
+
+export default ThesisBarcodeInput;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ATTACHMENT_KIND_LABELS,
+  canDownloadFiles,
+  getAbstractPageUrl,
+  openThesisFile,
+  type FileViewer,
+  type ThesisAttachment,
+} from '@/lib/thesis-attachments';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ThesisFileViewerProps {
+  attachment: ThesisAttachment | null;
+  thesisTitle: string;
+  viewer: FileViewer | null;
+  onClose: () => void;
+}
+
+/**
+ * In-app PDF viewer. The viewer's identity is tiled over the page so a
+ * screenshot or photo of the screen shows who opened it. Staff links come
+ * from the server, which logs the access first and only signs downloads for
+ * admins.
+ */
+const ThesisFileViewer: React.FC<ThesisFileViewerProps> = ({ attachment, thesisTitle, viewer, onClose }) => {
+  const { toast } = useToast();
+  const [url, setUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [openedAt, setOpenedAt] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!attachment) return;
+    let cancelled = false;
+    setUrl(null);
+    setLoadError(false);
+    setOpenedAt(new Date());
+
+    // Staff views are logged by the server; visitors only reach abstract pages
+    (viewer ? openThesisFile(attachment.id, 'VIEW') : getAbstractPageUrl(attachment))
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, viewer]);
+
+  const handleDownload = async () => {
+    if (!attachment) return;
+    setIsDownloading(true);
+    try {
+      const downloadUrl = await openThesisFile(attachment.id, 'DOWNLOAD');
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.click();
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to download the file.", variant: "destructive" });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const watermark = viewer
+    ? `${viewer.name} · ${viewer.email} · ${openedAt.toLocaleString()}`
+    : `LPU Batangas SLRC · ${openedAt.toLocaleDateString()}`;
+  // Hide the browser's PDF toolbar (save, print) for everyone who may not download
+  const viewerUrl = url && (canDownloadFiles(viewer) ? url : `${url}#toolbar=0&navpanes=0`);
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[960px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            {attachment ? ATTACHMENT_KIND_LABELS[attachment.kind] : ''}
+          </DialogTitle>
+          <DialogDescription>{thesisTitle}</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative h-[70vh] border border-gray-200 rounded-lg overflow-hidden bg-gray-100">
+          {loadError ? (
+            <div className="h-full flex items-center justify-center text-red-600 text-sm">
+              Unable to open this file right now.
+            </div>
+          ) : !viewerUrl ? (
+            <div className="h-full flex items-center justify-center">
+              <LoadingSpinner size={60} message="Opening file..." />
+            </div>
+          ) : (
+            <>
+              <iframe
+                src={viewerUrl}
+                title={attachment?.file_name}
+                className="w-full h-full"
+                onContextMenu={(e) => e.preventDefault()}
+              />
+              <div
+                className="absolute inset-0 pointer-events-none select-none overflow-hidden flex flex-wrap content-start gap-x-16 gap-y-20 p-8 opacity-20"
+                aria-hidden="true"
+              >
+                {Array.from({ length: 24 }, (_, index) => (
+                  <span key={index} className="text-sm font-semibold text-gray-700 whitespace-nowrap -rotate-[30deg]">
+                    {watermark}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span className="truncate">{attachment?.file_name}</span>
+          {canDownloadFiles(viewer) && (
+            <button
+              onClick={handleDownload}
+              className="btn-secondary flex items-center space-x-1"
+              disabled={isDownloading || !url}
+            >
+              <Download size={16} />
+              <span>{isDownloading ? 'Preparing...' : 'Download'}</span>
+            </button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ThesisFileViewer;
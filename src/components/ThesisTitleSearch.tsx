@@ -1,23 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Search } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { searchTheses, getSearchTerms, matchesTerms, splitByTerms, type ThesisSearchResult } from '@/lib/thesis-search';
+import { AVAILABILITY_LABELS, AVAILABILITY_STYLES } from '@/lib/thesis-availability';
+import { formatCopyCount } from '@/lib/thesis-copies';
 import loadingGif from './idqktRTTZZ_1759196704064.gif';
 
 interface ThesisTitleSearchProps {
   value: string;
   onChange: (value: string) => void;
-  onSelect?: (title: string) => void;
+  onSelect?: (thesis: ThesisSearchResult) => void;
   placeholder?: string;
   required?: boolean;
 }
 
-interface ThesisTitle {
-  id: number;
-  thesis_title: string;
-  authors: string[];
-  department: string;
-  publication_year: number;
-}
+type ThesisTitle = ThesisSearchResult;
+
+// Renders text with the parts matching the search terms emphasised
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {splitByTerms(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
 
 const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
   value,
@@ -48,43 +59,42 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
   }, []);
 
   useEffect(() => {
-    const searchTheses = async () => {
+    // Replies for an older query can arrive after newer ones; only the latest is shown
+    let cancelled = false;
+
+    const fetchSuggestions = async () => {
       if (!value || value.length < 2) {
         setSuggestions([]);
         setIsOpen(false);
+        setIsLoading(false);
         return;
       }
 
       setIsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('thesis_data')
-          .select('id, thesis_title, authors, department, publication_year')
-          .ilike('thesis_title', `%${value}%`)
-          .eq('is_deleted', false)
-          .order('thesis_title')
-          .limit(10);
-
-        if (error) {
-          console.error('Error searching theses:', error);
-          setSuggestions([]);
-        } else {
-          setSuggestions(data || []);
-          setIsOpen(true);
-          setHighlightedIndex(-1);
-        }
+        const results = await searchTheses(value, 10);
+        if (cancelled) return;
+        setSuggestions(results);
+        setIsOpen(true);
+        setHighlightedIndex(-1);
       } catch (error) {
+        if (cancelled) return;
         console.error('Error searching theses:', error);
         setSuggestions([]);
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
-    const debounceTimer = setTimeout(searchTheses, 300);
-    return () => clearTimeout(debounceTimer);
+    const debounceTimer = setTimeout(fetchSuggestions, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(debounceTimer);
+    };
   }, [value]);
 
+  const searchTerms = getSearchTerms(value);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     onChange(newValue);
@@ -95,7 +105,7 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
     setIsOpen(false);
     setHighlightedIndex(-1);
     if (onSelect) {
-      onSelect(thesis.thesis_title);
+      onSelect(thesis);
     }
   };
 
@@ -168,20 +178,53 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
               onClick={() => handleSelectSuggestion(thesis)}
               onMouseEnter={() => setHighlightedIndex(index)}
             >
-              <div className="font-medium text-gray-900 text-sm leading-tight">
-                {thesis.thesis_title}
+              <div className="flex items-start justify-between gap-2">
+                <div className="font-medium text-gray-900 text-sm leading-tight">
+                  <HighlightedText text={thesis.thesis_title} terms={searchTerms} />
+                </div>
+                {thesis.availability && thesis.availability !== 'available' && (
+                  <span className={`shrink-0 px-2 py-0.5 text-xs font-medium rounded-full ${AVAILABILITY_STYLES[thesis.availability]}`}>
+                    {AVAILABILITY_LABELS[thesis.availability]}
+                  </span>
+                )}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                <span className="font-medium">{thesis.department}</span>
+                <span className="font-medium">
+                  <HighlightedText text={thesis.department} terms={searchTerms} />
+                </span>
                 {thesis.authors && thesis.authors.length > 0 && (
                   <>
                     {' • '}
-                    <span>{thesis.authors.join(', ')}</span>
+                    <span>
+                      <HighlightedText text={thesis.authors.join(', ')} terms={searchTerms} />
+                    </span>
                   </>
                 )}
                 {' • '}
                 <span>{thesis.publication_year}</span>
+                {thesis.copy_count > 1 && (
+                  <>
+                    {' • '}
+                    <span>{formatCopyCount(thesis.copy_count)}</span>
+                  </>
+                )}
               </div>
+              {/* Explain matches that are not visible in the title or authors */}
+              {(thesis.keywords?.some(keyword => matchesTerms(keyword, searchTerms)) || matchesTerms(thesis.adviser, searchTerms)) && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {thesis.keywords?.some(keyword => matchesTerms(keyword, searchTerms)) && (
+                    <span>
+                      Keywords: <HighlightedText text={thesis.keywords.join(', ')} terms={searchTerms} />
+                    </span>
+                  )}
+                  {thesis.keywords?.some(keyword => matchesTerms(keyword, searchTerms)) && matchesTerms(thesis.adviser, searchTerms) && ' • '}
+                  {matchesTerms(thesis.adviser, searchTerms) && (
+                    <span>
+                      Adviser: <HighlightedText text={thesis.adviser} terms={searchTerms} />
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { ChevronDown, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AUDIT_LOG_PAGE_SIZE,
+  AUDIT_OPERATION_LABELS,
+  AUDIT_TABLE_LABELS,
+  AuditLogFilters,
+  AuditOperation,
+  AuditTable,
+  describeAuditRecord,
+  fetchAuditLog,
+  formatAuditField,
+} from '@/lib/audit-log';
+import AuditChangeList from './AuditChangeList';
+import LoadingSpinner from '../LoadingSpinner';
+
+const OPERATION_STYLES: Record<AuditOperation, string> = {
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+  VIEW: 'bg-gray-100 text-gray-800',
+  DOWNLOAD: 'bg-purple-100 text-purple-800',
+};
+
+const ActivityLog = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Filters live in the URL like the other admin tables
+  const tableParam = searchParams.get('table') as AuditTable;
+  const filters: AuditLogFilters = useMemo(() => ({
+    actorId: searchParams.get('user') || '',
+    table: tableParam in AUDIT_TABLE_LABELS ? tableParam : '',
+    dateFrom: searchParams.get('from') || '',
+    dateTo: searchParams.get('to') || '',
+  }), [searchParams, tableParam]);
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const hasFilters = Boolean(filters.actorId || filters.table || filters.dateFrom || filters.dateTo);
+
+  const updateParams = (changes: Record<string, string>, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('tab', 'activity');
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (resetPage) next.delete('page');
+      return next;
+    }, { replace: true });
+  };
+
+  const { data: logPage, isLoading, error } = useQuery({
+    queryKey: ['audit-log', filters, page],
+    queryFn: () => fetchAuditLog(filters, page),
+    placeholderData: keepPreviousData,
+  });
+
+  // Actors are stored by auth user id, which system_users.user_id matches
+  const { data: users = [] } = useQuery({
+    queryKey: ['audit-log', 'users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('system_users')
+        .select('user_id, name, email')
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const entries = logPage?.rows ?? [];
+  const totalCount = logPage?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalCount / AUDIT_LOG_PAGE_SIZE));
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * AUDIT_LOG_PAGE_SIZE + 1;
+  const lastRow = Math.min(page * AUDIT_LOG_PAGE_SIZE, totalCount);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">Activity Log</h2>
+        <p className="text-gray-600">Every change to theses, students, user records and system users</p>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+          <select
+            value={filters.actorId}
+            onChange={(e) => updateParams({ user: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          >
+            <option value="">All users</option>
+            {users.map(user => (
+              <option key={user.user_id} value={user.user_id}>{user.name || user.email}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Table</label>
+          <select
+            value={filters.table}
+            onChange={(e) => updateParams({ table: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          >
+            <option value="">All tables</option>
+            {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map(table => (
+              <option key={table} value={table}>{AUDIT_TABLE_LABELS[table]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.dateFrom}
+            max={filters.dateTo || undefined}
+            onChange={(e) => updateParams({ from: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.dateTo}
+            min={filters.dateFrom || undefined}
+            onChange={(e) => updateParams({ to: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          {hasFilters && (
+            <button
+              onClick={() => updateParams({ user: '', table: '', from: '', to: '' })}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <X size={16} />
+              <span>Clear Filters</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="py-12 flex justify-center">
+            <LoadingSpinner size={60} message="Loading activity..." />
+          </div>
+        ) : error ? (
+          <div className="py-12 text-center text-red-600">Failed to load the activity log.</div>
+        ) : entries.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">
+            {hasFilters ? 'No activity matches these filters.' : 'No activity recorded yet.'}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map(entry => {
+              const isExpanded = expandedId === entry.id;
+              return (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    {isExpanded
+                      ? <ChevronDown size={16} className="mt-1 text-gray-400 shrink-0" />
+                      : <ChevronRight size={16} className="mt-1 text-gray-400 shrink-0" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OPERATION_STYLES[entry.operation]}`}>
+                          {AUDIT_OPERATION_LABELS[entry.operation]}
+                        </span>
+                        <span className="text-gray-500">{AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name}</span>
+                        <span className="font-medium text-gray-900 truncate">{describeAuditRecord(entry)}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {entry.actor_name || entry.actor_email || 'System'} · {new Date(entry.changed_at).toLocaleString()}
+                        {entry.operation === 'UPDATE' && entry.changed_fields && (
+                          <> · {entry.changed_fields.map(formatAuditField).join(', ')}</>
+                        )}
+                      </p>
+                    </div>
+                  </button>
+                  {isExpanded && (
+                    <div className="px-11 pb-4">
+                      <AuditChangeList entry={entry} />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-gray-200 text-sm text-gray-700">
+          <span>
+            Showing {firstRow}-{lastRow} of {totalCount} changes
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => updateParams({ page: String(page - 1) }, false)}
+              disabled={page <= 1}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Previous page"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => updateParams({ page: String(page + 1) }, false)}
+              disabled={page >= totalPages}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Next page"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BarChart3, Users, FileText, Settings, Download, Filter, RefreshCw, GraduationCap } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { BarChart3, Users, FileText, Settings, Download, Filter, RefreshCw, GraduationCap, History, Clock, Tags } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { usePageVisibility } from '../../hooks/usePageVisibility';
 import { supabase } from '../../integrations/supabase/client';
@@ -8,19 +9,30 @@ import LoadingSpinner from '../LoadingSpinner';
 import RefreshBanner from '../RefreshBanner';
 import StatisticsTab from './StatisticsTab';
 import UserRecords from './UserRecords';
+import CurrentlyOut from './CurrentlyOut';
 import ThesisData from './ThesisData';
 import SystemUsers from './SystemUsers';
 import StudentData from './StudentData';
+import ActivityLog from './ActivityLog';
+import ReferenceData from './ReferenceData';
 import Sidebar from './Sidebar';
 
-type TabType = 'statistics' | 'records' | 'thesis' | 'students' | 'users';
+type TabType = 'statistics' | 'records' | 'out' | 'thesis' | 'students' | 'reference' | 'users' | 'activity';
+
+const TAB_IDS: TabType[] = ['statistics', 'records', 'out', 'thesis', 'students', 'reference', 'users', 'activity'];
 
 interface UserRole {
   role: 'Admin' | 'Viewer';
 }
 
 const AdminDashboard = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState<TabType>(() => {
+    // A shared link (?tab=thesis&...) wins over the tab restored after refresh
+    const linkedTab = searchParams.get('tab');
+    if (TAB_IDS.includes(linkedTab as TabType)) {
+      return linkedTab as TabType;
+    }
     // Restore active tab from sessionStorage after refresh
     const savedTab = sessionStorage.getItem('adminActiveTab');
     return (savedTab as TabType) || 'statistics';
@@ -116,9 +128,12 @@ const AdminDashboard = () => {
   const tabs = [
     { id: 'statistics' as TabType, label: 'Statistics', icon: BarChart3, requiredRole: null }, // Available to all
     { id: 'records' as TabType, label: 'User Records', icon: Users, requiredRole: null }, // Available to all
+    { id: 'out' as TabType, label: 'Currently Out', icon: Clock, requiredRole: null }, // Available to all
     { id: 'thesis' as TabType, label: 'Thesis Data', icon: FileText, requiredRole: 'Admin' }, // Admin only
     { id: 'students' as TabType, label: 'Student Data', icon: GraduationCap, requiredRole: 'Admin' }, // Admin only
+    { id: 'reference' as TabType, label: 'Reference Data', icon: Tags, requiredRole: 'Admin' }, // Admin only
     { id: 'users' as TabType, label: 'System Users', icon: Settings, requiredRole: 'Admin' }, // Admin only
+    { id: 'activity' as TabType, label: 'Activity Log', icon: History, requiredRole: 'Admin' }, // Admin only
   ];
 
   // Save active tab to sessionStorage whenever it changes
@@ -171,8 +186,9 @@ const AdminDashboard = () => {
         window.location.reload();
       }, 200);
     } else {
-      // Otherwise, just switch to the new tab
+      // Otherwise, just switch to the new tab and drop the previous tab's URL state
       setActiveTab(tabId);
+      setSearchParams({}, { replace: true });
     }
   };
 
@@ -211,12 +227,18 @@ const AdminDashboard = () => {
         return <StatisticsTab userRole={userRole} />;
       case 'records':
         return <UserRecords userRole={userRole} />;
+      case 'out':
+        return <CurrentlyOut userRole={userRole} />;
       case 'thesis':
         return <ThesisData />;
       case 'students':
         return <StudentData />;
+      case 'reference':
+        return <ReferenceData />;
       case 'users':
         return <SystemUsers />;
+      case 'activity':
+        return <ActivityLog />;
       default:
         return <StatisticsTab userRole={userRole} />;
     }
@@ -0,0 +1,43 @@
+import React from 'react';
+import {
+  AuditLogEntry,
+  formatAuditField,
+  formatAuditValue,
+  getFieldChanges,
+} from '@/lib/audit-log';
+
+interface AuditChangeListProps {
+  entry: AuditLogEntry;
+}
+
+// Created and deleted records show their snapshot; updates show before → after
+const AuditChangeList: React.FC<AuditChangeListProps> = ({ entry }) => {
+  const changes = getFieldChanges(entry);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No field details recorded.</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[minmax(0,10rem)_minmax(0,1fr)] gap-x-3 gap-y-1 text-xs">
+      {changes.map(({ field, before, after }) => (
+        <React.Fragment key={field}>
+          <dt className="font-medium text-gray-600 truncate" title={field}>{formatAuditField(field)}</dt>
+          <dd className="text-gray-800 break-words">
+            {entry.operation === 'UPDATE' ? (
+              <>
+                <span className="line-through text-red-600">{formatAuditValue(before)}</span>
+                <span className="mx-1 text-gray-400">→</span>
+                <span className="text-green-700">{formatAuditValue(after)}</span>
+              </>
+            ) : (
+              formatAuditValue(entry.operation === 'DELETE' ? before : after)
+            )}
+          </dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
+
+export default AuditChangeList;
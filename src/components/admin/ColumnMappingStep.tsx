@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { ArrowRight, Plus, Save, Trash2, Wand2, X } from 'lucide-react';
+import {
+  ColumnMapping,
+  ColumnMappingPreset,
+  ImportFieldSpec,
+  applyMappingPreset,
+  deleteMappingPreset,
+  getMissingRequiredFields,
+  loadMappingPresets,
+  saveMappingPreset,
+  suggestColumnMapping,
+} from '@/lib/column-mapping';
+
+interface ColumnMappingStepProps<F extends string> {
+  /** Presets are stored per importer */
+  importer: string;
+  fields: ImportFieldSpec<F>[];
+  headers: string[];
+  /** First data rows, shown as examples next to each mapped field */
+  sampleRows: string[][];
+  mapping: ColumnMapping<F>;
+  onChange: (mapping: ColumnMapping<F>) => void;
+  onContinue: () => void;
+}
+
+const UNMAPPED = '';
+
+const ColumnMappingStep = <F extends string>({
+  importer,
+  fields,
+  headers,
+  sampleRows,
+  mapping,
+  onChange,
+  onContinue
+}: ColumnMappingStepProps<F>) => {
+  const [presets, setPresets] = useState<ColumnMappingPreset[]>(() => loadMappingPresets(importer));
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  const missingFields = getMissingRequiredFields(mapping, fields);
+  const columnLabel = (index: number) => headers[index]?.trim() || `Column ${index + 1}`;
+
+  const fieldUsingColumn = (index: number) =>
+    fields.find(field => mapping[field.key].includes(index));
+
+  // A source column feeds at most one field, so picking it elsewhere moves it
+  const setFieldColumns = (key: F, columns: number[]) => {
+    const next = { ...mapping };
+    fields.forEach(field => {
+      next[field.key] = field.key === key
+        ? columns
+        : mapping[field.key].filter(index => !columns.includes(index));
+    });
+    onChange(next);
+  };
+
+  const handleColumnChange = (field: ImportFieldSpec<F>, position: number, value: string) => {
+    const current = mapping[field.key];
+    if (value === UNMAPPED) {
+      setFieldColumns(field.key, current.filter((_, i) => i !== position));
+      return;
+    }
+    const index = Number(value);
+    const columns = [...current];
+    columns[position] = index;
+    setFieldColumns(field.key, Array.from(new Set(columns)));
+  };
+
+  const handleApplyPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (preset) {
+      onChange(applyMappingPreset(preset, headers, fields));
+      setPresetName(preset.name);
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    try {
+      setPresets(saveMappingPreset(importer, presetName, headers, mapping));
+      setSelectedPreset(presetName.trim());
+    } catch (error) {
+      console.error('Error saving column mapping:', error);
+    }
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset) return;
+    setPresets(deleteMappingPreset(importer, selectedPreset));
+    setSelectedPreset('');
+  };
+
+  const sampleValue = (columns: number[]) =>
+    sampleRows
+      .map(row => columns.map(index => row[index]?.trim()).filter(Boolean).join(', '))
+      .find(Boolean) || '';
+
+  const renderColumnSelect = (field: ImportFieldSpec<F>, position: number, value: number | undefined) => (
+    <select
+      value={value === undefined ? UNMAPPED : String(value)}
+      onChange={(e) => handleColumnChange(field, position, e.target.value)}
+      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+    >
+      <option value={UNMAPPED}>— Not mapped —</option>
+      {headers.map((_, index) => {
+        const usedBy = fieldUsingColumn(index);
+        return (
+          <option key={index} value={index}>
+            {columnLabel(index)}
+            {usedBy && usedBy.key !== field.key ? ` (mapped to ${usedBy.label})` : ''}
+          </option>
+        );
+      })}
+    </select>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden text-left">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-4 py-3 bg-gray-50 border-b border-gray-200 text-sm">
+        <div>
+          <h4 className="font-semibold text-gray-800">Map Columns</h4>
+          <p className="text-xs text-gray-500">Choose which column of the file fills each field.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedPreset}
+            onChange={(e) => handleApplyPreset(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          >
+            <option value="">{presets.length === 0 ? 'No saved presets' : 'Load preset...'}</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+          {selectedPreset && (
+            <button
+              onClick={handleDeletePreset}
+              className="p-2 text-gray-500 hover:text-red-600"
+              title="Delete preset"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setSelectedPreset('');
+              onChange(suggestColumnMapping(headers, fields));
+            }}
+            className="flex items-center space-x-1 px-3 py-2 text-gray-700 hover:text-red-600"
+            title="Suggest columns from the file's headers"
+          >
+            <Wand2 size={16} />
+            <span>Auto-detect</span>
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="bg-white border-b border-gray-200">
+          <tr>
+            <th className="text-left font-medium text-gray-700 px-4 py-2 w-1/4">Field</th>
+            <th className="text-left font-medium text-gray-700 px-4 py-2">Source column</th>
+            <th className="text-left font-medium text-gray-700 px-4 py-2 w-1/3">Example</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => {
+            const columns = mapping[field.key];
+            const isMissing = field.required && columns.length === 0;
+            return (
+              <tr key={field.key} className="border-b border-gray-100 last:border-0 align-top">
+                <td className="px-4 py-3">
+                  <span className="font-medium text-gray-900">{field.label}</span>
+                  {field.required && <span className="text-red-600"> *</span>}
+                  {isMissing && <p className="text-xs text-red-600 mt-1">Required</p>}
+                </td>
+                <td className="px-4 py-3 space-y-2">
+                  {(columns.length > 0 ? columns : [undefined]).map((value, position) => (
+                    <div key={position} className="flex items-center space-x-2">
+                      {renderColumnSelect(field, position, value)}
+                      {field.multiple && columns.length > 1 && (
+                        <button
+                          onClick={() => setFieldColumns(field.key, columns.filter((_, i) => i !== position))}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove column"
+                        >
+                          <X size={16} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {field.multiple && columns.length > 0 && columns.length < headers.length && (
+                    <button
+                      onClick={() => {
+                        const next = headers.findIndex((_, index) => !fieldUsingColumn(index));
+                        if (next !== -1) setFieldColumns(field.key, [...columns, next]);
+                      }}
+                      className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-800 font-medium"
+                    >
+                      <Plus size={14} />
+                      <span>Add another column</span>
+                    </button>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-600 break-words">
+                  {sampleValue(columns) || <span className="text-gray-400">—</span>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-4 py-3 bg-gray-50 border-t border-gray-200 text-sm">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save size={16} />
+            <span>Save Mapping</span>
+          </button>
+        </div>
+        <button
+          onClick={onContinue}
+          disabled={missingFields.length > 0}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          title={missingFields.length > 0 ? `Map ${missingFields.map(f => f.label).join(', ')} first` : undefined}
+        >
+          <span>Continue to Preview</span>
+          <ArrowRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
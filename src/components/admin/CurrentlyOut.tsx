@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Clock, ListOrdered, RotateCcw, Save } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAppSetting, saveAppSetting } from '@/lib/app-settings';
+import {
+  DEFAULT_OVERDUE_MINUTES,
+  OVERDUE_SETTING,
+  fetchOpenSessions,
+  formatElapsed,
+  getElapsedMinutes,
+  returnSessions,
+} from '@/lib/reading-sessions';
+import { DEFAULT_HOLD_MINUTES, HOLD_SETTING } from '@/lib/thesis-reservations';
+import LoadingSpinner from '../LoadingSpinner';
+import ReservationQueue from './ReservationQueue';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface CurrentlyOutProps {
+  userRole: 'Admin' | 'Viewer';
+}
+
+const CurrentlyOut: React.FC<CurrentlyOutProps> = ({ userRole }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [holdInput, setHoldInput] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const isAdmin = userRole === 'Admin';
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: overdueMinutes = DEFAULT_OVERDUE_MINUTES } = useQuery({
+    queryKey: ['app-settings', OVERDUE_SETTING],
+    queryFn: () => fetchAppSetting<number>(OVERDUE_SETTING, DEFAULT_OVERDUE_MINUTES),
+  });
+
+  useEffect(() => {
+    setThresholdInput(String(overdueMinutes));
+  }, [overdueMinutes]);
+
+  const { data: holdMinutes = DEFAULT_HOLD_MINUTES } = useQuery({
+    queryKey: ['app-settings', HOLD_SETTING],
+    queryFn: () => fetchAppSetting<number>(HOLD_SETTING, DEFAULT_HOLD_MINUTES),
+    enabled: isAdmin,
+  });
+
+  useEffect(() => {
+    setHoldInput(String(holdMinutes));
+  }, [holdMinutes]);
+
+  // Check-outs and re-scan returns happen at the kiosk, so keep polling
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['thesis-submissions', 'open-sessions'],
+    queryFn: fetchOpenSessions,
+    refetchInterval: 60000,
+  });
+
+  // Tick the elapsed times between refetches
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Drop selections for sessions that were returned elsewhere
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => sessions.some(session => session.id === id)));
+  }, [sessions]);
+
+  const isOverdue = (submissionDate: string) =>
+    overdueMinutes > 0 && getElapsedMinutes(submissionDate, now) >= overdueMinutes;
+  const overdueCount = sessions.filter(session => isOverdue(session.submission_date)).length;
+  const allSelected = sessions.length > 0 && sessions.every(session => selectedIds.includes(session.id));
+
+  const handleReturn = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+      await returnSessions(ids);
+      toast({
+        title: "Returned",
+        description: `${ids.length} thesis(es) marked as returned.`,
+      });
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ['thesis-submissions'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark the thesis as returned.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    const minutes = parseInt(thresholdInput, 10);
+    if (Number.isNaN(minutes) || minutes < 0) {
+      toast({
+        title: "Invalid Value",
+        description: "Enter a number of minutes, or 0 to never flag theses as overdue.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveAppSetting(OVERDUE_SETTING, minutes);
+      queryClient.invalidateQueries({ queryKey: ['app-settings', OVERDUE_SETTING] });
+      toast({
+        title: "Saved",
+        description: minutes > 0
+          ? `Theses out longer than ${formatElapsed(minutes)} will be flagged as overdue.`
+          : 'Theses will no longer be flagged as overdue.',
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the overdue threshold.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveHold = async () => {
+    const minutes = parseInt(holdInput, 10);
+    if (Number.isNaN(minutes) || minutes < 1) {
+      toast({
+        title: "Invalid Value",
+        description: "Enter how many minutes a returned thesis is held for the next student.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveAppSetting(HOLD_SETTING, minutes);
+      queryClient.invalidateQueries({ queryKey: ['app-settings', HOLD_SETTING] });
+      toast({
+        title: "Saved",
+        description: `Returned theses will be held for ${formatElapsed(minutes)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the hold time.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? sessions.map(session => session.id) : []);
+  };
+
+  const handleSelect = (id: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(selected => selected !== id)));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary and overdue threshold */}
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="flex items-center gap-6">
+          <div className="flex items-center space-x-2">
+            <Clock className="h-5 w-5 text-gray-500" />
+            <span className="text-sm text-gray-700">
+              <span className="font-semibold text-gray-900">{sessions.length}</span> thesis(es) out
+            </span>
+          </div>
+          {overdueCount > 0 && (
+            <div className="flex items-center space-x-2 text-red-700">
+              <AlertTriangle className="h-5 w-5" />
+              <span className="text-sm font-medium">{overdueCount} overdue</span>
+            </div>
+          )}
+        </div>
+        {isAdmin ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Overdue after</span>
+              <input
+                type="number"
+                min="0"
+                value={thresholdInput}
+                onChange={(e) => setThresholdInput(e.target.value)}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+              <span>minutes</span>
+            </label>
+            <button
+              onClick={handleSaveThreshold}
+              disabled={thresholdInput === String(overdueMinutes)}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="0 never flags theses as overdue"
+            >
+              <Save size={16} />
+              <span>Save</span>
+            </button>
+          </div>
+        ) : overdueMinutes > 0 && (
+          <span className="text-sm text-gray-500">Overdue after {formatElapsed(overdueMinutes)}</span>
+        )}
+      </div>
+
+      {isAdmin && selectedIds.length > 0 && (
+        <div className="flex items-center justify-between bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+          <span className="text-sm text-red-800 font-medium">
+            {selectedIds.length} session(s) selected
+          </span>
+          <button
+            onClick={() => handleReturn(selectedIds)}
+            disabled={isWorking}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <RotateCcw size={16} />
+            <span>Return Selected</span>
+          </button>
+        </div>
+      )}
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="py-12 flex justify-center">
+            <LoadingSpinner size={60} message="Loading sessions..." />
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">Every thesis has been returned.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isAdmin && (
+                  <TableHead className="w-10">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={(e) => handleSelectAll(e.target.checked)}
+                      className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Thesis</TableHead>
+                <TableHead>Borrower</TableHead>
+                <TableHead>Checked Out</TableHead>
+                <TableHead>Elapsed</TableHead>
+                {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map(session => {
+                const overdue = isOverdue(session.submission_date);
+                return (
+                  <TableRow key={session.id} className={overdue ? 'bg-red-50' : undefined}>
+                    {isAdmin && (
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(session.id)}
+                          onChange={(e) => handleSelect(session.id, e.target.checked)}
+                          className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                          aria-label={`Select ${session.full_name}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="font-medium text-gray-900">{session.thesis_title}</div>
+                      {session.thesis_barcode && (
+                        <div className="text-xs text-gray-500 font-mono">{session.thesis_barcode}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-gray-900">{session.full_name}</div>
+                      <div className="text-xs text-gray-500">
+                        {session.user_type === 'LPU Student'
+                          ? `${session.student_number || 'No student number'} • ${session.campus}`
+                          : session.school || session.user_type}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {new Date(session.submission_date).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <span className={`text-sm font-medium ${overdue ? 'text-red-700' : 'text-gray-900'}`}>
+                        {formatElapsed(getElapsedMinutes(session.submission_date, now))}
+                      </span>
+                      {overdue && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                          Overdue
+                        </span>
+                      )}
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => handleReturn([session.id])}
+                            disabled={isWorking}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                            title="Mark as returned"
+                          >
+                            <RotateCcw size={16} />
+                          </button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {isAdmin && (
+        <div className="space-y-4">
+          <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <ListOrdered className="h-5 w-5 text-gray-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Reservations</h3>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>Hold returned theses for</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={holdInput}
+                  onChange={(e) => setHoldInput(e.target.value)}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+                <span>minutes</span>
+              </label>
+              <button
+                onClick={handleSaveHold}
+                disabled={holdInput === String(holdMinutes)}
+                className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save size={16} />
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <ReservationQueue />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurrentlyOut;
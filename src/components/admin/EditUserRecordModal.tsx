@@ -17,6 +17,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import ThesisTitleSearch from '../ThesisTitleSearch';
+import RecordHistoryPanel from './RecordHistoryPanel';
 
 interface ThesisSubmission {
   id: string;
@@ -266,6 +267,8 @@ const EditUserRecordModal: React.FC<EditUserRecordModalProps> = ({
             />
           </div>
 
+          <RecordHistoryPanel table="thesis_submissions" recordId={record.id} />
+
           <DialogFooter className="flex gap-2">
             <button
               type="button"
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, MinusCircle, Download } from 'lucide-react';
+import {
+  ImportColumn,
+  ImportIssue,
+  ImportRowStatus,
+  StagedRow,
+  getRowStatus,
+} from '@/lib/import-validation';
+
+interface ImportPreviewGridProps<F extends string> {
+  columns: ImportColumn<F>[];
+  rows: StagedRow<F>[];
+  issuesByRow: Record<number, ImportIssue[]>;
+  onFieldChange: (rowId: number, field: F, value: string) => void;
+  onToggleExclude: (rowId: number) => void;
+  onDownloadRejected: () => void;
+  /** Optional extra content shown under a cell's input, e.g. parsed values */
+  renderHint?: (row: StagedRow<F>, field: F) => React.ReactNode;
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; icon: React.ElementType; className: string }> = {
+  valid: { label: 'Valid', icon: CheckCircle, className: 'text-green-600' },
+  warning: { label: 'Warning', icon: AlertTriangle, className: 'text-yellow-600' },
+  error: { label: 'Error', icon: XCircle, className: 'text-red-600' },
+  excluded: { label: 'Excluded', icon: MinusCircle, className: 'text-gray-400' },
+};
+
+const ImportPreviewGrid = <F extends string>({
+  columns,
+  rows,
+  issuesByRow,
+  onFieldChange,
+  onToggleExclude,
+  onDownloadRejected,
+  renderHint
+}: ImportPreviewGridProps<F>) => {
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  const statuses = rows.map(row => getRowStatus(row, issuesByRow[row.id]));
+  const counts = statuses.reduce(
+    (acc, status) => ({ ...acc, [status]: acc[status] + 1 }),
+    { valid: 0, warning: 0, error: 0, excluded: 0 } as Record<ImportRowStatus, number>
+  );
+  const rejectedCount = counts.error + counts.excluded;
+
+  const visibleRows = problemsOnly
+    ? rows.filter((_, index) => statuses[index] !== 'valid')
+    : rows;
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden text-left">
+      {/* Summary */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-4 py-3 bg-gray-50 border-b border-gray-200 text-sm">
+        <div className="flex flex-wrap items-center gap-4">
+          {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map(status => {
+            const { label, icon: Icon, className } = STATUS_STYLES[status];
+            return (
+              <span key={status} className={`flex items-center space-x-1 ${className}`}>
+                <Icon size={14} />
+                <span>{counts[status]} {label}</span>
+              </span>
+            );
+          })}
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center space-x-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={problemsOnly}
+              onChange={(e) => setProblemsOnly(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+            />
+            <span>Show problems only</span>
+          </label>
+          <button
+            onClick={onDownloadRejected}
+            disabled={rejectedCount === 0}
+            className="flex items-center space-x-1 text-red-600 hover:text-red-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={14} />
+            <span>Rejected rows ({rejectedCount})</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Rows */}
+      <div className="overflow-auto max-h-[28rem]">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr className="text-left text-gray-600">
+              <th className="px-3 py-2 font-medium w-16">Row</th>
+              <th className="px-3 py-2 font-medium w-24">Status</th>
+              {columns.map(column => (
+                <th key={column.key} className="px-3 py-2 font-medium">{column.label}</th>
+              ))}
+              <th className="px-3 py-2 font-medium">Issues</th>
+              <th className="px-3 py-2 font-medium w-20">Include</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visibleRows.map(row => {
+              const issues = issuesByRow[row.id] || [];
+              const status = getRowStatus(row, issues);
+              const { label, icon: Icon, className } = STATUS_STYLES[status];
+
+              return (
+                <tr key={row.id} className={row.excluded ? 'bg-gray-50 opacity-60' : status === 'error' ? 'bg-red-50/40' : ''}>
+                  <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                  <td className="px-3 py-2">
+                    <span className={`flex items-center space-x-1 ${className}`}>
+                      <Icon size={14} />
+                      <span>{label}</span>
+                    </span>
+                  </td>
+                  {columns.map(column => (
+                    <td key={column.key} className="px-3 py-2 align-top min-w-[8rem]">
+                      <input
+                        type="text"
+                        value={row.fields[column.key]}
+                        onChange={(e) => onFieldChange(row.id, column.key, e.target.value)}
+                        disabled={row.excluded}
+                        className="w-full px-2 py-1 border border-gray-200 rounded focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:bg-transparent"
+                        aria-label={`${column.label} for row ${row.rowNumber}`}
+                      />
+                      {renderHint?.(row, column.key)}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 align-top">
+                    {issues.length > 0 && (
+                      <ul className="space-y-0.5">
+                        {issues.map((issue, index) => (
+                          <li
+                            key={index}
+                            className={issue.level === 'error' ? 'text-red-600' : 'text-yellow-700'}
+                          >
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    <input
+                      type="checkbox"
+                      checked={!row.excluded}
+                      onChange={() => onToggleExclude(row.id)}
+                      className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500 cursor-pointer"
+                      aria-label={`Include row ${row.rowNumber}`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={columns.length + 4} className="px-3 py-6 text-center text-gray-500">
+                  No rows to show.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewGrid;
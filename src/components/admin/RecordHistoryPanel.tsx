@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import {
+  AUDIT_OPERATION_LABELS,
+  AuditTable,
+  fetchRecordHistory,
+} from '@/lib/audit-log';
+import AuditChangeList from './AuditChangeList';
+
+interface RecordHistoryPanelProps {
+  table: AuditTable;
+  recordId: string | number | null | undefined;
+}
+
+/** Collapsible change history of one record, shown at the bottom of the edit modals. */
+const RecordHistoryPanel: React.FC<RecordHistoryPanelProps> = ({ table, recordId }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { data: entries = [], isLoading, error } = useQuery({
+    queryKey: ['audit-log', 'record', table, String(recordId)],
+    queryFn: () => fetchRecordHistory(table, recordId),
+    enabled: isExpanded && recordId !== null && recordId !== undefined,
+    staleTime: 0,
+  });
+
+  if (recordId === null || recordId === undefined) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span className="flex items-center space-x-2">
+          <History size={16} />
+          <span>History</span>
+        </span>
+        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-200 px-4 py-3 max-h-64 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">Failed to load history.</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes recorded yet.</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="space-y-1">
+                <p className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-800">{AUDIT_OPERATION_LABELS[entry.operation]}</span>
+                  {' by '}
+                  <span className="font-medium text-gray-800">{entry.actor_name || entry.actor_email || 'System'}</span>
+                  {' on '}
+                  {new Date(entry.changed_at).toLocaleString()}
+                </p>
+                <AuditChangeList entry={entry} />
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordHistoryPanel;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Shuffle } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import {
+  COLLEGE_LEVEL_LABELS,
+  VOCABULARY_KIND_LABELS,
+  VOCABULARY_KIND_OPTIONS,
+  saveVocabularyTerm,
+  vocabularyTerms,
+  type College,
+  type Program,
+  type VocabularyKind,
+  type VocabularyTerm,
+  type VocabularyTermInput,
+} from '@/lib/vocabulary';
+import VocabularyTermModal from './vocabulary/VocabularyTermModal';
+import VocabularyRemapPanel from './vocabulary/VocabularyRemapPanel';
+import LoadingSpinner from '../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type ReferenceView = VocabularyKind | 'remap';
+
+const ReferenceData = () => {
+  const [activeView, setActiveView] = useState<ReferenceView>('campus');
+  const [editing, setEditing] = useState<{ term: VocabularyTerm | null } | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { vocabulary, isLoading } = useVocabulary();
+
+  const kind = activeView === 'remap' ? null : activeView;
+  const terms = kind ? vocabularyTerms(vocabulary, kind) : [];
+  const collegeName = (id: number) => vocabulary.colleges.find(college => college.id === id)?.name ?? '—';
+
+  const handleSave = async (input: VocabularyTermInput) => {
+    if (!kind || !editing) return;
+    try {
+      await saveVocabularyTerm(kind, input, editing.term?.id);
+      toast({
+        title: editing.term ? "Saved" : "Added",
+        description: `${input.name.trim()} was ${editing.term ? 'updated' : 'added'}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['vocabulary'] });
+      setEditing(null);
+    } catch (error) {
+      const duplicate = (error as { code?: string })?.code === '23505';
+      toast({
+        title: "Error",
+        description: duplicate ? 'That name is already on the list.' : 'Failed to save the entry.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleActive = async (term: VocabularyTerm) => {
+    if (!kind) return;
+    try {
+      await saveVocabularyTerm(kind, { ...term, is_active: !term.is_active }, term.id);
+      queryClient.invalidateQueries({ queryKey: ['vocabulary'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to update the entry.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Reference Data</h2>
+          <p className="text-gray-600">Campuses, colleges and programs offered in forms, imports and filters</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {VOCABULARY_KIND_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setActiveView(option)}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${activeView === option
+                ? 'bg-red-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+            >
+              {VOCABULARY_KIND_LABELS[option]}
+            </button>
+          ))}
+          <button
+            onClick={() => setActiveView('remap')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 ${activeView === 'remap'
+              ? 'bg-red-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+          >
+            <Shuffle size={16} />
+            <span>Remap Values</span>
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <LoadingSpinner size={60} message="Loading reference data..." />
+        </div>
+      ) : activeView === 'remap' ? (
+        <VocabularyRemapPanel vocabulary={vocabulary} />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-gray-600">
+              Inactive entries are hidden from the forms but still match older records.
+            </p>
+            <button
+              onClick={() => setEditing({ term: null })}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <Plus size={16} />
+              <span>Add</span>
+            </button>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  {kind === 'college' && <TableHead>Level</TableHead>}
+                  {kind === 'program' && <TableHead>College</TableHead>}
+                  <TableHead>Aliases</TableHead>
+                  <TableHead className="w-20 text-right">Order</TableHead>
+                  <TableHead className="w-28">Status</TableHead>
+                  <TableHead className="w-16"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {terms.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={kind === 'campus' ? 5 : 6} className="text-center text-gray-500 py-8">
+                      Nothing on this list yet.
+                    </TableCell>
+                  </TableRow>
+                ) : terms.map(term => (
+                  <TableRow key={term.id} className={term.is_active ? '' : 'opacity-60'}>
+                    <TableCell className="font-medium">{term.name}</TableCell>
+                    {kind === 'college' && <TableCell>{COLLEGE_LEVEL_LABELS[(term as College).level]}</TableCell>}
+                    {kind === 'program' && <TableCell>{collegeName((term as Program).college_id)}</TableCell>}
+                    <TableCell className="text-sm text-gray-600">{term.aliases.join(', ') || '—'}</TableCell>
+                    <TableCell className="text-right">{term.sort_order}</TableCell>
+                    <TableCell>
+                      <button
+                        onClick={() => handleToggleActive(term)}
+                        className={`px-2 py-1 text-xs font-medium rounded-full ${term.is_active
+                          ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                          }`}
+                        title={term.is_active ? 'Mark inactive' : 'Mark active'}
+                      >
+                        {term.is_active ? 'Active' : 'Inactive'}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <button
+                        onClick={() => setEditing({ term })}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                        title="Edit"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {kind && (
+        <VocabularyTermModal
+          isOpen={!!editing}
+          kind={kind}
+          term={editing?.term ?? null}
+          colleges={vocabulary.colleges}
+          onClose={() => setEditing(null)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReferenceData;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { BookmarkCheck, CheckCircle, Clock, TimerReset, X } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchReservationQueue,
+  formatHoldExpiry,
+  manageReservation,
+  type QueuedReservation,
+  type ReservationAction,
+} from '@/lib/thesis-reservations';
+import LoadingSpinner from '../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface ReservationQueueProps {
+  /** Limits the queue to one thesis; every active reservation is listed otherwise. */
+  thesisId?: number;
+}
+
+const ACTION_MESSAGES: Record<ReservationAction, string> = {
+  hold: 'The thesis is now held for this student.',
+  extend: 'The hold has been restarted.',
+  fulfil: 'The reservation was marked as picked up.',
+  cancel: 'The reservation was cancelled.',
+};
+
+const ReservationQueue: React.FC<ReservationQueueProps> = ({ thesisId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reservations = [], isLoading } = useQuery({
+    queryKey: ['thesis-reservations', thesisId ?? 'all'],
+    queryFn: () => fetchReservationQueue(thesisId),
+    refetchInterval: 60000,
+  });
+
+  const handleAction = async (reservation: QueuedReservation, action: ReservationAction) => {
+    if (action === 'cancel') {
+      const confirmCancel = window.confirm(`Remove ${reservation.full_name} from the queue for "${reservation.thesis_title}"?`);
+      if (!confirmCancel) return;
+    }
+
+    try {
+      await manageReservation(reservation.id, action);
+      toast({
+        title: "Queue Updated",
+        description: ACTION_MESSAGES[action],
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || 'Failed to update the reservation.',
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['thesis-reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="py-12 flex justify-center">
+        <LoadingSpinner size={60} message="Loading reservations..." />
+      </div>
+    );
+  }
+
+  if (reservations.length === 0) {
+    return <div className="py-12 text-center text-gray-500">Nobody is waiting for {thesisId ? 'this thesis' : 'a thesis'}.</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          {!thesisId && <TableHead>Thesis</TableHead>}
+          <TableHead>Student</TableHead>
+          <TableHead>Reserved</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {reservations.map(reservation => (
+          <TableRow key={reservation.id}>
+            <TableCell className="text-sm font-medium">{reservation.queue_position}</TableCell>
+            {!thesisId && (
+              <TableCell>
+                <div className="font-medium text-gray-900">{reservation.thesis_title}</div>
+                <div className="text-xs text-gray-500 font-mono">{reservation.barcode}</div>
+              </TableCell>
+            )}
+            <TableCell>
+              <div className="text-sm text-gray-900">{reservation.full_name}</div>
+              <div className="text-xs text-gray-500">{reservation.student_no}</div>
+            </TableCell>
+            <TableCell className="text-sm whitespace-nowrap">
+              {new Date(reservation.created_at).toLocaleString()}
+            </TableCell>
+            <TableCell className="whitespace-nowrap">
+              {reservation.status === 'ready' ? (
+                <span className="inline-flex items-center space-x-1 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                  <BookmarkCheck size={12} />
+                  <span>Held until {formatHoldExpiry(reservation.hold_expires_at)}</span>
+                </span>
+              ) : (
+                <span className="inline-flex items-center space-x-1 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  <Clock size={12} />
+                  <span>Waiting</span>
+                </span>
+              )}
+            </TableCell>
+            <TableCell>
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => handleAction(reservation, reservation.status === 'ready' ? 'extend' : 'hold')}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                  title={reservation.status === 'ready' ? 'Restart the hold' : 'Hold for this student now'}
+                >
+                  {reservation.status === 'ready' ? <TimerReset size={16} /> : <BookmarkCheck size={16} />}
+                </button>
+                <button
+                  onClick={() => handleAction(reservation, 'fulfil')}
+                  className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                  title="Mark as picked up"
+                >
+                  <CheckCircle size={16} />
+                </button>
+                <button
+                  onClick={() => handleAction(reservation, 'cancel')}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  title="Cancel reservation"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ReservationQueue;
@@ -2,7 +2,7 @@ import React from 'react';
 import { BarChart3, Users, FileText, Settings, GraduationCap, RefreshCw } from 'lucide-react';
 import ClickSpark from '../ClickSpark';
 
-type TabType = 'statistics' | 'records' | 'thesis' | 'students' | 'users';
+type TabType = 'statistics' | 'records' | 'out' | 'thesis' | 'students' | 'reference' | 'users' | 'activity';
 
 interface Tab {
   id: TabType;
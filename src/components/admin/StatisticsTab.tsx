@@ -5,6 +5,8 @@ import { supabase } from '../../integrations/supabase/client';
 import ExportButton from './ExportButton';
 import LoadingSpinner from '../LoadingSpinner';
 import { useToast } from '@/hooks/use-toast';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import { expandTermValues, findTerm, type VocabularyTerm } from '@/lib/vocabulary';
 
 interface StatisticsTabProps {
   userRole?: 'Admin' | 'Viewer' | null;
@@ -78,6 +80,7 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
   const [exactDateFilter, setExactDateFilter] = useState<string>(''); // ISO date string
 
   const { toast } = useToast();
+  const { vocabulary } = useVocabulary();
 
   useEffect(() => {
     fetchStatistics();
@@ -100,7 +103,7 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
       setLoading(true);
 
       // Build date filter query
-      let query = supabase.from('thesis_submissions').select('*');
+      let query = supabase.from('thesis_submissions').select('*, thesis_data(thesis_title)');
 
       // Apply date filtering
       if (selectedYear !== 'all') {
@@ -125,11 +128,11 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
       }
 
       if (campusFilter.length > 0) {
-        query = query.in('campus', campusFilter);
+        query = query.in('campus', expandTermValues(vocabulary.campuses, campusFilter));
       }
 
       if (programFilter.length > 0) {
-        query = query.in('program', programFilter);
+        query = query.in('program', expandTermValues(vocabulary.programs, programFilter));
       }
 
       const { data: submissions, error: submissionsError } = await query;
@@ -188,16 +191,23 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
       // For custom date ranges, show all months in range; otherwise show last 6 months
       const monthlyData = (appliedDateRange.start || appliedDateRange.end) ? sortedMonthlyData : sortedMonthlyData.slice(-6);
 
-      // Calculate popular thesis titles (for PDF export)
+      // Calculate popular thesis titles (for PDF export). Submissions linked to the
+      // catalog are counted per thesis so differently typed titles add up;
+      // unlinked ones fall back to their title.
       const thesisTitleCount = submissions?.reduce((acc, submission) => {
-        if (submission.thesis_title) {
-          acc[submission.thesis_title] = (acc[submission.thesis_title] || 0) + 1;
+        const linkedTitle = submission.thesis_data?.thesis_title;
+        const key = submission.thesis_id
+          ? `thesis:${submission.thesis_id}`
+          : submission.thesis_title && `title:${submission.thesis_title.trim().toLowerCase()}`;
+        if (key) {
+          acc[key] = acc[key] || { name: linkedTitle || submission.thesis_title, count: 0 };
+          acc[key].count += 1;
         }
         return acc;
-      }, {} as Record<string, number>) || {};
+      }, {} as Record<string, { name: string; count: number }>) || {};
 
-      const popularPrograms = Object.entries(thesisTitleCount)
-        .map(([name, count]) => ({
+      const popularPrograms = Object.values(thesisTitleCount)
+        .map(({ name, count }) => ({
           name,
           count,
           percentage: Math.round((count / totalSubmissions) * 100)
@@ -258,11 +268,11 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
       }
 
       if (campusFilter.length > 0) {
-        feedbackQuery = feedbackQuery.in('thesis_submissions.campus', campusFilter);
+        feedbackQuery = feedbackQuery.in('thesis_submissions.campus', expandTermValues(vocabulary.campuses, campusFilter));
       }
 
       if (programFilter.length > 0) {
-        feedbackQuery = feedbackQuery.in('thesis_submissions.program', programFilter);
+        feedbackQuery = feedbackQuery.in('thesis_submissions.program', expandTermValues(vocabulary.programs, programFilter));
       }
 
       const { data: feedback, error: feedbackError } = await feedbackQuery;
@@ -457,19 +467,18 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
     }
   };
 
-  // Helper function to get unique campuses from submissions
-  const getAvailableCampuses = (): string[] => {
-    const campuses = new Set<string>();
-    stats.campusData.forEach(c => campuses.add(c.name));
-    return Array.from(campuses).sort();
+  // Filter options come from the reference lists; submission values that
+  // match no term are appended so they can still be filtered on
+  const withUnmatchedValues = (terms: VocabularyTerm[], used: string[]): string[] => {
+    const unmatched = used.filter(value => value && !findTerm(terms, value)).sort();
+    return Array.from(new Set([...terms.map(term => term.name), ...unmatched]));
   };
 
-  // Helper function to get unique programs from submissions
-  const getAvailablePrograms = (): string[] => {
-    const programs = new Set<string>();
-    stats.programsByDegree.forEach(p => programs.add(p.name));
-    return Array.from(programs).sort();
-  };
+  const getAvailableCampuses = (): string[] =>
+    withUnmatchedValues(vocabulary.campuses, stats.campusData.map(c => c.name));
+
+  const getAvailablePrograms = (): string[] =>
+    withUnmatchedValues(vocabulary.programs, stats.programsByDegree.map(p => p.name));
 
   // Count active advanced filters
   const getActiveFilterCount = (): number => {
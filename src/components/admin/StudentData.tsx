@@ -1,13 +1,20 @@
 import React, { useMemo, useState } from 'react';
-import { Plus, Search, Upload, Filter, Trash2, Edit } from 'lucide-react';
+import { Plus, Search, Upload, Filter, Archive, Edit, UserPlus, UserCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import StudentCSVUploadSection from './student/CSVUploadSection';
 import StudentDataTable from './student/StudentDataTable';
 import EditStudentModal from './student/EditStudentModal';
-import DeleteStudentModal from './student/DeleteStudentModal';
+import ArchiveStudentModal from './student/ArchiveStudentModal';
+import ArchiveSchoolYearModal from './student/ArchiveSchoolYearModal';
+import StudentArchive from './student/StudentArchive';
+import StudentRegistrationQueue from './student/StudentRegistrationQueue';
+import StudentNameMatchReview from './student/StudentNameMatchReview';
 import AddStudentModal from './student/AddStudentModal';
+import { ARCHIVE_STATUSES, ARCHIVE_STATUS_LABELS } from '@/lib/student-status';
+import type { ArchivedStudentStatus, StudentStatus } from '@/lib/student-status';
+import type { RosterSyncSummary } from '@/lib/student-sync';
 
 
 export interface StudentRecord {
@@ -16,18 +23,21 @@ export interface StudentRecord {
   course_section: string; // e.g., BSIT-3A
   email: string;
   school_year: string; // e.g., 2024-2025
+  status?: StudentStatus;
+  archived_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
 const StudentData: React.FC = () => {
-  const [activeView, setActiveView] = useState<'upload' | 'manage'>('manage');
+  const [activeView, setActiveView] = useState<'upload' | 'manage' | 'archived' | 'requests' | 'names'>('manage');
   const [searchTerm, setSearchTerm] = useState('');
   const [courseFilter, setCourseFilter] = useState<string>('');
   const [yearFilter, setYearFilter] = useState<string>('');
   const [sortKey, setSortKey] = useState<keyof StudentRecord>('student_no');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
   const [selectedStudentIds, setSelectedStudentIds] = useState<string[]>([]);
+  const [bulkArchiveStatus, setBulkArchiveStatus] = useState<ArchivedStudentStatus>('deleted');
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -37,7 +47,7 @@ const StudentData: React.FC = () => {
     queryKey: ['student-data'],
     queryFn: async () => {
       const data = await queryWithAuth(
-        supabase.from('students').select('*').order('updated_at', { ascending: false }),
+        supabase.from('students').select('*').eq('status', 'active').order('updated_at', { ascending: false }),
         { showErrorToast: false }
       );
       return data || [];
@@ -87,6 +97,15 @@ const StudentData: React.FC = () => {
     setActiveView('manage');
   };
 
+  const handleSyncComplete = (summary: RosterSyncSummary) => {
+    toast({
+      title: 'Registrar Sync Complete',
+      description: `${summary.added} added, ${summary.updated + summary.reactivated} updated, ${summary.archived} archived.`,
+    });
+    queryClient.invalidateQueries({ queryKey: ['student-data'] });
+    setActiveView('manage');
+  };
+
   const handleUploadError = (message: string) => {
     toast({ title: 'Upload Failed', description: message, variant: 'destructive' });
   };
@@ -102,8 +121,9 @@ const StudentData: React.FC = () => {
 
   const [editing, setEditing] = useState<StudentRecord | null>(null);
   const [isEditOpen, setIsEditOpen] = useState(false);
-  const [deleting, setDeleting] = useState<StudentRecord | null>(null);
-  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [archiving, setArchiving] = useState<StudentRecord | null>(null);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isArchiveYearOpen, setIsArchiveYearOpen] = useState(false);
   const [isAddOpen, setIsAddOpen] = useState(false);
 
 
@@ -112,9 +132,9 @@ const StudentData: React.FC = () => {
     setIsEditOpen(true);
   };
 
-  const onDelete = (student: StudentRecord) => {
-    setDeleting(student);
-    setIsDeleteOpen(true);
+  const onArchive = (student: StudentRecord) => {
+    setArchiving(student);
+    setIsArchiveOpen(true);
   };
 
   const handleSaveEdit = async (updated: StudentRecord) => {
@@ -145,23 +165,45 @@ const StudentData: React.FC = () => {
     }
   };
 
-  const handleConfirmDelete = async () => {
-    if (!deleting) return;
+  // Students are archived rather than deleted so reading logs keep their link
+  const handleConfirmArchive = async (status: ArchivedStudentStatus) => {
+    if (!archiving) return;
 
     await mutateWithAuth(
-      supabase.from('students').delete().eq('student_no', deleting.student_no),
+      supabase.from('students').update({ status }).eq('student_no', archiving.student_no),
       {
         onError: (err) => {
-          console.error('Error deleting student:', err);
-          toast({ title: 'Error', description: 'Failed to delete student record.', variant: 'destructive' });
+          console.error('Error archiving student:', err);
+          toast({ title: 'Error', description: 'Failed to archive student record.', variant: 'destructive' });
           throw err; // Re-throw to let modal handle loading state
         },
       }
     );
 
-    toast({ title: 'Success', description: 'Student record deleted successfully.' });
+    toast({ title: 'Success', description: `Student record archived as ${ARCHIVE_STATUS_LABELS[status].toLowerCase()}.` });
+    queryClient.invalidateQueries({ queryKey: ['student-data'] });
+    setArchiving(null);
+  };
+
+  const handleArchiveSchoolYear = async (schoolYear: string, status: ArchivedStudentStatus) => {
+    const archived = await mutateWithAuth(
+      supabase.rpc('archive_school_year', { p_school_year: schoolYear, p_status: status }),
+      {
+        onError: (err) => {
+          console.error('Error archiving school year:', err);
+          toast({ title: 'Error', description: 'Failed to archive the school year.', variant: 'destructive' });
+          throw err; // Re-throw to let modal handle loading state
+        },
+      }
+    );
+
+    toast({
+      title: 'School Year Archived',
+      description: `${Number(archived) || 0} student record(s) from ${schoolYear} archived as ${ARCHIVE_STATUS_LABELS[status].toLowerCase()}.`,
+    });
+    if (yearFilter === schoolYear) setYearFilter('');
+    setSelectedStudentIds([]);
     queryClient.invalidateQueries({ queryKey: ['student-data'] });
-    setDeleting(null);
   };
 
   const handleAddStudent = async (newStudent: {
@@ -225,27 +267,28 @@ const StudentData: React.FC = () => {
     }
   };
 
-  const handleBulkDelete = async () => {
+  const handleBulkArchive = async () => {
     if (selectedStudentIds.length === 0) return;
 
-    const confirmDelete = window.confirm(
-      `Are you sure you want to delete ${selectedStudentIds.length} student record(s)? This action cannot be undone.`
+    const statusLabel = ARCHIVE_STATUS_LABELS[bulkArchiveStatus].toLowerCase();
+    const confirmArchive = window.confirm(
+      `Archive ${selectedStudentIds.length} student record(s) as ${statusLabel}? They will no longer pass validation but can be restored from the archive.`
     );
 
-    if (!confirmDelete) return;
+    if (!confirmArchive) return;
 
     try {
       await mutateWithAuth(
         supabase
           .from('students')
-          .delete()
+          .update({ status: bulkArchiveStatus })
           .in('student_no', selectedStudentIds),
         {
           onError: (error) => {
-            console.error('Error deleting students:', error);
+            console.error('Error archiving students:', error);
             toast({
               title: "Error",
-              description: "Failed to delete student records.",
+              description: "Failed to archive student records.",
               variant: "destructive",
             });
           },
@@ -254,13 +297,13 @@ const StudentData: React.FC = () => {
 
       toast({
         title: "Success",
-        description: `Successfully deleted ${selectedStudentIds.length} student record(s).`,
+        description: `Successfully archived ${selectedStudentIds.length} student record(s) as ${statusLabel}.`,
       });
 
       queryClient.invalidateQueries({ queryKey: ['student-data'] });
       setSelectedStudentIds([]);
     } catch (error) {
-      console.error('Bulk delete operation failed:', error);
+      console.error('Bulk archive operation failed:', error);
     }
   };
 
@@ -273,7 +316,7 @@ const StudentData: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-800">Student Data Management</h2>
           <p className="text-gray-600">Upload and manage LPU Student Data</p>
         </div>
-        <div className="flex space-x-3">
+        <div className="flex flex-wrap gap-3">
           <button
             onClick={() => setActiveView('manage')}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${activeView === 'manage' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -288,11 +331,45 @@ const StudentData: React.FC = () => {
           >
             CSV Upload
           </button>
+          <button
+            onClick={() => setActiveView('archived')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 ${activeView === 'archived' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+          >
+            <Archive size={16} />
+            <span>Archived</span>
+          </button>
+          <button
+            onClick={() => setActiveView('requests')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 ${activeView === 'requests' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+          >
+            <UserPlus size={16} />
+            <span>Requests</span>
+          </button>
+          <button
+            onClick={() => setActiveView('names')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 ${activeView === 'names' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+          >
+            <UserCheck size={16} />
+            <span>Name Matches</span>
+          </button>
         </div>
       </div>
 
       {activeView === 'upload' ? (
-        <StudentCSVUploadSection onUploadSuccess={handleUploadSuccess} onUploadError={handleUploadError} />
+        <StudentCSVUploadSection
+          onUploadSuccess={handleUploadSuccess}
+          onUploadError={handleUploadError}
+          onSyncComplete={handleSyncComplete}
+        />
+      ) : activeView === 'archived' ? (
+        <StudentArchive />
+      ) : activeView === 'requests' ? (
+        <StudentRegistrationQueue />
+      ) : activeView === 'names' ? (
+        <StudentNameMatchReview />
       ) : (
         <div className="space-y-6">
           <div className="flex flex-col lg:flex-row gap-3 items-stretch lg:items-center">
@@ -333,6 +410,14 @@ const StudentData: React.FC = () => {
                   ))}
                 </select>
               </div>
+              <button
+                onClick={() => setIsArchiveYearOpen(true)}
+                disabled={distinctYears.length === 0}
+                className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Archive size={16} />
+                <span>Archive School Year</span>
+              </button>
               <button
                 onClick={() => setIsAddOpen(true)}
                 className="btn-primary flex items-center space-x-2"
@@ -350,13 +435,24 @@ const StudentData: React.FC = () => {
                 {selectedStudentIds.length} item(s) selected
               </span>
               <div className="flex items-center space-x-3">
-
+                <select
+                  className="input-field"
+                  value={bulkArchiveStatus}
+                  onChange={(e) => setBulkArchiveStatus(e.target.value as ArchivedStudentStatus)}
+                  aria-label="Archive as"
+                >
+                  {ARCHIVE_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {ARCHIVE_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
                 <button
-                  onClick={handleBulkDelete}
+                  onClick={handleBulkArchive}
                   className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
                 >
-                  <Trash2 size={16} />
-                  <span>Delete Selected</span>
+                  <Archive size={16} />
+                  <span>Archive Selected</span>
                 </button>
               </div>
             </div>
@@ -369,7 +465,7 @@ const StudentData: React.FC = () => {
             sortDir={sortDir}
             onSort={toggleSort}
             onEdit={onEdit}
-            onDelete={onDelete}
+            onArchive={onArchive}
             selectedStudentIds={selectedStudentIds}
             onSelectAll={handleSelectAll}
             onSelectStudent={handleSelectStudent}
@@ -382,11 +478,19 @@ const StudentData: React.FC = () => {
             onSave={handleSaveEdit}
           />
 
-          <DeleteStudentModal
-            isOpen={isDeleteOpen}
-            onClose={() => { setIsDeleteOpen(false); setDeleting(null); }}
-            student={deleting}
-            onConfirm={handleConfirmDelete}
+          <ArchiveStudentModal
+            isOpen={isArchiveOpen}
+            onClose={() => { setIsArchiveOpen(false); setArchiving(null); }}
+            student={archiving}
+            onConfirm={handleConfirmArchive}
+          />
+
+          <ArchiveSchoolYearModal
+            isOpen={isArchiveYearOpen}
+            onClose={() => setIsArchiveYearOpen(false)}
+            students={students as StudentRecord[]}
+            schoolYears={distinctYears}
+            onConfirm={handleArchiveSchoolYear}
           />
 
           <AddStudentModal
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Check, Link2, Search, X } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import ThesisTitleSearch from '../ThesisTitleSearch';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface LinkSuggestion {
+  submission_title: string;
+  submission_count: number;
+  thesis_id: number;
+  barcode: string;
+  thesis_title: string;
+  department: string;
+  publication_year: number;
+  match_score: number;
+}
+
+type LinkTarget = Pick<LinkSuggestion, 'thesis_id' | 'barcode' | 'thesis_title' | 'department' | 'publication_year'>;
+
+interface SubmissionLinkReviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SIMILARITY_OPTIONS = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8];
+
+const SubmissionLinkReview: React.FC<SubmissionLinkReviewProps> = ({ isOpen, onClose }) => {
+  const [minSimilarity, setMinSimilarity] = useState(0.4);
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [overrides, setOverrides] = useState<Record<string, LinkTarget>>({});
+  const [choosingFor, setChoosingFor] = useState<string | null>(null);
+  const [searchValue, setSearchValue] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { queryWithAuth, mutateWithAuth, supabase } = useSupabaseAuth();
+
+  const { data: suggestions = [], isLoading } = useQuery({
+    queryKey: ['thesis-submissions', 'link-suggestions', minSimilarity],
+    queryFn: async () => {
+      const data = await queryWithAuth(
+        supabase.rpc('suggest_submission_thesis_links', { p_min_similarity: minSimilarity, p_limit: 100 }),
+        { showErrorToast: false }
+      );
+      return (data || []) as LinkSuggestion[];
+    },
+    enabled: isOpen,
+  });
+
+  const visible = useMemo(
+    () => suggestions.filter((s) => !skipped.has(s.submission_title)),
+    [suggestions, skipped]
+  );
+
+  const targetFor = (suggestion: LinkSuggestion): LinkTarget => overrides[suggestion.submission_title] ?? suggestion;
+
+  const linkTitles = async (items: LinkSuggestion[]) => {
+    if (items.length === 0) return;
+    setIsWorking(true);
+    let linked = 0;
+    try {
+      for (const item of items) {
+        const count = await mutateWithAuth(
+          supabase.rpc('link_submissions_to_thesis', {
+            p_submission_title: item.submission_title,
+            p_thesis_id: targetFor(item).thesis_id,
+          }),
+          {
+            onError: (error) => {
+              console.error('Error linking submissions:', error);
+              toast({
+                title: "Error",
+                description: `Failed to link "${item.submission_title}".`,
+                variant: "destructive",
+              });
+            },
+          }
+        );
+        linked += Number(count) || 0;
+      }
+    } catch (error) {
+      console.error('Link operation failed:', error);
+    } finally {
+      setIsWorking(false);
+      if (linked > 0) {
+        toast({
+          title: "Submissions Linked",
+          description: `${linked} submission(s) linked to the catalog.`,
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['thesis-submissions', 'link-suggestions'] });
+    }
+  };
+
+  const handleLinkAll = () => {
+    const confirmLink = window.confirm(
+      `Link all ${visible.length} title(s) shown to their suggested or chosen thesis?`
+    );
+    if (confirmLink) linkTitles(visible);
+  };
+
+  const handleChoose = (submissionTitle: string, thesis: { id: number; barcode: string; thesis_title: string; department: string; publication_year: number }) => {
+    setOverrides((prev) => ({
+      ...prev,
+      [submissionTitle]: {
+        thesis_id: thesis.id,
+        barcode: thesis.barcode,
+        thesis_title: thesis.thesis_title,
+        department: thesis.department,
+        publication_year: thesis.publication_year,
+      },
+    }));
+    setChoosingFor(null);
+    setSearchValue('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Link Records to the Catalog
+          </DialogTitle>
+          <DialogDescription>
+            Older records only store the title the patron typed. Confirm the closest catalog thesis for each title so
+            statistics count them together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Minimum match</span>
+            <select
+              value={minSimilarity}
+              onChange={(e) => setMinSimilarity(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              {SIMILARITY_OPTIONS.map((value) => (
+                <option key={value} value={value}>{Math.round(value * 100)}%</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleLinkAll}
+            disabled={isWorking || visible.length === 0}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check size={16} />
+            <span>Link All Shown</span>
+          </button>
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          {isLoading ? (
+            <div className="py-12 flex justify-center">
+              <LoadingSpinner size={60} message="Finding matches..." />
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="py-12 text-center text-gray-500">No unlinked titles with a match at this level.</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {visible.map((suggestion) => {
+                const target = targetFor(suggestion);
+                const isOverridden = !!overrides[suggestion.submission_title];
+                return (
+                  <li key={suggestion.submission_title} className="p-4 space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900">{suggestion.submission_title}</div>
+                        <div className="text-xs text-gray-500">{suggestion.submission_count} record(s)</div>
+                      </div>
+                      <ArrowRight size={16} className="text-gray-400 shrink-0 hidden md:block" />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900">{target.thesis_title}</div>
+                        <div className="text-xs text-gray-500">
+                          {target.barcode} • {target.department} • {target.publication_year}
+                          {' • '}
+                          {isOverridden ? 'Chosen manually' : `${Math.round(suggestion.match_score * 100)}% match`}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 shrink-0">
+                        <button
+                          onClick={() => linkTitles([suggestion])}
+                          disabled={isWorking}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                          title="Link"
+                        >
+                          <Check size={16} />
+                        </button>
+                        <button
+                          onClick={() => setChoosingFor(choosingFor === suggestion.submission_title ? null : suggestion.submission_title)}
+                          disabled={isWorking}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Choose another thesis"
+                        >
+                          <Search size={16} />
+                        </button>
+                        <button
+                          onClick={() => setSkipped((prev) => new Set(prev).add(suggestion.submission_title))}
+                          disabled={isWorking}
+                          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+                          title="Skip"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    </div>
+                    {choosingFor === suggestion.submission_title && (
+                      <ThesisTitleSearch
+                        value={searchValue}
+                        onChange={setSearchValue}
+                        onSelect={(thesis) => handleChoose(suggestion.submission_title, thesis)}
+                        placeholder="Search the catalog for the right thesis..."
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SubmissionLinkReview;
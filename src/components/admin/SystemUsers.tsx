@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Search, Edit, Trash2, Shield, User, Mail, Calendar, X, Check } from 'lucide-react';
 import { supabase } from '../../integrations/supabase/client';
 import LoadingSpinner from '../LoadingSpinner';
+import RecordHistoryPanel from './RecordHistoryPanel';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '../../hooks/useAuth';
 
@@ -653,7 +654,7 @@ const SystemUsers = () => {
       {/* Edit User Modal */}
       {showEditUser && selectedUser && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-lg font-semibold text-gray-800">Edit User</h3>
               <button
@@ -735,6 +736,8 @@ const SystemUsers = () => {
                   </p>
                 </div>
               )}
+
+              <RecordHistoryPanel table="system_users" recordId={selectedUser.id} />
             </div>
 
             <div className="flex space-x-3 mt-6">
@@ -1,14 +1,27 @@
 
-import React, { useState, useMemo } from 'react';
-import { Upload, Search, Plus, Trash2, Filter, X } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Upload, Search, Plus, Trash2, Filter, X, Quote, GitMerge } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { fetchCatalogFacets } from '@/lib/thesis-catalog';
 import CSVUploadSection from './thesis/CSVUploadSection';
-import ThesisDataTable from './thesis/ThesisDataTable';
+import ThesisDataTable, { ThesisSortColumn } from './thesis/ThesisDataTable';
+import { AVAILABILITY_LABELS, type ThesisAvailability } from '@/lib/thesis-availability';
+import { findCopiesByBarcode, formatCopyCount, type ThesisImportResult } from '@/lib/thesis-copies';
+import type { ThesisMetadata } from '@/lib/thesis-metadata';
+import { fetchCitableTheses, type CitableThesis } from '@/lib/citations';
 import EditThesisModal from './thesis/EditThesisModal';
 import DeleteThesisModal from './thesis/DeleteThesisModal';
+import ReservationQueueModal from './thesis/ReservationQueueModal';
+import ThesisCopiesModal from './thesis/ThesisCopiesModal';
+import ThesisAttachmentsModal from './thesis/ThesisAttachmentsModal';
 import AddThesisModal from './thesis/AddThesisModal';
+import ThesisTrash from './thesis/ThesisTrash';
+import ThesisDuplicateReview from './thesis/ThesisDuplicateReview';
+import CitationDialog from '../CitationDialog';
 
 interface ThesisRecord {
   id: number;
@@ -20,51 +33,128 @@ interface ThesisRecord {
   upload_date: string;
   last_modified: string;
   is_deleted: boolean;
+  availability: ThesisAvailability;
+  copy_count: number;
 }
 
+type ThesisFilters = {
+  department: string;
+  author: string;
+  year: string;
+  yearFrom: string;
+  yearTo: string;
+  barcode: string;
+};
+
+const FILTER_KEYS: (keyof ThesisFilters)[] = ['department', 'author', 'year', 'yearFrom', 'yearTo', 'barcode'];
+
+const SORT_COLUMNS: ThesisSortColumn[] = [
+  'barcode',
+  'thesis_title',
+  'authors',
+  'department',
+  'publication_year',
+  'availability',
+  'upload_date',
+];
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+const DEFAULT_PAGE_SIZE = 25;
+
+const toYear = (value: string) => {
+  const year = parseInt(value, 10);
+  return Number.isNaN(year) ? null : year;
+};
+
 const ThesisData = () => {
-  const [activeView, setActiveView] = useState<'upload' | 'manage'>('manage');
-  const [searchTerm, setSearchTerm] = useState('');
+  const [activeView, setActiveView] = useState<'upload' | 'manage' | 'duplicates' | 'trash'>('manage');
   const [editingThesis, setEditingThesis] = useState<ThesisRecord | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [deletingThesis, setDeletingThesis] = useState<ThesisRecord | null>(null);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [queueThesis, setQueueThesis] = useState<ThesisRecord | null>(null);
+  const [copiesThesis, setCopiesThesis] = useState<ThesisRecord | null>(null);
+  const [filesThesis, setFilesThesis] = useState<ThesisRecord | null>(null);
+  const [citationTheses, setCitationTheses] = useState<CitableThesis[] | null>(null);
+  const [isPreparingCitations, setIsPreparingCitations] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [selectedThesisIds, setSelectedThesisIds] = useState<number[]>([]);
-  const [showFilters, setShowFilters] = useState(false);
-
-  // Advanced filter states
-  const [filters, setFilters] = useState({
-    department: '',
-    author: '',
-    year: '',
-    yearFrom: '',
-    yearTo: '',
-    barcode: '',
-  });
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Search, filter, sort and page state lives in the URL so a filtered view can be shared
+  const searchTerm = searchParams.get('q') || '';
+  const filters: ThesisFilters = useMemo(() => ({
+    department: searchParams.get('department') || '',
+    author: searchParams.get('author') || '',
+    year: searchParams.get('year') || '',
+    yearFrom: searchParams.get('yearFrom') || '',
+    yearTo: searchParams.get('yearTo') || '',
+    barcode: searchParams.get('barcode') || '',
+  }), [searchParams]);
+  const sortParam = searchParams.get('sort') as ThesisSortColumn;
+  const sortColumn: ThesisSortColumn = SORT_COLUMNS.includes(sortParam) ? sortParam : 'upload_date';
+  const sortAscending = searchParams.get('dir') === 'asc';
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const pageSizeParam = parseInt(searchParams.get('pageSize') || '', 10);
+  const pageSize = PAGE_SIZE_OPTIONS.includes(pageSizeParam) ? pageSizeParam : DEFAULT_PAGE_SIZE;
+
+  const [showFilters, setShowFilters] = useState(() => FILTER_KEYS.some(key => searchParams.has(key)));
+
+  // Typed text is debounced so the server isn't queried on every keystroke
+  const debouncedSearchTerm = useDebouncedValue(searchTerm);
+  const debouncedFilters = useDebouncedValue(filters);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { queryWithAuth, mutateWithAuth, supabase } = useSupabaseAuth();
 
-  // Fetch thesis data from the new thesis_data table
-  const { data: thesesData = [], isLoading, error } = useQuery({
-    queryKey: ['thesis-data'],
+  const updateParams = useCallback((changes: Record<string, string>, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('tab', 'thesis');
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (resetPage) next.delete('page');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Fetch one server-side page of thesis data
+  const { data: thesesPage, isLoading, isPlaceholderData, error } = useQuery({
+    queryKey: ['thesis-data', debouncedSearchTerm, debouncedFilters, sortColumn, sortAscending, page, pageSize],
     queryFn: async () => {
       console.log('🔄 Fetching thesis data...');
       const data = await queryWithAuth(
-        supabase
-          .from('thesis_data')
-          .select('*')
-          .eq('is_deleted', false)
-          .order('upload_date', { ascending: false }),
+        supabase.rpc('list_thesis_data', {
+          p_search: debouncedSearchTerm || null,
+          p_department: debouncedFilters.department || null,
+          p_author: debouncedFilters.author || null,
+          p_barcode: debouncedFilters.barcode || null,
+          p_year: toYear(debouncedFilters.year),
+          p_year_from: toYear(debouncedFilters.yearFrom),
+          p_year_to: toYear(debouncedFilters.yearTo),
+          p_sort_column: sortColumn,
+          p_sort_ascending: sortAscending,
+          p_page: page,
+          p_page_size: pageSize,
+        }),
         {
           showErrorToast: false, // We'll handle errors in the query itself
         }
       );
 
-      return data || [];
+      const rows = (data || []) as Array<ThesisRecord & { total_count: number }>;
+      return {
+        theses: rows.map(({ total_count, ...thesis }) => thesis) as ThesisRecord[],
+        totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      };
     },
+    placeholderData: keepPreviousData,
     // Refetch on window focus to ensure data is up to date
     refetchOnWindowFocus: true,
     // Retry on error with exponential backoff
@@ -89,55 +179,36 @@ const ThesisData = () => {
     });
   }
 
-  // Get unique departments for filter dropdown
-  const uniqueDepartments = useMemo(() => {
-    const departments = new Set(thesesData.map(t => t.department));
-    return Array.from(departments).sort();
-  }, [thesesData]);
-
-  // Advanced filter logic with search term
-  const filteredTheses = useMemo(() => {
-    return thesesData.filter(thesis => {
-      // Search term filter (searches across multiple fields)
-      const matchesSearch = !searchTerm || (
-        thesis.thesis_title?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        thesis.authors?.some(author => author.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        thesis.department?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        thesis.barcode?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-
-      // Department filter
-      const matchesDepartment = !filters.department ||
-        thesis.department?.toLowerCase() === filters.department.toLowerCase();
-
-      // Author filter
-      const matchesAuthor = !filters.author ||
-        thesis.authors?.some(author => author.toLowerCase().includes(filters.author.toLowerCase()));
+  const theses = thesesPage?.theses ?? [];
+  const totalCount = thesesPage?.totalCount ?? 0;
 
-      // Barcode filter
-      const matchesBarcode = !filters.barcode ||
-        thesis.barcode?.toLowerCase().includes(filters.barcode.toLowerCase());
-
-      // Year filter (exact match)
-      const matchesYear = !filters.year ||
-        thesis.publication_year === parseInt(filters.year);
-
-      // Year range filter
-      const matchesYearFrom = !filters.yearFrom ||
-        thesis.publication_year >= parseInt(filters.yearFrom);
+  // Departments for the filter dropdown come from the whole table, not just the current page
+  const { data: uniqueDepartments = [] } = useQuery({
+    queryKey: ['thesis-data', 'departments'],
+    queryFn: async () => {
+      const facets = await fetchCatalogFacets();
+      return facets.departments.map(dept => dept.name);
+    },
+  });
 
-      const matchesYearTo = !filters.yearTo ||
-        thesis.publication_year <= parseInt(filters.yearTo);
+  // Selections only cover rows on screen, so a new page, filter, search or sort clears them
+  useEffect(() => {
+    setSelectedThesisIds([]);
+  }, [debouncedSearchTerm, debouncedFilters, sortColumn, sortAscending, page, pageSize]);
 
-      return matchesSearch && matchesDepartment && matchesAuthor &&
-        matchesBarcode && matchesYear && matchesYearFrom && matchesYearTo;
-    });
-  }, [thesesData, searchTerm, filters]);
+  // Step back a page when deletes leave the current page empty. The previous
+  // page's rows are kept while the next one loads, so wait for real data.
+  useEffect(() => {
+    if (thesesPage && !isPlaceholderData && thesesPage.theses.length === 0 && page > 1) {
+      updateParams({ page: String(page - 1) }, false);
+    }
+  }, [thesesPage, isPlaceholderData, page, updateParams]);
 
-  const handleUploadSuccess = (recordCount: number) => {
+  const handleUploadSuccess = (result: ThesisImportResult) => {
     toast({
       title: "Upload Successful",
-      description: `Successfully uploaded ${recordCount} thesis records.`,
+      description: `Imported ${formatCopyCount(result.copies_added)}, creating ${result.theses_created} new thesis records.`
+        + (result.copies_updated > 0 ? ` Updated ${formatCopyCount(result.copies_updated)} already on file.` : ''),
     });
     queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
     setActiveView('manage');
@@ -156,7 +227,7 @@ const ThesisData = () => {
     setIsEditModalOpen(true);
   };
 
-  const handleUpdateThesis = async (updatedThesis: Partial<ThesisRecord>) => {
+  const handleUpdateThesis = async (updatedThesis: Partial<ThesisRecord> & { metadata: ThesisMetadata }) => {
     try {
       await mutateWithAuth(
         supabase
@@ -166,6 +237,7 @@ const ThesisData = () => {
             authors: updatedThesis.authors,
             department: updatedThesis.department,
             publication_year: updatedThesis.publication_year,
+            ...updatedThesis.metadata,
           })
           .eq('id', updatedThesis.id),
         {
@@ -194,17 +266,49 @@ const ThesisData = () => {
     }
   };
 
+  const handleAvailabilityChange = async (thesis: ThesisRecord, availability: ThesisAvailability) => {
+    try {
+      await mutateWithAuth(
+        supabase
+          .from('thesis_data')
+          .update({ availability })
+          .eq('id', thesis.id),
+        {
+          onError: (error) => {
+            console.error('Error updating availability:', error);
+            toast({
+              title: "Error",
+              description: "Failed to update the thesis availability.",
+              variant: "destructive",
+            });
+          },
+        }
+      );
+
+      toast({
+        title: "Availability Updated",
+        description: `"${thesis.thesis_title}" is now marked as ${AVAILABILITY_LABELS[availability].toLowerCase()}.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+    } catch (error) {
+      // Error is already handled by mutateWithAuth
+      console.error('Update availability operation failed:', error);
+    }
+  };
+
   const handleDelete = (thesis: ThesisRecord) => {
     setDeletingThesis(thesis);
     setIsDeleteModalOpen(true);
   };
 
+  // Deleting moves a thesis to the trash; it can be restored from there
   const handleDeleteThesis = async (id: number) => {
     try {
       await mutateWithAuth(
         supabase
           .from('thesis_data')
-          .delete()
+          .update({ is_deleted: true })
           .eq('id', id),
         {
           onError: (error) => {
@@ -218,7 +322,7 @@ const ThesisData = () => {
         }
       );
 
-      toast({ title: 'Success!', description: 'Thesis record deleted successfully!' });
+      toast({ title: 'Success!', description: 'Thesis record moved to trash.' });
 
       queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
       setIsDeleteModalOpen(false);
@@ -235,18 +339,34 @@ const ThesisData = () => {
     authors: string[];
     department: string;
     publication_year: number;
+    location: string;
+    metadata: ThesisMetadata;
   }) => {
+    // Copy barcodes are not unique in the database because of older records
+    const existing = await findCopiesByBarcode([newThesis.barcode.trim()]);
+    if (existing.length > 0) {
+      toast({
+        title: "Barcode In Use",
+        description: `Barcode ${newThesis.barcode.trim()} already belongs to a copy of another thesis.`,
+        variant: "destructive",
+      });
+      throw new Error('Duplicate copy barcode');
+    }
+
     try {
-      await mutateWithAuth(
+      const created = await mutateWithAuth(
         supabase
           .from('thesis_data')
           .insert({
-            barcode: newThesis.barcode,
+            barcode: newThesis.barcode.trim(),
             thesis_title: newThesis.thesis_title,
             authors: newThesis.authors,
             department: newThesis.department,
             publication_year: newThesis.publication_year,
-          }),
+            ...newThesis.metadata,
+          })
+          .select('id')
+          .single(),
         {
           onError: (error) => {
             console.error('Error adding thesis:', error);
@@ -259,6 +379,16 @@ const ThesisData = () => {
         }
       );
 
+      // The first copy is created by the database; only its location is left to fill in
+      if (newThesis.location.trim()) {
+        await mutateWithAuth(
+          supabase
+            .from('thesis_copies')
+            .update({ location: newThesis.location.trim() })
+            .eq('thesis_id', created.id)
+        );
+      }
+
       toast({
         title: "Success",
         description: "Thesis record added successfully.",
@@ -273,19 +403,26 @@ const ThesisData = () => {
   };
 
   // Filter handlers
-  const handleFilterChange = (field: string, value: string) => {
-    setFilters(prev => ({ ...prev, [field]: value }));
+  const handleFilterChange = (field: keyof ThesisFilters, value: string) => {
+    updateParams({ [field]: value });
   };
 
   const clearFilters = () => {
-    setFilters({
-      department: '',
-      author: '',
-      year: '',
-      yearFrom: '',
-      yearTo: '',
-      barcode: '',
-    });
+    updateParams(Object.fromEntries(FILTER_KEYS.map(key => [key, ''])));
+  };
+
+  // Sort and pagination handlers
+  const handleSort = (column: ThesisSortColumn) => {
+    const ascending = column === sortColumn ? !sortAscending : column !== 'upload_date';
+    updateParams({ sort: column, dir: ascending ? 'asc' : 'desc' });
+  };
+
+  const handlePageChange = (nextPage: number) => {
+    updateParams({ page: nextPage > 1 ? String(nextPage) : '' }, false);
+  };
+
+  const handlePageSizeChange = (nextPageSize: number) => {
+    updateParams({ pageSize: nextPageSize === DEFAULT_PAGE_SIZE ? '' : String(nextPageSize) });
   };
 
   const hasActiveFilters = Object.values(filters).some(value => value !== '');
@@ -293,7 +430,7 @@ const ThesisData = () => {
   // Selection handlers
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      const allIds = filteredTheses.map(thesis => thesis.id);
+      const allIds = theses.map(thesis => thesis.id);
       setSelectedThesisIds(allIds);
     } else {
       setSelectedThesisIds([]);
@@ -312,7 +449,7 @@ const ThesisData = () => {
     if (selectedThesisIds.length === 0) return;
 
     const confirmDelete = window.confirm(
-      `Are you sure you want to delete ${selectedThesisIds.length} thesis record(s)? This action cannot be undone.`
+      `Move ${selectedThesisIds.length} thesis record(s) to the trash? They can be restored from the Trash view.`
     );
 
     if (!confirmDelete) return;
@@ -321,7 +458,7 @@ const ThesisData = () => {
       await mutateWithAuth(
         supabase
           .from('thesis_data')
-          .delete()
+          .update({ is_deleted: true })
           .in('id', selectedThesisIds),
         {
           onError: (error) => {
@@ -337,7 +474,7 @@ const ThesisData = () => {
 
       toast({
         title: "Success",
-        description: `Successfully deleted ${selectedThesisIds.length} thesis record(s).`,
+        description: `Moved ${selectedThesisIds.length} thesis record(s) to the trash.`,
       });
 
       queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
@@ -347,6 +484,61 @@ const ThesisData = () => {
     }
   };
 
+  const handleCite = async (thesisIds: number[]) => {
+    if (thesisIds.length === 0) return;
+    setIsPreparingCitations(true);
+    try {
+      setCitationTheses(await fetchCitableTheses(thesisIds));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load the theses to cite.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparingCitations(false);
+    }
+  };
+
+  // The table only holds one page, so every page matching the filters is walked for the ids
+  const handleCiteFiltered = async () => {
+    setIsPreparingCitations(true);
+    try {
+      const thesisIds: number[] = [];
+      for (let exportPage = 1; ; exportPage++) {
+        const data = await queryWithAuth(
+          supabase.rpc('list_thesis_data', {
+            p_search: debouncedSearchTerm || null,
+            p_department: debouncedFilters.department || null,
+            p_author: debouncedFilters.author || null,
+            p_barcode: debouncedFilters.barcode || null,
+            p_year: toYear(debouncedFilters.year),
+            p_year_from: toYear(debouncedFilters.yearFrom),
+            p_year_to: toYear(debouncedFilters.yearTo),
+            p_sort_column: sortColumn,
+            p_sort_ascending: sortAscending,
+            p_page: exportPage,
+            p_page_size: 200,
+          }),
+          { showErrorToast: false }
+        );
+        const rows = (data || []) as Array<{ id: number; total_count: number }>;
+        thesisIds.push(...rows.map(row => row.id));
+        if (rows.length < 200 || thesisIds.length >= Number(rows[0].total_count)) break;
+      }
+      setCitationTheses(await fetchCitableTheses(thesisIds));
+    } catch (error) {
+      console.error('Error preparing citations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the theses to cite.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparingCitations(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -374,6 +566,26 @@ const ThesisData = () => {
           >
             CSV Upload
           </button>
+          <button
+            onClick={() => setActiveView('duplicates')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 ${activeView === 'duplicates'
+              ? 'bg-red-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+          >
+            <GitMerge size={16} />
+            <span>Duplicates</span>
+          </button>
+          <button
+            onClick={() => setActiveView('trash')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 ${activeView === 'trash'
+              ? 'bg-red-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+          >
+            <Trash2 size={16} />
+            <span>Trash</span>
+          </button>
         </div>
       </div>
 
@@ -382,6 +594,10 @@ const ThesisData = () => {
           onUploadSuccess={handleUploadSuccess}
           onUploadError={handleUploadError}
         />
+      ) : activeView === 'duplicates' ? (
+        <ThesisDuplicateReview />
+      ) : activeView === 'trash' ? (
+        <ThesisTrash />
       ) : (
         <div className="space-y-6">
           {/* Search and Actions */}
@@ -392,7 +608,7 @@ const ThesisData = () => {
                 type="text"
                 placeholder="Search thesis records or barcodes..."
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => updateParams({ q: e.target.value })}
                 className="input-field pl-10"
               />
             </div>
@@ -541,10 +757,18 @@ const ThesisData = () => {
               </div>
 
               {/* Filter Results Summary */}
-              <div className="mt-4 pt-4 border-t border-gray-200">
+              <div className="mt-4 pt-4 border-t border-gray-200 flex items-center justify-between gap-3">
                 <p className="text-sm text-gray-600">
-                  Showing <span className="font-semibold text-gray-900">{filteredTheses.length}</span> of <span className="font-semibold text-gray-900">{thesesData.length}</span> thesis records
+                  <span className="font-semibold text-gray-900">{totalCount}</span> thesis record(s) match the current filters
                 </p>
+                <button
+                  onClick={handleCiteFiltered}
+                  disabled={totalCount === 0 || isPreparingCitations}
+                  className="btn-secondary flex items-center space-x-2 text-sm"
+                >
+                  <Quote size={16} />
+                  <span>{isPreparingCitations ? 'Preparing...' : 'Cite All Matching'}</span>
+                </button>
               </div>
             </div>
           )}
@@ -555,27 +779,71 @@ const ThesisData = () => {
               <span className="text-sm font-medium text-blue-900">
                 {selectedThesisIds.length} item(s) selected
               </span>
-              <button
-                onClick={handleBulkDelete}
-                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
-              >
-                <Trash2 size={16} />
-                <span>Delete Selected</span>
-              </button>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleCite(selectedThesisIds)}
+                  disabled={isPreparingCitations}
+                  className="btn-secondary flex items-center space-x-2"
+                >
+                  <Quote size={16} />
+                  <span>{isPreparingCitations ? 'Preparing...' : 'Cite Selected'}</span>
+                </button>
+                <button
+                  onClick={handleBulkDelete}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+                >
+                  <Trash2 size={16} />
+                  <span>Delete Selected</span>
+                </button>
+              </div>
             </div>
           )}
 
           <ThesisDataTable
-            theses={filteredTheses}
+            theses={theses}
             isLoading={isLoading}
             searchTerm={searchTerm}
+            totalCount={totalCount}
+            page={page}
+            pageSize={pageSize}
+            pageSizeOptions={PAGE_SIZE_OPTIONS}
+            onPageChange={handlePageChange}
+            onPageSizeChange={handlePageSizeChange}
+            sortColumn={sortColumn}
+            sortAscending={sortAscending}
+            onSort={handleSort}
             onEdit={handleEdit}
             onDelete={handleDelete}
+            onAvailabilityChange={handleAvailabilityChange}
+            onViewQueue={setQueueThesis}
+            onManageCopies={setCopiesThesis}
+            onManageFiles={setFilesThesis}
+            onCite={(thesis) => handleCite([thesis.id])}
             selectedThesisIds={selectedThesisIds}
             onSelectAll={handleSelectAll}
             onSelectThesis={handleSelectThesis}
           />
 
+          <ReservationQueueModal
+            thesis={queueThesis}
+            onClose={() => setQueueThesis(null)}
+          />
+
+          <ThesisCopiesModal
+            thesis={copiesThesis}
+            onClose={() => setCopiesThesis(null)}
+          />
+
+          <ThesisAttachmentsModal
+            thesis={filesThesis}
+            onClose={() => setFilesThesis(null)}
+          />
+
+          <CitationDialog
+            theses={citationTheses}
+            onClose={() => setCitationTheses(null)}
+          />
+
           <EditThesisModal
             isOpen={isEditModalOpen}
             onClose={() => {
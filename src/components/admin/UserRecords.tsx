@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Filter, Download, Eye, X, Calendar, MapPin } from 'lucide-react';
+import { Search, Filter, Download, Eye, X, Calendar, MapPin, Link2, RotateCcw } from 'lucide-react';
 import { supabase } from '../../integrations/supabase/client';
+import { downloadCsv, toCsv } from '../../lib/csv';
+import { returnSessions } from '../../lib/reading-sessions';
 import LoadingSpinner from '../LoadingSpinner';
 import { useToast } from '../../hooks/use-toast';
 import UserRecordsExportDialog from './UserRecordsExportDialog';
+import SubmissionLinkReview from './SubmissionLinkReview';
 
 import ViewUserRecordModal from './ViewUserRecordModal';
 
@@ -18,6 +21,8 @@ interface ThesisSubmission {
   program: string | null;
   thesis_title: string;
   submission_date: string;
+  returned_at: string | null;
+  return_method: string | null;
   created_at: string;
 }
 
@@ -41,8 +46,27 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
   const [viewingRecord, setViewingRecord] = useState<ThesisSubmission | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [viewMode, setViewMode] = useState<'table' | 'card'>('table');
+  const [isLinkReviewOpen, setIsLinkReviewOpen] = useState(false);
   const { toast } = useToast();
 
+  const handleReturn = async (record: ThesisSubmission) => {
+    try {
+      await returnSessions([record.id]);
+      const returnedAt = new Date().toISOString();
+      setRecords(prev => prev.map(r => (r.id === record.id ? { ...r, returned_at: returnedAt } : r)));
+      toast({
+        title: "Returned",
+        description: `"${record.thesis_title}" marked as returned.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark the thesis as returned.",
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     console.log('UserRecords component mounted');
     fetchRecords();
@@ -238,8 +262,8 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
 
   const handleExport = () => {
     const headers = ['Name', 'Type', 'ID/School', 'Campus', 'Program', 'Thesis Title', 'Time Created', 'Date'];
-    const csvContent = [
-      headers.join(','),
+    const csvContent = toCsv([
+      headers,
       ...filteredAndSortedRecords.map(record => [
         record.full_name,
         record.user_type,
@@ -253,16 +277,10 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
           hour12: true
         }),
         new Date(record.submission_date).toLocaleDateString()
-      ].map(field => `"${field}"`).join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'thesis_submissions.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
+      ])
+    ]);
+
+    downloadCsv(csvContent, 'thesis_submissions.csv');
   };
 
   if (loading) {
@@ -299,6 +317,16 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
           >
             {viewMode === 'table' ? '' : 'Table View'}
           </button>
+          {userRole === 'Admin' && (
+            <button
+              onClick={() => setIsLinkReviewOpen(true)}
+              className="btn-outline flex items-center space-x-2"
+              title="Match free-text titles to catalog records"
+            >
+              <Link2 size={16} />
+              <span className="hidden sm:inline">Link to Catalog</span>
+            </button>
+          )}
           <UserRecordsExportDialog
             records={filteredAndSortedRecords}
             disabled={filteredAndSortedRecords.length === 0}
@@ -572,6 +600,11 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
                           {record.program || '-'}
                         </td>
                         <td className="px-3 sm:px-4 py-3 text-sm text-gray-900 truncate max-w-[150px]" title={record.thesis_title}>
+                          {!record.returned_at && (
+                            <span className="inline-flex mr-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+                              Out
+                            </span>
+                          )}
                           {record.thesis_title}
                         </td>
                         <td className="px-3 sm:px-4 py-3 text-sm text-gray-900 whitespace-nowrap hidden sm:table-cell">
@@ -586,13 +619,24 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
                         </td>
                         {(userRole === 'Admin' || userRole === 'Viewer') && (
                           <td className="px-3 sm:px-4 py-3">
-                            <button
-                              className="text-blue-600 hover:text-blue-900"
-                              onClick={() => handleViewClick(record)}
-                              title="View details"
-                            >
-                              <Eye size={16} />
-                            </button>
+                            <div className="flex items-center space-x-2">
+                              <button
+                                className="text-blue-600 hover:text-blue-900"
+                                onClick={() => handleViewClick(record)}
+                                title="View details"
+                              >
+                                <Eye size={16} />
+                              </button>
+                              {userRole === 'Admin' && !record.returned_at && (
+                                <button
+                                  className="text-green-600 hover:text-green-900"
+                                  onClick={() => handleReturn(record)}
+                                  title="Mark as returned"
+                                >
+                                  <RotateCcw size={16} />
+                                </button>
+                              )}
+                            </div>
                           </td>
                         )}
                       </motion.tr>
@@ -654,7 +698,10 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
                       </div>
                       <div className="flex">
                         <span className="font-medium text-gray-700 w-24 flex-shrink-0">Thesis Title:</span>
-                        <span className="text-gray-900 truncate">{record.thesis_title}</span>
+                        <span className="text-gray-900 truncate">
+                          {record.thesis_title}
+                          {!record.returned_at && <span className="ml-2 text-xs font-semibold text-amber-700">(Out)</span>}
+                        </span>
                       </div>
                       <div className="flex">
                         <span className="font-medium text-gray-700 w-24 flex-shrink-0">Time Created:</span>
@@ -674,7 +721,16 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
                       </div>
                     </div>
                     {(userRole === 'Admin' || userRole === 'Viewer') && (
-                      <div className="flex justify-end mt-4 pt-2 border-t">
+                      <div className="flex justify-end space-x-2 mt-4 pt-2 border-t">
+                        {userRole === 'Admin' && !record.returned_at && (
+                          <button
+                            className="text-green-600 hover:text-green-900 p-1"
+                            onClick={() => handleReturn(record)}
+                            title="Mark as returned"
+                          >
+                            <RotateCcw size={18} />
+                          </button>
+                        )}
                         <button
                           className="text-blue-600 hover:text-blue-900 p-1"
                           onClick={() => handleViewClick(record)}
@@ -712,6 +768,13 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
         onClose={handleViewModalClose}
         record={viewingRecord}
       />
+
+      {userRole === 'Admin' && (
+        <SubmissionLinkReview
+          isOpen={isLinkReviewOpen}
+          onClose={() => setIsLinkReviewOpen(false)}
+        />
+      )}
     </div>
   );
 };
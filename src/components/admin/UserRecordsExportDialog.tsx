@@ -25,6 +25,8 @@ import { Checkbox } from '../ui/checkbox';
 import { Label } from '../ui/label';
 import { useToast } from '../ui/use-toast';
 import { exportUserRecordsToPDF } from '../../utils/userRecordsPdfExport';
+import { downloadCsv, toCsv } from '../../lib/csv';
+import { downloadXlsx, XlsxColumnType } from '../../lib/spreadsheet';
 
 interface ThesisSubmission {
   id: string;
@@ -45,6 +47,14 @@ interface Column {
   enabled: boolean;
 }
 
+type ExportFormat = 'csv' | 'pdf' | 'xlsx';
+
+// Excel cells keep real dates so they sort and filter as dates
+const XLSX_COLUMN_TYPES: Partial<Record<keyof ThesisSubmission, XlsxColumnType>> = {
+  submission_date: 'date',
+  created_at: 'time',
+};
+
 interface UserRecordsExportDialogProps {
   records: ThesisSubmission[];
   disabled?: boolean;
@@ -73,7 +83,7 @@ const UserRecordsExportDialog: React.FC<UserRecordsExportDialogProps> = ({
   disabled = false,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'csv' | 'pdf'>('csv');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
   const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
 
@@ -135,6 +145,9 @@ try {
       submission_date: formatSubmissionDate(r.submission_date),
     }));
     await exportToCSV(processedRecords, enabledColumns);
+  } else if (exportFormat === 'xlsx') {
+    // Excel gets raw ISO strings, typed per column
+    await exportToXLSX(records, enabledColumns);
   } else {
     // PDF gets raw ISO strings
     await exportUserRecordsToPDF(records, enabledColumns);
@@ -148,27 +161,26 @@ try {
 
   const exportToCSV = async (data: ThesisSubmission[], selectedColumns: Column[]) => {
     const headers = selectedColumns.map(col => col.label);
-    const csvContent = [
-      headers.join(','),
-      ...data.map(record =>
-        selectedColumns
-          .map(col => {
-            const value = record[col.key] as string | null | undefined;
-            return `"${value ?? ''}"`;
-          })
-          .join(',')
-      ),
-    ].join('\n');
+    const csvContent = toCsv([
+      headers,
+      ...data.map(record => selectedColumns.map(col => record[col.key] as string | null | undefined)),
+    ]);
+
+    downloadCsv(csvContent, `user-records-${new Date().toISOString().split('T')[0]}.csv`);
+  };
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `user-records-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+  const exportToXLSX = async (data: ThesisSubmission[], selectedColumns: Column[]) => {
+    await downloadXlsx(
+      data,
+      selectedColumns.map(col => ({
+        key: col.key,
+        header: col.label,
+        type: XLSX_COLUMN_TYPES[col.key] ?? 'text',
+        width: col.key === 'thesis_title' ? 48 : undefined,
+      })),
+      `user-records-${new Date().toISOString().split('T')[0]}.xlsx`,
+      'User Records'
+    );
   };
 
   const enabledCount = columns.filter(col => col.enabled).length;
@@ -206,7 +218,7 @@ try {
             </Label>
             <Select
               value={exportFormat}
-              onValueChange={(value: 'csv' | 'pdf') => setExportFormat(value)}
+              onValueChange={(value: ExportFormat) => setExportFormat(value)}
             >
               <SelectTrigger id="format-select">
                 <SelectValue />
@@ -218,6 +230,12 @@ try {
                     <span>CSV (Comma Separated Values)</span>
                   </div>
                 </SelectItem>
+                <SelectItem value="xlsx">
+                  <div className="flex items-center space-x-2">
+                    <FileSpreadsheet className="h-4 w-4" />
+                    <span>Excel (.xlsx)</span>
+                  </div>
+                </SelectItem>
                 <SelectItem value="pdf">
                   <div className="flex items-center space-x-2">
                     <FileText className="h-4 w-4" />
@@ -6,6 +6,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { formatElapsed, getElapsedMinutes } from '@/lib/reading-sessions';
 
 interface ThesisSubmission {
   id: string;
@@ -17,6 +18,8 @@ interface ThesisSubmission {
   program: string | null;
   thesis_title: string;
   submission_date: string;
+  returned_at?: string | null;
+  return_method?: string | null;
   created_at: string;
 }
 
@@ -51,6 +54,13 @@ const ViewUserRecordModal: React.FC<ViewUserRecordModalProps> = ({
 
   const { date, time } = formatDate(record.submission_date);
 
+  // Legacy records were closed at check-out, so their reading time is unknown
+  const readingTime = !record.returned_at
+    ? `Still out (${formatElapsed(getElapsedMinutes(record.submission_date))} so far)`
+    : record.return_method === 'legacy'
+      ? 'Not tracked'
+      : `${formatElapsed(getElapsedMinutes(record.submission_date, new Date(record.returned_at).getTime()))}, returned at ${formatDate(record.returned_at).time}`;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -191,6 +201,14 @@ const ViewUserRecordModal: React.FC<ViewUserRecordModalProps> = ({
                 </p>
               </div>
             </div>
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reading Time
+              </label>
+              <p className="text-gray-900 bg-white p-3 rounded border">
+                {readingTime}
+              </p>
+            </div>
             <div className="mt-4">
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Record ID
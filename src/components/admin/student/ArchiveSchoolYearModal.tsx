@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Archive } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { ARCHIVE_STATUSES, ARCHIVE_STATUS_LABELS } from '@/lib/student-status';
+import type { ArchivedStudentStatus } from '@/lib/student-status';
+import type { StudentRecord } from '../StudentData';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  students: StudentRecord[];
+  schoolYears: string[];
+  onConfirm: (schoolYear: string, status: ArchivedStudentStatus) => Promise<void>;
+}
+
+const ArchiveSchoolYearModal: React.FC<Props> = ({ isOpen, onClose, students, schoolYears, onConfirm }) => {
+  const [schoolYear, setSchoolYear] = useState('');
+  const [status, setStatus] = useState<ArchivedStudentStatus>('graduated');
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSchoolYear(schoolYears[0] ?? '');
+      setStatus('graduated');
+    }
+  }, [isOpen, schoolYears]);
+
+  const studentCount = useMemo(
+    () => students.filter((s) => s.school_year === schoolYear).length,
+    [students, schoolYear]
+  );
+
+  const handleArchive = async () => {
+    if (!schoolYear) return;
+
+    setIsArchiving(true);
+    try {
+      await onConfirm(schoolYear, status);
+      onClose();
+    } catch (error) {
+      console.error('Error archiving school year:', error);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-600">
+            <Archive className="h-5 w-5" />
+            Archive School Year
+          </DialogTitle>
+          <DialogDescription className="mt-3 text-gray-600">
+            Archives every active student of a school year at once, e.g. after graduation. Their reading history is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">School Year</label>
+            <select
+              className="input-field"
+              value={schoolYear}
+              onChange={(e) => setSchoolYear(e.target.value)}
+              disabled={isArchiving}
+            >
+              {schoolYears.map((year) => (
+                <option key={year} value={year}>
+                  {year}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Archive As</label>
+            <select
+              className="input-field"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ArchivedStudentStatus)}
+              disabled={isArchiving}
+            >
+              {ARCHIVE_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {ARCHIVE_STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
+            <p className="text-sm text-red-800">
+              {studentCount} active student record(s) from {schoolYear || 'this school year'} will be archived as{' '}
+              {ARCHIVE_STATUS_LABELS[status].toLowerCase()} and will no longer pass validation.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="btn-secondary"
+            disabled={isArchiving}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleArchive}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            disabled={isArchiving || studentCount === 0}
+          >
+            {isArchiving ? 'Archiving...' : 'Archive School Year'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArchiveSchoolYearModal;
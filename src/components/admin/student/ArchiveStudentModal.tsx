@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Archive } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { ARCHIVE_STATUSES, ARCHIVE_STATUS_LABELS } from '@/lib/student-status';
+import type { ArchivedStudentStatus } from '@/lib/student-status';
+import type { StudentRecord } from '../StudentData';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  student: StudentRecord | null;
+  onConfirm: (status: ArchivedStudentStatus) => Promise<void>;
+}
+
+const ArchiveStudentModal: React.FC<Props> = ({ isOpen, onClose, student, onConfirm }) => {
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [status, setStatus] = useState<ArchivedStudentStatus>('deleted');
+
+  useEffect(() => {
+    if (isOpen) setStatus('deleted');
+  }, [isOpen]);
+
+  const handleArchive = async () => {
+    if (!student) return;
+
+    setIsArchiving(true);
+    try {
+      await onConfirm(status);
+      onClose();
+    } catch (error) {
+      console.error('Error archiving student:', error);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  if (!student) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-600">
+            <Archive className="h-5 w-5" />
+            Archive Student Data
+          </DialogTitle>
+          <DialogDescription className="mt-3 text-gray-600">
+            Archived students no longer pass LPU validation. Their reading history is kept and they can be restored from the archive.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+            <div className="text-sm">
+              <span className="font-medium text-gray-700">Student#:</span>{' '}
+              <span className="font-mono text-blue-600">{student.student_no}</span>
+            </div>
+            <div className="text-sm">
+              <span className="font-medium text-gray-700">Name:</span>{' '}
+              <span className="text-gray-900">{student.full_name}</span>
+            </div>
+            <div className="text-sm">
+              <span className="font-medium text-gray-700">Course:</span>{' '}
+              <span className="text-gray-900">{student.course_section}</span>
+            </div>
+            <div className="text-sm">
+              <span className="font-medium text-gray-700">Email:</span>{' '}
+              <span className="text-gray-900">{student.email}</span>
+            </div>
+            <div className="text-sm">
+              <span className="font-medium text-gray-700">School Year:</span>{' '}
+              <span className="text-gray-900">{student.school_year}</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <select
+              className="input-field"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ArchivedStudentStatus)}
+              disabled={isArchiving}
+            >
+              {ARCHIVE_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {ARCHIVE_STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <DialogFooter className="space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="btn-secondary"
+            disabled={isArchiving}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleArchive}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            disabled={isArchiving}
+          >
+            {isArchiving ? 'Archiving...' : 'Archive Student'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArchiveStudentModal;
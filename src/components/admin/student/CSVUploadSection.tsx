@@ -1,86 +1,283 @@
-import React, { useState } from 'react';
-import { Upload, FileText, Download } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Upload, FileText, Download, X, ArrowLeft } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  ImportIssue,
+  StagedRow,
+  buildRejectedRowsCsv,
+  findDuplicateRows,
+  isImportableRow,
+  isValidEmail,
+} from '@/lib/import-validation';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import {
+  SPREADSHEET_ACCEPT,
+  SpreadsheetFile,
+  SpreadsheetTable,
+  isSpreadsheetFile,
+  openSpreadsheetFile,
+} from '@/lib/spreadsheet';
+import {
+  ColumnMapping,
+  ImportFieldSpec,
+  getHeaderKeywords,
+  suggestColumnMapping,
+} from '@/lib/column-mapping';
+import ImportPreviewGrid from '../ImportPreviewGrid';
+import ColumnMappingStep from '../ColumnMappingStep';
 import type { StudentRecord } from '../StudentData';
+import type { RosterStudent, RosterSyncSummary } from '@/lib/student-sync';
+import StudentSyncReview from './StudentSyncReview';
+
+type StudentField = 'student_no' | 'full_name' | 'course_section' | 'email' | 'school_year';
+
+const STUDENT_COLUMNS: ImportFieldSpec<StudentField>[] = [
+  {
+    key: 'student_no',
+    label: 'Student#',
+    required: true,
+    aliases: ['student no', 'student number', 'student id', 'id no', 'id number', 'student', 'sn'],
+    excludeWords: ['name', 'email', 'course', 'year'],
+  },
+  {
+    key: 'full_name',
+    label: 'Full Name',
+    required: true,
+    aliases: ['full name', 'name', 'student name', 'complete name'],
+    excludeWords: ['no', 'number', 'id', 'school', 'course'],
+  },
+  {
+    key: 'course_section',
+    label: 'Course and Section',
+    aliases: ['course and section', 'course section', 'course', 'section', 'program'],
+  },
+  {
+    key: 'email',
+    label: 'Email',
+    required: true,
+    aliases: ['email', 'email address', 'e mail'],
+  },
+  {
+    key: 'school_year',
+    label: 'School Year',
+    aliases: ['school year', 'sy', 'academic year', 'year'],
+    excludeWords: ['level'],
+  },
+];
+
+const HEADER_KEYWORDS = getHeaderKeywords(STUDENT_COLUMNS);
+
+const NO_EXISTING_STUDENTS = new Map<string, string>();
+
+/** Update adds and updates the listed students; sync also reviews who is missing from a full registrar list. */
+type ImportMode = 'update' | 'sync';
 
 interface Props {
   onUploadSuccess: (recordCount: number) => void;
   onUploadError: (error: string) => void;
+  onSyncComplete?: (summary: RosterSyncSummary) => void;
 }
 
-const StudentCSVUploadSection: React.FC<Props> = ({ onUploadSuccess, onUploadError }) => {
+const StudentCSVUploadSection: React.FC<Props> = ({ onUploadSuccess, onUploadError, onSyncComplete }) => {
   const [isUploading, setIsUploading] = useState(false);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetFile | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping<StudentField> | null>(null);
+  const [rows, setRows] = useState<StagedRow<StudentField>[] | null>(null);
+  const [mode, setMode] = useState<ImportMode>('update');
+  const [syncStudents, setSyncStudents] = useState<RosterStudent[] | null>(null);
+
+  const fileName = spreadsheet?.fileName || '';
 
   const downloadTemplate = () => {
     const headers = ['Student#', 'Full Name', 'Course and Section', 'Email', 'School Year'];
     const sample = [
       ['2021-00001', 'Juan Dela Cruz', 'BSIT-3A', 'juan@example.com', '2024-2025']
     ];
-    const csv = [headers.join(','), ...sample.map((r) => r.join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'students_template.csv';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(toCsv([headers, ...sample]), 'students_template.csv');
   };
 
-  const parseCSV = (text: string): StudentRecord[] => {
-    const lines = text.trim().split('\n');
-    const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
-
-    const snIdx = headers.findIndex((h) => h.includes('student'));
-    const nameIdx = headers.findIndex((h) => h.includes('full') || h.includes('name'));
-    const courseIdx = headers.findIndex((h) => h.includes('course'));
-    const emailIdx = headers.findIndex((h) => h.includes('email'));
-    const yearIdx = headers.findIndex((h) => h.includes('year'));
+  // Stage every data row from the mapped columns; row-level problems are
+  // reported by the preview validation
+  const stageRows = (source: SpreadsheetTable, columns: ColumnMapping<StudentField>): StagedRow<StudentField>[] =>
+    source.rows.map((record, i) => {
+      const values = record.map((v) => v.trim());
+      const valueOf = (field: StudentField) => {
+        const [index] = columns[field];
+        return index !== undefined ? values[index] || '' : '';
+      };
+      return {
+        id: i + 1,
+        rowNumber: source.rowNumbers[i],
+        excluded: false,
+        fields: {
+          student_no: valueOf('student_no'),
+          full_name: valueOf('full_name'),
+          course_section: valueOf('course_section'),
+          email: valueOf('email'),
+          school_year: valueOf('school_year'),
+        },
+      };
+    });
 
-    if (snIdx === -1 || nameIdx === -1 || courseIdx === -1 || emailIdx === -1 || yearIdx === -1) {
-      throw new Error('CSV must contain: Student#, Full Name, Course and Section, Email, School Year');
+  // Read the chosen sheet and suggest a column mapping; rows are staged once the mapping is confirmed
+  const loadSheet = (source: SpreadsheetFile, name: string) => {
+    setSheetName(name);
+    setRows(null);
+    try {
+      const sheet = source.readSheet(name);
+      if (sheet.rows.length === 0) throw new Error('No valid records found in file');
+      setTable(sheet);
+      setMapping(suggestColumnMapping(sheet.headers, STUDENT_COLUMNS));
+    } catch (err) {
+      console.error('Upload error:', err);
+      setTable(null);
+      setMapping(null);
+      onUploadError(err instanceof Error ? err.message : 'Failed to process file.');
     }
+  };
 
-    const out: StudentRecord[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map((v) => v.trim().replace(/"/g, ''));
-      if (values.length < 5) continue;
-      const rec: StudentRecord = {
-        student_no: values[snIdx] || '',
-        full_name: values[nameIdx] || '',
-        course_section: values[courseIdx] || '',
-        email: values[emailIdx] || '',
-        school_year: values[yearIdx] || '',
-      };
-      if (!rec.student_no || !rec.full_name || !rec.email) continue;
-      out.push(rec);
-    }
-    return out;
+  const stagedStudentNos = useMemo(
+    () => Array.from(new Set((rows || []).map((r) => r.fields.student_no.trim()).filter(Boolean))).sort(),
+    [rows]
+  );
+
+  // Existing students are updated rather than rejected, so they only raise a warning
+  const { data: existingStudentNos = NO_EXISTING_STUDENTS, isFetching: isCheckingExisting } = useQuery({
+    queryKey: ['student-import-existing', stagedStudentNos],
+    queryFn: async () => {
+      const found = new Map<string, string>();
+      for (let i = 0; i < stagedStudentNos.length; i += 200) {
+        const { data, error } = await supabase
+          .from('students')
+          .select('student_no, status')
+          .in('student_no', stagedStudentNos.slice(i, i + 200));
+        if (error) throw error;
+        (data || []).forEach((s) => found.set(s.student_no, s.status));
+      }
+      return found;
+    },
+    enabled: stagedStudentNos.length > 0,
+    staleTime: 0,
+  });
+
+  const issuesByRow = useMemo(() => {
+    const staged = rows || [];
+    const duplicates = findDuplicateRows(staged, (r) => r.fields.student_no.trim());
+    const result: Record<number, ImportIssue[]> = {};
+
+    staged.forEach((r) => {
+      const { student_no, full_name, course_section, email, school_year } = r.fields;
+      const issues: ImportIssue[] = [];
+
+      if (!student_no.trim()) issues.push({ level: 'error', message: 'Missing student number' });
+      if (!full_name.trim()) issues.push({ level: 'error', message: 'Missing full name' });
+      if (!email.trim()) issues.push({ level: 'error', message: 'Missing email' });
+      else if (!isValidEmail(email)) issues.push({ level: 'error', message: 'Malformed email' });
+      if (duplicates.has(r.id)) {
+        issues.push({ level: 'error', message: `Duplicate of row ${duplicates.get(r.id)} in file` });
+      }
+      if (existingStudentNos.has(student_no.trim())) {
+        issues.push({
+          level: 'warning',
+          message: existingStudentNos.get(student_no.trim()) === 'active'
+            ? 'Already exists; will be updated'
+            : mode === 'sync'
+              ? 'Archived; will be updated and restored'
+              : 'Archived; will be updated but stays archived until restored',
+        });
+      }
+      if (!course_section.trim()) issues.push({ level: 'warning', message: 'Missing course and section' });
+      if (!school_year.trim()) issues.push({ level: 'warning', message: 'Missing school year' });
+
+      result[r.id] = issues;
+    });
+    return result;
+  }, [rows, existingStudentNos, mode]);
+
+  const importableRows = (rows || []).filter((r) => isImportableRow(r, issuesByRow[r.id]));
+
+  const handleFieldChange = (rowId: number, field: StudentField, value: string) => {
+    setRows((prev) => prev.map((r) => (r.id === rowId ? { ...r, fields: { ...r.fields, [field]: value } } : r)));
+  };
+
+  const handleToggleExclude = (rowId: number) => {
+    setRows((prev) => prev.map((r) => (r.id === rowId ? { ...r, excluded: !r.excluded } : r)));
+  };
+
+  const handleDownloadRejected = () => {
+    const baseName = fileName.replace(/\.(csv|xlsx)$/i, '') || 'students';
+    downloadCsv(buildRejectedRowsCsv(STUDENT_COLUMNS, rows || [], issuesByRow), `${baseName}_rejected.csv`);
+  };
+
+  const resetUpload = () => {
+    setRows(null);
+    setSyncStudents(null);
+    setSpreadsheet(null);
+    setSheetName('');
+    setTable(null);
+    setMapping(null);
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    if (!file.name.endsWith('.csv')) {
-      onUploadError('Please upload a CSV file.');
+    if (!isSpreadsheetFile(file.name)) {
+      onUploadError('Please upload a CSV or Excel (.xlsx) file.');
+      e.target.value = '';
+      return;
+    }
+    setIsReadingFile(true);
+    try {
+      const opened = await openSpreadsheetFile(file, HEADER_KEYWORDS);
+      setSpreadsheet(opened);
+      loadSheet(opened, opened.sheetNames[0] || '');
+    } catch (err) {
+      console.error('Upload error:', err);
+      onUploadError(err instanceof Error ? err.message : 'Failed to read file.');
+    } finally {
+      setIsReadingFile(false);
+      e.target.value = '';
+    }
+  };
+
+  const toStudentRecords = (): StudentRecord[] =>
+    importableRows.map(({ fields }) => ({
+      student_no: fields.student_no.trim(),
+      full_name: fields.full_name.trim(),
+      course_section: fields.course_section.trim(),
+      email: fields.email.trim(),
+      school_year: fields.school_year.trim(),
+    }));
+
+  const handleSyncComplete = (summary: RosterSyncSummary) => {
+    resetUpload();
+    onSyncComplete?.(summary);
+  };
+
+  const handleProcessUpload = async () => {
+    if (importableRows.length === 0) return;
+    if (mode === 'sync') {
+      setSyncStudents(toStudentRecords());
       return;
     }
     setIsUploading(true);
     try {
-      const text = await file.text();
-      const records = parseCSV(text);
-      if (records.length === 0) throw new Error('No valid records found in CSV');
+      const records = toStudentRecords();
 
       const { error } = await supabase.from('students').upsert(records, { onConflict: 'student_no' });
       if (error) throw error;
 
+      resetUpload();
       onUploadSuccess(records.length);
     } catch (err: any) {
       console.error('Upload error:', err);
       onUploadError(err?.message || 'Failed to process CSV file.');
     } finally {
       setIsUploading(false);
-      e.target.value = '';
     }
   };
 
@@ -89,29 +286,134 @@ const StudentCSVUploadSection: React.FC<Props> = ({ onUploadSuccess, onUploadErr
       <div className="text-center">
         <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
         <h3 className="text-lg font-medium text-gray-900 mb-2">Upload Student Data</h3>
-        <p className="text-gray-600 mb-6">Upload a CSV file with student records to bulk import data</p>
+        <p className="text-gray-600 mb-4">Upload a CSV or Excel file with student records. Rows are checked and previewed before anything is saved.</p>
+
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm mb-2" role="radiogroup" aria-label="Import mode">
+          {([['update', 'Add and Update'], ['sync', 'Registrar Sync']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              role="radio"
+              aria-checked={mode === value}
+              onClick={() => setMode(value)}
+              className={`px-4 py-2 ${mode === value ? 'bg-red-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              disabled={isUploading || !!syncStudents}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mb-6">
+          {mode === 'sync'
+            ? "Upload the registrar's full list for the term. You review added, changed and missing students before anything is saved."
+            : 'Listed students are added or updated; everyone else is left as is.'}
+        </p>
 
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 hover:border-red-400 transition-colors cursor-pointer">
-          <input type="file" accept=".csv" className="hidden" id="student-csv-upload" onChange={handleFileUpload} disabled={isUploading} />
+          <input
+            type="file"
+            accept={SPREADSHEET_ACCEPT}
+            className="hidden"
+            id="student-csv-upload"
+            onChange={handleFileUpload}
+            disabled={isUploading || isReadingFile}
+          />
           <label htmlFor="student-csv-upload" className="cursor-pointer">
             <div className="space-y-3">
               <FileText className="mx-auto h-8 w-8 text-gray-400" />
               <div>
-                <span className="text-red-600 font-medium">{isUploading ? 'Processing...' : 'Click to upload'}</span>
-                {!isUploading && <span className="text-gray-600"> or drag and drop</span>}
+                <span className="text-red-600 font-medium">{isReadingFile ? 'Reading file...' : fileName || 'Click to upload'}</span>
+                {!fileName && !isReadingFile && <span className="text-gray-600"> or drag and drop</span>}
               </div>
-              <p className="text-sm text-gray-500">CSV columns: Student#, Full Name, Course and Section, Email, School Year</p>
+              <p className="text-sm text-gray-500">
+                CSV or Excel .xlsx with Student#, Full Name, Course and Section, Email and School Year columns. You can match the columns after choosing a file.
+              </p>
             </div>
           </label>
         </div>
+      </div>
 
-        <div className="mt-6 flex justify-center space-x-3">
-          <button className="btn-primary" disabled={isUploading}>{isUploading ? 'Processing...' : 'Process Upload'}</button>
-          <button onClick={downloadTemplate} className="btn-secondary flex items-center space-x-2">
-            <Download size={16} />
-            <span>Download Template</span>
-          </button>
+      {spreadsheet && (
+        <div className="mt-6 space-y-4">
+          {spreadsheet.sheetNames.length > 1 && (
+            <div className="flex items-center space-x-3 text-sm">
+              <label htmlFor="student-import-sheet" className="font-medium text-gray-700">Sheet</label>
+              <select
+                id="student-import-sheet"
+                value={sheetName}
+                onChange={(e) => loadSheet(spreadsheet, e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              >
+                {spreadsheet.sheetNames.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {syncStudents ? (
+            <StudentSyncReview
+              students={syncStudents}
+              fileName={fileName}
+              skippedRows={(rows || []).length - syncStudents.length}
+              onBack={() => setSyncStudents(null)}
+              onComplete={handleSyncComplete}
+            />
+          ) : rows ? (
+            <>
+              <button
+                onClick={() => setRows(null)}
+                className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800 font-medium"
+                disabled={isUploading}
+              >
+                <ArrowLeft size={16} />
+                <span>Back to column mapping</span>
+              </button>
+              <ImportPreviewGrid
+                columns={STUDENT_COLUMNS}
+                rows={rows}
+                issuesByRow={issuesByRow}
+                onFieldChange={handleFieldChange}
+                onToggleExclude={handleToggleExclude}
+                onDownloadRejected={handleDownloadRejected}
+              />
+            </>
+          ) : table && mapping && (
+            <ColumnMappingStep
+              importer="students"
+              fields={STUDENT_COLUMNS}
+              headers={table.headers}
+              sampleRows={table.rows.slice(0, 5)}
+              mapping={mapping}
+              onChange={setMapping}
+              onContinue={() => setRows(stageRows(table, mapping))}
+            />
+          )}
         </div>
+      )}
+
+      <div className="mt-6 flex justify-center space-x-3">
+        {!syncStudents && (
+          <button
+            onClick={handleProcessUpload}
+            className="btn-primary"
+            disabled={isUploading || isCheckingExisting || importableRows.length === 0}
+          >
+            {isUploading
+              ? 'Processing...'
+              : rows
+                ? `${mode === 'sync' ? 'Review' : 'Import'} ${importableRows.length} Row(s)`
+                : 'Process Upload'}
+          </button>
+        )}
+        {spreadsheet && (
+          <button onClick={resetUpload} className="btn-secondary flex items-center space-x-2" disabled={isUploading}>
+            <X size={16} />
+            <span>Cancel</span>
+          </button>
+        )}
+        <button onClick={downloadTemplate} className="btn-secondary flex items-center space-x-2">
+          <Download size={16} />
+          <span>Download Template</span>
+        </button>
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import type { StudentRecord } from '../StudentData';
+import RecordHistoryPanel from '../RecordHistoryPanel';
 
 interface Props {
   isOpen: boolean;
@@ -36,7 +37,7 @@ const EditStudentModal: React.FC<Props> = ({ isOpen, onClose, student, onSave })
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => (!open ? onClose() : null)}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Student Data</DialogTitle>
         </DialogHeader>
@@ -62,6 +63,7 @@ const EditStudentModal: React.FC<Props> = ({ isOpen, onClose, student, onSave })
               <label className="label">School Year</label>
               <input className="input-field" value={form.school_year} name="school_year" onChange={handleChange} required />
             </div>
+            <RecordHistoryPanel table="students" recordId={form.student_no} />
             <div className="flex justify-end gap-2 pt-2">
               <button type="button" onClick={onClose} className="btn-secondary">Cancel</button>
               <button type="submit" className="btn-primary" disabled={saving}>{saving ? 'Saving...' : 'Save Changes'}</button>
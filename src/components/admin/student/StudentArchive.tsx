@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, RotateCcw, Search } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import { ARCHIVE_STATUSES, ARCHIVE_STATUS_LABELS } from '@/lib/student-status';
+import type { ArchivedStudentStatus } from '@/lib/student-status';
+import LoadingSpinner from '../../LoadingSpinner';
+import type { StudentRecord } from '../StudentData';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const STATUS_STYLES: Record<ArchivedStudentStatus, string> = {
+  graduated: 'bg-green-100 text-green-800',
+  withdrawn: 'bg-yellow-100 text-yellow-800',
+  deleted: 'bg-red-100 text-red-800',
+};
+
+const StudentArchive = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ArchivedStudentStatus | ''>('');
+  const [yearFilter, setYearFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { queryWithAuth, mutateWithAuth, supabase } = useSupabaseAuth();
+
+  const { data: students = [], isLoading } = useQuery({
+    queryKey: ['student-data', 'archived'],
+    queryFn: async () => {
+      const data = await queryWithAuth(
+        supabase
+          .from('students')
+          .select('*')
+          .neq('status', 'active')
+          .order('archived_at', { ascending: false, nullsFirst: false }),
+        { showErrorToast: false }
+      );
+      return (data || []) as StudentRecord[];
+    },
+  });
+
+  const distinctYears = useMemo(
+    () => Array.from(new Set(students.map((s) => s.school_year))).sort(),
+    [students]
+  );
+
+  const filtered = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return students.filter((s) =>
+      (!term ||
+        s.student_no.toLowerCase().includes(term) ||
+        s.full_name.toLowerCase().includes(term) ||
+        s.course_section.toLowerCase().includes(term) ||
+        s.email.toLowerCase().includes(term)) &&
+      (!statusFilter || s.status === statusFilter) &&
+      (!yearFilter || s.school_year === yearFilter)
+    );
+  }, [students, searchTerm, statusFilter, yearFilter]);
+
+  const allSelected = filtered.length > 0 && filtered.every((s) => selectedIds.includes(s.student_no));
+
+  const handleRestore = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+      await mutateWithAuth(
+        supabase
+          .from('students')
+          .update({ status: 'active' })
+          .in('student_no', ids),
+        {
+          onError: (error) => {
+            console.error('Error restoring students:', error);
+            toast({
+              title: "Error",
+              description: "Failed to restore student records.",
+              variant: "destructive",
+            });
+          },
+        }
+      );
+
+      toast({
+        title: "Restored",
+        description: `${ids.length} student record(s) restored.`,
+      });
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ['student-data'] });
+    } catch (error) {
+      console.error('Restore operation failed:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? filtered.map((s) => s.student_no) : []);
+  };
+
+  const handleSelect = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selected) => selected !== id)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row gap-3 items-stretch lg:items-center">
+        <div className="relative flex-1 max-w-xl">
+          <Search className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search archived students..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="input-field pl-10"
+          />
+        </div>
+        <div className="flex gap-3">
+          <div className="flex items-center gap-2">
+            <Filter size={16} className="text-gray-500" />
+            <select
+              className="input-field"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ArchivedStudentStatus | '')}
+            >
+              <option value="">All Reasons</option>
+              {ARCHIVE_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {ARCHIVE_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Filter size={16} className="text-gray-500" />
+            <select className="input-field" value={yearFilter} onChange={(e) => setYearFilter(e.target.value)}>
+              <option value="">All Years</option>
+              {distinctYears.map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center justify-between">
+          <span className="text-sm font-medium text-blue-900">
+            {selectedIds.length} item(s) selected
+          </span>
+          <button
+            onClick={() => handleRestore(selectedIds)}
+            disabled={isWorking}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <RotateCcw size={16} />
+            <span>Restore Selected</span>
+          </button>
+        </div>
+      )}
+
+      <div className="card-hover overflow-hidden">
+        {isLoading ? (
+          <div className="py-12 flex justify-center">
+            <LoadingSpinner size={60} message="Loading archived students..." />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">
+            {students.length > 0 ? 'No archived students match your filters.' : 'No students have been archived.'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-[500px]">
+            <Table>
+              <TableHeader className="sticky top-0 bg-gray-50 z-10">
+                <TableRow>
+                  <TableHead className="w-12">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={(e) => handleSelectAll(e.target.checked)}
+                      className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500 cursor-pointer"
+                      aria-label="Select all archived students"
+                    />
+                  </TableHead>
+                  <TableHead>Student#</TableHead>
+                  <TableHead>Full Name</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>School Year</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Archived</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((s) => {
+                  const status = s.status as ArchivedStudentStatus;
+                  return (
+                    <TableRow key={s.student_no}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(s.student_no)}
+                          onChange={(e) => handleSelect(s.student_no, e.target.checked)}
+                          className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500 cursor-pointer"
+                          aria-label={`Select ${s.full_name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm font-mono font-medium text-blue-600 bg-blue-50 px-2 py-1 rounded inline-block">{s.student_no}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium text-gray-900">{s.full_name}</div>
+                        <div className="text-xs text-gray-500">{s.email}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{s.course_section}</TableCell>
+                      <TableCell className="text-sm">{s.school_year}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status] ?? 'bg-gray-100 text-gray-800'}`}>
+                          {ARCHIVE_STATUS_LABELS[status] ?? s.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {s.archived_at ? new Date(s.archived_at).toLocaleString() : 'Unknown'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => handleRestore([s.student_no])}
+                            disabled={isWorking}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                            title="Restore"
+                          >
+                            <RotateCcw size={16} />
+                          </button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="px-4 py-3 border-t border-gray-200 text-sm text-gray-700">
+          {students.length} archived student record(s)
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudentArchive;
@@ -10,7 +10,7 @@ interface Props {
   sortDir: 'asc' | 'desc';
   onSort: (key: keyof StudentRecord) => void;
   onEdit: (student: StudentRecord) => void;
-  onDelete: (student: StudentRecord) => void;
+  onArchive: (student: StudentRecord) => void;
   selectedStudentIds: string[];
   onSelectAll: (checked: boolean) => void;
   onSelectStudent: (studentId: string, checked: boolean) => void;
@@ -24,8 +24,8 @@ const headerLabels: { key: keyof StudentRecord; label: string }[] = [
   { key: 'school_year', label: 'School Year' },
 ];
 
-import { Edit, Trash2 } from 'lucide-react';
-const StudentDataTable: React.FC<Props> = ({ students, isLoading, sortKey, sortDir, onSort, onEdit, onDelete, selectedStudentIds, onSelectAll, onSelectStudent }) => {
+import { Archive, Edit } from 'lucide-react';
+const StudentDataTable: React.FC<Props> = ({ students, isLoading, sortKey, sortDir, onSort, onEdit, onArchive, selectedStudentIds, onSelectAll, onSelectStudent }) => {
   const allSelected = students.length > 0 && students.every(student => selectedStudentIds.includes(student.student_no));
   const someSelected = selectedStudentIds.length > 0 && !allSelected;
   if (isLoading) {
@@ -105,11 +105,11 @@ const StudentDataTable: React.FC<Props> = ({ students, isLoading, sortKey, sortD
                           <Edit size={16} />
                         </button>
                         <button
-                          onClick={() => onDelete(s)}
+                          onClick={() => onArchive(s)}
                           className="text-red-600 hover:text-red-900"
-                          title="Delete student"
+                          title="Archive student"
                         >
-                          <Trash2 size={16} />
+                          <Archive size={16} />
                         </button>
                       </div>
                     </TableCell>
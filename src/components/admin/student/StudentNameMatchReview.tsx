@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { Check, PenLine, Save } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAppSetting, saveAppSetting } from '@/lib/app-settings';
+import {
+  DEFAULT_NAME_MATCH_THRESHOLD,
+  MIN_NAME_MATCH_THRESHOLD,
+  NAME_MATCH_STATUS_LABELS,
+  NAME_MATCH_THRESHOLD_SETTING,
+  fetchNameMatchReviews,
+  formatMatchScore,
+  resolveNameMatch,
+  type NameMatchStatus,
+  type StudentNameMatchReview as NameMatchReview,
+} from '@/lib/student-name-match';
+import LoadingSpinner from '../../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const REVIEW_STATUSES: NameMatchStatus[] = ['open', 'dismissed', 'name_updated'];
+
+/**
+ * Names entered at the kiosk that scored close to the match threshold,
+ * whether they were let through or turned away.
+ */
+const StudentNameMatchReview = () => {
+  const [status, setStatus] = useState<NameMatchStatus>('open');
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: threshold = DEFAULT_NAME_MATCH_THRESHOLD } = useQuery({
+    queryKey: ['app-settings', NAME_MATCH_THRESHOLD_SETTING],
+    queryFn: () => fetchAppSetting<number>(NAME_MATCH_THRESHOLD_SETTING, DEFAULT_NAME_MATCH_THRESHOLD),
+  });
+
+  useEffect(() => {
+    setThresholdInput(String(Math.round(threshold * 100)));
+  }, [threshold]);
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ['student-name-matches', status],
+    queryFn: () => fetchNameMatchReviews(status),
+  });
+
+  const handleSaveThreshold = async () => {
+    const percent = parseInt(thresholdInput, 10);
+    if (Number.isNaN(percent) || percent < MIN_NAME_MATCH_THRESHOLD * 100 || percent > 100) {
+      toast({
+        title: "Invalid Value",
+        description: `Enter a percentage from ${MIN_NAME_MATCH_THRESHOLD * 100} to 100.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveAppSetting(NAME_MATCH_THRESHOLD_SETTING, percent / 100);
+      queryClient.invalidateQueries({ queryKey: ['app-settings', NAME_MATCH_THRESHOLD_SETTING] });
+      toast({
+        title: "Saved",
+        description: percent === 100
+          ? 'Names must match the name on file exactly, apart from case, accents, punctuation and order.'
+          : `Names matching at ${percent}% or more are accepted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the match threshold.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResolve = async (review: NameMatchReview, useEnteredName: boolean) => {
+    if (useEnteredName && !window.confirm(`Change the name on file for ${review.student_no} from "${review.name_on_file}" to "${review.entered_name}"?`)) {
+      return;
+    }
+
+    setBusyId(review.id);
+    try {
+      await resolveNameMatch(review.id, useEnteredName);
+      toast({
+        title: useEnteredName ? "Name Updated" : "Reviewed",
+        description: useEnteredName
+          ? `${review.student_no} is now on file as ${review.entered_name}.`
+          : `The name on file for ${review.student_no} was kept.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['student-name-matches'] });
+      if (useEnteredName) queryClient.invalidateQueries({ queryKey: ['student-data'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || 'Failed to review the name match.',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {REVIEW_STATUSES.map(option => (
+            <button
+              key={option}
+              onClick={() => setStatus(option)}
+              className={`px-3 py-1.5 text-sm rounded-lg border ${
+                status === option
+                  ? 'bg-red-600 border-red-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {NAME_MATCH_STATUS_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Accept names matching at least</span>
+            <input
+              type="number"
+              min={MIN_NAME_MATCH_THRESHOLD * 100}
+              max="100"
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+            <span>%</span>
+          </label>
+          <button
+            onClick={handleSaveThreshold}
+            disabled={thresholdInput === String(Math.round(threshold * 100))}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Case, accents, punctuation and word order never count against a name"
+          >
+            <Save size={16} />
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600">
+        Names scoring within 15 points below the threshold, or accepted without matching exactly, are listed here as
+        students enter them.
+      </p>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <LoadingSpinner size={60} message="Loading name matches..." />
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-12 shadow-sm text-center text-gray-500">
+          {status === 'open' ? 'No borderline names to review.' : 'Nothing here yet.'}
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student#</TableHead>
+                <TableHead>Entered Name</TableHead>
+                <TableHead>Name on File</TableHead>
+                <TableHead className="w-32">Score</TableHead>
+                <TableHead className="w-20 text-right">Tries</TableHead>
+                <TableHead>{status === 'open' ? 'Last Seen' : 'Reviewed'}</TableHead>
+                {status === 'open' && <TableHead className="w-56"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map(review => (
+                <TableRow key={review.id}>
+                  <TableCell className="font-mono text-sm">{review.student_no}</TableCell>
+                  <TableCell className="font-medium">{review.entered_name}</TableCell>
+                  <TableCell>{review.name_on_file}</TableCell>
+                  <TableCell>
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full ${
+                        review.accepted ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                      title={`Threshold at the time: ${formatMatchScore(review.threshold)}`}
+                    >
+                      {formatMatchScore(review.score)} {review.accepted ? 'accepted' : 'rejected'}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{review.attempts}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {new Date((status === 'open' ? review.last_seen_at : review.reviewed_at) ?? review.created_at).toLocaleString()}
+                  </TableCell>
+                  {status === 'open' && (
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleResolve(review, false)}
+                          disabled={busyId !== null}
+                          className="btn-secondary flex items-center space-x-1 text-sm disabled:opacity-50"
+                          title="The name on file is right"
+                        >
+                          <Check size={14} />
+                          <span>Keep</span>
+                        </button>
+                        <button
+                          onClick={() => handleResolve(review, true)}
+                          disabled={busyId !== null}
+                          className="btn-secondary flex items-center space-x-1 text-sm disabled:opacity-50"
+                          title="Replace the name on file with the entered name"
+                        >
+                          <PenLine size={14} />
+                          <span>Use Entered</span>
+                        </button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentNameMatchReview;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  REGISTRATION_STATUS_LABELS,
+  fetchRegistrationRequests,
+  reviewRegistrationRequest,
+  type RegistrationStatus,
+  type StudentRegistrationRequest,
+} from '@/lib/student-registration';
+import LoadingSpinner from '../../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const QUEUE_STATUSES: RegistrationStatus[] = ['pending', 'approved', 'rejected'];
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+/**
+ * Registration requests from students who were not in the records. Only
+ * requests with a confirmed email reach the pending list.
+ */
+const StudentRegistrationQueue = () => {
+  const [status, setStatus] = useState<RegistrationStatus>('pending');
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ['student-registrations', status],
+    queryFn: () => fetchRegistrationRequests(status),
+  });
+
+  const handleReview = async (request: StudentRegistrationRequest, approve: boolean) => {
+    let note: string | null = null;
+    if (approve) {
+      if (!window.confirm(`Add ${request.full_name} (${request.student_no}) to the student records?`)) return;
+    } else {
+      note = window.prompt(`Reject the request from ${request.full_name}? Add a note for the record (optional).`, '');
+      if (note === null) return;
+    }
+
+    setBusyId(request.id);
+    try {
+      await reviewRegistrationRequest(request.id, approve, note ?? undefined);
+      toast({
+        title: approve ? "Student Added" : "Request Rejected",
+        description: approve
+          ? `${request.full_name} can now submit with student number ${request.student_no}.`
+          : `The request from ${request.full_name} was rejected.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['student-registrations'] });
+      if (approve) queryClient.invalidateQueries({ queryKey: ['student-data'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || 'Failed to review the request.',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {QUEUE_STATUSES.map(option => (
+          <button
+            key={option}
+            onClick={() => setStatus(option)}
+            className={`px-3 py-1.5 text-sm rounded-lg border ${
+              status === option
+                ? 'bg-red-600 border-red-600 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {REGISTRATION_STATUS_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <LoadingSpinner size={60} message="Loading requests..." />
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-12 shadow-sm text-center text-gray-500">
+          No {REGISTRATION_STATUS_LABELS[status].toLowerCase()} registration requests.
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student#</TableHead>
+                <TableHead>Full Name</TableHead>
+                <TableHead>Course and Section</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>School Year</TableHead>
+                <TableHead>{status === 'pending' ? 'Email Verified' : 'Reviewed'}</TableHead>
+                {status === 'pending' ? <TableHead className="w-40"></TableHead> : <TableHead>Note</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-mono text-sm">{request.student_no}</TableCell>
+                  <TableCell className="font-medium">{request.full_name}</TableCell>
+                  <TableCell>{request.course_section}</TableCell>
+                  <TableCell className="text-sm">{request.email}</TableCell>
+                  <TableCell>{request.school_year}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {formatDate(status === 'pending' ? request.verified_at : request.reviewed_at)}
+                  </TableCell>
+                  {status === 'pending' ? (
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleReview(request, true)}
+                          disabled={busyId !== null}
+                          className="px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 flex items-center space-x-1 disabled:opacity-50"
+                        >
+                          <Check size={14} />
+                          <span>Approve</span>
+                        </button>
+                        <button
+                          onClick={() => handleReview(request, false)}
+                          disabled={busyId !== null}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                          title="Reject"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    </TableCell>
+                  ) : (
+                    <TableCell className="text-sm text-gray-600">{request.review_note || '—'}</TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentRegistrationQueue;
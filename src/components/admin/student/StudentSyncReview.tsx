@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { ArrowLeft, CheckCircle, Download, RefreshCw } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCsv } from '@/lib/csv';
+import { ARCHIVE_STATUSES, ARCHIVE_STATUS_LABELS, type ArchivedStudentStatus } from '@/lib/student-status';
+import {
+  ROSTER_CHANGE_LABELS,
+  ROSTER_FIELD_LABELS,
+  buildRosterReportCsv,
+  fetchRosterDiff,
+  syncStudentRoster,
+  type RosterChange,
+  type RosterChangeKind,
+  type RosterStudent,
+  type RosterSyncSummary,
+} from '@/lib/student-sync';
+import LoadingSpinner from '../../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface Props {
+  students: RosterStudent[];
+  fileName: string;
+  /** Rows left out of the list for errors or by hand; those students show up as missing. */
+  skippedRows: number;
+  onBack: () => void;
+  onComplete: (summary: RosterSyncSummary) => void;
+}
+
+const CHANGE_KINDS: RosterChangeKind[] = ['added', 'changed', 'missing'];
+
+const describeChange = (change: RosterChange) => {
+  if (change.change !== 'changed') return null;
+  return (change.changed_fields ?? []).map(field => (
+    <div key={field} className="text-xs">
+      <span className="font-medium text-gray-700">{ROSTER_FIELD_LABELS[field]}:</span>{' '}
+      {field === 'status' ? (
+        <span>{change.current_data?.status} → active</span>
+      ) : (
+        <span>
+          <span className="line-through text-gray-400">{change.current_data?.[field] || '—'}</span>
+          {' → '}
+          <span className="text-gray-900">{change.incoming_data?.[field]}</span>
+        </span>
+      )}
+    </div>
+  ));
+};
+
+/**
+ * Reconciles the uploaded registrar list with the student records: shows who
+ * would be added, changed or left out, then applies it all at once.
+ */
+const StudentSyncReview: React.FC<Props> = ({ students, fileName, skippedRows, onBack, onComplete }) => {
+  const [activeKind, setActiveKind] = useState<RosterChangeKind>('added');
+  const [archiveMissing, setArchiveMissing] = useState(false);
+  const [archiveStatus, setArchiveStatus] = useState<ArchivedStudentStatus>('withdrawn');
+  const [isApplying, setIsApplying] = useState(false);
+  const [summary, setSummary] = useState<RosterSyncSummary | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: changes = [], isLoading, isError } = useQuery({
+    queryKey: ['student-roster-diff', students],
+    queryFn: () => fetchRosterDiff(students),
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const counts = CHANGE_KINDS.reduce(
+    (acc, kind) => ({ ...acc, [kind]: changes.filter(change => change.change === kind).length }),
+    {} as Record<RosterChangeKind, number>
+  );
+  const visibleChanges = changes.filter(change => change.change === activeKind);
+
+  const handleApply = async () => {
+    if (archiveMissing && counts.missing > 0) {
+      const statusLabel = ARCHIVE_STATUS_LABELS[archiveStatus].toLowerCase();
+      if (!window.confirm(`Archive ${counts.missing} student(s) missing from the registrar list as ${statusLabel}?`)) return;
+    }
+
+    setIsApplying(true);
+    try {
+      const result = await syncStudentRoster(students, archiveMissing, archiveStatus);
+      setSummary(result);
+      queryClient.invalidateQueries({ queryKey: ['student-data'] });
+    } catch (error) {
+      toast({
+        title: 'Sync Failed',
+        description: 'No changes were saved. ' + (error instanceof Error ? error.message : ''),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const baseName = fileName.replace(/\.(csv|xlsx)$/i, '') || 'registrar';
+    downloadCsv(buildRosterReportCsv(changes, !!summary && summary.archived > 0), `${baseName}_sync_report.csv`);
+  };
+
+  if (summary) {
+    const lines = [
+      { label: 'Students on the registrar list', value: summary.listed },
+      { label: 'Added', value: summary.added },
+      { label: 'Updated', value: summary.updated },
+      { label: 'Restored from the archive', value: summary.reactivated },
+      { label: 'Unchanged', value: summary.unchanged },
+      { label: summary.archived > 0 ? 'Missing and archived' : 'Missing (left active)', value: summary.archived > 0 ? summary.archived : summary.missing },
+    ];
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-green-700">
+          <CheckCircle size={20} />
+          <h4 className="font-semibold">Sync complete</h4>
+        </div>
+        <dl className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {lines.map(line => (
+            <div key={line.label} className="bg-gray-50 rounded-lg p-3">
+              <dt className="text-xs text-gray-500">{line.label}</dt>
+              <dd className="text-xl font-semibold text-gray-900">{line.value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div className="flex justify-center space-x-3">
+          <button onClick={handleDownloadReport} className="btn-secondary flex items-center space-x-2">
+            <Download size={16} />
+            <span>Download Report</span>
+          </button>
+          <button onClick={() => onComplete(summary)} className="btn-primary">
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800 font-medium"
+        disabled={isApplying}
+      >
+        <ArrowLeft size={16} />
+        <span>Back to preview</span>
+      </button>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <LoadingSpinner size={60} message="Comparing with student records..." />
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-red-600">Could not compare the list with the student records. Please try again.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {CHANGE_KINDS.map(kind => (
+              <button
+                key={kind}
+                onClick={() => setActiveKind(kind)}
+                className={`px-3 py-1.5 text-sm rounded-lg border ${activeKind === kind
+                  ? 'bg-red-600 border-red-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+              >
+                {ROSTER_CHANGE_LABELS[kind]} ({counts[kind]})
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 text-left">
+            {students.length - counts.added - counts.changed} listed student(s) already match their records.
+          </p>
+          {skippedRows > 0 && (
+            <p className="text-sm text-yellow-700 text-left">
+              {skippedRows} row(s) from the file were skipped. Students on those rows count as missing.
+            </p>
+          )}
+
+          <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto text-left">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-36">Student#</TableHead>
+                  <TableHead>Full Name</TableHead>
+                  <TableHead>{activeKind === 'changed' ? 'Changes' : 'Course and Section'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleChanges.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-gray-500 py-6">
+                      No {ROSTER_CHANGE_LABELS[activeKind].toLowerCase()} students.
+                    </TableCell>
+                  </TableRow>
+                ) : visibleChanges.map(change => {
+                  const record = change.incoming_data ?? change.current_data;
+                  return (
+                    <TableRow key={`${change.change}-${change.student_no}`}>
+                      <TableCell className="font-mono text-sm">{change.student_no}</TableCell>
+                      <TableCell>{change.current_data?.full_name || record?.full_name}</TableCell>
+                      <TableCell>{describeChange(change) ?? record?.course_section}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {counts.missing > 0 && (
+            <div className="flex flex-wrap items-center gap-3 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-left">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={archiveMissing}
+                  onChange={(e) => setArchiveMissing(e.target.checked)}
+                  className="w-4 h-4 rounded"
+                  disabled={isApplying}
+                />
+                <span>Archive the {counts.missing} missing student(s) as</span>
+              </label>
+              <select
+                value={archiveStatus}
+                onChange={(e) => setArchiveStatus(e.target.value as ArchivedStudentStatus)}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white"
+                disabled={!archiveMissing || isApplying}
+                aria-label="Archive status for missing students"
+              >
+                {ARCHIVE_STATUSES.map(status => (
+                  <option key={status} value={status}>{ARCHIVE_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <span className="text-gray-600">Otherwise they stay active.</span>
+            </div>
+          )}
+
+          <div className="flex justify-center">
+            <button
+              onClick={handleApply}
+              className="btn-primary flex items-center space-x-2"
+              disabled={isApplying}
+            >
+              <RefreshCw size={16} className={isApplying ? 'animate-spin' : ''} />
+              <span>{isApplying ? 'Applying...' : 'Apply Changes'}</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StudentSyncReview;
@@ -9,6 +9,15 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  emptyMetadataForm,
+  fromMetadataForm,
+  validateMetadataForm,
+  type ThesisMetadata,
+  type ThesisMetadataForm,
+} from '@/lib/thesis-metadata';
+import ThesisMetadataFields from './ThesisMetadataFields';
+import DepartmentSelect from './DepartmentSelect';
 
 interface NewThesisData {
   barcode: string;
@@ -16,12 +25,16 @@ interface NewThesisData {
   authors: string[];
   department: string;
   publication_year: number;
+  /** Shelf location of the first copy. */
+  location: string;
 }
 
+type NewThesis = NewThesisData & { metadata: ThesisMetadata };
+
 interface AddThesisModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (newThesis: NewThesisData) => Promise<void>;
+  onSave: (newThesis: NewThesis) => Promise<void>;
 }
 
 const AddThesisModal: React.FC<AddThesisModalProps> = ({
@@ -35,7 +48,9 @@ const AddThesisModal: React.FC<AddThesisModalProps> = ({
     authors: [''],
     department: '',
     publication_year: new Date().getFullYear(),
+    location: '',
   });
+  const [metadataForm, setMetadataForm] = useState<ThesisMetadataForm>(emptyMetadataForm);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Reset form when modal opens
@@ -47,7 +62,9 @@ const AddThesisModal: React.FC<AddThesisModalProps> = ({
         authors: [''],
         department: '',
         publication_year: new Date().getFullYear(),
+        location: '',
       });
+      setMetadataForm(emptyMetadataForm);
     }
   }, [isOpen]);
 
@@ -117,11 +134,18 @@ const AddThesisModal: React.FC<AddThesisModalProps> = ({
       return;
     }
 
+    const metadataError = validateMetadataForm(metadataForm);
+    if (metadataError) {
+      alert(metadataError);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       await onSave({
         ...formData,
         authors: filteredAuthors,
+        metadata: fromMetadataForm(metadataForm),
       });
       onClose();
     } catch (error) {
@@ -139,23 +163,39 @@ const AddThesisModal: React.FC<AddThesisModalProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add New Thesis</DialogTitle>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="barcode">Barcode *</Label>
-            <Input
-              id="barcode"
-              name="barcode"
-              value={formData.barcode}
-              onChange={handleInputChange}
-              required
-              placeholder="Enter thesis barcode"
-              disabled={isSubmitting}
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="barcode">Barcode *</Label>
+              <Input
+                id="barcode"
+                name="barcode"
+                value={formData.barcode}
+                onChange={handleInputChange}
+                required
+                placeholder="Enter thesis barcode"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location">Shelf Location</Label>
+              <Input
+                id="location"
+                name="location"
+                value={formData.location}
+                onChange={handleInputChange}
+                placeholder="e.g. Shelf B-3"
+                disabled={isSubmitting}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">
+              This is the first copy. More copies can be added from the Copies action in the table.
+            </p>
           </div>
 
           <div className="space-y-2">
@@ -207,13 +247,11 @@ const AddThesisModal: React.FC<AddThesisModalProps> = ({
 
           <div className="space-y-2">
             <Label htmlFor="department">Department *</Label>
-            <Input
+            <DepartmentSelect
               id="department"
-              name="department"
               value={formData.department}
-              onChange={handleInputChange}
+              onChange={(department) => setFormData((prev) => ({ ...prev, department }))}
               required
-              placeholder="Enter department"
               disabled={isSubmitting}
             />
           </div>
@@ -233,6 +271,12 @@ const AddThesisModal: React.FC<AddThesisModalProps> = ({
             />
           </div>
 
+          <ThesisMetadataFields
+            value={metadataForm}
+            onChange={(field, value) => setMetadataForm((prev) => ({ ...prev, [field]: value }))}
+            disabled={isSubmitting}
+          />
+
           <DialogFooter>
             <button
               type="button"
@@ -1,10 +1,181 @@
-
-import React, { useState } from 'react';
-import { Upload, FileText, Download } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Upload, FileText, Download, X, ArrowLeft } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  AuthorDelimiter,
+  AuthorNameOrder,
+  AuthorParseOptions,
+  AUTHOR_DELIMITER_LABELS,
+  defaultAuthorParseOptions,
+  parseAuthors,
+} from '@/lib/author-names';
+import {
+  ImportIssue,
+  StagedRow,
+  buildRejectedRowsCsv,
+  findDuplicateRows,
+  isImportableRow,
+} from '@/lib/import-validation';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import {
+  SPREADSHEET_ACCEPT,
+  SpreadsheetFile,
+  SpreadsheetTable,
+  isSpreadsheetFile,
+  openSpreadsheetFile,
+} from '@/lib/spreadsheet';
+import {
+  ColumnMapping,
+  ImportFieldSpec,
+  getHeaderKeywords,
+  suggestColumnMapping,
+} from '@/lib/column-mapping';
+import {
+  CONDITION_OPTIONS,
+  ThesisImportRecord,
+  ThesisImportResult,
+  findCopiesByBarcode,
+  importThesisRecords,
+  parseCondition,
+} from '@/lib/thesis-copies';
+import { fromMetadataForm, parsePageCount } from '@/lib/thesis-metadata';
+import { findTerm } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import ImportPreviewGrid from '../ImportPreviewGrid';
+import ColumnMappingStep from '../ColumnMappingStep';
+
+type ThesisField =
+  | 'barcode'
+  | 'thesis_title'
+  | 'authors'
+  | 'department'
+  | 'publication_year'
+  | 'location'
+  | 'condition'
+  | 'abstract'
+  | 'keywords'
+  | 'adviser'
+  | 'panel_members'
+  | 'degree_program'
+  | 'call_number'
+  | 'page_count'
+  | 'language';
+
+const THESIS_COLUMNS: ImportFieldSpec<ThesisField>[] = [
+  {
+    key: 'barcode',
+    label: 'Barcode',
+    required: true,
+    aliases: ['barcode', 'bar code', 'accession no', 'accession number'],
+  },
+  {
+    key: 'thesis_title',
+    label: 'Title',
+    required: true,
+    aliases: ['title', 'thesis title', 'research title'],
+  },
+  {
+    key: 'authors',
+    label: 'Authors',
+    required: true,
+    multiple: true,
+    aliases: ['author', 'authors', 'researcher', 'researchers', 'proponent', 'proponents', 'name'],
+    excludeWords: ['department', 'program', 'course', 'title', 'adviser', 'advisor', 'panel', 'file'],
+  },
+  {
+    key: 'department',
+    label: 'Department',
+    aliases: ['department', 'dept', 'program', 'college', 'course'],
+  },
+  {
+    key: 'publication_year',
+    label: 'Year',
+    aliases: ['year', 'publication year', 'year published', 'pub year', 'date published'],
+    excludeWords: ['level', 'section'],
+  },
+  {
+    key: 'location',
+    label: 'Location',
+    aliases: ['location', 'shelf', 'shelf location', 'shelf no'],
+  },
+  {
+    key: 'condition',
+    label: 'Condition',
+    aliases: ['condition', 'copy condition', 'physical condition'],
+  },
+  {
+    key: 'abstract',
+    label: 'Abstract',
+    aliases: ['abstract', 'summary'],
+  },
+  {
+    key: 'keywords',
+    label: 'Keywords',
+    aliases: ['keywords', 'keyword', 'subjects', 'subject', 'tags'],
+  },
+  {
+    key: 'adviser',
+    label: 'Adviser',
+    aliases: ['adviser', 'advisor', 'thesis adviser', 'research adviser'],
+  },
+  {
+    key: 'panel_members',
+    label: 'Panel',
+    aliases: ['panel', 'panel members', 'panelists', 'panel of examiners'],
+  },
+  {
+    key: 'degree_program',
+    label: 'Degree/Program',
+    aliases: ['degree', 'degree program', 'degree course'],
+  },
+  {
+    key: 'call_number',
+    label: 'Call Number',
+    aliases: ['call number', 'call no'],
+  },
+  {
+    key: 'page_count',
+    label: 'Pages',
+    aliases: ['pages', 'page count', 'no of pages', 'number of pages'],
+  },
+  {
+    key: 'language',
+    label: 'Language',
+    aliases: ['language'],
+  },
+];
+
+// Optional text columns copied as-is into the staged rows
+const METADATA_FIELDS: ThesisField[] = [
+  'location',
+  'condition',
+  'abstract',
+  'keywords',
+  'adviser',
+  'panel_members',
+  'degree_program',
+  'call_number',
+  'page_count',
+  'language',
+];
+
+// Staged author lists are edited as "First Author; Second Author"
+const splitStagedAuthors = (value: string) =>
+  value.split(';').map(author => author.trim()).filter(Boolean);
+
+const HEADER_KEYWORDS = getHeaderKeywords(THESIS_COLUMNS);
+
+// Copy barcodes already in the database, mapped to whether their thesis is in the trash
+const NO_EXISTING_BARCODES = new Map<string, boolean>();
+
+// Rows sharing a title, department and year are copies of one thesis
+const titleKey = (fields: Record<ThesisField, string>) =>
+  [fields.thesis_title, fields.department.trim() || 'Not Specified', fields.publication_year]
+    .map(value => value.trim().toLowerCase())
+    .join('|');
 
 interface CSVUploadSectionProps {
-  onUploadSuccess: (recordCount: number) => void;
+  onUploadSuccess: (result: ThesisImportResult) => void;
   onUploadError: (error: string) => void;
 }
 
@@ -13,230 +184,272 @@ const CSVUploadSection: React.FC<CSVUploadSectionProps> = ({
   onUploadError
 }) => {
   const [isUploading, setIsUploading] = useState(false);
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetFile | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping<ThesisField> | null>(null);
+  const [step, setStep] = useState<'mapping' | 'preview'>('mapping');
+  const [authorOptions, setAuthorOptions] = useState<AuthorParseOptions>(defaultAuthorParseOptions);
+  const [rows, setRows] = useState<StagedRow<ThesisField>[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const { vocabulary } = useVocabulary();
 
   // Download CSV template
   const downloadTemplate = () => {
-    const headers = ['Barcode', 'Title', 'Author', 'Department', 'Year'];
+    const headers = ['Barcode', 'Title', 'Author', 'Department', 'Year', 'Location', 'Condition', 'Keywords', 'Adviser', 'Pages'];
     const sampleData = [
-      ['THS-2024-001', 'Advanced Machine Learning Algorithms for Healthcare', 'John Doe', 'Computer Science', '2024']
+      ['THS-2024-001', 'Advanced Machine Learning Algorithms for Healthcare', 'John Doe; Jane Smith', 'Computer Science', '2024', 'Shelf B-3', 'Good', 'machine learning; healthcare', 'Maria Santos', '120'],
+      ['THS-2024-002', 'Advanced Machine Learning Algorithms for Healthcare', 'John Doe; Jane Smith', 'Computer Science', '2024', 'Reserve Section', 'Good', '', '', '']
     ];
 
-    // Create CSV content
-    const csvContent = [
-      headers.join(','),
-      ...sampleData.map(row => row.join(','))
-    ].join('\n');
-
-    // Create blob and download link
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'thesis_data_template.csv');
-    link.style.visibility = 'hidden';
-
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(toCsv([headers, ...sampleData]), 'thesis_data_template.csv');
   };
 
-  // Helper function to parse CSV line properly handling quoted fields
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
+  const fileName = spreadsheet?.fileName || '';
+
+  // Turn the mapped columns into staged rows. Row-level problems are reported
+  // by the preview validation.
+  const stageRows = (
+    source: SpreadsheetTable,
+    columns: ColumnMapping<ThesisField>,
+    options: AuthorParseOptions
+  ): StagedRow<ThesisField>[] => {
+    const [barcodeIndex] = columns.barcode;
+    const [titleIndex] = columns.thesis_title;
+    const [departmentIndex] = columns.department;
+    const [yearIndex] = columns.publication_year;
+
+    return source.rows.map((record, index) => {
+      const values = record.map(v => v.trim());
+      const authorCells = columns.authors.map(column => values[column] || '').filter(Boolean);
+      const metadata = Object.fromEntries(
+        METADATA_FIELDS.map(field => {
+          const [index] = columns[field];
+          return [field, index !== undefined ? values[index] || '' : ''];
+        })
+      ) as Record<ThesisField, string>;
+
+      return {
+        id: index + 1,
+        rowNumber: source.rowNumbers[index],
+        excluded: false,
+        fields: {
+          ...metadata,
+          barcode: values[barcodeIndex] || '',
+          thesis_title: values[titleIndex] || '',
+          authors: parseAuthors(authorCells, options).join('; '),
+          department: departmentIndex !== undefined ? values[departmentIndex] || '' : '',
+          publication_year: yearIndex !== undefined ? values[yearIndex] || '' : String(new Date().getFullYear()),
+        },
+      };
+    });
+  };
 
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+  // Read the chosen sheet and suggest a column mapping for it
+  const loadSheet = (source: SpreadsheetFile, name: string) => {
+    setSheetName(name);
+    try {
+      const sheet = source.readSheet(name);
+      if (sheet.headers.length === 0) {
+        throw new Error('File is empty');
       }
+      if (sheet.rows.length === 0) {
+        throw new Error('No valid records found. Please ensure the file has data rows after the header.');
+      }
+      setTable(sheet);
+      setMapping(suggestColumnMapping(sheet.headers, THESIS_COLUMNS));
+      setParseError(null);
+    } catch (error) {
+      console.error('File parsing error:', error);
+      setTable(null);
+      setMapping(null);
+      setParseError(error instanceof Error ? error.message : 'Failed to process file.');
     }
-    result.push(current.trim());
-    return result;
+    setRows([]);
+    setStep('mapping');
   };
 
-  // Parse CSV content
-  const parseCSV = (csvText: string) => {
-    try {
-      const lines = csvText.trim().split('\n').filter(line => line.trim() !== '');
+  // Re-stage whenever the author options change. This re-reads the file, so
+  // inline edits are discarded.
+  useEffect(() => {
+    if (step !== 'preview' || !table || !mapping) return;
+    setRows(stageRows(table, mapping, authorOptions));
+  }, [step, table, mapping, authorOptions]);
+
+  // Copy barcodes already in the database, including copies of trashed theses
+  const stagedBarcodes = useMemo(
+    () => Array.from(new Set(rows.map(row => row.fields.barcode.trim()).filter(Boolean))).sort(),
+    [rows]
+  );
 
-      if (lines.length === 0) {
-        throw new Error('CSV file is empty');
+  const { data: existingBarcodes = NO_EXISTING_BARCODES, isFetching: isCheckingExisting } = useQuery({
+    queryKey: ['thesis-import-existing', stagedBarcodes],
+    queryFn: async () => {
+      const copies = await findCopiesByBarcode(stagedBarcodes);
+      const barcodes = new Map<string, boolean>();
+      // A barcode still used by an active thesis wins over a trashed one
+      copies.forEach(copy =>
+        barcodes.set(copy.barcode, (barcodes.get(copy.barcode) ?? true) && copy.is_deleted)
+      );
+      return barcodes;
+    },
+    enabled: stagedBarcodes.length > 0,
+    staleTime: 0,
+  });
+
+  const issuesByRow = useMemo(() => {
+    const currentYear = new Date().getFullYear();
+    const duplicates = findDuplicateRows(rows, row => row.fields.barcode.trim());
+    const copiesOf = findDuplicateRows(rows, row => row.fields.thesis_title.trim() ? titleKey(row.fields) : '');
+
+    const result: Record<number, ImportIssue[]> = {};
+    rows.forEach(row => {
+      const { barcode, thesis_title, authors, department, publication_year, condition, page_count, degree_program } = row.fields;
+      const issues: ImportIssue[] = [];
+      const year = Number(publication_year.trim());
+
+      if (!barcode.trim()) issues.push({ level: 'error', message: 'Missing barcode' });
+      if (!thesis_title.trim()) issues.push({ level: 'error', message: 'Missing title' });
+      if (splitStagedAuthors(authors).length === 0) issues.push({ level: 'error', message: 'Missing author' });
+      if (!/^\d{4}$/.test(publication_year.trim()) || year < 1900 || year > currentYear + 1) {
+        issues.push({ level: 'error', message: 'Invalid year' });
       }
-
-      const headers = parseCSVLine(lines[0]).map(h => h.trim().toLowerCase().replace(/"/g, ''));
-      console.log('CSV Headers found:', headers);
-
-      // Find required column indices
-      const barcodeIndex = headers.findIndex(h => h.includes('barcode'));
-      const titleIndex = headers.findIndex(h => h.includes('title'));
-      const authorIndex = headers.findIndex(h => h.includes('author') || h.includes('name'));
-      const departmentIndex = headers.findIndex(h => h.includes('department') || h.includes('program'));
-      const yearIndex = headers.findIndex(h => h.includes('year'));
-
-      console.log('Column indices:', { barcodeIndex, titleIndex, authorIndex, departmentIndex, yearIndex });
-
-      if (barcodeIndex === -1) {
-        throw new Error(`CSV must contain a Barcode column. Found columns: ${headers.join(', ')}`);
+      if (duplicates.has(row.id)) {
+        issues.push({ level: 'error', message: `Duplicate of row ${duplicates.get(row.id)} in file` });
       }
-
-      if (titleIndex === -1) {
-        throw new Error(`CSV must contain a Title column. Found columns: ${headers.join(', ')}`);
+      if (barcode.trim() && existingBarcodes.has(barcode.trim())) {
+        issues.push({
+          level: 'error',
+          message: existingBarcodes.get(barcode.trim())
+            ? 'Already exists in the trash; restore it instead'
+            : 'Already exists in database',
+        });
       }
-
-      if (authorIndex === -1) {
-        throw new Error(`CSV must contain an Author column. Found columns: ${headers.join(', ')}`);
+      if (Number.isNaN(parsePageCount(page_count))) {
+        issues.push({ level: 'error', message: 'Invalid page count' });
+      }
+      if (condition.trim() && !parseCondition(condition)) {
+        issues.push({ level: 'error', message: `Unknown condition; use ${CONDITION_OPTIONS.join(', ')}` });
+      }
+      if (copiesOf.has(row.id) && !duplicates.has(row.id)) {
+        issues.push({ level: 'warning', message: `Another copy of row ${copiesOf.get(row.id)}; imported under the same title` });
+      }
+      if (!department.trim()) {
+        issues.push({ level: 'warning', message: 'No department; saved as "Not Specified"' });
+      } else {
+        const college = findTerm(vocabulary.colleges, department);
+        if (!college) {
+          issues.push({ level: 'warning', message: 'Department not in the reference list; it can be remapped later' });
+        } else if (!college.is_active) {
+          issues.push({ level: 'warning', message: `${college.name} is marked inactive` });
+        }
+      }
+      if (degree_program.trim() && !findTerm(vocabulary.programs, degree_program)) {
+        issues.push({ level: 'warning', message: 'Program not in the reference list' });
       }
 
-      const records = [];
-      const barcodes = new Set<string>();
-
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue; // Skip empty lines
-
-        const values = parseCSVLine(line).map(v => v.replace(/^"|"$/g, '').trim());
-
-        if (values.length < 2) continue; // Skip lines with insufficient data
+      result[row.id] = issues;
+    });
+    return result;
+  }, [rows, existingBarcodes, vocabulary]);
 
-        const barcode = values[barcodeIndex] || '';
+  const importableRows = rows.filter(row => isImportableRow(row, issuesByRow[row.id]));
 
-        // Validate barcode
-        if (!barcode) {
-          throw new Error(`Row ${i + 1}: Barcode is required`);
-        }
+  const toggleDelimiter = (delimiter: AuthorDelimiter) => {
+    setAuthorOptions(prev => ({
+      ...prev,
+      delimiters: prev.delimiters.includes(delimiter)
+        ? prev.delimiters.filter(d => d !== delimiter)
+        : [...prev.delimiters, delimiter]
+    }));
+  };
 
-        // Check for duplicate barcodes within the CSV
-        if (barcodes.has(barcode)) {
-          throw new Error(`Row ${i + 1}: Duplicate barcode "${barcode}" found in CSV`);
-        }
-        barcodes.add(barcode);
+  const handleFieldChange = (rowId: number, field: ThesisField, value: string) => {
+    setRows(prev => prev.map(row =>
+      row.id === rowId ? { ...row, fields: { ...row.fields, [field]: value } } : row
+    ));
+  };
 
-        const record = {
-          barcode: barcode,
-          thesis_title: values[titleIndex] || '',
-          authors: [values[authorIndex] || ''],
-          department: departmentIndex !== -1 ? values[departmentIndex] || 'Not Specified' : 'Not Specified',
-          publication_year: yearIndex !== -1 && values[yearIndex] ? parseInt(values[yearIndex]) : new Date().getFullYear()
-        };
+  const handleToggleExclude = (rowId: number) => {
+    setRows(prev => prev.map(row => row.id === rowId ? { ...row, excluded: !row.excluded } : row));
+  };
 
-        console.log(`Parsed row ${i + 1}:`, record);
-        records.push(record);
-      }
+  const handleDownloadRejected = () => {
+    const baseName = fileName.replace(/\.(csv|xlsx)$/i, '') || 'thesis_data';
+    downloadCsv(buildRejectedRowsCsv(THESIS_COLUMNS, rows, issuesByRow), `${baseName}_rejected.csv`);
+  };
 
-      console.log(`Total records parsed: ${records.length}`);
-      return records;
-    } catch (error) {
-      console.error('CSV parsing error:', error);
-      throw error;
-    }
+  const resetUpload = () => {
+    setSpreadsheet(null);
+    setSheetName('');
+    setTable(null);
+    setMapping(null);
+    setStep('mapping');
+    setRows([]);
+    setParseError(null);
   };
 
-  // Handle CSV file upload
+  // Load the selected CSV or Excel file into the preview
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.endsWith('.csv')) {
-      onUploadError("Please upload a CSV file.");
+    if (!isSpreadsheetFile(file.name)) {
+      onUploadError("Please upload a CSV or Excel (.xlsx) file.");
+      event.target.value = '';
       return;
     }
 
-    setIsUploading(true);
-
+    setIsReadingFile(true);
     try {
-      console.log('Starting CSV file upload...');
-      console.log('File name:', file.name);
-      console.log('File size:', file.size, 'bytes');
-
-      const csvText = await file.text();
-      console.log('CSV text loaded, length:', csvText.length);
-
-      const records = parseCSV(csvText);
-
-      if (records.length === 0) {
-        throw new Error('No valid records found in CSV. Please ensure your CSV has data rows after the header.');
-      }
-
-      console.log('Records to insert:', records.length);
-
-      // Check for existing barcodes in the database
-      const barcodes = records.map(r => r.barcode);
-      const { data: existingRecords, error: checkError } = await supabase
-        .from('thesis_data')
-        .select('barcode, department')
-        .in('barcode', barcodes);
-
-      if (checkError) {
-        console.error('Error checking barcodes:', checkError);
-        throw new Error('Failed to validate barcodes');
-      }
-
-      // Filter out records that match both barcode AND department
-      let recordsToInsert = records;
-      const skippedRecords: string[] = [];
-
-      if (existingRecords && existingRecords.length > 0) {
-        recordsToInsert = records.filter(csvRecord => {
-          const existingMatch = existingRecords.find(
-            existing => existing.barcode === csvRecord.barcode && existing.department === csvRecord.department
-          );
-
-          if (existingMatch) {
-            skippedRecords.push(csvRecord.barcode);
-            return false; // Skip this record
-          }
-          return true; // Include this record
-        });
-      }
-
-      // If all records were duplicates, show error
-      if (recordsToInsert.length === 0) {
-        throw new Error(
-          `All records in the CSV already exist in the database (matching barcode and department). No new records to insert.`
-        );
-      }
+      const opened = await openSpreadsheetFile(file, HEADER_KEYWORDS);
+      setSpreadsheet(opened);
+      loadSheet(opened, opened.sheetNames[0] || '');
+    } catch (error) {
+      console.error('Error reading file:', error);
+      onUploadError(error instanceof Error ? error.message : 'Failed to read file.');
+    } finally {
+      setIsReadingFile(false);
+      // Reset file input
+      event.target.value = '';
+    }
+  };
 
-      console.log(`Records to insert after filtering: ${recordsToInsert.length}`);
-      if (skippedRecords.length > 0) {
-        console.log(`Skipped duplicate records: ${skippedRecords.join(', ')}`);
-      }
+  // Insert the rows that passed validation
+  const handleProcessUpload = async () => {
+    if (importableRows.length === 0) return;
 
-      // Insert records into the thesis_data table
-      const { data, error } = await supabase
-        .from('thesis_data')
-        .insert(recordsToInsert);
+    setIsUploading(true);
 
-      if (error) {
-        console.error('Error inserting data:', error);
+    try {
+      const recordsToInsert: ThesisImportRecord[] = importableRows.map(({ fields }) => ({
+        barcode: fields.barcode.trim(),
+        thesis_title: fields.thesis_title.trim(),
+        authors: splitStagedAuthors(fields.authors),
+        department: findTerm(vocabulary.colleges, fields.department)?.name ?? (fields.department.trim() || 'Not Specified'),
+        publication_year: parseInt(fields.publication_year, 10),
+        location: fields.location.trim() || null,
+        condition: parseCondition(fields.condition),
+        ...fromMetadataForm({
+          ...fields,
+          degree_program: findTerm(vocabulary.programs, fields.degree_program)?.name ?? fields.degree_program,
+        }),
+      }));
+
+      // Rows for a title that is already catalogued become copies of it
+      const result = await importThesisRecords(recordsToInsert).catch((error) => {
         // Provide more detailed error message
-        const errorMsg = error.message || 'Unknown database error';
-        throw new Error(`Database error: ${errorMsg}`);
-      }
-
-      // Report success with information about skipped records
-      onUploadSuccess(recordsToInsert.length);
-
-      // Show warning if some records were skipped
-      if (skippedRecords.length > 0) {
-        console.warn(`Skipped ${skippedRecords.length} duplicate record(s): ${skippedRecords.join(', ')}`);
-      }
+        throw new Error(`Database error: ${error?.message || 'Unknown database error'}`);
+      });
 
+      resetUpload();
+      onUploadSuccess(result);
     } catch (error) {
       console.error('Upload error:', error);
-      onUploadError(error instanceof Error ? error.message : "Failed to process CSV file.");
+      onUploadError(error instanceof Error ? error.message : "Failed to process file.");
     } finally {
       setIsUploading(false);
-      // Reset file input
-      event.target.value = '';
     }
   };
 
@@ -248,49 +461,179 @@ const CSVUploadSection: React.FC<CSVUploadSectionProps> = ({
           Upload Thesis Data
         </h3>
         <p className="text-gray-600 mb-6">
-          Upload a CSV file containing thesis records to bulk import data
+          Upload a CSV or Excel file containing thesis records. Rows are checked and previewed before anything is saved.
         </p>
 
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 hover:border-red-400 transition-colors cursor-pointer">
           <input
             type="file"
-            accept=".csv"
+            accept={SPREADSHEET_ACCEPT}
             className="hidden"
             id="csv-upload"
             onChange={handleFileUpload}
-            disabled={isUploading}
+            disabled={isUploading || isReadingFile}
           />
           <label htmlFor="csv-upload" className="cursor-pointer">
             <div className="space-y-3">
               <FileText className="mx-auto h-8 w-8 text-gray-400" />
               <div>
                 <span className="text-red-600 font-medium">
-                  {isUploading ? 'Processing...' : 'Click to upload'}
+                  {isReadingFile ? 'Reading file...' : fileName || 'Click to upload'}
                 </span>
-                {!isUploading && <span className="text-gray-600"> or drag and drop</span>}
+                {!fileName && !isReadingFile && <span className="text-gray-600"> or drag and drop</span>}
               </div>
               <p className="text-sm text-gray-500">
-                CSV files only (Barcode, Title, Author, Department/Program, Year)
+                CSV (comma, semicolon or tab separated) or Excel .xlsx with Barcode, Title, Author(s), Department and Year columns, plus optional copy Location and Condition and thesis details such as Abstract, Keywords, Adviser and Pages. Each row is one copy; rows with the same title, department and year are filed as copies of one thesis.
               </p>
             </div>
           </label>
         </div>
+      </div>
 
-        <div className="mt-6 flex justify-center space-x-3">
-          <button
-            className="btn-primary"
-            disabled={isUploading}
-          >
-            {isUploading ? 'Processing...' : 'Process Upload'}
-          </button>
+      {spreadsheet && (
+        <div className="mt-6 space-y-4 text-left">
+          {spreadsheet.sheetNames.length > 1 && (
+            <div className="flex items-center space-x-3 text-sm">
+              <label htmlFor="thesis-import-sheet" className="font-medium text-gray-700">Sheet</label>
+              <select
+                id="thesis-import-sheet"
+                value={sheetName}
+                onChange={(e) => loadSheet(spreadsheet, e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              >
+                {spreadsheet.sheetNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {parseError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              {parseError}
+            </div>
+          ) : step === 'mapping' ? (
+            table && mapping && (
+              <ColumnMappingStep
+                importer="thesis"
+                fields={THESIS_COLUMNS}
+                headers={table.headers}
+                sampleRows={table.rows.slice(0, 5)}
+                mapping={mapping}
+                onChange={setMapping}
+                onContinue={() => setStep('preview')}
+              />
+            )
+          ) : (
+            <>
+              <button
+                onClick={() => setStep('mapping')}
+                className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800 font-medium"
+                disabled={isUploading}
+              >
+                <ArrowLeft size={16} />
+                <span>Back to column mapping</span>
+              </button>
+
+              {/* Author splitting options */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-800 mb-1">Author Parsing</h4>
+                <p className="text-xs text-gray-500 mb-3">Changing these options re-stages the rows and discards inline edits.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <span className="block font-medium text-gray-700 mb-2">Split authors on</span>
+                    <div className="space-y-1">
+                      {(Object.keys(AUTHOR_DELIMITER_LABELS) as AuthorDelimiter[]).map(delimiter => (
+                        <label key={delimiter} className="flex items-center space-x-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={authorOptions.delimiters.includes(delimiter)}
+                            onChange={() => toggleDelimiter(delimiter)}
+                            className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                          />
+                          <span>{AUTHOR_DELIMITER_LABELS[delimiter]}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-gray-700 mb-2">Name order</label>
+                    <select
+                      value={authorOptions.nameOrder}
+                      onChange={(e) => setAuthorOptions(prev => ({ ...prev, nameOrder: e.target.value as AuthorNameOrder }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    >
+                      <option value="keep">Keep as written</option>
+                      <option value="first-last">First Last</option>
+                      <option value="last-first">Last, First</option>
+                    </select>
+                  </div>
+                  <div>
+                    <span className="block font-medium text-gray-700 mb-2">Casing</span>
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={authorOptions.titleCase}
+                        onChange={(e) => setAuthorOptions(prev => ({ ...prev, titleCase: e.target.checked }))}
+                        className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                      />
+                      <span>Title Case names</span>
+                    </label>
+                  </div>
+                </div>
+              </div>
+
+              <ImportPreviewGrid
+                columns={THESIS_COLUMNS}
+                rows={rows}
+                issuesByRow={issuesByRow}
+                onFieldChange={handleFieldChange}
+                onToggleExclude={handleToggleExclude}
+                onDownloadRejected={handleDownloadRejected}
+                renderHint={(row, field) => field === 'authors' && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {splitStagedAuthors(row.fields.authors).map((author, index) => (
+                      <span key={index} className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs">
+                        {author}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-center space-x-3">
+        <button
+          onClick={handleProcessUpload}
+          className="btn-primary"
+          disabled={isUploading || isCheckingExisting || importableRows.length === 0}
+        >
+          {isUploading
+            ? 'Processing...'
+            : spreadsheet
+              ? `Import ${importableRows.length} Row(s)`
+              : 'Process Upload'}
+        </button>
+        {spreadsheet && (
           <button
-            onClick={downloadTemplate}
+            onClick={resetUpload}
             className="btn-secondary flex items-center space-x-2"
+            disabled={isUploading}
           >
-            <Download size={16} />
-            <span>Download Template</span>
+            <X size={16} />
+            <span>Cancel</span>
           </button>
-        </div>
+        )}
+        <button
+          onClick={downloadTemplate}
+          className="btn-secondary flex items-center space-x-2"
+        >
+          <Download size={16} />
+          <span>Download Template</span>
+        </button>
       </div>
     </div>
   );
@@ -58,7 +58,7 @@ const DeleteThesisModal: React.FC<DeleteThesisModalProps> = ({
             Delete Thesis Record
           </DialogTitle>
           <DialogDescription className="mt-3 text-gray-600">
-            This action cannot be undone. This will permanently delete the thesis record from the database.
+            The thesis record and all of its copies will be moved to the trash and hidden from search and the catalog.
           </DialogDescription>
         </DialogHeader>
 
@@ -88,7 +88,7 @@ const DeleteThesisModal: React.FC<DeleteThesisModalProps> = ({
 
           <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
             <p className="text-sm text-red-800">
-              Are you sure you want to delete this thesis record? This action is permanent and cannot be reversed.
+              Are you sure you want to delete this thesis record? It can be restored from the Trash view until it is purged.
             </p>
           </div>
         </div>
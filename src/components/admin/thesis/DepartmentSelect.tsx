@@ -0,0 +1,50 @@
+import React from 'react';
+import { useVocabulary } from '@/hooks/useVocabulary';
+import { activeTerms, COLLEGE_LEVEL_LABELS, COLLEGE_LEVEL_OPTIONS } from '@/lib/vocabulary';
+
+interface DepartmentSelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Picks a thesis department from the active colleges. A value from before the
+ * vocabulary stays selectable so editing other fields does not clear it.
+ */
+const DepartmentSelect: React.FC<DepartmentSelectProps> = ({ id, value, onChange, required, disabled }) => {
+  const { vocabulary, isLoading } = useVocabulary();
+  const colleges = activeTerms(vocabulary.colleges);
+  const isListed = colleges.some(college => college.name === value);
+
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+      required={required}
+      disabled={disabled || isLoading}
+    >
+      <option value="">{isLoading ? 'Loading departments...' : 'Select department'}</option>
+      {value && !isListed && !isLoading && (
+        <option value={value}>{value} (not in the department list)</option>
+      )}
+      {COLLEGE_LEVEL_OPTIONS.map(level => {
+        const options = colleges.filter(college => college.level === level);
+        if (options.length === 0) return null;
+        return (
+          <optgroup key={level} label={COLLEGE_LEVEL_LABELS[level]}>
+            {options.map(college => (
+              <option key={college.id} value={college.name}>{college.name}</option>
+            ))}
+          </optgroup>
+        );
+      })}
+    </select>
+  );
+};
+
+export default DepartmentSelect;
@@ -9,6 +9,18 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  emptyMetadataForm,
+  fetchThesisMetadata,
+  fromMetadataForm,
+  toMetadataForm,
+  validateMetadataForm,
+  type ThesisMetadata,
+  type ThesisMetadataForm,
+} from '@/lib/thesis-metadata';
+import RecordHistoryPanel from '../RecordHistoryPanel';
+import ThesisMetadataFields from './ThesisMetadataFields';
+import DepartmentSelect from './DepartmentSelect';
 
 interface ThesisRecord {
   id: number;
@@ -23,7 +35,7 @@ interface EditThesisModalProps {
   isOpen: boolean;
   onClose: () => void;
   thesis: ThesisRecord | null;
-  onSave: (updatedThesis: Partial<ThesisRecord>) => Promise<void>;
+  onSave: (updatedThesis: Partial<ThesisRecord> & { metadata: ThesisMetadata }) => Promise<void>;
 }
 
 const EditThesisModal: React.FC<EditThesisModalProps> = ({
@@ -38,6 +50,8 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
     department: '',
     publication_year: new Date().getFullYear(),
   });
+  const [metadataForm, setMetadataForm] = useState<ThesisMetadataForm>(emptyMetadataForm);
+  const [metadataStatus, setMetadataStatus] = useState<'loading' | 'ready' | 'error'>('loading');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
@@ -51,6 +65,28 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
     }
   }, [thesis]);
 
+  // The table rows only carry the core fields, so the metadata is loaded here
+  const thesisId = thesis?.id;
+  useEffect(() => {
+    if (!thesisId) return;
+    let cancelled = false;
+    setMetadataForm(emptyMetadataForm);
+    setMetadataStatus('loading');
+    fetchThesisMetadata(thesisId)
+      .then((metadata) => {
+        if (cancelled) return;
+        setMetadataForm(toMetadataForm(metadata));
+        setMetadataStatus('ready');
+      })
+      .catch(() => {
+        // Saving empty fields would wipe the stored metadata, so saving is blocked
+        if (!cancelled) setMetadataStatus('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [thesisId]);
+
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -89,7 +125,13 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!thesis) return;
+    if (!thesis || metadataStatus !== 'ready') return;
+
+    const metadataError = validateMetadataForm(metadataForm);
+    if (metadataError) {
+      alert(metadataError);
+      return;
+    }
 
     setIsSubmitting(true);
     try {
@@ -97,6 +139,7 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
         id: thesis.id,
         ...formData,
         authors: formData.authors.filter((author) => author.trim() !== ''),
+        metadata: fromMetadataForm(metadataForm),
       });
       onClose();
     } catch (error) {
@@ -110,7 +153,7 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Thesis Information</DialogTitle>
         </DialogHeader>
@@ -124,6 +167,7 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
               disabled
               className="bg-gray-100"
             />
+            <p className="text-xs text-gray-500">Barcodes are changed per copy from the Copies action in the table.</p>
           </div>
 
           <div className="space-y-2">
@@ -171,13 +215,11 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
 
           <div className="space-y-2">
             <Label htmlFor="department">Department</Label>
-            <Input
+            <DepartmentSelect
               id="department"
-              name="department"
               value={formData.department}
-              onChange={handleInputChange}
+              onChange={(department) => setFormData((prev) => ({ ...prev, department }))}
               required
-              placeholder="Enter department"
             />
           </div>
 
@@ -195,6 +237,20 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
             />
           </div>
 
+          {metadataStatus === 'error' ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              Could not load the additional details. Close and reopen this thesis to try again.
+            </div>
+          ) : (
+            <ThesisMetadataFields
+              value={metadataForm}
+              onChange={(field, value) => setMetadataForm((prev) => ({ ...prev, [field]: value }))}
+              disabled={metadataStatus === 'loading'}
+            />
+          )}
+
+          <RecordHistoryPanel table="thesis_data" recordId={thesis.id} />
+
           <DialogFooter>
             <button
               type="button"
@@ -207,7 +263,7 @@ const EditThesisModal: React.FC<EditThesisModalProps> = ({
             <button
               type="submit"
               className="btn-primary"
-              disabled={isSubmitting}
+              disabled={isSubmitting || metadataStatus !== 'ready'}
             >
               {isSubmitting ? 'Saving...' : 'Save Changes'}
             </button>
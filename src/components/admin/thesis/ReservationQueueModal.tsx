@@ -0,0 +1,40 @@
+import React from 'react';
+import { ListOrdered } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import ReservationQueue from '../ReservationQueue';
+
+interface ReservationQueueModalProps {
+  thesis: { id: number; thesis_title: string; barcode: string } | null;
+  onClose: () => void;
+}
+
+const ReservationQueueModal: React.FC<ReservationQueueModalProps> = ({ thesis, onClose }) => {
+  return (
+    <Dialog open={!!thesis} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Reservation Queue
+          </DialogTitle>
+          <DialogDescription>
+            {thesis ? `${thesis.barcode} • ${thesis.thesis_title}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        {thesis && (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <ReservationQueue thesisId={thesis.id} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReservationQueueModal;
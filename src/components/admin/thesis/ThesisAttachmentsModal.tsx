@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { Eye, Paperclip, Trash2, Upload } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ATTACHMENT_KIND_HINTS,
+  ATTACHMENT_KIND_LABELS,
+  ATTACHMENT_KIND_OPTIONS,
+  deleteThesisAttachment,
+  fetchFileViewer,
+  fetchThesisAttachments,
+  formatFileSize,
+  uploadThesisAttachment,
+  validateAttachmentFile,
+  type AttachmentKind,
+  type ThesisAttachment,
+} from '@/lib/thesis-attachments';
+import ThesisFileViewer from '../../ThesisFileViewer';
+import LoadingSpinner from '../../LoadingSpinner';
+
+interface ThesisAttachmentsModalProps {
+  thesis: { id: number; thesis_title: string } | null;
+  onClose: () => void;
+}
+
+const ThesisAttachmentsModal: React.FC<ThesisAttachmentsModalProps> = ({ thesis, onClose }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadKind, setUploadKind] = useState<AttachmentKind | null>(null);
+  const [busyKind, setBusyKind] = useState<AttachmentKind | null>(null);
+  const [viewing, setViewing] = useState<ThesisAttachment | null>(null);
+
+  const { data: attachments = [], isLoading } = useQuery({
+    queryKey: ['thesis-attachments', thesis?.id],
+    queryFn: () => fetchThesisAttachments([thesis!.id]),
+    enabled: !!thesis,
+  });
+
+  const { data: viewer = null } = useQuery({
+    queryKey: ['file-viewer'],
+    queryFn: fetchFileViewer,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const chooseFile = (kind: AttachmentKind) => {
+    setUploadKind(kind);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !thesis || !uploadKind) return;
+
+    const problem = validateAttachmentFile(file);
+    if (problem) {
+      toast({ title: "Invalid File", description: problem, variant: "destructive" });
+      return;
+    }
+
+    const existing = attachments.find(attachment => attachment.kind === uploadKind);
+    setBusyKind(uploadKind);
+    try {
+      await uploadThesisAttachment(thesis.id, uploadKind, file, existing);
+      toast({
+        title: existing ? "File Replaced" : "File Attached",
+        description: `${ATTACHMENT_KIND_LABELS[uploadKind]} for "${thesis.thesis_title}" was uploaded.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['thesis-attachments'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to upload the file.", variant: "destructive" });
+    } finally {
+      setBusyKind(null);
+    }
+  };
+
+  const handleRemove = async (attachment: ThesisAttachment) => {
+    if (!window.confirm(`Remove the ${ATTACHMENT_KIND_LABELS[attachment.kind].toLowerCase()} from "${thesis?.thesis_title}"?`)) return;
+
+    setBusyKind(attachment.kind);
+    try {
+      await deleteThesisAttachment(attachment);
+      toast({ title: "File Removed", description: `${attachment.file_name} was removed.` });
+      queryClient.invalidateQueries({ queryKey: ['thesis-attachments'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to remove the file.", variant: "destructive" });
+    } finally {
+      setBusyKind(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={!!thesis && !viewing} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Paperclip className="h-5 w-5" />
+              Digital Files
+            </DialogTitle>
+            <DialogDescription>
+              {thesis?.thesis_title}
+            </DialogDescription>
+          </DialogHeader>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf,.pdf"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+
+          {isLoading ? (
+            <div className="py-12 flex justify-center">
+              <LoadingSpinner size={60} message="Loading files..." />
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {ATTACHMENT_KIND_OPTIONS.map(kind => {
+                const attachment = attachments.find(item => item.kind === kind);
+                const isBusy = busyKind === kind;
+                return (
+                  <li key={kind} className="flex items-center justify-between gap-3 p-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900">
+                        {ATTACHMENT_KIND_LABELS[kind]}
+                        <span className="ml-2 text-xs font-normal text-gray-500">{ATTACHMENT_KIND_HINTS[kind]}</span>
+                      </div>
+                      {attachment ? (
+                        <div className="text-xs text-gray-500 truncate">
+                          {attachment.file_name} • {formatFileSize(attachment.file_size)} • {new Date(attachment.uploaded_at).toLocaleDateString()}
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-400">No file attached</div>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      {attachment && (
+                        <>
+                          <button
+                            onClick={() => setViewing(attachment)}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                            title="View file"
+                            disabled={isBusy}
+                          >
+                            <Eye size={16} />
+                          </button>
+                          <button
+                            onClick={() => handleRemove(attachment)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Remove file"
+                            disabled={isBusy}
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => chooseFile(kind)}
+                        className="btn-secondary flex items-center space-x-1 text-sm"
+                        disabled={busyKind !== null}
+                      >
+                        <Upload size={14} />
+                        <span>{isBusy ? 'Saving...' : attachment ? 'Replace' : 'Upload'}</span>
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">
+            PDF only. Views and downloads are recorded in the Activity Log.
+          </p>
+        </DialogContent>
+      </Dialog>
+
+      <ThesisFileViewer
+        attachment={viewing}
+        thesisTitle={thesis?.thesis_title ?? ''}
+        viewer={viewer}
+        onClose={() => setViewing(null)}
+      />
+    </>
+  );
+};
+
+export default ThesisAttachmentsModal;
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { Edit, Layers, Plus, Trash2 } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CONDITION_LABELS,
+  CONDITION_OPTIONS,
+  CONDITION_STYLES,
+  addThesisCopy,
+  deleteThesisCopy,
+  fetchThesisCopies,
+  findCopiesByBarcode,
+  updateThesisCopy,
+  type ThesisCopy,
+  type ThesisCopyInput,
+} from '@/lib/thesis-copies';
+import LoadingSpinner from '../../LoadingSpinner';
+
+interface ThesisCopiesModalProps {
+  thesis: { id: number; thesis_title: string; barcode: string } | null;
+  onClose: () => void;
+}
+
+const emptyCopy: ThesisCopyInput = { barcode: '', location: '', condition: 'good', notes: '' };
+
+const ThesisCopiesModal: React.FC<ThesisCopiesModalProps> = ({ thesis, onClose }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while adding a new copy
+  const [editingCopyId, setEditingCopyId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<ThesisCopyInput>(emptyCopy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: copies = [], isLoading } = useQuery({
+    queryKey: ['thesis-copies', thesis?.id],
+    queryFn: () => fetchThesisCopies(thesis!.id),
+    enabled: !!thesis,
+  });
+
+  useEffect(() => {
+    setEditingCopyId(null);
+    setFormData(emptyCopy);
+  }, [thesis?.id]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['thesis-copies', thesis?.id] });
+    queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+  };
+
+  const startEdit = (copy: ThesisCopy) => {
+    setEditingCopyId(copy.id);
+    setFormData({
+      barcode: copy.barcode,
+      location: copy.location ?? '',
+      condition: copy.condition,
+      notes: copy.notes ?? '',
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingCopyId(null);
+    setFormData(emptyCopy);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!thesis) return;
+
+    const barcode = formData.barcode.trim();
+    if (!barcode) {
+      toast({ title: "Error", description: "Barcode is required.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const editingCopy = copies.find(copy => copy.id === editingCopyId);
+      if (!editingCopy || editingCopy.barcode !== barcode) {
+        const existing = await findCopiesByBarcode([barcode]);
+        if (existing.length > 0) {
+          toast({
+            title: "Barcode In Use",
+            description: `Barcode ${barcode} already belongs to ${existing[0].thesis_id === thesis.id ? 'a copy of this thesis' : 'another thesis'}.`,
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
+      if (editingCopy) {
+        await updateThesisCopy(editingCopy.id, formData);
+        toast({ title: "Copy Updated", description: `Copy ${barcode} was updated.` });
+      } else {
+        await addThesisCopy(thesis.id, formData);
+        toast({ title: "Copy Added", description: `Copy ${barcode} was added to "${thesis.thesis_title}".` });
+      }
+      cancelEdit();
+      refresh();
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to save the copy.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (copy: ThesisCopy) => {
+    if (copies.length <= 1) {
+      toast({
+        title: "Cannot Remove Copy",
+        description: "A thesis needs at least one copy. Delete the thesis instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!window.confirm(`Remove copy ${copy.barcode} from "${thesis?.thesis_title}"?`)) return;
+
+    try {
+      await deleteThesisCopy(copy.id);
+      toast({ title: "Copy Removed", description: `Copy ${copy.barcode} was removed.` });
+      if (editingCopyId === copy.id) cancelEdit();
+      refresh();
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to remove the copy.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!thesis} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Copies
+          </DialogTitle>
+          <DialogDescription>
+            {thesis?.thesis_title}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-12 flex justify-center">
+            <LoadingSpinner size={60} message="Loading copies..." />
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {copies.map((copy, index) => (
+                  <TableRow key={copy.id} className={editingCopyId === copy.id ? 'bg-blue-50' : ''}>
+                    <TableCell>
+                      <div className="text-sm font-mono">{copy.barcode}</div>
+                      {index === 0 && <div className="text-xs text-gray-500">Shown in the catalog</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{copy.location || <span className="text-gray-400">—</span>}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${CONDITION_STYLES[copy.condition] ?? ''}`}>
+                        {CONDITION_LABELS[copy.condition] ?? copy.condition}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{copy.notes}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => startEdit(copy)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Edit copy"
+                        >
+                          <Edit size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(copy)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Remove copy"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">
+            {editingCopyId ? 'Edit Copy' : 'Add a Copy'}
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={formData.barcode}
+              onChange={(e) => setFormData(prev => ({ ...prev, barcode: e.target.value }))}
+              placeholder="Barcode"
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent font-mono"
+              aria-label="Copy barcode"
+              disabled={isSaving}
+            />
+            <input
+              type="text"
+              value={formData.location}
+              onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+              placeholder="Shelf location"
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              aria-label="Copy location"
+              disabled={isSaving}
+            />
+            <select
+              value={formData.condition}
+              onChange={(e) => setFormData(prev => ({ ...prev, condition: e.target.value as ThesisCopyInput['condition'] }))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              aria-label="Copy condition"
+              disabled={isSaving}
+            >
+              {CONDITION_OPTIONS.map(option => (
+                <option key={option} value={option}>{CONDITION_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={formData.notes}
+            onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Notes (optional)"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            aria-label="Copy notes"
+            disabled={isSaving}
+          />
+          <div className="flex justify-end space-x-2">
+            {editingCopyId && (
+              <button type="button" onClick={cancelEdit} className="btn-secondary" disabled={isSaving}>
+                Cancel
+              </button>
+            )}
+            <button type="submit" className="btn-primary flex items-center space-x-1" disabled={isSaving}>
+              {!editingCopyId && <Plus size={16} />}
+              <span>{isSaving ? 'Saving...' : editingCopyId ? 'Save Copy' : 'Add Copy'}</span>
+            </button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ThesisCopiesModal;
@@ -1,6 +1,13 @@
 import React from 'react';
-import { Edit, Trash2 } from 'lucide-react';
+import { Edit, Trash2, ListOrdered, Layers, Paperclip, Quote, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import LoadingSpinner from '../../LoadingSpinner';
+import {
+  AVAILABILITY_LABELS,
+  AVAILABILITY_OPTIONS,
+  AVAILABILITY_STYLES,
+  type ThesisAvailability,
+} from '@/lib/thesis-availability';
+import { formatCopyCount } from '@/lib/thesis-copies';
 import {
   Table,
   TableBody,
@@ -20,31 +27,109 @@ interface ThesisRecord {
   upload_date: string;
   last_modified: string;
   is_deleted: boolean;
+  availability: ThesisAvailability;
+  copy_count: number;
 }
 
+export type ThesisSortColumn =
+  | 'barcode'
+  | 'thesis_title'
+  | 'authors'
+  | 'department'
+  | 'publication_year'
+  | 'availability'
+  | 'upload_date';
+
 interface ThesisDataTableProps {
   theses: ThesisRecord[];
   isLoading: boolean;
   searchTerm: string;
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  pageSizeOptions: number[];
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+  sortColumn: ThesisSortColumn;
+  sortAscending: boolean;
+  onSort: (column: ThesisSortColumn) => void;
   onEdit: (thesis: ThesisRecord) => void;
   onDelete: (thesis: ThesisRecord) => void;
+  onAvailabilityChange: (thesis: ThesisRecord, availability: ThesisAvailability) => void;
+  onViewQueue: (thesis: ThesisRecord) => void;
+  onManageCopies: (thesis: ThesisRecord) => void;
+  onManageFiles: (thesis: ThesisRecord) => void;
+  onCite: (thesis: ThesisRecord) => void;
   selectedThesisIds: number[];
   onSelectAll: (checked: boolean) => void;
   onSelectThesis: (thesisId: number, checked: boolean) => void;
 }
 
+interface SortableHeadProps {
+  column: ThesisSortColumn;
+  label: string;
+  className: string;
+  sortColumn: ThesisSortColumn;
+  sortAscending: boolean;
+  onSort: (column: ThesisSortColumn) => void;
+}
+
+const SortableHead: React.FC<SortableHeadProps> = ({
+  column,
+  label,
+  className,
+  sortColumn,
+  sortAscending,
+  onSort
+}) => {
+  const isActive = sortColumn === column;
+  const Icon = !isActive ? ArrowUpDown : sortAscending ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className}>
+      <button
+        onClick={() => onSort(column)}
+        className={`flex items-center space-x-1 hover:text-gray-900 ${isActive ? 'text-gray-900' : ''}`}
+        title={`Sort by ${label.toLowerCase()}`}
+      >
+        <span>{label}</span>
+        <Icon size={14} className={isActive ? 'text-red-600' : 'text-gray-400'} />
+      </button>
+    </TableHead>
+  );
+};
+
 const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
   theses,
   isLoading,
   searchTerm,
+  totalCount,
+  page,
+  pageSize,
+  pageSizeOptions,
+  onPageChange,
+  onPageSizeChange,
+  sortColumn,
+  sortAscending,
+  onSort,
   onEdit,
   onDelete,
+  onAvailabilityChange,
+  onViewQueue,
+  onManageCopies,
+  onManageFiles,
+  onCite,
   selectedThesisIds,
   onSelectAll,
   onSelectThesis
 }) => {
   const allSelected = theses.length > 0 && theses.every(thesis => selectedThesisIds.includes(thesis.id));
   const someSelected = selectedThesisIds.length > 0 && !allSelected;
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
+  const sortProps = { sortColumn, sortAscending, onSort };
+
   if (isLoading) {
     return (
       <div className="card-hover p-8 text-center">
@@ -73,12 +158,13 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
                   aria-label="Select all theses"
                 />
               </TableHead>
-              <TableHead className="w-32">Barcode</TableHead>
-              <TableHead className="w-auto">Title</TableHead>
-              <TableHead className="w-48">Author</TableHead>
-              <TableHead className="w-64">Department</TableHead>
-              <TableHead className="w-20">Year</TableHead>
-              <TableHead className="w-24">Actions</TableHead>
+              <SortableHead column="barcode" label="Barcode" className="w-32" {...sortProps} />
+              <SortableHead column="thesis_title" label="Title" className="w-auto" {...sortProps} />
+              <SortableHead column="authors" label="Author" className="w-48" {...sortProps} />
+              <SortableHead column="department" label="Department" className="w-64" {...sortProps} />
+              <SortableHead column="publication_year" label="Year" className="w-20" {...sortProps} />
+              <SortableHead column="availability" label="Status" className="w-36" {...sortProps} />
+              <TableHead className="w-36">Actions</TableHead>
             </TableRow>
           </TableHeader>
         </Table>
@@ -101,6 +187,14 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
                       <div className="text-sm font-mono font-medium text-blue-600 bg-blue-50 px-2 py-1 rounded">
                         {thesis.barcode}
                       </div>
+                      {thesis.copy_count > 1 && (
+                        <button
+                          onClick={() => onManageCopies(thesis)}
+                          className="mt-1 text-xs text-gray-500 hover:text-gray-900 hover:underline"
+                        >
+                          {formatCopyCount(thesis.copy_count)}
+                        </button>
+                      )}
                     </TableCell>
                     <TableCell className="w-auto">
                       <div className="text-sm font-medium text-gray-900">
@@ -122,7 +216,20 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
                         {thesis.publication_year}
                       </div>
                     </TableCell>
-                    <TableCell className="w-24">
+                    <TableCell className="w-36">
+                      <select
+                        value={thesis.availability}
+                        onChange={(e) => onAvailabilityChange(thesis, e.target.value as ThesisAvailability)}
+                        className={`text-xs font-medium rounded-full px-2 py-1 border-0 cursor-pointer focus:ring-2 focus:ring-red-500 ${AVAILABILITY_STYLES[thesis.availability] ?? ''}`}
+                        title="In use is also shown while a reading session is open"
+                        aria-label={`Availability of ${thesis.thesis_title}`}
+                      >
+                        {AVAILABILITY_OPTIONS.map(option => (
+                          <option key={option} value={option}>{AVAILABILITY_LABELS[option]}</option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell className="w-36">
                       <div className="flex space-x-2">
                         <button 
                           onClick={() => onEdit(thesis)}
@@ -131,6 +238,34 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
                         >
                           <Edit size={16} />
                         </button>
+                        <button
+                          onClick={() => onManageCopies(thesis)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Copies"
+                        >
+                          <Layers size={16} />
+                        </button>
+                        <button
+                          onClick={() => onManageFiles(thesis)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Digital files"
+                        >
+                          <Paperclip size={16} />
+                        </button>
+                        <button
+                          onClick={() => onCite(thesis)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Cite"
+                        >
+                          <Quote size={16} />
+                        </button>
+                        <button
+                          onClick={() => onViewQueue(thesis)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Reservation queue"
+                        >
+                          <ListOrdered size={16} />
+                        </button>
                         <button 
                           onClick={() => onDelete(thesis)}
                           className="text-red-600 hover:text-red-900" 
@@ -144,7 +279,7 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                  <TableCell colSpan={8} className="text-center text-gray-500 py-8">
                     {searchTerm ? 'No matching thesis records found.' : 'No thesis records available. Upload a CSV file to get started.'}
                   </TableCell>
                 </TableRow>
@@ -153,6 +288,46 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
           </Table>
         </div>
       </div>
+
+      {/* Pagination */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 px-4 py-3 border-t border-gray-200 text-sm text-gray-700">
+        <div className="flex items-center space-x-3">
+          <span>
+            Showing {firstRow}-{lastRow} of {totalCount} records
+          </span>
+          <select
+            value={pageSize}
+            onChange={(e) => onPageSizeChange(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            aria-label="Rows per page"
+          >
+            {pageSizeOptions.map(size => (
+              <option key={size} value={size}>{size} / page</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Previous page"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= totalPages}
+            className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Next page"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      </div>
     </div>
   );
 };
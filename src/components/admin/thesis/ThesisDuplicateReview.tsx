@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { GitMerge, RefreshCw, X } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  dismissDuplicate,
+  fetchDuplicateCandidates,
+  formatMatchPercent,
+  mergeTheses,
+  scanForDuplicates,
+  type DuplicateCandidate,
+  type DuplicateRecord,
+} from '@/lib/thesis-duplicates';
+import LoadingSpinner from '../../LoadingSpinner';
+
+const pairKey = (candidate: DuplicateCandidate) => `${candidate.thesis_a}-${candidate.thesis_b}`;
+
+type CompareField = {
+  label: string;
+  value: (record: DuplicateRecord) => string;
+};
+
+const COMPARE_FIELDS: CompareField[] = [
+  { label: 'Barcode', value: record => record.barcode },
+  { label: 'Title', value: record => record.thesis_title },
+  { label: 'Authors', value: record => record.authors.join(', ') },
+  { label: 'Department', value: record => record.department },
+  { label: 'Year', value: record => String(record.publication_year) },
+  { label: 'Adviser', value: record => record.adviser || '—' },
+  { label: 'Added', value: record => new Date(record.upload_date).toLocaleDateString() },
+  { label: 'Copies', value: record => String(record.copy_count) },
+  { label: 'Submissions', value: record => String(record.submission_count) },
+  { label: 'Active Reservations', value: record => String(record.reservation_count) },
+];
+
+const ThesisDuplicateReview = () => {
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: candidates = [], isLoading } = useQuery({
+    queryKey: ['thesis-data', 'duplicates'],
+    queryFn: () => fetchDuplicateCandidates(),
+  });
+
+  const lastScan = candidates.reduce<string | null>(
+    (latest, candidate) => (!latest || candidate.found_at > latest ? candidate.found_at : latest),
+    null
+  );
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      const found = await scanForDuplicates();
+      toast({
+        title: "Scan Complete",
+        description: found === 0 ? 'No possible duplicates were found.' : `${found} possible duplicate pair(s) found.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['thesis-data', 'duplicates'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to scan for duplicates.", variant: "destructive" });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleMerge = async (candidate: DuplicateCandidate, keep: DuplicateRecord, merge: DuplicateRecord) => {
+    const confirmed = window.confirm(
+      `Keep "${keep.thesis_title}" (${keep.barcode}) and merge "${merge.thesis_title}" (${merge.barcode}) into it?\n\n` +
+      'Submissions, copies, reservations and files move to the kept record, and the other record goes to the trash.'
+    );
+    if (!confirmed) return;
+
+    setBusyPair(pairKey(candidate));
+    try {
+      const result = await mergeTheses(keep.id, merge.id);
+      toast({
+        title: "Records Merged",
+        description: `Moved ${result.submissions_moved} submission(s), ${result.copies_moved} copy(ies), ` +
+          `${result.reservations_moved} reservation(s) and ${result.attachments_moved} file(s) to ${keep.barcode}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+      queryClient.invalidateQueries({ queryKey: ['thesis-attachments'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to merge the records.", variant: "destructive" });
+    } finally {
+      setBusyPair(null);
+    }
+  };
+
+  const handleDismiss = async (candidate: DuplicateCandidate) => {
+    setBusyPair(pairKey(candidate));
+    try {
+      await dismissDuplicate(candidate.thesis_a, candidate.thesis_b);
+      queryClient.invalidateQueries({ queryKey: ['thesis-data', 'duplicates'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to dismiss the pair.", variant: "destructive" });
+    } finally {
+      setBusyPair(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-gray-600">
+          Records with the same year, a similar title and shared authors. The list is refreshed nightly
+          {lastScan ? `; last found ${new Date(lastScan).toLocaleString()}` : ''}.
+        </p>
+        <button
+          onClick={handleScan}
+          disabled={isScanning}
+          className="btn-secondary flex items-center space-x-2 shrink-0"
+        >
+          <RefreshCw size={16} className={isScanning ? 'animate-spin' : ''} />
+          <span>{isScanning ? 'Scanning...' : 'Scan Now'}</span>
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <LoadingSpinner size={60} message="Loading possible duplicates..." />
+        </div>
+      ) : candidates.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-12 shadow-sm text-center text-gray-500">
+          No possible duplicates to review.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {candidates.map(candidate => {
+            const key = pairKey(candidate);
+            const isBusy = busyPair === key;
+            const { record_a: left, record_b: right } = candidate;
+            return (
+              <div key={key} className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm text-gray-600">
+                    <span className="font-semibold text-gray-900">{formatMatchPercent(candidate.score)} match</span>
+                    {' • '}title {formatMatchPercent(candidate.title_similarity)}
+                    {' • '}authors {formatMatchPercent(candidate.author_overlap)}
+                  </div>
+                  <button
+                    onClick={() => handleDismiss(candidate)}
+                    disabled={busyPair !== null}
+                    className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 flex items-center space-x-1"
+                  >
+                    <X size={14} />
+                    <span>Not Duplicates</span>
+                  </button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="w-40 py-1 pr-4 font-medium"></th>
+                        <th className="py-1 pr-4 font-medium">Record A</th>
+                        <th className="py-1 font-medium">Record B</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {COMPARE_FIELDS.map(field => {
+                        const leftValue = field.value(left);
+                        const rightValue = field.value(right);
+                        const differs = leftValue !== rightValue;
+                        return (
+                          <tr key={field.label}>
+                            <td className="py-2 pr-4 text-gray-500 align-top">{field.label}</td>
+                            <td className={`py-2 pr-4 align-top ${differs ? 'bg-yellow-50 text-gray-900' : 'text-gray-700'}`}>
+                              {leftValue}
+                            </td>
+                            <td className={`py-2 align-top ${differs ? 'bg-yellow-50 text-gray-900' : 'text-gray-700'}`}>
+                              {rightValue}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  <button
+                    onClick={() => handleMerge(candidate, left, right)}
+                    disabled={busyPair !== null}
+                    className="btn-secondary flex items-center space-x-1 text-sm"
+                  >
+                    <GitMerge size={14} />
+                    <span>{isBusy ? 'Working...' : 'Keep A, Merge B'}</span>
+                  </button>
+                  <button
+                    onClick={() => handleMerge(candidate, right, left)}
+                    disabled={busyPair !== null}
+                    className="btn-secondary flex items-center space-x-1 text-sm"
+                  >
+                    <GitMerge size={14} />
+                    <span>{isBusy ? 'Working...' : 'Keep B, Merge A'}</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThesisDuplicateReview;
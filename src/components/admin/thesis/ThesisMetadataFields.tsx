@@ -0,0 +1,143 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LANGUAGE_SUGGESTIONS, type ThesisMetadataForm } from '@/lib/thesis-metadata';
+import { activeTerms } from '@/lib/vocabulary';
+import { useVocabulary } from '@/hooks/useVocabulary';
+
+interface ThesisMetadataFieldsProps {
+  value: ThesisMetadataForm;
+  onChange: (field: keyof ThesisMetadataForm, value: string) => void;
+  disabled?: boolean;
+}
+
+/** Optional metadata inputs shared by the add and edit thesis modals. */
+const ThesisMetadataFields: React.FC<ThesisMetadataFieldsProps> = ({ value, onChange, disabled }) => {
+  const { vocabulary } = useVocabulary();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    onChange(e.target.name as keyof ThesisMetadataForm, e.target.value);
+  };
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-4">
+      <h4 className="text-sm font-semibold text-gray-800">Additional Details</h4>
+
+      <div className="space-y-2">
+        <Label htmlFor="abstract">Abstract</Label>
+        <Textarea
+          id="abstract"
+          name="abstract"
+          value={value.abstract}
+          onChange={handleChange}
+          rows={4}
+          placeholder="Enter the thesis abstract"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="keywords">Keywords</Label>
+        <Input
+          id="keywords"
+          name="keywords"
+          value={value.keywords}
+          onChange={handleChange}
+          placeholder="e.g. machine learning; healthcare"
+          disabled={disabled}
+        />
+        <p className="text-xs text-gray-500">Separate keywords with semicolons or commas.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="adviser">Adviser</Label>
+          <Input
+            id="adviser"
+            name="adviser"
+            value={value.adviser}
+            onChange={handleChange}
+            placeholder="Enter adviser"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="degree_program">Degree / Program</Label>
+          <Input
+            id="degree_program"
+            name="degree_program"
+            value={value.degree_program}
+            onChange={handleChange}
+            list="thesis-program-options"
+            placeholder="e.g. BS Computer Science"
+            disabled={disabled}
+          />
+          <datalist id="thesis-program-options">
+            {activeTerms(vocabulary.programs).map(program => (
+              <option key={program.id} value={program.name} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="panel_members">Panel Members</Label>
+        <Input
+          id="panel_members"
+          name="panel_members"
+          value={value.panel_members}
+          onChange={handleChange}
+          placeholder="e.g. Maria Santos; Jose Reyes"
+          disabled={disabled}
+        />
+        <p className="text-xs text-gray-500">Separate names with semicolons.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="call_number">Call Number</Label>
+          <Input
+            id="call_number"
+            name="call_number"
+            value={value.call_number}
+            onChange={handleChange}
+            placeholder="e.g. QA76.9 .S36 2024"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="page_count">Pages</Label>
+          <Input
+            id="page_count"
+            name="page_count"
+            type="number"
+            min="1"
+            value={value.page_count}
+            onChange={handleChange}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="language">Language</Label>
+          <Input
+            id="language"
+            name="language"
+            value={value.language}
+            onChange={handleChange}
+            list="thesis-language-options"
+            placeholder="e.g. English"
+            disabled={disabled}
+          />
+          <datalist id="thesis-language-options">
+            {LANGUAGE_SUGGESTIONS.map(language => (
+              <option key={language} value={language} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThesisMetadataFields;
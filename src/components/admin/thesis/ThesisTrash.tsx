@@ -0,0 +1,415 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Search, Trash2, ChevronLeft, ChevronRight, Save } from 'lucide-react';
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { fetchAppSetting, saveAppSetting } from '@/lib/app-settings';
+import LoadingSpinner from '../../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface DeletedThesis {
+  id: number;
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+}
+
+const TRASH_PAGE_SIZE = 25;
+const RETENTION_SETTING = 'thesis_trash_retention_days';
+const DEFAULT_RETENTION_DAYS = 30;
+
+const ThesisTrash = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [retentionInput, setRetentionInput] = useState('');
+  const debouncedSearchTerm = useDebouncedValue(searchTerm);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { queryWithAuth, mutateWithAuth, supabase } = useSupabaseAuth();
+
+  const { data: retentionDays = DEFAULT_RETENTION_DAYS } = useQuery({
+    queryKey: ['app-settings', RETENTION_SETTING],
+    queryFn: () => fetchAppSetting<number>(RETENTION_SETTING, DEFAULT_RETENTION_DAYS),
+  });
+
+  useEffect(() => {
+    setRetentionInput(String(retentionDays));
+  }, [retentionDays]);
+
+  // Clear out anything past the retention period before listing, once each
+  // time the trash is opened. It sits outside the 'thesis-data' keys so list
+  // refreshes don't purge again. The same purge runs nightly where pg_cron is
+  // available.
+  const { isFetchedAfterMount: isPurgeChecked } = useQuery({
+    queryKey: ['thesis-trash-purge'],
+    queryFn: async () => {
+      const purged = Number(await queryWithAuth(supabase.rpc('purge_expired_thesis_trash'), { showErrorToast: false })) || 0;
+      if (purged > 0) {
+        toast({
+          title: "Trash Emptied",
+          description: `${purged} thesis record(s) older than the retention period were permanently deleted.`,
+        });
+      }
+      return purged;
+    },
+    staleTime: Infinity,
+    refetchOnMount: 'always',
+    retry: false,
+  });
+
+  const { data: trashPage, isLoading, isPlaceholderData } = useQuery({
+    queryKey: ['thesis-data', 'trash', debouncedSearchTerm, page],
+    queryFn: async () => {
+      const data = await queryWithAuth(
+        supabase.rpc('list_deleted_theses', {
+          p_search: debouncedSearchTerm || null,
+          p_page: page,
+          p_page_size: TRASH_PAGE_SIZE,
+        }),
+        { showErrorToast: false }
+      );
+
+      const rows = (data || []) as Array<DeletedThesis & { total_count: number }>;
+      return {
+        theses: rows.map(({ total_count, ...thesis }) => thesis) as DeletedThesis[],
+        totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      };
+    },
+    enabled: isPurgeChecked,
+    placeholderData: keepPreviousData,
+  });
+
+  const theses = trashPage?.theses ?? [];
+  const totalCount = trashPage?.totalCount ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalCount / TRASH_PAGE_SIZE));
+  const allSelected = theses.length > 0 && theses.every(thesis => selectedIds.includes(thesis.id));
+
+  // Step back when restoring or purging leaves the current page empty, once
+  // the real page has loaded rather than the previous one kept on screen
+  useEffect(() => {
+    if (trashPage && !isPlaceholderData && trashPage.theses.length === 0 && page > 1) {
+      setPage(page - 1);
+    }
+  }, [trashPage, isPlaceholderData, page]);
+
+  const finishChange = () => {
+    setSelectedIds([]);
+    queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+  };
+
+  const handleRestore = async (ids: number[]) => {
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+      await mutateWithAuth(
+        supabase
+          .from('thesis_data')
+          .update({ is_deleted: false })
+          .in('id', ids),
+        {
+          onError: (error) => {
+            console.error('Error restoring theses:', error);
+            toast({
+              title: "Error",
+              description: "Failed to restore thesis records.",
+              variant: "destructive",
+            });
+          },
+        }
+      );
+
+      toast({
+        title: "Restored",
+        description: `${ids.length} thesis record(s) restored.`,
+      });
+      finishChange();
+    } catch (error) {
+      console.error('Restore operation failed:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePurge = async (ids: number[]) => {
+    if (ids.length === 0) return;
+
+    const confirmPurge = window.confirm(
+      `Permanently delete ${ids.length} thesis record(s)? This action cannot be undone.`
+    );
+    if (!confirmPurge) return;
+
+    setIsWorking(true);
+    try {
+      await mutateWithAuth(
+        supabase
+          .from('thesis_data')
+          .delete()
+          .eq('is_deleted', true)
+          .in('id', ids),
+        {
+          onError: (error) => {
+            console.error('Error purging theses:', error);
+            toast({
+              title: "Error",
+              description: "Failed to permanently delete thesis records. Only admins can empty the trash.",
+              variant: "destructive",
+            });
+          },
+        }
+      );
+
+      toast({
+        title: "Deleted",
+        description: `${ids.length} thesis record(s) permanently deleted.`,
+      });
+      finishChange();
+    } catch (error) {
+      console.error('Purge operation failed:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    const days = parseInt(retentionInput, 10);
+    if (Number.isNaN(days) || days < 0) {
+      toast({
+        title: "Invalid Value",
+        description: "Enter a number of days, or 0 to keep deleted records until purged by hand.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveAppSetting(RETENTION_SETTING, days);
+      queryClient.invalidateQueries({ queryKey: ['app-settings', RETENTION_SETTING] });
+      toast({
+        title: "Saved",
+        description: days > 0
+          ? `Deleted theses will be purged after ${days} day(s).`
+          : 'Deleted theses will be kept until purged by hand.',
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the retention period.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? theses.map(thesis => thesis.id) : []);
+  };
+
+  const handleSelect = (id: number, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(selected => selected !== id)));
+  };
+
+  const daysLeft = (deletedAt: string | null) => {
+    if (!deletedAt || retentionDays <= 0) return null;
+    const purgeAt = new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Search, bulk actions and retention */}
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="relative flex-1 max-w-md w-full">
+          <Search className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search deleted records..."
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setPage(1);
+            }}
+            className="input-field pl-10"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Auto-purge after</span>
+            <input
+              type="number"
+              min="0"
+              value={retentionInput}
+              onChange={(e) => setRetentionInput(e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+            <span>days</span>
+          </label>
+          <button
+            onClick={handleSaveRetention}
+            disabled={retentionInput === String(retentionDays)}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="0 keeps deleted records until purged by hand"
+          >
+            <Save size={16} />
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex items-center justify-between bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+          <span className="text-sm text-red-800 font-medium">
+            {selectedIds.length} record(s) selected
+          </span>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => handleRestore(selectedIds)}
+              disabled={isWorking}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <RotateCcw size={16} />
+              <span>Restore Selected</span>
+            </button>
+            <button
+              onClick={() => handlePurge(selectedIds)}
+              disabled={isWorking}
+              className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Trash2 size={16} />
+              <span>Delete Forever</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        {isLoading || !isPurgeChecked ? (
+          <div className="py-12 flex justify-center">
+            <LoadingSpinner size={60} message="Loading trash..." />
+          </div>
+        ) : theses.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">
+            {debouncedSearchTerm ? 'No deleted records match your search.' : 'The trash is empty.'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={(e) => handleSelectAll(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                    aria-label="Select all"
+                  />
+                </TableHead>
+                <TableHead>Barcode</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Deleted By</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {theses.map(thesis => {
+                const remaining = daysLeft(thesis.deleted_at);
+                return (
+                  <TableRow key={thesis.id}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(thesis.id)}
+                        onChange={(e) => handleSelect(thesis.id, e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                        aria-label={`Select ${thesis.barcode}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{thesis.barcode}</TableCell>
+                    <TableCell>
+                      <div className="font-medium text-gray-900">{thesis.thesis_title}</div>
+                      <div className="text-xs text-gray-500">{thesis.authors.join(', ')} · {thesis.publication_year}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{thesis.department}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {thesis.deleted_at ? new Date(thesis.deleted_at).toLocaleString() : 'Unknown'}
+                      {remaining !== null && (
+                        <div className="text-xs text-gray-500">
+                          {remaining === 0 ? 'Purged at next cleanup' : `Purged in ${remaining} day(s)`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{thesis.deleted_by_name || 'Unknown'}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => handleRestore([thesis.id])}
+                          disabled={isWorking}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                          title="Restore"
+                        >
+                          <RotateCcw size={16} />
+                        </button>
+                        <button
+                          onClick={() => handlePurge([thesis.id])}
+                          disabled={isWorking}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Delete forever"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-gray-200 text-sm text-gray-700">
+          <span>{totalCount} deleted record(s)</span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Previous page"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Next page"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThesisTrash;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  VOCABULARY_KIND_LABELS,
+  VOCABULARY_KIND_OPTIONS,
+  fetchUnmatchedValues,
+  remapVocabularyValue,
+  vocabularyTerms,
+  type Vocabulary,
+  type VocabularyKind,
+} from '@/lib/vocabulary';
+import LoadingSpinner from '../../LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface VocabularyRemapPanelProps {
+  vocabulary: Vocabulary;
+}
+
+const SOURCE_HINTS: Record<VocabularyKind, string> = {
+  campus: 'Campus values on user records.',
+  college: 'Thesis department values.',
+  program: 'Program values on user records and thesis degree programs.',
+};
+
+/**
+ * Free-text values that are not yet a term name. Remapping rewrites the
+ * records and keeps the old spelling as an alias of the chosen term.
+ */
+const VocabularyRemapPanel: React.FC<VocabularyRemapPanelProps> = ({ vocabulary }) => {
+  const [kind, setKind] = useState<VocabularyKind>('college');
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [busyValue, setBusyValue] = useState<string | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: values = [], isLoading } = useQuery({
+    queryKey: ['vocabulary', 'unmatched', kind],
+    queryFn: () => fetchUnmatchedValues(kind),
+  });
+
+  const terms = vocabularyTerms(vocabulary, kind);
+
+  const handleKindChange = (next: VocabularyKind) => {
+    setKind(next);
+    setTargets({});
+  };
+
+  const handleRemap = async (value: string, termId: number, usageCount: number) => {
+    const term = terms.find(candidate => candidate.id === termId);
+    if (!term) return;
+    if (!window.confirm(`Change ${usageCount} record(s) from "${value}" to "${term.name}"?`)) return;
+
+    setBusyValue(value);
+    try {
+      const changed = await remapVocabularyValue(kind, value, termId);
+      toast({
+        title: "Values Remapped",
+        description: `${changed} record(s) now use "${term.name}".`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['vocabulary'] });
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to remap the value.", variant: "destructive" });
+    } finally {
+      setBusyValue(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {VOCABULARY_KIND_OPTIONS.map(option => (
+          <button
+            key={option}
+            onClick={() => handleKindChange(option)}
+            className={`px-3 py-1.5 text-sm rounded-lg border ${
+              kind === option
+                ? 'bg-red-600 border-red-600 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {VOCABULARY_KIND_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-600">{SOURCE_HINTS[kind]} Values already matching a term by alias are preselected.</p>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <LoadingSpinner size={60} message="Loading values..." />
+        </div>
+      ) : values.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-12 shadow-sm text-center text-gray-500">
+          Every value is already on the list.
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Value in Records</TableHead>
+                <TableHead className="w-24 text-right">Uses</TableHead>
+                <TableHead>Map To</TableHead>
+                <TableHead className="w-28"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {values.map(row => {
+                const target = targets[row.value] ?? (row.suggested_term_id ? String(row.suggested_term_id) : '');
+                return (
+                  <TableRow key={row.value}>
+                    <TableCell className="font-medium">{row.value}</TableCell>
+                    <TableCell className="text-right">{row.usage_count}</TableCell>
+                    <TableCell>
+                      <select
+                        value={target}
+                        onChange={(e) => setTargets(prev => ({ ...prev, [row.value]: e.target.value }))}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                        aria-label={`Term for ${row.value}`}
+                        disabled={busyValue !== null}
+                      >
+                        <option value="">Choose a term</option>
+                        {terms.map(term => (
+                          <option key={term.id} value={term.id}>
+                            {term.name}{term.is_active ? '' : ' (inactive)'}
+                          </option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell>
+                      <button
+                        onClick={() => handleRemap(row.value, Number(target), row.usage_count)}
+                        disabled={!target || busyValue !== null}
+                        className="btn-secondary flex items-center space-x-1 text-sm disabled:opacity-50"
+                      >
+                        <ArrowRight size={14} />
+                        <span>{busyValue === row.value ? 'Saving...' : 'Remap'}</span>
+                      </button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VocabularyRemapPanel;
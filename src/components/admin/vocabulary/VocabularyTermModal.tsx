@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  COLLEGE_LEVEL_LABELS,
+  COLLEGE_LEVEL_OPTIONS,
+  VOCABULARY_KIND_LABELS,
+  parseAliases,
+  type College,
+  type CollegeLevel,
+  type Program,
+  type VocabularyKind,
+  type VocabularyTerm,
+  type VocabularyTermInput,
+} from '@/lib/vocabulary';
+
+interface VocabularyTermModalProps {
+  isOpen: boolean;
+  kind: VocabularyKind;
+  /** Null when adding a term. */
+  term: VocabularyTerm | null;
+  colleges: College[];
+  onClose: () => void;
+  onSave: (input: VocabularyTermInput) => Promise<void>;
+}
+
+const VocabularyTermModal: React.FC<VocabularyTermModalProps> = ({ isOpen, kind, term, colleges, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [aliasText, setAliasText] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [sortOrder, setSortOrder] = useState('0');
+  const [level, setLevel] = useState<CollegeLevel>('undergraduate');
+  const [collegeId, setCollegeId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(term?.name ?? '');
+    setAliasText(term?.aliases.join(', ') ?? '');
+    setIsActive(term?.is_active ?? true);
+    setSortOrder(String(term?.sort_order ?? 0));
+    setLevel((term as College | null)?.level ?? 'undergraduate');
+    setCollegeId(String((term as Program | null)?.college_id ?? ''));
+  }, [isOpen, term]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave({
+        name,
+        aliases: parseAliases(aliasText),
+        is_active: isActive,
+        sort_order: parseInt(sortOrder, 10) || 0,
+        level,
+        college_id: Number(collegeId) || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const singular = kind === 'campus' ? 'Campus' : kind === 'college' ? 'College / Department' : 'Program';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{term ? `Edit ${singular}` : `Add ${singular}`}</DialogTitle>
+          <DialogDescription>{VOCABULARY_KIND_LABELS[kind]} offered in forms, imports and filters.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="term-name">Name *</Label>
+            <Input id="term-name" value={name} onChange={(e) => setName(e.target.value)} required disabled={saving} />
+          </div>
+
+          {kind === 'college' && (
+            <div className="space-y-2">
+              <Label htmlFor="term-level">Level</Label>
+              <select
+                id="term-level"
+                value={level}
+                onChange={(e) => setLevel(e.target.value as CollegeLevel)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                disabled={saving}
+              >
+                {COLLEGE_LEVEL_OPTIONS.map(option => (
+                  <option key={option} value={option}>{COLLEGE_LEVEL_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {kind === 'program' && (
+            <div className="space-y-2">
+              <Label htmlFor="term-college">College *</Label>
+              <select
+                id="term-college"
+                value={collegeId}
+                onChange={(e) => setCollegeId(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                required
+                disabled={saving}
+              >
+                <option value="">Select college</option>
+                {colleges.map(college => (
+                  <option key={college.id} value={college.id}>
+                    {college.name}{college.is_active ? '' : ' (inactive)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="term-aliases">Aliases</Label>
+            <Textarea
+              id="term-aliases"
+              value={aliasText}
+              onChange={(e) => setAliasText(e.target.value)}
+              rows={2}
+              placeholder="Other spellings and abbreviations, separated by commas"
+              disabled={saving}
+            />
+            <p className="text-xs text-gray-500">Imports and filters treat these as the same {singular.toLowerCase()}.</p>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="space-y-2 w-32">
+              <Label htmlFor="term-order">Display Order</Label>
+              <Input
+                id="term-order"
+                type="number"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <label className="flex items-center space-x-2 pt-6 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                className="w-4 h-4 rounded"
+                disabled={saving}
+              />
+              <span>Active (offered in forms)</span>
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={saving}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VocabularyTermModal;
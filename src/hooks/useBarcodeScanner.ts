@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  enabled?: boolean;
+  /** Shortest burst accepted as a barcode. */
+  minLength?: number;
+  /** Keyboard-wedge scanners type much faster than people; slower keys reset the burst. */
+  maxKeyIntervalMs?: number;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Listens for keyboard-wedge barcode scans: a fast burst of keystrokes ended
+ * by Enter. Keys typed into form fields are left alone so the scan lands in
+ * whichever field has focus, as it would without this hook.
+ */
+export function useBarcodeScanner(
+  onScan: (barcode: string) => void,
+  { enabled = true, minLength = 4, maxKeyIntervalMs = 50 }: BarcodeScannerOptions = {}
+) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || event.ctrlKey || event.altKey || event.metaKey) {
+        buffer = '';
+        return;
+      }
+
+      const now = event.timeStamp;
+      if (now - lastKeyAt > maxKeyIntervalMs) buffer = '';
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= minLength) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, minLength, maxKeyIntervalMs]);
+}
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Returns `value` once it has stopped changing for `delay` ms.
+ * Used to keep typed filters from firing a query on every keystroke.
+ */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { EMPTY_VOCABULARY, fetchVocabulary } from '@/lib/vocabulary';
+
+/**
+ * Campuses, colleges and programs shared by the forms, import and filters.
+ * The lists change rarely, so one fetch serves every consumer for a while.
+ */
+export function useVocabulary() {
+  const { data = EMPTY_VOCABULARY, isLoading } = useQuery({
+    queryKey: ['vocabulary'],
+    queryFn: fetchVocabulary,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  return { vocabulary: data, isLoading };
+}
@@ -17,8 +17,6 @@ export const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_PUBLISHABL
     persistSession: true,
     // Detect session in URL (for email confirmation links, etc.)
     detectSessionInUrl: true,
-    // Set token refresh threshold to 10 seconds before expiry
-    refreshThreshold: 10,
   },
   // Enable realtime for better session synchronization
   realtime: {
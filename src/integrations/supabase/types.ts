@@ -12,6 +12,126 @@ export type Database = {
   };
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string;
+          updated_at: string;
+          updated_by: string | null;
+          value: Json;
+        };
+        Insert: {
+          key: string;
+          updated_at?: string;
+          updated_by?: string | null;
+          value: Json;
+        };
+        Update: {
+          key?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+          value?: Json;
+        };
+        Relationships: [];
+      };
+      audit_log: {
+        Row: {
+          actor_email: string | null;
+          actor_id: string | null;
+          actor_name: string | null;
+          changed_at: string;
+          changed_fields: string[] | null;
+          id: number;
+          new_data: { [key: string]: Json | undefined } | null;
+          old_data: { [key: string]: Json | undefined } | null;
+          operation: 'INSERT' | 'UPDATE' | 'DELETE' | 'VIEW' | 'DOWNLOAD';
+          record_id: string;
+          table_name: 'thesis_data' | 'thesis_copies' | 'thesis_attachments' | 'students' | 'thesis_submissions' | 'system_users';
+        };
+        Insert: {
+          actor_email?: string | null;
+          actor_id?: string | null;
+          actor_name?: string | null;
+          changed_at?: string;
+          changed_fields?: string[] | null;
+          id?: number;
+          new_data?: { [key: string]: Json | undefined } | null;
+          old_data?: { [key: string]: Json | undefined } | null;
+          operation: 'INSERT' | 'UPDATE' | 'DELETE' | 'VIEW' | 'DOWNLOAD';
+          record_id: string;
+          table_name: 'thesis_data' | 'thesis_copies' | 'thesis_attachments' | 'students' | 'thesis_submissions' | 'system_users';
+        };
+        Update: {
+          actor_email?: string | null;
+          actor_id?: string | null;
+          actor_name?: string | null;
+          changed_at?: string;
+          changed_fields?: string[] | null;
+          id?: number;
+          new_data?: { [key: string]: Json | undefined } | null;
+          old_data?: { [key: string]: Json | undefined } | null;
+          operation?: 'INSERT' | 'UPDATE' | 'DELETE' | 'VIEW' | 'DOWNLOAD';
+          record_id?: string;
+          table_name?: 'thesis_data' | 'thesis_copies' | 'thesis_attachments' | 'students' | 'thesis_submissions' | 'system_users';
+        };
+        Relationships: [];
+      };
+      campuses: {
+        Row: {
+          aliases: string[];
+          created_at: string;
+          id: number;
+          is_active: boolean;
+          name: string;
+          sort_order: number;
+        };
+        Insert: {
+          aliases?: string[];
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          name: string;
+          sort_order?: number;
+        };
+        Update: {
+          aliases?: string[];
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          name?: string;
+          sort_order?: number;
+        };
+        Relationships: [];
+      };
+      colleges: {
+        Row: {
+          aliases: string[];
+          created_at: string;
+          id: number;
+          is_active: boolean;
+          level: 'undergraduate' | 'graduate';
+          name: string;
+          sort_order: number;
+        };
+        Insert: {
+          aliases?: string[];
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          level?: 'undergraduate' | 'graduate';
+          name: string;
+          sort_order?: number;
+        };
+        Update: {
+          aliases?: string[];
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          level?: 'undergraduate' | 'graduate';
+          name?: string;
+          sort_order?: number;
+        };
+        Relationships: [];
+      };
       email_verifications: {
         Row: {
           id: string;
@@ -118,6 +238,44 @@ export type Database = {
         };
         Relationships: [];
       };
+      programs: {
+        Row: {
+          aliases: string[];
+          college_id: number;
+          created_at: string;
+          id: number;
+          is_active: boolean;
+          name: string;
+          sort_order: number;
+        };
+        Insert: {
+          aliases?: string[];
+          college_id: number;
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          name: string;
+          sort_order?: number;
+        };
+        Update: {
+          aliases?: string[];
+          college_id?: number;
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          name?: string;
+          sort_order?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'programs_college_id_fkey';
+            columns: ['college_id'];
+            isOneToOne: false;
+            referencedRelation: 'colleges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       system_users: {
         Row: {
           created_at: string;
@@ -151,6 +309,111 @@ export type Database = {
         };
         Relationships: [];
       };
+      student_name_match_reviews: {
+        Row: {
+          accepted: boolean;
+          attempts: number;
+          created_at: string;
+          entered_name: string;
+          id: number;
+          last_seen_at: string;
+          name_on_file: string;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          score: number;
+          status: 'open' | 'dismissed' | 'name_updated';
+          student_no: string;
+          threshold: number;
+        };
+        Insert: {
+          accepted: boolean;
+          attempts?: number;
+          created_at?: string;
+          entered_name: string;
+          id?: number;
+          last_seen_at?: string;
+          name_on_file: string;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          score: number;
+          status?: 'open' | 'dismissed' | 'name_updated';
+          student_no: string;
+          threshold: number;
+        };
+        Update: {
+          accepted?: boolean;
+          attempts?: number;
+          created_at?: string;
+          entered_name?: string;
+          id?: number;
+          last_seen_at?: string;
+          name_on_file?: string;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          score?: number;
+          status?: 'open' | 'dismissed' | 'name_updated';
+          student_no?: string;
+          threshold?: number;
+        };
+        Relationships: [];
+      };
+      student_registration_requests: {
+        Row: {
+          code_attempts: number;
+          code_expires_at: string | null;
+          code_hash: string | null;
+          code_sent_at: string | null;
+          course_section: string;
+          created_at: string;
+          email: string;
+          full_name: string;
+          id: number;
+          review_note: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          school_year: string;
+          status: 'unverified' | 'pending' | 'approved' | 'rejected';
+          student_no: string;
+          verified_at: string | null;
+        };
+        Insert: {
+          code_attempts?: number;
+          code_expires_at?: string | null;
+          code_hash?: string | null;
+          code_sent_at?: string | null;
+          course_section: string;
+          created_at?: string;
+          email: string;
+          full_name: string;
+          id?: number;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          school_year: string;
+          status?: 'unverified' | 'pending' | 'approved' | 'rejected';
+          student_no: string;
+          verified_at?: string | null;
+        };
+        Update: {
+          code_attempts?: number;
+          code_expires_at?: string | null;
+          code_hash?: string | null;
+          code_sent_at?: string | null;
+          course_section?: string;
+          created_at?: string;
+          email?: string;
+          full_name?: string;
+          id?: number;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          school_year?: string;
+          status?: 'unverified' | 'pending' | 'approved' | 'rejected';
+          student_no?: string;
+          verified_at?: string | null;
+        };
+        Relationships: [];
+      };
       students: {
         Row: {
           student_no: string;
@@ -158,6 +421,9 @@ export type Database = {
           course_section: string;
           email: string;
           school_year: string;
+          status: string;
+          archived_at: string | null;
+          archived_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -167,6 +433,9 @@ export type Database = {
           course_section: string;
           email: string;
           school_year: string;
+          status?: string;
+          archived_at?: string | null;
+          archived_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -176,47 +445,274 @@ export type Database = {
           course_section?: string;
           email?: string;
           school_year?: string;
+          status?: string;
+          archived_at?: string | null;
+          archived_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [];
       };
+      thesis_attachments: {
+        Row: {
+          file_name: string;
+          file_size: number;
+          id: number;
+          kind: 'full_text' | 'approval_sheet' | 'abstract_page';
+          storage_path: string;
+          thesis_id: number;
+          uploaded_at: string;
+          uploaded_by: string | null;
+        };
+        Insert: {
+          file_name: string;
+          file_size: number;
+          id?: number;
+          kind: 'full_text' | 'approval_sheet' | 'abstract_page';
+          storage_path: string;
+          thesis_id: number;
+          uploaded_at?: string;
+          uploaded_by?: string | null;
+        };
+        Update: {
+          file_name?: string;
+          file_size?: number;
+          id?: number;
+          kind?: 'full_text' | 'approval_sheet' | 'abstract_page';
+          storage_path?: string;
+          thesis_id?: number;
+          uploaded_at?: string;
+          uploaded_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'thesis_attachments_thesis_id_fkey';
+            columns: ['thesis_id'];
+            isOneToOne: false;
+            referencedRelation: 'thesis_data';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      thesis_copies: {
+        Row: {
+          barcode: string;
+          condition: 'good' | 'fair' | 'poor' | 'damaged';
+          created_at: string;
+          id: number;
+          last_modified: string;
+          location: string | null;
+          notes: string | null;
+          thesis_id: number;
+        };
+        Insert: {
+          barcode: string;
+          condition?: 'good' | 'fair' | 'poor' | 'damaged';
+          created_at?: string;
+          id?: number;
+          last_modified?: string;
+          location?: string | null;
+          notes?: string | null;
+          thesis_id: number;
+        };
+        Update: {
+          barcode?: string;
+          condition?: 'good' | 'fair' | 'poor' | 'damaged';
+          created_at?: string;
+          id?: number;
+          last_modified?: string;
+          location?: string | null;
+          notes?: string | null;
+          thesis_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'thesis_copies_thesis_id_fkey';
+            columns: ['thesis_id'];
+            isOneToOne: false;
+            referencedRelation: 'thesis_data';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       thesis_data: {
         Row: {
+          abstract: string | null;
+          adviser: string | null;
           authors: string[];
+          availability: string;
           barcode: string;
+          call_number: string | null;
+          degree_program: string | null;
+          deleted_at: string | null;
+          deleted_by: string | null;
           department: string;
           id: number;
           is_deleted: boolean;
+          keywords: string[];
+          language: string | null;
           last_modified: string;
+          merged_into: number | null;
+          page_count: number | null;
+          panel_members: string[];
           publication_year: number;
+          search_vector: unknown | null;
           thesis_title: string;
           upload_date: string;
         };
         Insert: {
+          abstract?: string | null;
+          adviser?: string | null;
           authors: string[];
+          availability?: string;
           barcode: string;
+          call_number?: string | null;
+          degree_program?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
           department: string;
           id?: number;
           is_deleted?: boolean;
+          keywords?: string[];
+          language?: string | null;
           last_modified?: string;
+          merged_into?: number | null;
+          page_count?: number | null;
+          panel_members?: string[];
           publication_year: number;
+          search_vector?: unknown | null;
           thesis_title: string;
           upload_date?: string;
         };
         Update: {
+          abstract?: string | null;
+          adviser?: string | null;
           authors?: string[];
+          availability?: string;
           barcode?: string;
+          call_number?: string | null;
+          degree_program?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
           department?: string;
           id?: number;
           is_deleted?: boolean;
+          keywords?: string[];
+          language?: string | null;
           last_modified?: string;
+          merged_into?: number | null;
+          page_count?: number | null;
+          panel_members?: string[];
           publication_year?: number;
+          search_vector?: unknown | null;
           thesis_title?: string;
           upload_date?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'fk_thesis_data_merged_into';
+            columns: ['merged_into'];
+            isOneToOne: false;
+            referencedRelation: 'thesis_data';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      thesis_duplicate_candidates: {
+        Row: {
+          author_overlap: number;
+          found_at: string;
+          score: number;
+          thesis_a: number;
+          thesis_b: number;
+          title_similarity: number;
+        };
+        Insert: {
+          author_overlap: number;
+          found_at?: string;
+          score: number;
+          thesis_a: number;
+          thesis_b: number;
+          title_similarity: number;
+        };
+        Update: {
+          author_overlap?: number;
+          found_at?: string;
+          score?: number;
+          thesis_a?: number;
+          thesis_b?: number;
+          title_similarity?: number;
+        };
+        Relationships: [];
+      };
+      thesis_duplicate_dismissals: {
+        Row: {
+          dismissed_at: string;
+          dismissed_by: string | null;
+          thesis_a: number;
+          thesis_b: number;
+        };
+        Insert: {
+          dismissed_at?: string;
+          dismissed_by?: string | null;
+          thesis_a: number;
+          thesis_b: number;
+        };
+        Update: {
+          dismissed_at?: string;
+          dismissed_by?: string | null;
+          thesis_a?: number;
+          thesis_b?: number;
+        };
         Relationships: [];
       };
+      thesis_reservations: {
+        Row: {
+          closed_at: string | null;
+          closed_by: string | null;
+          created_at: string;
+          full_name: string;
+          hold_expires_at: string | null;
+          id: number;
+          ready_at: string | null;
+          status: string;
+          student_no: string;
+          thesis_id: number;
+        };
+        Insert: {
+          closed_at?: string | null;
+          closed_by?: string | null;
+          created_at?: string;
+          full_name: string;
+          hold_expires_at?: string | null;
+          id?: number;
+          ready_at?: string | null;
+          status?: string;
+          student_no: string;
+          thesis_id: number;
+        };
+        Update: {
+          closed_at?: string | null;
+          closed_by?: string | null;
+          created_at?: string;
+          full_name?: string;
+          hold_expires_at?: string | null;
+          id?: number;
+          ready_at?: string | null;
+          status?: string;
+          student_no?: string;
+          thesis_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'thesis_reservations_thesis_id_fkey';
+            columns: ['thesis_id'];
+            isOneToOne: false;
+            referencedRelation: 'thesis_data';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       thesis_submissions: {
         Row: {
           campus: string;
@@ -224,9 +720,14 @@ export type Database = {
           full_name: string;
           id: string;
           program: string | null;
+          return_method: string | null;
+          returned_at: string | null;
+          returned_by: string | null;
           school: string | null;
           student_number: string | null;
           submission_date: string;
+          thesis_barcode: string | null;
+          thesis_id: number | null;
           thesis_title: string;
           user_type: string;
         };
@@ -236,9 +737,14 @@ export type Database = {
           full_name: string;
           id?: string;
           program?: string | null;
+          return_method?: string | null;
+          returned_at?: string | null;
+          returned_by?: string | null;
           school?: string | null;
           student_number?: string | null;
           submission_date?: string;
+          thesis_barcode?: string | null;
+          thesis_id?: number | null;
           thesis_title: string;
           user_type: string;
         };
@@ -248,27 +754,526 @@ export type Database = {
           full_name?: string;
           id?: string;
           program?: string | null;
+          return_method?: string | null;
+          returned_at?: string | null;
+          returned_by?: string | null;
           school?: string | null;
           student_number?: string | null;
           submission_date?: string;
+          thesis_barcode?: string | null;
+          thesis_id?: number | null;
           thesis_title?: string;
           user_type?: string;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: 'fk_thesis_submissions_thesis_id';
+            columns: ['thesis_id'];
+            isOneToOne: false;
+            referencedRelation: 'thesis_data';
+            referencedColumns: ['id'];
+          },
+        ];
       };
     };
     Views: Record<string, never>;
     Functions: {
+      advance_reservation_queue: {
+        Args: {
+          p_thesis_id: number;
+        };
+        Returns: undefined;
+      };
+      archive_school_year: {
+        Args: {
+          p_school_year: string;
+          p_status?: string;
+        };
+        Returns: number;
+      };
+      browse_thesis_catalog: {
+        Args: {
+          p_department?: string | null;
+          p_year_from?: number | null;
+          p_year_to?: number | null;
+          p_author?: string | null;
+          p_search?: string | null;
+          p_page?: number;
+          p_page_size?: number;
+        };
+        Returns: {
+          id: number;
+          barcode: string;
+          thesis_title: string;
+          authors: string[];
+          department: string;
+          publication_year: number;
+          copy_count: number;
+          total_count: number;
+        }[];
+      };
+      cancel_student_reservation: {
+        Args: {
+          p_reservation_id: number;
+          p_student_no: string;
+          p_full_name: string;
+        };
+        Returns: boolean;
+      };
+      diff_student_roster: {
+        Args: {
+          p_students: {
+            student_no: string;
+            full_name: string;
+            course_section: string;
+            email: string;
+            school_year: string;
+          }[];
+        };
+        Returns: {
+          student_no: string;
+          change: 'added' | 'changed' | 'missing';
+          changed_fields: ('full_name' | 'course_section' | 'email' | 'school_year' | 'status')[] | null;
+          current_data: {
+            student_no: string;
+            full_name: string;
+            course_section: string;
+            email: string;
+            school_year: string;
+            status: string;
+          } | null;
+          incoming_data: {
+            student_no: string;
+            full_name: string;
+            course_section: string;
+            email: string;
+            school_year: string;
+          } | null;
+        }[];
+      };
+      dismiss_thesis_duplicate: {
+        Args: {
+          p_thesis_a: number;
+          p_thesis_b: number;
+        };
+        Returns: undefined;
+      };
+      effective_thesis_availability: {
+        Args: {
+          p_thesis_id: number;
+          p_availability: string;
+        };
+        Returns: string;
+      };
+      get_student_reservations: {
+        Args: {
+          p_student_no: string;
+          p_full_name: string;
+        };
+        Returns: {
+          id: number;
+          thesis_id: number;
+          thesis_title: string;
+          barcode: string;
+          status: 'waiting' | 'ready';
+          queue_position: number;
+          created_at: string;
+          hold_expires_at: string | null;
+        }[];
+      };
+      import_thesis_records: {
+        Args: {
+          p_records: {
+            barcode: string;
+            thesis_title: string;
+            authors: string[];
+            department: string;
+            publication_year: number;
+            location: string | null;
+            condition: 'good' | 'fair' | 'poor' | 'damaged' | null;
+            abstract: string | null;
+            keywords: string[];
+            adviser: string | null;
+            panel_members: string[];
+            degree_program: string | null;
+            call_number: string | null;
+            page_count: number | null;
+            language: string | null;
+          }[];
+        };
+        Returns: {
+          theses_created: number;
+          copies_added: number;
+          copies_updated: number;
+        };
+      };
       is_admin_user: {
         Args: Record<string, never>;
         Returns: boolean;
       };
+      is_staff_user: {
+        Args: Record<string, never>;
+        Returns: boolean;
+      };
+      issue_student_registration_code: {
+        Args: {
+          p_request_id: number;
+        };
+        Returns: Json;
+      };
+      link_submissions_to_thesis: {
+        Args: {
+          p_submission_title: string;
+          p_thesis_id: number;
+        };
+        Returns: number;
+      };
+      list_deleted_theses: {
+        Args: {
+          p_search?: string | null;
+          p_page?: number;
+          p_page_size?: number;
+        };
+        Returns: {
+          id: number;
+          barcode: string;
+          thesis_title: string;
+          authors: string[];
+          department: string;
+          publication_year: number;
+          deleted_at: string | null;
+          deleted_by: string | null;
+          deleted_by_name: string | null;
+          total_count: number;
+        }[];
+      };
+      list_thesis_data: {
+        Args: {
+          p_search?: string | null;
+          p_department?: string | null;
+          p_author?: string | null;
+          p_barcode?: string | null;
+          p_year?: number | null;
+          p_year_from?: number | null;
+          p_year_to?: number | null;
+          p_sort_column?: string;
+          p_sort_ascending?: boolean;
+          p_page?: number;
+          p_page_size?: number;
+        };
+        Returns: {
+          id: number;
+          barcode: string;
+          thesis_title: string;
+          authors: string[];
+          department: string;
+          publication_year: number;
+          upload_date: string;
+          last_modified: string;
+          is_deleted: boolean;
+          availability: string;
+          copy_count: number;
+          total_count: number;
+        }[];
+      };
+      list_thesis_duplicate_candidates: {
+        Args: {
+          p_limit?: number;
+        };
+        Returns: {
+          thesis_a: number;
+          thesis_b: number;
+          title_similarity: number;
+          author_overlap: number;
+          score: number;
+          found_at: string;
+          record_a: {
+            id: number;
+            barcode: string;
+            thesis_title: string;
+            authors: string[];
+            department: string;
+            publication_year: number;
+            adviser: string | null;
+            upload_date: string;
+            copy_count: number;
+            submission_count: number;
+            reservation_count: number;
+          };
+          record_b: {
+            id: number;
+            barcode: string;
+            thesis_title: string;
+            authors: string[];
+            department: string;
+            publication_year: number;
+            adviser: string | null;
+            upload_date: string;
+            copy_count: number;
+            submission_count: number;
+            reservation_count: number;
+          };
+        }[];
+      };
+      list_thesis_reservations: {
+        Args: {
+          p_thesis_id?: number | null;
+        };
+        Returns: {
+          id: number;
+          thesis_id: number;
+          thesis_title: string;
+          barcode: string;
+          student_no: string;
+          full_name: string;
+          status: 'waiting' | 'ready';
+          queue_position: number;
+          created_at: string;
+          ready_at: string | null;
+          hold_expires_at: string | null;
+        }[];
+      };
+      list_unmatched_vocabulary_values: {
+        Args: {
+          p_kind: string;
+        };
+        Returns: {
+          value: string;
+          usage_count: number;
+          suggested_term_id: number | null;
+        }[];
+      };
+      lookup_thesis_by_barcode: {
+        Args: {
+          p_barcode: string;
+        };
+        Returns: {
+          id: number;
+          barcode: string;
+          thesis_title: string | null;
+          authors: string[] | null;
+          department: string;
+          publication_year: number | null;
+          is_deleted: boolean;
+          checked_out_at: string | null;
+          availability: 'available' | 'in_use' | 'on_hold' | 'missing' | 'under_repair';
+          location: string | null;
+          copy_count: number;
+        }[];
+      };
+      manage_reservation: {
+        Args: {
+          p_reservation_id: number;
+          p_action: string;
+        };
+        Returns: undefined;
+      };
+      merge_theses: {
+        Args: {
+          p_keep_id: number;
+          p_merge_id: number;
+        };
+        Returns: {
+          submissions_moved: number;
+          copies_moved: number;
+          reservations_moved: number;
+          attachments_moved: number;
+        };
+      };
+      open_thesis_file: {
+        Args: {
+          p_attachment_id: number;
+          p_action: string;
+        };
+        Returns: {
+          storage_path: string;
+          file_name: string;
+        }[];
+      };
+      purge_expired_thesis_trash: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      refresh_reservation_queues: {
+        Args: Record<string, never>;
+        Returns: undefined;
+      };
+      refresh_thesis_duplicate_candidates: {
+        Args: {
+          p_min_title_similarity?: number;
+        };
+        Returns: number;
+      };
+      remap_vocabulary_value: {
+        Args: {
+          p_kind: string;
+          p_value: string;
+          p_term_id: number;
+        };
+        Returns: number;
+      };
+      reservation_queue_position: {
+        Args: {
+          p_reservation_id: number;
+        };
+        Returns: number;
+      };
+      reserve_thesis: {
+        Args: {
+          p_thesis_id: number;
+          p_student_no: string;
+          p_full_name: string;
+        };
+        Returns: {
+          success: boolean;
+          error?: string;
+          message?: string;
+          already_reserved?: boolean;
+          reservation_id?: number;
+          status?: 'waiting' | 'ready';
+          position?: number;
+        };
+      };
+      resolve_student_name_match: {
+        Args: {
+          p_review_id: number;
+          p_use_entered_name?: boolean;
+        };
+        Returns: undefined;
+      };
+      return_thesis: {
+        Args: {
+          p_thesis_id: number;
+          p_full_name: string;
+          p_student_no?: string | null;
+          p_barcode?: string | null;
+        };
+        Returns: number;
+      };
+      review_student_registration: {
+        Args: {
+          p_request_id: number;
+          p_approve: boolean;
+          p_note?: string | null;
+        };
+        Returns: undefined;
+      };
+      search_theses: {
+        Args: {
+          search_query: string;
+          result_limit?: number;
+        };
+        Returns: {
+          id: number;
+          barcode: string;
+          thesis_title: string;
+          authors: string[];
+          department: string;
+          publication_year: number;
+          availability: 'available' | 'in_use' | 'on_hold' | 'missing' | 'under_repair';
+          copy_count: number;
+          keywords: string[];
+          adviser: string | null;
+          rank: number;
+        }[];
+      };
+      submit_student_registration: {
+        Args: {
+          p_student_no: string;
+          p_full_name: string;
+          p_course_section: string;
+          p_email: string;
+          p_school_year: string;
+        };
+        Returns: number;
+      };
+      suggest_submission_thesis_links: {
+        Args: {
+          p_min_similarity?: number;
+          p_limit?: number;
+        };
+        Returns: {
+          submission_title: string;
+          submission_count: number;
+          thesis_id: number;
+          barcode: string;
+          thesis_title: string;
+          department: string;
+          publication_year: number;
+          match_score: number;
+        }[];
+      };
+      sync_student_roster: {
+        Args: {
+          p_students: {
+            student_no: string;
+            full_name: string;
+            course_section: string;
+            email: string;
+            school_year: string;
+          }[];
+          p_archive_missing?: boolean;
+          p_archive_status?: string;
+        };
+        Returns: {
+          listed: number;
+          added: number;
+          updated: number;
+          reactivated: number;
+          unchanged: number;
+          missing: number;
+          archived: number;
+        };
+      };
+      thesis_catalog_facets: {
+        Args: Record<string, never>;
+        Returns: {
+          departments: { name: string; count: number }[];
+          min_year: number | null;
+          max_year: number | null;
+          total: number;
+        };
+      };
+      thesis_copy_count: {
+        Args: {
+          p_thesis_id: number;
+        };
+        Returns: number;
+      };
       validate_lpu_student: {
         Args: {
           student_num: string;
         };
         Returns: boolean;
       };
+      validate_lpu_student_with_name: {
+        Args: {
+          student_num: string;
+          student_name: string;
+        };
+        Returns: {
+          valid: boolean;
+          error?: string;
+          message?: string;
+          student_details?: {
+            student_no: string;
+            full_name: string;
+            course_section: string;
+            email: string;
+            school_year: string;
+          };
+        };
+      };
+      verify_student_registration: {
+        Args: {
+          p_request_id: number;
+          p_code: string;
+        };
+        Returns: {
+          valid: boolean;
+          reason?: 'NOT_FOUND' | 'EXPIRED' | 'MAX_ATTEMPTS' | 'INVALID';
+        };
+      };
     };
     Enums: {
       thesis_status: 'draft' | 'published' | 'archived';
@@ -0,0 +1,31 @@
+// lib/app-settings.ts
+import { supabase } from '../integrations/supabase/client';
+import type { Json } from '../integrations/supabase/types';
+
+/** Reads one admin-configurable setting, falling back when it has never been saved. */
+export async function fetchAppSetting<T extends Json>(key: string, fallback: T): Promise<T> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching setting ${key}:`, error);
+    throw error;
+  }
+
+  return data ? (data.value as T) : fallback;
+}
+
+export async function saveAppSetting(key: string, value: Json): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key, value, updated_at: new Date().toISOString(), updated_by: user?.id ?? null });
+
+  if (error) {
+    console.error(`Error saving setting ${key}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,147 @@
+// lib/audit-log.ts
+import { supabase } from '../integrations/supabase/client';
+
+export const AUDIT_LOG_PAGE_SIZE = 25;
+
+export type AuditTable =
+  | 'thesis_data'
+  | 'thesis_copies'
+  | 'thesis_attachments'
+  | 'students'
+  | 'thesis_submissions'
+  | 'system_users';
+
+/** VIEW and DOWNLOAD record staff opening a thesis file rather than a row change. */
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE' | 'VIEW' | 'DOWNLOAD';
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  thesis_data: 'Thesis Data',
+  thesis_copies: 'Thesis Copies',
+  thesis_attachments: 'Thesis Files',
+  students: 'Student Data',
+  thesis_submissions: 'User Records',
+  system_users: 'System Users',
+};
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  VIEW: 'Viewed',
+  DOWNLOAD: 'Downloaded',
+};
+
+export interface AuditLogEntry {
+  id: number;
+  table_name: AuditTable;
+  record_id: string;
+  operation: AuditOperation;
+  actor_id: string | null;
+  actor_name: string | null;
+  actor_email: string | null;
+  changed_at: string;
+  changed_fields: string[] | null;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+  actorId: string;
+  table: AuditTable | '';
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface AuditLogPage {
+  rows: AuditLogEntry[];
+  total: number;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const emptyAuditLogFilters: AuditLogFilters = {
+  actorId: '',
+  table: '',
+  dateFrom: '',
+  dateTo: '',
+};
+
+/** Newest-first page of the audit log. Dates are inclusive local calendar days. */
+export async function fetchAuditLog(
+  filters: AuditLogFilters,
+  page: number,
+  pageSize = AUDIT_LOG_PAGE_SIZE
+): Promise<AuditLogPage> {
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('changed_at', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1);
+
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.dateFrom) {
+    query = query.gte('changed_at', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+  }
+  if (filters.dateTo) {
+    const end = new Date(`${filters.dateTo}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('changed_at', end.toISOString());
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    throw error;
+  }
+
+  return { rows: data ?? [], total: count ?? 0 };
+}
+
+/** Every logged change to one record, newest first. */
+export async function fetchRecordHistory(table: AuditTable, recordId: string | number): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', table)
+    .eq('record_id', String(recordId))
+    .order('changed_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('Error fetching record history:', error);
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/** The fields an entry touched, with their values before and after. */
+export const getFieldChanges = (entry: AuditLogEntry): AuditFieldChange[] =>
+  (entry.changed_fields ?? []).map((field) => ({
+    field,
+    before: entry.old_data?.[field] ?? null,
+    after: entry.new_data?.[field] ?? null,
+  }));
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const formatAuditField = (field: string) =>
+  field.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase());
+
+/** A short label for the record an entry belongs to, taken from its snapshot. */
+export const describeAuditRecord = (entry: AuditLogEntry): string => {
+  const row = entry.new_data ?? entry.old_data ?? {};
+  const label = row.thesis_title ?? row.full_name ?? row.name ?? row.email ?? row.file_name;
+  return label ? String(label) : `#${entry.record_id}`;
+};
@@ -0,0 +1,130 @@
+// lib/author-names.ts
+
+export type AuthorDelimiter = 'semicolon' | 'pipe' | 'and';
+
+export type AuthorNameOrder = 'keep' | 'first-last' | 'last-first';
+
+export interface AuthorParseOptions {
+  delimiters: AuthorDelimiter[];
+  titleCase: boolean;
+  nameOrder: AuthorNameOrder;
+}
+
+export const defaultAuthorParseOptions: AuthorParseOptions = {
+  delimiters: ['semicolon', 'pipe'],
+  titleCase: true,
+  nameOrder: 'keep',
+};
+
+export const AUTHOR_DELIMITER_LABELS: Record<AuthorDelimiter, string> = {
+  semicolon: 'Semicolon ( ; )',
+  pipe: 'Pipe ( | )',
+  and: 'The word "and"',
+};
+
+// Commas are deliberately not a delimiter: "Doe, John" is one author.
+const DELIMITER_PATTERNS: Record<AuthorDelimiter, string> = {
+  semicolon: ';',
+  pipe: '\\|',
+  and: '\\s+(?:and|&)\\s+',
+};
+
+const NAME_SUFFIX = /^(jr|sr|ii|iii|iv|v)\.?$/i;
+
+// Words that belong to the surname after them, as in the compound Filipino
+// surnames "Dela Cruz", "De los Reyes" and "Sta. Maria".
+const SURNAME_PARTICLES = new Set([
+  'da', 'de', 'del', 'dela', 'della', 'delos', 'des', 'di', 'la', 'los', 'san', 'santa', 'sta', 'van', 'von',
+]);
+
+/**
+ * Index of the first surname word in a name written given names first,
+ * pulling in any particles before the last word while leaving at least one
+ * given name: "Juan Dela Cruz" → 1, "Maria De Los Reyes" → 1.
+ */
+export const findSurnameStart = (words: string[]): number => {
+  let start = words.length - 1;
+  while (start > 1 && SURNAME_PARTICLES.has(words[start - 1].toLowerCase().replace(/\.$/, ''))) {
+    start -= 1;
+  }
+  return start;
+};
+
+/** Splits a single cell into individual author names using the chosen delimiters. */
+export const splitAuthorCell = (value: string, delimiters: AuthorDelimiter[]): string[] => {
+  if (!value) return [];
+  if (delimiters.length === 0) return [value];
+
+  const pattern = new RegExp(delimiters.map((d) => DELIMITER_PATTERNS[d]).join('|'), 'i');
+  return value.split(pattern);
+};
+
+/**
+ * Title-cases words that are entirely upper or lower case ("DOE" → "Doe"),
+ * leaving deliberately mixed-case names such as "McDonald" untouched.
+ */
+const toTitleCase = (name: string): string =>
+  name.replace(/[\p{L}']+/gu, (word) => {
+    if (word !== word.toUpperCase() && word !== word.toLowerCase()) return word;
+    return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+  });
+
+const toFirstLast = (name: string): string => {
+  const parts = name.split(',').map((part) => part.trim()).filter(Boolean);
+  if (parts.length !== 2) return name;
+  return `${parts[1]} ${parts[0]}`;
+};
+
+const toLastFirst = (name: string): string => {
+  if (name.includes(',')) return name;
+
+  const words = name.split(' ');
+  if (words.length < 2) return name;
+
+  // Keep generational suffixes and particles with the surname:
+  // "Juan Cruz Jr." → "Cruz Jr., Juan", "Juan Dela Cruz" → "Dela Cruz, Juan"
+  const hasSuffix = NAME_SUFFIX.test(words[words.length - 1]) && words.length > 2;
+  const surnameStart = hasSuffix
+    ? findSurnameStart(words.slice(0, -1))
+    : findSurnameStart(words);
+
+  return `${words.slice(surnameStart).join(' ')}, ${words.slice(0, surnameStart).join(' ')}`;
+};
+
+/** Trims, collapses whitespace and applies the requested casing and name order. */
+export const normalizeAuthorName = (
+  name: string,
+  options: Pick<AuthorParseOptions, 'titleCase' | 'nameOrder'>
+): string => {
+  let normalized = name.replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ').trim();
+  normalized = normalized.replace(/^,\s*|,\s*$/g, '');
+
+  if (options.titleCase) normalized = toTitleCase(normalized);
+  if (options.nameOrder === 'first-last') normalized = toFirstLast(normalized);
+  if (options.nameOrder === 'last-first') normalized = toLastFirst(normalized);
+
+  return normalized;
+};
+
+/**
+ * Builds the authors array for one import row from one or more source cells
+ * (a single "Author" column or repeated Author1..AuthorN columns).
+ * Empty entries and case-insensitive duplicates are dropped.
+ */
+export const parseAuthors = (cells: string[], options: AuthorParseOptions): string[] => {
+  const seen = new Set<string>();
+  const authors: string[] = [];
+
+  cells
+    .flatMap((cell) => splitAuthorCell(cell, options.delimiters))
+    .map((name) => normalizeAuthorName(name, options))
+    .forEach((name) => {
+      const key = name.toLowerCase();
+      if (name && !seen.has(key)) {
+        seen.add(key);
+        authors.push(name);
+      }
+    });
+
+  return authors;
+};
@@ -0,0 +1,276 @@
+// lib/citations.ts
+// Citation formatting for catalogued theses. Every thesis in the archive is
+// an unpublished thesis of this university, so the institution is fixed.
+import { supabase } from '../integrations/supabase/client';
+import { findSurnameStart } from './author-names';
+
+export const CITATION_INSTITUTION = 'Lyceum of the Philippines University – Batangas';
+const CITATION_PLACE = 'Batangas City, Philippines';
+
+export type CitationStyle = 'apa' | 'mla' | 'chicago' | 'ieee' | 'bibtex' | 'ris';
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+  apa: 'APA 7',
+  mla: 'MLA 9',
+  chicago: 'Chicago',
+  ieee: 'IEEE',
+  bibtex: 'BibTeX',
+  ris: 'RIS',
+};
+
+export const CITATION_STYLE_OPTIONS = Object.keys(CITATION_STYLE_LABELS) as CitationStyle[];
+
+const CITATION_FILES: Record<CitationStyle, { extension: string; type: string }> = {
+  apa: { extension: 'txt', type: 'text/plain' },
+  mla: { extension: 'txt', type: 'text/plain' },
+  chicago: { extension: 'txt', type: 'text/plain' },
+  ieee: { extension: 'txt', type: 'text/plain' },
+  bibtex: { extension: 'bib', type: 'application/x-bibtex' },
+  ris: { extension: 'ris', type: 'application/x-research-info-systems' },
+};
+
+export interface CitableThesis {
+  id: number;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  degree_program?: string | null;
+}
+
+type ThesisLevel = 'bachelor' | 'master' | 'doctoral';
+
+interface PersonName {
+  given: string;
+  family: string;
+  suffix: string;
+}
+
+const NAME_SUFFIXES = ['jr', 'jr.', 'sr', 'sr.', 'ii', 'iii', 'iv'];
+
+/** Splits "Juan P. Dela Cruz Jr." or "Dela Cruz, Juan P." into its parts. */
+export const parsePersonName = (raw: string): PersonName => {
+  const name = raw.trim().replace(/\s+/g, ' ');
+  if (name.includes(',')) {
+    const [family, ...rest] = name.split(',').map((part) => part.trim()).filter(Boolean);
+    const suffix = rest.length > 1 && NAME_SUFFIXES.includes(rest[rest.length - 1].toLowerCase()) ? rest.pop()! : '';
+    return { given: rest.join(' '), family: family ?? '', suffix };
+  }
+
+  const words = name.split(' ');
+  const suffix = words.length > 2 && NAME_SUFFIXES.includes(words[words.length - 1].toLowerCase()) ? words.pop()! : '';
+  if (words.length === 1) return { given: '', family: words[0], suffix };
+
+  const familyStart = findSurnameStart(words);
+  return { given: words.slice(0, familyStart).join(' '), family: words.slice(familyStart).join(' '), suffix };
+};
+
+/** "Juan Paolo" → "J. P."; hyphenated names keep the hyphen ("Jean-Luc" → "J.-L."). */
+const initials = (given: string) =>
+  given
+    .split(' ')
+    .filter(Boolean)
+    .map((word) => word.split('-').map((part) => `${part.charAt(0).toUpperCase()}.`).join('-'))
+    .join(' ');
+
+const withSuffix = (text: string, suffix: string) => (suffix ? `${text}, ${suffix}` : text);
+
+const invertedName = ({ given, family, suffix }: PersonName) =>
+  withSuffix(given ? `${family}, ${given}` : family, suffix);
+
+const directName = ({ given, family, suffix }: PersonName) =>
+  withSuffix(given ? `${given} ${family}` : family, suffix);
+
+const joinWithAnd = (names: string[]) => {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+};
+
+const endWithPeriod = (text: string) => (/[.?!]$/.test(text) ? text : `${text}.`);
+
+/** Level of the degree from the program name, e.g. "BS Nursing" or "Master in Business Administration". */
+export const thesisLevel = (degreeProgram?: string | null): ThesisLevel => {
+  const program = (degreeProgram ?? '').toLowerCase();
+  if (/\b(ph\.?\s?d|doctor|doctoral|ed\.?\s?d|d\.?b\.?a)\b/.test(program)) return 'doctoral';
+  if (/\b(master|masters|m\.?s|m\.?a|mba|mit|mpa|maed)\b/.test(program)) return 'master';
+  return 'bachelor';
+};
+
+const LEVEL_LABELS: Record<ThesisLevel, { thesis: string; ieee: string; bibtex: string }> = {
+  bachelor: { thesis: "bachelor's thesis", ieee: 'B.S. thesis', bibtex: "Bachelor's thesis" },
+  master: { thesis: "master's thesis", ieee: 'M.S. thesis', bibtex: "Master's thesis" },
+  doctoral: { thesis: 'doctoral dissertation', ieee: 'Ph.D. dissertation', bibtex: 'PhD dissertation' },
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/** The degree-granting unit: the department within the university. */
+const institutionOf = (thesis: CitableThesis) =>
+  thesis.department ? `${thesis.department}, ${CITATION_INSTITUTION}` : CITATION_INSTITUTION;
+
+const namesOf = (thesis: CitableThesis) =>
+  (thesis.authors ?? []).map((author) => author.trim()).filter(Boolean).map(parsePersonName);
+
+const title = (thesis: CitableThesis) => thesis.thesis_title.trim();
+
+// APA 7: up to 20 authors; beyond that the first 19, an ellipsis and the last
+const formatApa = (thesis: CitableThesis) => {
+  const apaName = (person: PersonName) =>
+    withSuffix(person.given ? `${person.family}, ${initials(person.given)}` : person.family, person.suffix);
+  const names = namesOf(thesis).map(apaName);
+  let authors: string;
+  if (names.length > 20) {
+    authors = `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+  } else if (names.length > 1) {
+    authors = `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+  } else {
+    authors = names[0] ?? '';
+  }
+  const level = LEVEL_LABELS[thesisLevel(thesis.degree_program)].thesis;
+  const byline = authors ? `${endWithPeriod(authors)} (${thesis.publication_year}). ` : '';
+  return `${byline}${title(thesis)} [Unpublished ${level}]. ${endWithPeriod(institutionOf(thesis))}`;
+};
+
+// MLA 9: one or two authors are listed, three or more become "et al."
+const formatMla = (thesis: CitableThesis) => {
+  const names = namesOf(thesis);
+  let authors = '';
+  if (names.length === 1) authors = invertedName(names[0]);
+  if (names.length === 2) authors = `${invertedName(names[0])}, and ${directName(names[1])}`;
+  if (names.length > 2) authors = `${invertedName(names[0])}, et al`;
+  const level = capitalize(LEVEL_LABELS[thesisLevel(thesis.degree_program)].thesis);
+  const byline = authors ? `${endWithPeriod(authors)} ` : '';
+  return `${byline}${endWithPeriod(title(thesis))} ${thesis.publication_year}. ${institutionOf(thesis)}, ${level}.`;
+};
+
+// Chicago 17 bibliography: up to ten authors, otherwise the first seven and "et al."
+const formatChicago = (thesis: CitableThesis) => {
+  const names = namesOf(thesis);
+  const listed = names.length > 10 ? names.slice(0, 7) : names;
+  const parts = listed.map((person, index) => (index === 0 ? invertedName(person) : directName(person)));
+  // The inverted first name ends in a comma even when only two authors are listed
+  let authors = names.length > 10 ? `${parts.join(', ')}, et al` : joinWithAnd(parts);
+  if (listed.length === 2) authors = `${parts[0]}, and ${parts[1]}`;
+  const level = capitalize(LEVEL_LABELS[thesisLevel(thesis.degree_program)].thesis);
+  const byline = authors ? `${endWithPeriod(authors)} ` : '';
+  return `${byline}"${endWithPeriod(title(thesis))}" ${level}, ${institutionOf(thesis)}, ${thesis.publication_year}.`;
+};
+
+// IEEE: initials first; more than six authors become the first and "et al."
+const formatIeee = (thesis: CitableThesis) => {
+  const ieeeName = (person: PersonName) =>
+    withSuffix(person.given ? `${initials(person.given)} ${person.family}` : person.family, person.suffix);
+  const names = namesOf(thesis).map(ieeeName);
+  const authors = names.length > 6 ? `${names[0]} et al.` : joinWithAnd(names);
+  const level = LEVEL_LABELS[thesisLevel(thesis.degree_program)].ieee;
+  const byline = authors ? `${authors}, ` : '';
+  return `${byline}"${title(thesis)}," ${level}, ${institutionOf(thesis)}, ${CITATION_PLACE}, ${thesis.publication_year}.`;
+};
+
+const escapeBibtex = (value: string) => value.replace(/([{}&%$#_])/g, '\\$1');
+
+/** e.g. delacruz2024advanced: first author's family name, year and first title word. */
+const bibtexKey = (thesis: CitableThesis) => {
+  const asciiWord = (text: string) => text.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+  const family = namesOf(thesis)[0]?.family ?? 'thesis';
+  const firstWord = title(thesis).split(/\s+/).map(asciiWord).find((word) => word.length > 3) ?? '';
+  return `${asciiWord(family)}${thesis.publication_year}${firstWord}`;
+};
+
+const formatBibtex = (thesis: CitableThesis) => {
+  const level = thesisLevel(thesis.degree_program);
+  const entryType = level === 'doctoral' ? 'phdthesis' : 'mastersthesis';
+  const fields: Array<[string, string]> = [
+    ['author', namesOf(thesis).map(invertedName).join(' and ')],
+    // Double braces keep the title's capitalisation
+    ['title', `{${escapeBibtex(title(thesis))}}`],
+    ['school', institutionOf(thesis)],
+    ['address', CITATION_PLACE],
+    ['year', String(thesis.publication_year)],
+  ];
+  // BibTeX has no bachelor's thesis type, so the master's entry carries its own label
+  if (level === 'bachelor') fields.push(['type', LEVEL_LABELS.bachelor.bibtex]);
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${name === 'title' ? value : escapeBibtex(value)}}`)
+    .join(',\n');
+  return `@${entryType}{${bibtexKey(thesis)},\n${body}\n}`;
+};
+
+const formatRis = (thesis: CitableThesis) => {
+  const lines: Array<[string, string]> = [
+    ['TY', 'THES'],
+    ...namesOf(thesis).map((person): [string, string] => ['AU', invertedName(person)]),
+    ['TI', title(thesis)],
+    ['PY', String(thesis.publication_year)],
+    ['PB', institutionOf(thesis)],
+    ['CY', CITATION_PLACE],
+    ['M3', capitalize(LEVEL_LABELS[thesisLevel(thesis.degree_program)].thesis)],
+    ['ER', ''],
+  ];
+  return lines.map(([tag, value]) => `${tag}  - ${value}`).join('\r\n');
+};
+
+const FORMATTERS: Record<CitationStyle, (thesis: CitableThesis) => string> = {
+  apa: formatApa,
+  mla: formatMla,
+  chicago: formatChicago,
+  ieee: formatIeee,
+  bibtex: formatBibtex,
+  ris: formatRis,
+};
+
+export const formatCitation = (thesis: CitableThesis, style: CitationStyle) => FORMATTERS[style](thesis);
+
+/**
+ * Citations for several theses as one block. Reference lists are sorted by
+ * first author as the styles require; IEEE is numbered in the given order.
+ */
+export const formatCitations = (theses: CitableThesis[], style: CitationStyle) => {
+  const sortKey = (thesis: CitableThesis) =>
+    `${namesOf(thesis)[0]?.family ?? ''} ${title(thesis)}`.toLowerCase();
+  const ordered = ['apa', 'mla', 'chicago'].includes(style)
+    ? [...theses].sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+    : theses;
+  const citations = ordered.map((thesis) => formatCitation(thesis, style));
+  if (style === 'ieee') return citations.map((citation, index) => `[${index + 1}] ${citation}`).join('\n');
+  return citations.join(style === 'ris' ? '\r\n\r\n' : '\n\n');
+};
+
+export const downloadCitations = (content: string, style: CitationStyle, baseName: string) => {
+  const { extension, type } = CITATION_FILES[style];
+  const blob = new Blob([content], { type: `${type};charset=utf-8;` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Citation fields for the given theses in the order of `thesisIds`, chunked to
+ * keep the request URL short.
+ */
+export async function fetchCitableTheses(thesisIds: number[]): Promise<CitableThesis[]> {
+  const byId = new Map<number, CitableThesis>();
+  for (let i = 0; i < thesisIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('thesis_data')
+      .select('id, thesis_title, authors, department, publication_year, degree_program')
+      .in('id', thesisIds.slice(i, i + 200));
+
+    if (error) {
+      console.error('Error fetching theses for citation:', error);
+      throw error;
+    }
+    for (const thesis of data ?? []) {
+      byId.set(thesis.id, thesis);
+    }
+  }
+  return thesisIds.map(id => byId.get(id)).filter((thesis): thesis is CitableThesis => !!thesis);
+}
@@ -0,0 +1,175 @@
+// lib/column-mapping.ts
+// Maps source file columns to import fields: header suggestions and named
+// presets kept in the browser.
+import type { ImportColumn } from './import-validation';
+
+export interface ImportFieldSpec<F extends string> extends ImportColumn<F> {
+  required?: boolean;
+  /** Several source columns may feed this field, e.g. Author1..AuthorN */
+  multiple?: boolean;
+  /** Header names that suggest this field, compared after normalization */
+  aliases: string[];
+  /** Header words that rule a column out, e.g. "level" for a year field */
+  excludeWords?: string[];
+}
+
+/** Source column indices per field; empty when the field is not mapped. */
+export type ColumnMapping<F extends string> = Record<F, number[]>;
+
+export interface ColumnMappingPreset {
+  name: string;
+  /** Normalized source header names per field */
+  columns: Record<string, string[]>;
+  savedAt: string;
+}
+
+/**
+ * Lower-cases a header and reduces it to words: "Student#" and "Student No."
+ * both become "student no", "Author2" becomes "author 2".
+ */
+export const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/#/g, ' no ')
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Numbers only tell repeated columns apart (Author1, Author2), they never identify a field
+const headerWords = (header: string) =>
+  normalizeHeader(header).split(' ').filter((word) => word !== '' && !/^\d+$/.test(word));
+
+const scoreHeader = <F extends string>(header: string, field: ImportFieldSpec<F>): number => {
+  const words = headerWords(header);
+  if (words.length === 0) return 0;
+  if (field.excludeWords?.some((word) => words.includes(word))) return 0;
+
+  return field.aliases.reduce((best, alias) => {
+    const aliasWords = headerWords(alias);
+    if (!aliasWords.every((word) => words.includes(word))) return best;
+    // An exact match beats a header that merely contains the alias
+    const score = aliasWords.length === words.length
+      ? 100
+      : 50 + 10 * aliasWords.length - 5 * (words.length - aliasWords.length);
+    return Math.max(best, score);
+  }, 0);
+};
+
+export const emptyColumnMapping = <F extends string>(fields: ImportFieldSpec<F>[]): ColumnMapping<F> =>
+  Object.fromEntries(fields.map((field) => [field.key, []])) as ColumnMapping<F>;
+
+/**
+ * Suggests a source column for every field. The strongest header/field pairs
+ * are assigned first and each column is used once, so "Student Name" goes to
+ * the name field even though it also mentions "student". Fields that take
+ * several columns also get every other column matching equally well.
+ */
+export const suggestColumnMapping = <F extends string>(
+  headers: string[],
+  fields: ImportFieldSpec<F>[]
+): ColumnMapping<F> => {
+  const mapping = emptyColumnMapping(fields);
+  const candidates: { field: ImportFieldSpec<F>; index: number; score: number }[] = [];
+
+  fields.forEach((field) => {
+    headers.forEach((header, index) => {
+      const score = scoreHeader(header, field);
+      if (score > 0) candidates.push({ field, index, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const usedColumns = new Set<number>();
+  const bestScores = new Map<F, number>();
+
+  candidates.forEach(({ field, index, score }) => {
+    if (usedColumns.has(index)) return;
+    const best = bestScores.get(field.key);
+    if (best !== undefined && !(field.multiple && score === best)) return;
+
+    mapping[field.key].push(index);
+    usedColumns.add(index);
+    bestScores.set(field.key, score);
+  });
+
+  fields.forEach((field) => mapping[field.key].sort((a, b) => a - b));
+  return mapping;
+};
+
+export const getMissingRequiredFields = <F extends string>(
+  mapping: ColumnMapping<F>,
+  fields: ImportFieldSpec<F>[]
+) => fields.filter((field) => field.required && mapping[field.key].length === 0);
+
+/** Lower-case words of every alias, used to find the header row in Excel sheets. */
+export const getHeaderKeywords = <F extends string>(fields: ImportFieldSpec<F>[]) =>
+  Array.from(new Set(
+    fields.flatMap((field) => field.aliases.flatMap(headerWords)).filter((word) => word.length >= 3 && word !== 'and')
+  ));
+
+const presetStorageKey = (importer: string) => `import-mapping-presets:${importer}`;
+
+export const loadMappingPresets = (importer: string): ColumnMappingPreset[] => {
+  try {
+    const stored = localStorage.getItem(presetStorageKey(importer));
+    return stored ? (JSON.parse(stored) as ColumnMappingPreset[]) : [];
+  } catch (error) {
+    console.error('Error reading saved column mappings:', error);
+    return [];
+  }
+};
+
+const storeMappingPresets = (importer: string, presets: ColumnMappingPreset[]) => {
+  localStorage.setItem(presetStorageKey(importer), JSON.stringify(presets));
+};
+
+/** Saves the mapping by header name, replacing any preset with the same name. */
+export const saveMappingPreset = <F extends string>(
+  importer: string,
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping<F>
+): ColumnMappingPreset[] => {
+  const columns: Record<string, string[]> = {};
+  (Object.keys(mapping) as F[]).forEach((key) => {
+    columns[key] = mapping[key].map((index) => normalizeHeader(headers[index] || '')).filter(Boolean);
+  });
+
+  const preset: ColumnMappingPreset = { name: name.trim(), columns, savedAt: new Date().toISOString() };
+  const presets = [
+    ...loadMappingPresets(importer).filter((existing) => existing.name !== preset.name),
+    preset,
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  storeMappingPresets(importer, presets);
+  return presets;
+};
+
+export const deleteMappingPreset = (importer: string, name: string): ColumnMappingPreset[] => {
+  const presets = loadMappingPresets(importer).filter((preset) => preset.name !== name);
+  storeMappingPresets(importer, presets);
+  return presets;
+};
+
+/**
+ * Resolves a preset against the current file's headers. Columns the file
+ * doesn't have are left unmapped.
+ */
+export const applyMappingPreset = <F extends string>(
+  preset: ColumnMappingPreset,
+  headers: string[],
+  fields: ImportFieldSpec<F>[]
+): ColumnMapping<F> => {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const mapping = emptyColumnMapping(fields);
+
+  fields.forEach((field) => {
+    (preset.columns[field.key] || []).forEach((header) => {
+      const index = normalizedHeaders.indexOf(header);
+      if (index !== -1 && !mapping[field.key].includes(index)) mapping[field.key].push(index);
+    });
+    if (!field.multiple) mapping[field.key] = mapping[field.key].slice(0, 1);
+  });
+
+  return mapping;
+};
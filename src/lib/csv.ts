@@ -0,0 +1,149 @@
+// lib/csv.ts
+// RFC 4180 CSV reading and writing shared by the importers and exports.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  /** File line each row starts on (1-based), for pointing at rows in error reports. */
+  rowNumbers: number[];
+  delimiter: CsvDelimiter;
+}
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+const stripBom = (text: string) => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+/**
+ * Picks the delimiter that splits the header record into the most fields.
+ * Quoted sections are skipped so "Doe, John" in a semicolon file doesn't count.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of stripBom(text)) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && char in counts) {
+      counts[char as CsvDelimiter]++;
+    }
+  }
+
+  return CANDIDATE_DELIMITERS.reduce((best, candidate) =>
+    counts[candidate] > counts[best] ? candidate : best
+  );
+};
+
+// Records plus the line each one starts on; a quoted field can span lines
+const readCsvRecords = (text: string, delimiter: CsvDelimiter) => {
+  const input = stripBom(text);
+  const records: string[][] = [];
+  const startLines: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordStart = 1;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    startLines.push(recordStart);
+    record = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordStart = line;
+    } else {
+      field += char;
+    }
+  }
+
+  // Last record when the file doesn't end with a newline
+  if (field !== '' || record.length > 0) endRecord();
+
+  return { records, startLines };
+};
+
+/**
+ * Splits CSV text into records of fields. Handles quoted fields, escaped
+ * quotes (""), CRLF/LF/CR line endings, newlines inside quoted fields and a
+ * leading byte order mark. Fields are returned untrimmed.
+ */
+export const parseCsvRecords = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] =>
+  readCsvRecords(text, delimiter).records;
+
+/** Parses a CSV file with a header row, dropping blank records. */
+export const parseCsv = (text: string, delimiter?: CsvDelimiter): ParsedCsv => {
+  const resolvedDelimiter = delimiter ?? detectDelimiter(text);
+  const { records, startLines } = readCsvRecords(text, resolvedDelimiter);
+  const kept = records
+    .map((record, index) => ({ record, line: startLines[index] }))
+    .filter(({ record }) => record.some((value) => value.trim() !== ''));
+
+  return {
+    headers: kept[0]?.record ?? [],
+    rows: kept.slice(1).map(({ record }) => record),
+    rowNumbers: kept.slice(1).map(({ line }) => line),
+    delimiter: resolvedDelimiter,
+  };
+};
+
+/** Quotes a value when it contains the delimiter, a quote, a line break or edge whitespace. */
+export const toCsvValue = (value: CsvCell, delimiter: CsvDelimiter = ','): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][], delimiter: CsvDelimiter = ','): string =>
+  rows.map((row) => row.map((value) => toCsvValue(value, delimiter)).join(delimiter)).join('\r\n');
+
+/**
+ * Downloads CSV content as a file. A UTF-8 byte order mark is prepended so
+ * Excel shows accented names correctly; parseCsv strips it again on import.
+ */
+export const downloadCsv = (content: string, filename: string) => {
+  const blob = new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
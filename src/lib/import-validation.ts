@@ -0,0 +1,94 @@
+// lib/import-validation.ts
+import { toCsv } from './csv';
+
+export type ImportIssueLevel = 'error' | 'warning';
+
+export interface ImportIssue {
+  level: ImportIssueLevel;
+  message: string;
+}
+
+export type ImportRowStatus = 'valid' | 'warning' | 'error' | 'excluded';
+
+/** One parsed file row held in the preview until the admin commits the import. */
+export interface StagedRow<F extends string> {
+  id: number;
+  /** Line number in the source file (header is row 1) */
+  rowNumber: number;
+  fields: Record<F, string>;
+  excluded: boolean;
+}
+
+export interface ImportColumn<F extends string> {
+  key: F;
+  label: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (value: string) => EMAIL_PATTERN.test(value.trim());
+
+export const getRowStatus = (row: StagedRow<string>, issues: ImportIssue[] = []): ImportRowStatus => {
+  if (row.excluded) return 'excluded';
+  if (issues.some((issue) => issue.level === 'error')) return 'error';
+  if (issues.length > 0) return 'warning';
+  return 'valid';
+};
+
+/** Rows with warnings are still imported; excluded and error rows are not. */
+export const isImportableRow = (row: StagedRow<string>, issues: ImportIssue[] = []) => {
+  const status = getRowStatus(row, issues);
+  return status === 'valid' || status === 'warning';
+};
+
+/**
+ * Maps each non-excluded row whose key repeats an earlier row to that earlier
+ * row's number. Rows with an empty key are ignored.
+ */
+export const findDuplicateRows = <F extends string>(
+  rows: StagedRow<F>[],
+  getKey: (row: StagedRow<F>) => string
+): Map<number, number> => {
+  const firstSeen = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+
+  rows.forEach((row) => {
+    if (row.excluded) return;
+    const key = getKey(row);
+    if (!key) return;
+
+    if (firstSeen.has(key)) {
+      duplicates.set(row.id, firstSeen.get(key));
+    } else {
+      firstSeen.set(key, row.rowNumber);
+    }
+  });
+
+  return duplicates;
+};
+
+/**
+ * CSV of every row that will not be imported (excluded or failing validation),
+ * with the original row number and the reasons appended.
+ */
+export const buildRejectedRowsCsv = <F extends string>(
+  columns: ImportColumn<F>[],
+  rows: StagedRow<F>[],
+  issuesByRow: Record<number, ImportIssue[]>
+): string => {
+  const header = ['Row', ...columns.map((column) => column.label), 'Reason'];
+
+  const lines = rows
+    .filter((row) => getRowStatus(row, issuesByRow[row.id]) === 'error' || row.excluded)
+    .map((row) => {
+      const reasons = row.excluded
+        ? ['Excluded by admin']
+        : (issuesByRow[row.id] || [])
+          .filter((issue) => issue.level === 'error')
+          .map((issue) => issue.message);
+
+      return [String(row.rowNumber), ...columns.map((column) => row.fields[column.key] || ''), reasons.join('; ')];
+    });
+
+  return toCsv([header, ...lines]);
+};
@@ -0,0 +1,82 @@
+// lib/reading-sessions.ts
+import { supabase } from '../integrations/supabase/client';
+
+export const OVERDUE_SETTING = 'reading_overdue_minutes';
+export const DEFAULT_OVERDUE_MINUTES = 120;
+
+/** An unreturned submission: the thesis is still out with the patron. */
+export interface OpenReadingSession {
+  id: string;
+  full_name: string;
+  user_type: string;
+  student_number: string | null;
+  school: string | null;
+  campus: string;
+  thesis_title: string;
+  thesis_barcode: string | null;
+  submission_date: string;
+}
+
+export async function fetchOpenSessions(): Promise<OpenReadingSession[]> {
+  const { data, error } = await supabase
+    .from('thesis_submissions')
+    .select('id, full_name, user_type, student_number, school, campus, thesis_title, thesis_barcode, submission_date')
+    .is('returned_at', null)
+    .order('submission_date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching open reading sessions:', error);
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/** Marks sessions as returned by library staff. Sessions already closed are left alone. */
+export async function returnSessions(ids: string[]): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('thesis_submissions')
+    .update({ returned_at: new Date().toISOString(), returned_by: user?.id ?? null, return_method: 'staff' })
+    .in('id', ids)
+    .is('returned_at', null);
+
+  if (error) {
+    console.error('Error returning reading sessions:', error);
+    throw error;
+  }
+}
+
+/** The patron returning a thesis at the submission book; students also give their student number. */
+export interface ReturningPatron {
+  fullName: string;
+  studentNumber?: string;
+}
+
+/**
+ * Closes the patron's open session for a copy re-scanned at the submission
+ * book. Returns 0 when the patron has nothing of that thesis out.
+ */
+export async function returnThesisByScan(thesisId: number, patron: ReturningPatron, barcode?: string): Promise<number> {
+  const { data, error } = await supabase.rpc('return_thesis', {
+    p_thesis_id: thesisId,
+    p_full_name: patron.fullName.trim(),
+    p_student_no: patron.studentNumber?.trim() || null,
+    p_barcode: barcode?.trim() || null,
+  });
+
+  if (error) {
+    console.error('return_thesis RPC error:', error);
+    throw error;
+  }
+  return Number(data) || 0;
+}
+
+export const getElapsedMinutes = (since: string, now = Date.now()) =>
+  Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+
+export const formatElapsed = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${String(rest).padStart(2, '0')}m` : `${rest}m`;
+};
@@ -0,0 +1,217 @@
+// lib/spreadsheet.ts
+// Reads CSV and Excel (.xlsx) files into one table shape for the importers,
+// and writes typed .xlsx exports.
+import type { CellValue, Workbook } from 'exceljs';
+import { parseCsv } from './csv';
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: string[][];
+  /** Row number of each data row in the source file/sheet, for error reports */
+  rowNumbers: number[];
+}
+
+export interface SpreadsheetFile {
+  fileName: string;
+  /** Worksheet names; empty for CSV files */
+  sheetNames: string[];
+  readSheet: (sheetName?: string) => SpreadsheetTable;
+}
+
+export type XlsxColumnType = 'text' | 'number' | 'date' | 'time';
+
+export interface XlsxColumn {
+  key: string;
+  header: string;
+  type?: XlsxColumnType;
+  width?: number;
+}
+
+const NUMBER_FORMATS: Partial<Record<XlsxColumnType, string>> = {
+  date: 'yyyy-mm-dd',
+  time: 'h:mm AM/PM',
+};
+
+// exceljs ships as CommonJS; depending on the bundler the classes are on the
+// module itself or on its default export. Loaded on demand to keep it out of
+// the main bundle.
+const loadExcelJS = async () => {
+  const module = await import('exceljs');
+  return (module as unknown as { default?: typeof module }).default ?? module;
+};
+
+export const isExcelFile = (fileName: string) => /\.xlsx$/i.test(fileName);
+
+export const isSpreadsheetFile = (fileName: string) => /\.(csv|xlsx)$/i.test(fileName);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Excel stores wall-clock dates; exceljs hands them back as UTC
+const formatExcelDate = (date: Date) => {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0) {
+    return day;
+  }
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+};
+
+const cellToString = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatExcelDate(value);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('');
+    if ('hyperlink' in value) return String(value.text ?? value.hyperlink);
+    if ('result' in value) return cellToString(value.result as CellValue);
+    if ('error' in value) return '';
+  }
+  return String(value);
+};
+
+/**
+ * Picks the header row among the first rows of a sheet: the one whose cells
+ * mention the most expected column names. Sheets often start with a title or
+ * notes above the real header.
+ */
+const detectHeaderRow = (rows: string[][], headerKeywords: string[]): number => {
+  let bestIndex = rows.findIndex((row) => row.some((value) => value.trim() !== ''));
+  let bestScore = 0;
+
+  rows.slice(0, 10).forEach((row, index) => {
+    const score = row.filter((value) => {
+      const header = value.trim().toLowerCase();
+      return header !== '' && headerKeywords.some((keyword) => header.includes(keyword));
+    }).length;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  return Math.max(bestIndex, 0);
+};
+
+const readWorksheet = (workbook: Workbook, sheetName: string | undefined, headerKeywords: string[]): SpreadsheetTable => {
+  const worksheet = (sheetName && workbook.getWorksheet(sheetName)) || workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('The workbook does not contain any sheets.');
+  }
+
+  const allRows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount; r++) {
+    const row = worksheet.getRow(r);
+    const values: string[] = [];
+    for (let c = 1; c <= worksheet.columnCount; c++) {
+      values.push(cellToString(row.getCell(c).value).trim());
+    }
+    allRows.push(values);
+  }
+
+  const headerIndex = detectHeaderRow(allRows, headerKeywords);
+  const table: SpreadsheetTable = { headers: allRows[headerIndex] ?? [], rows: [], rowNumbers: [] };
+
+  allRows.slice(headerIndex + 1).forEach((values, offset) => {
+    if (values.every((value) => value === '')) return;
+    table.rows.push(values);
+    table.rowNumbers.push(headerIndex + offset + 2);
+  });
+
+  return table;
+};
+
+/**
+ * Opens a .csv or .xlsx file for import. `headerKeywords` are lower-case
+ * fragments of the expected column names, used to find the header row in
+ * Excel sheets.
+ */
+export async function openSpreadsheetFile(file: File, headerKeywords: string[]): Promise<SpreadsheetFile> {
+  if (!isExcelFile(file.name)) {
+    const csv = parseCsv(await file.text());
+    const table: SpreadsheetTable = {
+      headers: csv.headers,
+      rows: csv.rows,
+      rowNumbers: csv.rowNumbers,
+    };
+    return { fileName: file.name, sheetNames: [], readSheet: () => table };
+  }
+
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(await file.arrayBuffer());
+  } catch (error) {
+    console.error('Error reading workbook:', error);
+    throw new Error('Could not read the Excel file. Please make sure it is a valid .xlsx workbook.');
+  }
+
+  return {
+    fileName: file.name,
+    sheetNames: workbook.worksheets.map((worksheet) => worksheet.name),
+    readSheet: (sheetName?: string) => readWorksheet(workbook, sheetName, headerKeywords),
+  };
+}
+
+const toCellValue = (value: unknown, type: XlsxColumnType = 'text'): CellValue => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (type === 'number') {
+    const number = Number(value);
+    return Number.isNaN(number) ? String(value) : number;
+  }
+
+  if (type === 'date' || type === 'time') {
+    // Date-only strings already parse as UTC midnight, which Excel shows as-is
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return new Date(`${value}T00:00:00Z`);
+    }
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (Number.isNaN(date.getTime())) return String(value);
+    // Shift so Excel shows the local wall-clock time
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  }
+
+  return String(value);
+};
+
+/** Builds a single-sheet workbook with typed cells and downloads it. */
+export async function downloadXlsx<T extends object>(
+  rows: T[],
+  columns: XlsxColumn[],
+  fileName: string,
+  sheetName = 'Sheet1'
+): Promise<void> {
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+
+  worksheet.columns = columns.map((column) => ({
+    key: column.key,
+    header: column.header,
+    width: column.width ?? Math.max(12, column.header.length + 2),
+    style: NUMBER_FORMATS[column.type] ? { numFmt: NUMBER_FORMATS[column.type] } : undefined,
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  rows.forEach((row) => {
+    worksheet.addRow(
+      Object.fromEntries(columns.map((column) => [column.key, toCellValue(row[column.key as keyof T], column.type)]))
+    );
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
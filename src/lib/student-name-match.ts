@@ -0,0 +1,62 @@
+// lib/student-name-match.ts
+import { supabase } from '../integrations/supabase/client';
+
+/** app_settings key for the lowest match score accepted at the kiosk. */
+export const NAME_MATCH_THRESHOLD_SETTING = 'student_name_match_threshold';
+export const DEFAULT_NAME_MATCH_THRESHOLD = 0.85;
+/** The database clamps the threshold to this range. */
+export const MIN_NAME_MATCH_THRESHOLD = 0.5;
+
+export type NameMatchStatus = 'open' | 'dismissed' | 'name_updated';
+
+export interface StudentNameMatchReview {
+  id: number;
+  student_no: string;
+  entered_name: string;
+  name_on_file: string;
+  score: number;
+  threshold: number;
+  accepted: boolean;
+  attempts: number;
+  status: NameMatchStatus;
+  created_at: string;
+  last_seen_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+export const NAME_MATCH_STATUS_LABELS: Record<NameMatchStatus, string> = {
+  open: 'To Review',
+  dismissed: 'Kept Name on File',
+  name_updated: 'Name Updated',
+};
+
+export const formatMatchScore = (score: number) => `${Math.round(score * 100)}%`;
+
+export async function fetchNameMatchReviews(status: NameMatchStatus): Promise<StudentNameMatchReview[]> {
+  const { data, error } = await supabase
+    .from('student_name_match_reviews')
+    .select('*')
+    .eq('status', status)
+    .order(status === 'open' ? 'last_seen_at' : 'reviewed_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching name match reviews:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+/** Closes a review; with `useEnteredName` the student's name on file is replaced. */
+export async function resolveNameMatch(reviewId: number, useEnteredName: boolean): Promise<void> {
+  const { error } = await supabase.rpc('resolve_student_name_match', {
+    p_review_id: reviewId,
+    p_use_entered_name: useEnteredName,
+  });
+
+  if (error) {
+    console.error('resolve_student_name_match RPC error:', error);
+    throw error;
+  }
+}
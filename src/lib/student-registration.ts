@@ -0,0 +1,115 @@
+// lib/student-registration.ts
+import { supabase } from '../integrations/supabase/client';
+
+export type RegistrationStatus = 'unverified' | 'pending' | 'approved' | 'rejected';
+
+export interface RegistrationDetails {
+  student_no: string;
+  full_name: string;
+  course_section: string;
+  email: string;
+  school_year: string;
+}
+
+export interface StudentRegistrationRequest extends RegistrationDetails {
+  id: number;
+  status: RegistrationStatus;
+  created_at: string;
+  verified_at: string | null;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_note: string | null;
+}
+
+export type RegistrationCodeReason = 'NOT_FOUND' | 'EXPIRED' | 'MAX_ATTEMPTS' | 'INVALID';
+
+export const REGISTRATION_STATUS_LABELS: Record<RegistrationStatus, string> = {
+  unverified: 'Email Not Verified',
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const REGISTRATION_CODE_MESSAGES: Record<RegistrationCodeReason, string> = {
+  NOT_FOUND: 'No code is waiting for this request. Please send a new code.',
+  EXPIRED: 'The code has expired. Please send a new code.',
+  MAX_ATTEMPTS: 'Too many wrong attempts. Please send a new code.',
+  INVALID: 'That code is not correct.',
+};
+
+/** Opens an unverified request; resubmitting for the same student number replaces it. */
+export async function submitRegistrationRequest(details: RegistrationDetails): Promise<number> {
+  const { data, error } = await supabase.rpc('submit_student_registration', {
+    p_student_no: details.student_no,
+    p_full_name: details.full_name,
+    p_course_section: details.course_section,
+    p_email: details.email,
+    p_school_year: details.school_year,
+  });
+
+  if (error) {
+    console.error('submit_student_registration RPC error:', error);
+    throw error;
+  }
+  return data;
+}
+
+/** The edge function generates the code server-side and emails it to the request's address. */
+export async function sendRegistrationCode(requestId: number): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('send-verification-email', {
+    body: { registrationId: requestId },
+  });
+
+  if (error) {
+    console.error('Edge function error:', error);
+    throw new Error(`Failed to send verification email: ${error.message}`);
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to send verification email');
+  }
+}
+
+export async function verifyRegistrationCode(
+  requestId: number,
+  code: string
+): Promise<{ valid: boolean; reason?: RegistrationCodeReason }> {
+  const { data, error } = await supabase.rpc('verify_student_registration', {
+    p_request_id: requestId,
+    p_code: code,
+  });
+
+  if (error) {
+    console.error('verify_student_registration RPC error:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function fetchRegistrationRequests(status: RegistrationStatus): Promise<StudentRegistrationRequest[]> {
+  const { data, error } = await supabase
+    .from('student_registration_requests')
+    .select('id, student_no, full_name, course_section, email, school_year, status, created_at, verified_at, reviewed_at, reviewed_by, review_note')
+    .eq('status', status)
+    .order(status === 'pending' ? 'verified_at' : 'reviewed_at', { ascending: status === 'pending' })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching registration requests:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+/** Approving adds the student to the student records in the same transaction. */
+export async function reviewRegistrationRequest(requestId: number, approve: boolean, note?: string): Promise<void> {
+  const { error } = await supabase.rpc('review_student_registration', {
+    p_request_id: requestId,
+    p_approve: approve,
+    p_note: note ?? null,
+  });
+
+  if (error) {
+    console.error('review_student_registration RPC error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,14 @@
+// lib/student-status.ts
+
+/** Only active students pass LPU validation; the rest are kept for reading history. */
+export type StudentStatus = 'active' | 'graduated' | 'withdrawn' | 'deleted';
+
+export type ArchivedStudentStatus = Exclude<StudentStatus, 'active'>;
+
+export const ARCHIVE_STATUS_LABELS: Record<ArchivedStudentStatus, string> = {
+  graduated: 'Graduated',
+  withdrawn: 'Withdrawn',
+  deleted: 'Deleted',
+};
+
+export const ARCHIVE_STATUSES = Object.keys(ARCHIVE_STATUS_LABELS) as ArchivedStudentStatus[];
@@ -0,0 +1,108 @@
+// lib/student-sync.ts
+import { supabase } from '../integrations/supabase/client';
+import { toCsv } from './csv';
+import type { ArchivedStudentStatus } from './student-status';
+
+/** One student as listed in the registrar's export. */
+export interface RosterStudent {
+  student_no: string;
+  full_name: string;
+  course_section: string;
+  email: string;
+  school_year: string;
+}
+
+export type RosterChangeKind = 'added' | 'changed' | 'missing';
+
+export type RosterField = keyof Omit<RosterStudent, 'student_no'> | 'status';
+
+export interface RosterChange {
+  student_no: string;
+  change: RosterChangeKind;
+  /** Only for changed students; `status` means an archived student is listed again. */
+  changed_fields: RosterField[] | null;
+  current_data: (RosterStudent & { status: string }) | null;
+  incoming_data: RosterStudent | null;
+}
+
+export interface RosterSyncSummary {
+  listed: number;
+  added: number;
+  updated: number;
+  reactivated: number;
+  unchanged: number;
+  missing: number;
+  archived: number;
+}
+
+export const ROSTER_CHANGE_LABELS: Record<RosterChangeKind, string> = {
+  added: 'Added',
+  changed: 'Changed',
+  missing: 'Missing',
+};
+
+export const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  full_name: 'Full Name',
+  course_section: 'Course and Section',
+  email: 'Email',
+  school_year: 'School Year',
+  status: 'Status',
+};
+
+/** What the registrar list would add, change and leave out, before anything is saved. */
+export async function fetchRosterDiff(students: RosterStudent[]): Promise<RosterChange[]> {
+  const { data, error } = await supabase.rpc('diff_student_roster', {
+    p_students: students,
+  });
+
+  if (error) {
+    console.error('diff_student_roster RPC error:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+/** Applies the registrar list in a single transaction; nothing is saved if any step fails. */
+export async function syncStudentRoster(
+  students: RosterStudent[],
+  archiveMissing: boolean,
+  archiveStatus: ArchivedStudentStatus
+): Promise<RosterSyncSummary> {
+  const { data, error } = await supabase.rpc('sync_student_roster', {
+    p_students: students,
+    p_archive_missing: archiveMissing,
+    p_archive_status: archiveStatus,
+  });
+
+  if (error) {
+    console.error('sync_student_roster RPC error:', error);
+    throw error;
+  }
+  return data;
+}
+
+/** One line per changed field, so the report opens cleanly in a spreadsheet. */
+export function buildRosterReportCsv(changes: RosterChange[], archivedMissing: boolean): string {
+  const rows: (string | null)[][] = [['Change', 'Student#', 'Field', 'Current Value', 'Registrar Value']];
+
+  changes.forEach(change => {
+    const name = change.incoming_data?.full_name || change.current_data?.full_name || '';
+    if (change.change === 'added') {
+      rows.push(['Added', change.student_no, ROSTER_FIELD_LABELS.full_name, '', name]);
+    } else if (change.change === 'missing') {
+      rows.push([archivedMissing ? 'Missing (archived)' : 'Missing', change.student_no, ROSTER_FIELD_LABELS.full_name, name, '']);
+    } else {
+      (change.changed_fields ?? []).forEach(field => {
+        rows.push([
+          'Changed',
+          change.student_no,
+          ROSTER_FIELD_LABELS[field],
+          field === 'status' ? change.current_data?.status ?? '' : change.current_data?.[field] ?? '',
+          field === 'status' ? 'active' : change.incoming_data?.[field] ?? '',
+        ]);
+      });
+    }
+  });
+
+  return toCsv(rows);
+}
@@ -0,0 +1,204 @@
+// lib/thesis-attachments.ts
+import { supabase } from '../integrations/supabase/client';
+
+export const THESIS_FILES_BUCKET = 'thesis-files';
+
+/** Matches the bucket's file_size_limit. */
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+/** Signed links expire quickly so a copied URL stops working soon after. */
+const SIGNED_URL_SECONDS = 300;
+
+export type AttachmentKind = 'full_text' | 'approval_sheet' | 'abstract_page';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  full_text: 'Full Text',
+  approval_sheet: 'Approval Sheet',
+  abstract_page: 'Abstract Page',
+};
+
+export const ATTACHMENT_KIND_HINTS: Record<AttachmentKind, string> = {
+  full_text: 'Library staff only',
+  approval_sheet: 'Library staff only',
+  abstract_page: 'Public in the catalog',
+};
+
+export const ATTACHMENT_KIND_OPTIONS = Object.keys(ATTACHMENT_KIND_LABELS) as AttachmentKind[];
+
+export interface ThesisAttachment {
+  id: number;
+  thesis_id: number;
+  kind: AttachmentKind;
+  storage_path: string;
+  file_name: string;
+  file_size: number;
+  uploaded_at: string;
+}
+
+export type FileAccessAction = 'VIEW' | 'DOWNLOAD';
+
+/** The signed-in library staff member opening a file, for the watermark and the log. */
+export interface FileViewer {
+  role: 'Admin' | 'Reader';
+  name: string;
+  email: string;
+}
+
+export const canDownloadFiles = (viewer: FileViewer | null) => viewer?.role === 'Admin';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** The reason a file cannot be attached, or null when it can. */
+export const validateAttachmentFile = (file: File): string | null => {
+  if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+    return 'Only PDF files can be attached.';
+  }
+  if (file.size === 0) return 'The file is empty.';
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `Files must be ${formatFileSize(MAX_ATTACHMENT_BYTES)} or smaller.`;
+  }
+  return null;
+};
+
+/** Null for visitors and for accounts that are not active system users. */
+export async function fetchFileViewer(): Promise<FileViewer | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+
+  const { data, error } = await supabase
+    .from('system_users')
+    .select('name, email, role')
+    .eq('user_id', session.user.id)
+    .eq('status', 'Active')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching file viewer:', error);
+    throw error;
+  }
+  if (!data || (data.role !== 'Admin' && data.role !== 'Reader')) return null;
+  return data;
+}
+
+/**
+ * Attachments of the given theses that the caller may open. Visitors only
+ * get abstract pages back; row level security filters the rest.
+ */
+export async function fetchThesisAttachments(thesisIds: number[]): Promise<ThesisAttachment[]> {
+  if (thesisIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('thesis_attachments')
+    .select('id, thesis_id, kind, storage_path, file_name, file_size, uploaded_at')
+    .in('thesis_id', thesisIds);
+
+  if (error) {
+    console.error('Error fetching thesis attachments:', error);
+    throw error;
+  }
+
+  const attachments = data ?? [];
+  return attachments.sort(
+    (a, b) => ATTACHMENT_KIND_OPTIONS.indexOf(a.kind) - ATTACHMENT_KIND_OPTIONS.indexOf(b.kind)
+  );
+}
+
+/**
+ * Uploads a PDF and records it as the thesis' file of that kind, replacing
+ * the previous file. Each upload gets a fresh path so an open signed link to
+ * the old file never serves the new one.
+ */
+export async function uploadThesisAttachment(
+  thesisId: number,
+  kind: AttachmentKind,
+  file: File,
+  existing?: ThesisAttachment
+): Promise<void> {
+  const storagePath = `${thesisId}/${kind}-${Date.now()}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(THESIS_FILES_BUCKET)
+    .upload(storagePath, file, { contentType: 'application/pdf' });
+
+  if (uploadError) {
+    console.error('Error uploading thesis file:', uploadError);
+    throw uploadError;
+  }
+
+  const row = {
+    storage_path: storagePath,
+    file_name: file.name,
+    file_size: file.size,
+    uploaded_at: new Date().toISOString(),
+  };
+  const { error } = existing
+    ? await supabase.from('thesis_attachments').update(row).eq('id', existing.id)
+    : await supabase.from('thesis_attachments').insert({ thesis_id: thesisId, kind, ...row });
+
+  if (error) {
+    console.error('Error saving thesis attachment:', error);
+    await supabase.storage.from(THESIS_FILES_BUCKET).remove([storagePath]);
+    throw error;
+  }
+
+  if (existing) {
+    await removeStoredFile(existing.storage_path);
+  }
+}
+
+export async function deleteThesisAttachment(attachment: ThesisAttachment): Promise<void> {
+  const { error } = await supabase
+    .from('thesis_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) {
+    console.error('Error deleting thesis attachment:', error);
+    throw error;
+  }
+  await removeStoredFile(attachment.storage_path);
+}
+
+/** The record is already gone, so a leftover file is logged rather than reported. */
+async function removeStoredFile(storagePath: string) {
+  const { error } = await supabase.storage.from(THESIS_FILES_BUCKET).remove([storagePath]);
+  if (error) {
+    console.error('Error removing stored thesis file:', error);
+  }
+}
+
+/** A short-lived link to a public abstract page, for visitors. */
+export async function getAbstractPageUrl(attachment: ThesisAttachment): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(THESIS_FILES_BUCKET)
+    .createSignedUrl(attachment.storage_path, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Error creating thesis file link:', error);
+    throw error;
+  }
+  return data.signedUrl;
+}
+
+/**
+ * A short-lived link to the file for library staff. The edge function
+ * records the view or download in the audit log before signing the link;
+ * a download link saves the file under its original name.
+ */
+export async function openThesisFile(attachmentId: number, action: FileAccessAction): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('open-thesis-file', {
+    body: { attachmentId, action },
+  });
+
+  if (error) {
+    console.error('Edge function error:', error);
+    throw new Error(`Failed to open the thesis file: ${error.message}`);
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to open the thesis file');
+  }
+  return data.url as string;
+}
@@ -0,0 +1,45 @@
+// lib/thesis-availability.ts
+
+/**
+ * Physical availability of a thesis copy. Staff set it from the thesis table;
+ * 'in_use' is also reported while a reading session is open.
+ */
+export type ThesisAvailability = 'available' | 'in_use' | 'on_hold' | 'missing' | 'under_repair';
+
+export const AVAILABILITY_LABELS: Record<ThesisAvailability, string> = {
+  available: 'Available',
+  in_use: 'In Use',
+  on_hold: 'On Hold',
+  missing: 'Missing',
+  under_repair: 'Under Repair',
+};
+
+export const AVAILABILITY_STYLES: Record<ThesisAvailability, string> = {
+  available: 'bg-green-100 text-green-800',
+  in_use: 'bg-amber-100 text-amber-800',
+  on_hold: 'bg-blue-100 text-blue-800',
+  missing: 'bg-red-100 text-red-800',
+  under_repair: 'bg-gray-200 text-gray-800',
+};
+
+export const AVAILABILITY_OPTIONS = Object.keys(AVAILABILITY_LABELS) as ThesisAvailability[];
+
+/** Copies that are not on the shelf cannot be checked out; the database refuses them too. */
+export const isCheckoutBlocked = (availability: ThesisAvailability | null | undefined) =>
+  availability === 'missing' || availability === 'under_repair';
+
+/** Shown before a patron checks out a copy that is not marked available. */
+export const getAvailabilityNotice = (availability: ThesisAvailability | null | undefined): string | null => {
+  switch (availability) {
+    case 'in_use':
+      return 'This thesis is logged as in use by another reader. Submitting will end their session.';
+    case 'on_hold':
+      return 'This thesis is on hold for a reservation. Only the student holding it can check it out.';
+    case 'missing':
+      return 'This thesis is marked as missing and cannot be checked out. Please ask the library staff.';
+    case 'under_repair':
+      return 'This thesis is under repair and cannot be checked out. Please ask the library staff.';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,54 @@
+// lib/thesis-barcode.ts
+import { supabase } from '../integrations/supabase/client';
+import type { ThesisAvailability } from './thesis-availability';
+
+export interface BarcodeThesis {
+  id: number;
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  /** Start of the open reading session, when the thesis is currently out. */
+  checked_out_at: string | null;
+  availability: ThesisAvailability;
+  /** Shelf location of the scanned copy. */
+  location: string | null;
+  copy_count: number;
+}
+
+export type BarcodeLookupResult =
+  | { status: 'found'; theses: BarcodeThesis[] }
+  | { status: 'deleted' }
+  | { status: 'not_found' };
+
+/**
+ * Resolves a scanned copy barcode via the lookup_thesis_by_barcode RPC. Older
+ * barcodes are only unique per department, so more than one thesis can be found.
+ */
+export async function lookupThesisByBarcode(barcode: string): Promise<BarcodeLookupResult> {
+  const { data, error } = await supabase.rpc('lookup_thesis_by_barcode', {
+    p_barcode: barcode.trim(),
+  });
+
+  if (error) {
+    console.error('lookup_thesis_by_barcode RPC error:', error);
+    throw error;
+  }
+
+  const rows = data ?? [];
+  const active = rows.filter((row) => !row.is_deleted);
+
+  if (active.length > 0) {
+    return {
+      status: 'found',
+      theses: active.map(({ is_deleted, ...thesis }) => ({
+        ...thesis,
+        thesis_title: thesis.thesis_title ?? '',
+        authors: thesis.authors ?? [],
+        publication_year: thesis.publication_year ?? 0,
+      })),
+    };
+  }
+  return rows.length > 0 ? { status: 'deleted' } : { status: 'not_found' };
+}
@@ -0,0 +1,126 @@
+// lib/thesis-catalog.ts
+import { supabase } from '../integrations/supabase/client';
+import type { ThesisCopy } from './thesis-copies';
+import { METADATA_COLUMNS, type ThesisMetadata } from './thesis-metadata';
+
+export const CATALOG_PAGE_SIZE = 20;
+
+export interface CatalogFilters {
+  department: string;
+  author: string;
+  yearFrom: string;
+  yearTo: string;
+  search: string;
+}
+
+export interface CatalogThesis {
+  id: number;
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  /** Only filled in by the paginated listing. */
+  copy_count?: number;
+}
+
+export interface CatalogThesisDetail extends CatalogThesis, ThesisMetadata {
+  copies: Array<Pick<ThesisCopy, 'barcode' | 'location' | 'condition'>>;
+}
+
+export interface CatalogPage {
+  rows: CatalogThesis[];
+  total: number;
+}
+
+export interface CatalogFacets {
+  departments: Array<{ name: string; count: number }>;
+  min_year: number | null;
+  max_year: number | null;
+  total: number;
+}
+
+export const emptyCatalogFilters: CatalogFilters = {
+  department: '',
+  author: '',
+  yearFrom: '',
+  yearTo: '',
+  search: '',
+};
+
+const toYear = (value: string): number | null => {
+  const year = parseInt(value, 10);
+  return Number.isNaN(year) ? null : year;
+};
+
+/** One server-side page of non-deleted theses matching the catalog filters. */
+export async function fetchCatalogPage(
+  filters: CatalogFilters,
+  page: number,
+  pageSize = CATALOG_PAGE_SIZE
+): Promise<CatalogPage> {
+  const { data, error } = await supabase.rpc('browse_thesis_catalog', {
+    p_department: filters.department || null,
+    p_year_from: toYear(filters.yearFrom),
+    p_year_to: toYear(filters.yearTo),
+    p_author: filters.author || null,
+    p_search: filters.search || null,
+    p_page: page,
+    p_page_size: pageSize,
+  });
+
+  if (error) {
+    console.error('browse_thesis_catalog RPC error:', error);
+    throw error;
+  }
+
+  const rows = data ?? [];
+  return {
+    rows: rows.map(({ total_count, ...thesis }) => thesis),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+  };
+}
+
+export async function fetchCatalogFacets(): Promise<CatalogFacets> {
+  const { data, error } = await supabase.rpc('thesis_catalog_facets');
+
+  if (error) {
+    console.error('thesis_catalog_facets RPC error:', error);
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Catalog entries with a copy carrying the barcode, each with its metadata
+ * and all of its copies. Older barcodes are only unique per department, so more than one
+ * thesis can come back.
+ */
+export async function fetchCatalogThesesByBarcode(barcode: string): Promise<CatalogThesisDetail[]> {
+  const { data: matches, error: copyError } = await supabase
+    .from('thesis_copies')
+    .select('thesis_id')
+    .eq('barcode', barcode);
+
+  if (copyError) {
+    console.error('Error fetching thesis copies by barcode:', copyError);
+    throw copyError;
+  }
+
+  const copies = matches ?? [];
+  const thesisIds = Array.from(new Set(copies.map((copy) => copy.thesis_id)));
+  if (thesisIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('thesis_data')
+    .select(`id, barcode, thesis_title, authors, department, publication_year, ${METADATA_COLUMNS}, copies:thesis_copies(barcode, location, condition)`)
+    .in('id', thesisIds)
+    .eq('is_deleted', false)
+    .order('department');
+
+  if (error) {
+    console.error('Error fetching thesis by barcode:', error);
+    throw error;
+  }
+  return data ?? [];
+}
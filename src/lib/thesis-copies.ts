@@ -0,0 +1,178 @@
+// lib/thesis-copies.ts
+import { supabase } from '../integrations/supabase/client';
+import type { ThesisMetadata } from './thesis-metadata';
+
+/** Physical state of one copy. Availability stays on the thesis as a whole. */
+export type CopyCondition = 'good' | 'fair' | 'poor' | 'damaged';
+
+export const CONDITION_LABELS: Record<CopyCondition, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  damaged: 'Damaged',
+};
+
+export const CONDITION_STYLES: Record<CopyCondition, string> = {
+  good: 'bg-green-100 text-green-800',
+  fair: 'bg-blue-100 text-blue-800',
+  poor: 'bg-amber-100 text-amber-800',
+  damaged: 'bg-red-100 text-red-800',
+};
+
+export const CONDITION_OPTIONS = Object.keys(CONDITION_LABELS) as CopyCondition[];
+
+export interface ThesisCopy {
+  id: number;
+  thesis_id: number;
+  barcode: string;
+  location: string | null;
+  condition: CopyCondition;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface ThesisCopyInput {
+  barcode: string;
+  location: string;
+  condition: CopyCondition;
+  notes: string;
+}
+
+/** A copy barcode already in the library and the thesis it belongs to. */
+export interface ExistingCopy {
+  barcode: string;
+  thesis_id: number;
+  department: string;
+  is_deleted: boolean;
+}
+
+/** One spreadsheet row of the thesis import; every row is a copy. */
+export interface ThesisImportRecord extends ThesisMetadata {
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  location: string | null;
+  condition: CopyCondition | null;
+}
+
+export interface ThesisImportResult {
+  theses_created: number;
+  copies_added: number;
+  /** Rows whose barcode the title already had; the existing copy was updated. */
+  copies_updated: number;
+}
+
+export const formatCopyCount = (count: number) => (count === 1 ? '1 copy' : `${count} copies`);
+
+/** Normalises a spreadsheet or form value to a known condition. */
+export const parseCondition = (value: string): CopyCondition | null => {
+  const normalized = value.trim().toLowerCase();
+  return CONDITION_OPTIONS.find(
+    (option) => option === normalized || CONDITION_LABELS[option].toLowerCase() === normalized
+  ) ?? null;
+};
+
+/** Copies of a thesis, the one supplying thesis_data.barcode first. */
+export async function fetchThesisCopies(thesisId: number): Promise<ThesisCopy[]> {
+  const { data, error } = await supabase
+    .from('thesis_copies')
+    .select('id, thesis_id, barcode, location, condition, notes, created_at')
+    .eq('thesis_id', thesisId)
+    .order('id');
+
+  if (error) {
+    console.error('Error fetching thesis copies:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+/**
+ * Copies already carrying any of the given barcodes, including copies of
+ * trashed theses. Chunked to keep the request URL short for large imports.
+ */
+export async function findCopiesByBarcode(barcodes: string[]): Promise<ExistingCopy[]> {
+  const found: ExistingCopy[] = [];
+  for (let i = 0; i < barcodes.length; i += 200) {
+    const { data, error } = await supabase
+      .from('thesis_copies')
+      .select('barcode, thesis_id, thesis_data(department, is_deleted)')
+      .in('barcode', barcodes.slice(i, i + 200));
+
+    if (error) {
+      console.error('Error checking copy barcodes:', error);
+      throw error;
+    }
+    const rows = data ?? [];
+    rows.forEach((row) => {
+      found.push({
+        barcode: row.barcode,
+        thesis_id: row.thesis_id,
+        department: row.thesis_data?.department ?? '',
+        is_deleted: row.thesis_data?.is_deleted ?? false,
+      });
+    });
+  }
+  return found;
+}
+
+const toCopyRow = (copy: ThesisCopyInput) => ({
+  barcode: copy.barcode.trim(),
+  location: copy.location.trim() || null,
+  condition: copy.condition,
+  notes: copy.notes.trim() || null,
+});
+
+export async function addThesisCopy(thesisId: number, copy: ThesisCopyInput): Promise<void> {
+  const { error } = await supabase
+    .from('thesis_copies')
+    .insert({ thesis_id: thesisId, ...toCopyRow(copy) });
+
+  if (error) {
+    console.error('Error adding thesis copy:', error);
+    throw error;
+  }
+}
+
+export async function updateThesisCopy(copyId: number, copy: ThesisCopyInput): Promise<void> {
+  const { error } = await supabase
+    .from('thesis_copies')
+    .update(toCopyRow(copy))
+    .eq('id', copyId);
+
+  if (error) {
+    console.error('Error updating thesis copy:', error);
+    throw error;
+  }
+}
+
+/** The database refuses to delete the last copy of a thesis. */
+export async function deleteThesisCopy(copyId: number): Promise<void> {
+  const { error } = await supabase
+    .from('thesis_copies')
+    .delete()
+    .eq('id', copyId);
+
+  if (error) {
+    console.error('Error deleting thesis copy:', error);
+    throw error;
+  }
+}
+
+/**
+ * Imports spreadsheet rows in one transaction. Rows for a title that is
+ * already catalogued (same title, department and year) become extra copies.
+ */
+export async function importThesisRecords(records: ThesisImportRecord[]): Promise<ThesisImportResult> {
+  const { data, error } = await supabase.rpc('import_thesis_records', {
+    p_records: records,
+  });
+
+  if (error) {
+    console.error('import_thesis_records RPC error:', error);
+    throw error;
+  }
+  return data;
+}
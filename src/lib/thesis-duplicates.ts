@@ -0,0 +1,88 @@
+// lib/thesis-duplicates.ts
+import { supabase } from '../integrations/supabase/client';
+
+/** One side of a candidate pair, with counts of what a merge would move. */
+export interface DuplicateRecord {
+  id: number;
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  adviser: string | null;
+  upload_date: string;
+  copy_count: number;
+  submission_count: number;
+  reservation_count: number;
+}
+
+export interface DuplicateCandidate {
+  thesis_a: number;
+  thesis_b: number;
+  /** 0–1 similarity of the normalized titles. */
+  title_similarity: number;
+  /** Share of the shorter author list found in the other, 0–1. */
+  author_overlap: number;
+  score: number;
+  found_at: string;
+  record_a: DuplicateRecord;
+  record_b: DuplicateRecord;
+}
+
+export interface MergeResult {
+  submissions_moved: number;
+  copies_moved: number;
+  reservations_moved: number;
+  attachments_moved: number;
+}
+
+export const formatMatchPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Pairs from the last scan, best matches first. */
+export async function fetchDuplicateCandidates(limit = 50): Promise<DuplicateCandidate[]> {
+  const { data, error } = await supabase.rpc('list_thesis_duplicate_candidates', { p_limit: limit });
+
+  if (error) {
+    console.error('list_thesis_duplicate_candidates RPC error:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+/** Re-runs the nightly scan now and returns the number of pairs found. */
+export async function scanForDuplicates(): Promise<number> {
+  const { data, error } = await supabase.rpc('refresh_thesis_duplicate_candidates');
+
+  if (error) {
+    console.error('refresh_thesis_duplicate_candidates RPC error:', error);
+    throw error;
+  }
+  return Number(data) || 0;
+}
+
+/** Marks the pair as distinct theses so later scans skip it. */
+export async function dismissDuplicate(thesisA: number, thesisB: number): Promise<void> {
+  const { error } = await supabase.rpc('dismiss_thesis_duplicate', {
+    p_thesis_a: thesisA,
+    p_thesis_b: thesisB,
+  });
+
+  if (error) {
+    console.error('dismiss_thesis_duplicate RPC error:', error);
+    throw error;
+  }
+}
+
+/** Moves everything from `mergeId` onto `keepId` and sends `mergeId` to the trash. */
+export async function mergeTheses(keepId: number, mergeId: number): Promise<MergeResult> {
+  const { data, error } = await supabase.rpc('merge_theses', {
+    p_keep_id: keepId,
+    p_merge_id: mergeId,
+  });
+
+  if (error) {
+    console.error('merge_theses RPC error:', error);
+    throw error;
+  }
+  return data;
+}
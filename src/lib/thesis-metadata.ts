@@ -0,0 +1,88 @@
+// lib/thesis-metadata.ts
+import { supabase } from '../integrations/supabase/client';
+
+/** Optional descriptive fields of a thesis beyond title, authors, department and year. */
+export interface ThesisMetadata {
+  abstract: string | null;
+  keywords: string[];
+  adviser: string | null;
+  panel_members: string[];
+  degree_program: string | null;
+  call_number: string | null;
+  page_count: number | null;
+  language: string | null;
+}
+
+/** Form state: lists are edited as "First; Second" and the page count as text. */
+export type ThesisMetadataForm = Record<keyof ThesisMetadata, string>;
+
+export const METADATA_COLUMNS =
+  'abstract, keywords, adviser, panel_members, degree_program, call_number, page_count, language';
+
+export const LANGUAGE_SUGGESTIONS = ['English', 'Filipino', 'English and Filipino'];
+
+export const emptyMetadataForm: ThesisMetadataForm = {
+  abstract: '',
+  keywords: '',
+  adviser: '',
+  panel_members: '',
+  degree_program: '',
+  call_number: '',
+  page_count: '',
+  language: '',
+};
+
+/** Keywords are usually written comma separated, so both commas and semicolons split. */
+export const parseKeywords = (value: string) =>
+  value.split(/[;,]/).map((keyword) => keyword.trim()).filter(Boolean);
+
+/** Names can contain commas ("Santos, Maria"), so panel members split on semicolons only. */
+export const parsePanelMembers = (value: string) =>
+  value.split(';').map((member) => member.trim()).filter(Boolean);
+
+/** Returns the page count, or null when blank. NaN means the value is not valid. */
+export const parsePageCount = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return /^\d+$/.test(trimmed) && Number(trimmed) > 0 ? Number(trimmed) : NaN;
+};
+
+export const toMetadataForm = (metadata: Partial<ThesisMetadata>): ThesisMetadataForm => ({
+  abstract: metadata.abstract ?? '',
+  keywords: (metadata.keywords ?? []).join('; '),
+  adviser: metadata.adviser ?? '',
+  panel_members: (metadata.panel_members ?? []).join('; '),
+  degree_program: metadata.degree_program ?? '',
+  call_number: metadata.call_number ?? '',
+  page_count: metadata.page_count ? String(metadata.page_count) : '',
+  language: metadata.language ?? '',
+});
+
+export const fromMetadataForm = (form: ThesisMetadataForm): ThesisMetadata => ({
+  abstract: form.abstract.trim() || null,
+  keywords: parseKeywords(form.keywords),
+  adviser: form.adviser.trim() || null,
+  panel_members: parsePanelMembers(form.panel_members),
+  degree_program: form.degree_program.trim() || null,
+  call_number: form.call_number.trim() || null,
+  page_count: parsePageCount(form.page_count),
+  language: form.language.trim() || null,
+});
+
+/** The first problem with the form, or null when it can be saved. */
+export const validateMetadataForm = (form: ThesisMetadataForm): string | null =>
+  Number.isNaN(parsePageCount(form.page_count)) ? 'Page count must be a whole number greater than zero.' : null;
+
+export async function fetchThesisMetadata(thesisId: number): Promise<ThesisMetadata> {
+  const { data, error } = await supabase
+    .from('thesis_data')
+    .select(METADATA_COLUMNS)
+    .eq('id', thesisId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching thesis metadata:', error);
+    throw error;
+  }
+  return data;
+}
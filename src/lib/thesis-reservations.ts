@@ -0,0 +1,109 @@
+// lib/thesis-reservations.ts
+import { supabase } from '../integrations/supabase/client';
+
+export const HOLD_SETTING = 'reservation_hold_minutes';
+export const DEFAULT_HOLD_MINUTES = 30;
+
+/** 'ready' means the thesis is back and held for the student until hold_expires_at. */
+export type ReservationStatus = 'waiting' | 'ready';
+
+export type ReservationAction = 'hold' | 'extend' | 'fulfil' | 'cancel';
+
+export interface StudentReservation {
+  id: number;
+  thesis_id: number;
+  thesis_title: string;
+  barcode: string;
+  status: ReservationStatus;
+  queue_position: number;
+  created_at: string;
+  hold_expires_at: string | null;
+}
+
+export interface QueuedReservation extends StudentReservation {
+  student_no: string;
+  full_name: string;
+  ready_at: string | null;
+}
+
+export interface ReserveResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  already_reserved?: boolean;
+  reservation_id?: number;
+  status?: ReservationStatus;
+  position?: number;
+}
+
+/** Queues a student for a thesis. The student number and name are validated again server-side. */
+export async function reserveThesis(thesisId: number, studentNo: string, fullName: string): Promise<ReserveResult> {
+  const { data, error } = await supabase.rpc('reserve_thesis', {
+    p_thesis_id: thesisId,
+    p_student_no: studentNo.trim(),
+    p_full_name: fullName.trim(),
+  });
+
+  if (error) {
+    console.error('reserve_thesis RPC error:', error);
+    throw error;
+  }
+  return data;
+}
+
+export async function fetchStudentReservations(studentNo: string, fullName: string): Promise<StudentReservation[]> {
+  const { data, error } = await supabase.rpc('get_student_reservations', {
+    p_student_no: studentNo.trim(),
+    p_full_name: fullName.trim(),
+  });
+
+  if (error) {
+    console.error('get_student_reservations RPC error:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+export async function cancelStudentReservation(reservationId: number, studentNo: string, fullName: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('cancel_student_reservation', {
+    p_reservation_id: reservationId,
+    p_student_no: studentNo.trim(),
+    p_full_name: fullName.trim(),
+  });
+
+  if (error) {
+    console.error('cancel_student_reservation RPC error:', error);
+    throw error;
+  }
+  return Boolean(data);
+}
+
+/** Active reservations in queue order; every thesis when no id is given. Admin only. */
+export async function fetchReservationQueue(thesisId?: number): Promise<QueuedReservation[]> {
+  const { data, error } = await supabase.rpc('list_thesis_reservations', {
+    p_thesis_id: thesisId ?? null,
+  });
+
+  if (error) {
+    console.error('list_thesis_reservations RPC error:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+export async function manageReservation(reservationId: number, action: ReservationAction): Promise<void> {
+  const { error } = await supabase.rpc('manage_reservation', {
+    p_reservation_id: reservationId,
+    p_action: action,
+  });
+
+  if (error) {
+    console.error('manage_reservation RPC error:', error);
+    throw error;
+  }
+}
+
+export const formatHoldExpiry = (holdExpiresAt: string | null) =>
+  holdExpiresAt
+    ? new Date(holdExpiresAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true })
+    : '';
@@ -0,0 +1,78 @@
+// lib/thesis-search.ts
+import { supabase } from '../integrations/supabase/client';
+import type { ThesisAvailability } from './thesis-availability';
+
+export interface ThesisSearchResult {
+  id: number;
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+  availability: ThesisAvailability;
+  copy_count: number;
+  keywords: string[];
+  adviser: string | null;
+  rank: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Ranked search over title, authors, department, keywords, adviser and
+ * abstract via the search_theses RPC.
+ * Word order does not matter and near-miss spellings still match.
+ */
+export async function searchTheses(query: string, limit = 10): Promise<ThesisSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_theses', {
+    search_query: query,
+    result_limit: limit,
+  });
+
+  if (error) {
+    console.error('search_theses RPC error:', error);
+    throw error;
+  }
+  return data ?? [];
+}
+
+/** Lower-cased, de-duplicated words of a search query. */
+export const getSearchTerms = (query: string): string[] =>
+  Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length > 0)
+    )
+  );
+
+/** True when the text contains one of the search terms. */
+export const matchesTerms = (text: string | null | undefined, terms: string[]) =>
+  !!text && terms.some((term) => text.toLowerCase().includes(term));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits text into segments flagged by whether they match one of the search
+ * terms, so callers can render highlighted suggestions without injecting HTML.
+ */
+export const splitByTerms = (text: string, terms: string[]): HighlightSegment[] => {
+  if (!text || terms.length === 0) return [{ text: text || '', match: false }];
+
+  // Longest terms first so "learning" wins over "learn"
+  const pattern = terms
+    .slice()
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const regex = new RegExp(`(${pattern})`, 'gi');
+
+  return text
+    .split(regex)
+    .filter((part) => part !== '')
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
@@ -0,0 +1,182 @@
+// lib/vocabulary.ts
+import { supabase } from '../integrations/supabase/client';
+
+export type VocabularyKind = 'campus' | 'college' | 'program';
+
+export type CollegeLevel = 'undergraduate' | 'graduate';
+
+export const VOCABULARY_KIND_LABELS: Record<VocabularyKind, string> = {
+  campus: 'Campuses',
+  college: 'Colleges / Departments',
+  program: 'Programs',
+};
+
+export const VOCABULARY_KIND_OPTIONS = Object.keys(VOCABULARY_KIND_LABELS) as VocabularyKind[];
+
+export const COLLEGE_LEVEL_LABELS: Record<CollegeLevel, string> = {
+  undergraduate: 'Undergraduate Programs',
+  graduate: 'Graduate School Programs',
+};
+
+export const COLLEGE_LEVEL_OPTIONS = Object.keys(COLLEGE_LEVEL_LABELS) as CollegeLevel[];
+
+const VOCABULARY_TABLES: Record<VocabularyKind, 'campuses' | 'colleges' | 'programs'> = {
+  campus: 'campuses',
+  college: 'colleges',
+  program: 'programs',
+};
+
+export interface VocabularyTerm {
+  id: number;
+  name: string;
+  aliases: string[];
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface College extends VocabularyTerm {
+  level: CollegeLevel;
+}
+
+export interface Program extends VocabularyTerm {
+  college_id: number;
+}
+
+export interface Vocabulary {
+  campuses: VocabularyTerm[];
+  colleges: College[];
+  programs: Program[];
+}
+
+/** Changes an admin can make to a term; `college_id` and `level` apply to programs and colleges only. */
+export interface VocabularyTermInput {
+  name: string;
+  aliases: string[];
+  is_active: boolean;
+  sort_order: number;
+  level?: CollegeLevel;
+  college_id?: number;
+}
+
+/** A free-text value in use that is not exactly a term name. */
+export interface UnmatchedVocabularyValue {
+  value: string;
+  usage_count: number;
+  /** The term whose name or alias already matches, if any. */
+  suggested_term_id: number | null;
+}
+
+export const EMPTY_VOCABULARY: Vocabulary = { campuses: [], colleges: [], programs: [] };
+
+/** Mirrors vocabulary_key() in the database: case and spacing are ignored. */
+export const vocabularyKey = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const vocabularyTerms = (vocabulary: Vocabulary, kind: VocabularyKind): VocabularyTerm[] =>
+  kind === 'campus' ? vocabulary.campuses : kind === 'college' ? vocabulary.colleges : vocabulary.programs;
+
+export const activeTerms = <T extends VocabularyTerm>(terms: T[]) => terms.filter(term => term.is_active);
+
+/** The term whose name or one of its aliases matches the value. */
+export function findTerm<T extends VocabularyTerm>(terms: T[], value: string): T | undefined {
+  const key = vocabularyKey(value);
+  if (!key) return undefined;
+  return terms.find(term => vocabularyKey(term.name) === key)
+    ?? terms.find(term => term.aliases.some(alias => vocabularyKey(alias) === key));
+}
+
+/** Term names plus their aliases, so a filter on a term also catches older spellings. */
+export const expandTermValues = (terms: VocabularyTerm[], names: string[]) =>
+  Array.from(new Set(names.flatMap(name => {
+    const term = terms.find(candidate => candidate.name === name);
+    return term ? [term.name, ...term.aliases] : [name];
+  })));
+
+export const parseAliases = (text: string) =>
+  Array.from(new Set(text.split(/[,;\n]/).map(alias => alias.trim()).filter(Boolean)));
+
+/** Active programs grouped by level and college, in the order the forms list them. */
+export function groupPrograms(vocabulary: Vocabulary) {
+  return COLLEGE_LEVEL_OPTIONS.map(level => ({
+    category: COLLEGE_LEVEL_LABELS[level].toUpperCase(),
+    departments: activeTerms(vocabulary.colleges)
+      .filter(college => college.level === level)
+      .map(college => ({
+        name: college.name,
+        courses: activeTerms(vocabulary.programs)
+          .filter(program => program.college_id === college.id)
+          .map(program => program.name),
+      }))
+      .filter(college => college.courses.length > 0),
+  })).filter(group => group.departments.length > 0);
+}
+
+/** Every campus, college and program, inactive ones included, in display order. */
+export async function fetchVocabulary(): Promise<Vocabulary> {
+  const [campuses, colleges, programs] = await Promise.all([
+    supabase.from('campuses').select('id, name, aliases, is_active, sort_order').order('sort_order').order('name'),
+    supabase.from('colleges').select('id, name, level, aliases, is_active, sort_order').order('sort_order').order('name'),
+    supabase.from('programs').select('id, college_id, name, aliases, is_active, sort_order').order('sort_order').order('name'),
+  ]);
+
+  const error = campuses.error || colleges.error || programs.error;
+  if (error) {
+    console.error('Error fetching reference vocabulary:', error);
+    throw error;
+  }
+
+  return {
+    campuses: campuses.data ?? [],
+    colleges: colleges.data ?? [],
+    programs: programs.data ?? [],
+  };
+}
+
+/** Adds a term, or updates it when `id` is given. */
+export async function saveVocabularyTerm(kind: VocabularyKind, input: VocabularyTermInput, id?: number): Promise<void> {
+  const row: Record<string, unknown> = {
+    name: input.name.trim(),
+    aliases: input.aliases,
+    is_active: input.is_active,
+    sort_order: input.sort_order,
+  };
+  if (kind === 'college') row.level = input.level ?? 'undergraduate';
+  if (kind === 'program') row.college_id = input.college_id;
+
+  const table = VOCABULARY_TABLES[kind];
+  const { error } = id
+    ? await supabase.from(table).update(row).eq('id', id)
+    : await supabase.from(table).insert(row);
+
+  if (error) {
+    console.error('Error saving vocabulary term:', error);
+    throw error;
+  }
+}
+
+export async function fetchUnmatchedValues(kind: VocabularyKind): Promise<UnmatchedVocabularyValue[]> {
+  const { data, error } = await supabase.rpc('list_unmatched_vocabulary_values', { p_kind: kind });
+
+  if (error) {
+    console.error('list_unmatched_vocabulary_values RPC error:', error);
+    throw error;
+  }
+  return (data ?? []).map(row => ({
+    ...row,
+    usage_count: Number(row.usage_count),
+  }));
+}
+
+/** Rewrites every use of `value` to the term's name; returns the number of records changed. */
+export async function remapVocabularyValue(kind: VocabularyKind, value: string, termId: number): Promise<number> {
+  const { data, error } = await supabase.rpc('remap_vocabulary_value', {
+    p_kind: kind,
+    p_value: value,
+    p_term_id: termId,
+  });
+
+  if (error) {
+    console.error('remap_vocabulary_value RPC error:', error);
+    throw error;
+  }
+  return Number(data) || 0;
+}
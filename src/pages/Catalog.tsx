@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Search, Filter, X, ChevronLeft, ChevronRight, BookOpen, Users, Calendar } from 'lucide-react';
+import Header from '../components/Header';
+import LoadingSpinner from '../components/LoadingSpinner';
+import {
+  CATALOG_PAGE_SIZE,
+  CatalogFilters,
+  emptyCatalogFilters,
+  fetchCatalogFacets,
+  fetchCatalogPage,
+} from '../lib/thesis-catalog';
+import { formatCopyCount } from '../lib/thesis-copies';
+
+/* Filters live in the URL so a filtered catalog view can be bookmarked or shared */
+const filtersFromParams = (params: URLSearchParams): CatalogFilters => ({
+  department: params.get('department') || '',
+  author: params.get('author') || '',
+  yearFrom: params.get('yearFrom') || '',
+  yearTo: params.get('yearTo') || '',
+  search: params.get('q') || '',
+});
+
+const Catalog = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+
+  // Text inputs are debounced before they reach the URL
+  const [authorInput, setAuthorInput] = useState(filters.author);
+  const [searchInput, setSearchInput] = useState(filters.search);
+
+  const { data: facets } = useQuery({
+    queryKey: ['thesis-catalog-facets'],
+    queryFn: fetchCatalogFacets,
+  });
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['thesis-catalog', filters, page],
+    queryFn: () => fetchCatalogPage(filters, page),
+    placeholderData: keepPreviousData,
+  });
+
+  const updateParams = useCallback((changes: Partial<CatalogFilters>, nextPage = 1) => {
+    setSearchParams((prev) => {
+      const next = { ...filtersFromParams(prev), ...changes };
+      const params = new URLSearchParams();
+      if (next.department) params.set('department', next.department);
+      if (next.author) params.set('author', next.author);
+      if (next.yearFrom) params.set('yearFrom', next.yearFrom);
+      if (next.yearTo) params.set('yearTo', next.yearTo);
+      if (next.search) params.set('q', next.search);
+      if (nextPage > 1) params.set('page', String(nextPage));
+      return params;
+    });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const author = authorInput.trim();
+      const search = searchInput.trim();
+      if (author !== filters.author || search !== filters.search) {
+        updateParams({ author, search });
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [authorInput, searchInput, filters.author, filters.search, updateParams]);
+
+  // Keep inputs in sync when the URL changes from navigation (back/forward, clear)
+  useEffect(() => {
+    setAuthorInput(filters.author);
+    setSearchInput(filters.search);
+  }, [filters.author, filters.search]);
+
+  const clearFilters = () => {
+    setAuthorInput('');
+    setSearchInput('');
+    updateParams(emptyCatalogFilters);
+  };
+
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / CATALOG_PAGE_SIZE));
+  const hasFilters = Object.values(filters).some((value) => value !== '');
+  const firstItem = total === 0 ? 0 : (page - 1) * CATALOG_PAGE_SIZE + 1;
+  const lastItem = Math.min(page * CATALOG_PAGE_SIZE, total);
+
+  return (
+    <motion.div
+      className="min-h-screen bg-gray-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Header enableLogoRedirect />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+            <BookOpen className="text-red-600" size={28} />
+            <span>Thesis Catalog</span>
+          </h2>
+          <p className="text-gray-600 mt-1">
+            Browse the theses available in the library
+            {facets ? ` — ${facets.total.toLocaleString()} titles in the collection` : ''}.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Facets */}
+          <aside className="lg:col-span-1">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5 space-y-5">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-gray-900 flex items-center space-x-2">
+                  <Filter size={16} />
+                  <span>Filters</span>
+                </h3>
+                {hasFilters && (
+                  <button
+                    onClick={clearFilters}
+                    className="text-sm text-red-600 hover:text-red-700 flex items-center space-x-1"
+                  >
+                    <X size={14} />
+                    <span>Clear</span>
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+                <select
+                  value={filters.department}
+                  onChange={(e) => updateParams({ department: e.target.value })}
+                  className="select-field w-full"
+                >
+                  <option value="">All departments</option>
+                  {facets?.departments.map((dept) => (
+                    <option key={dept.name} value={dept.name}>
+                      {dept.name} ({dept.count})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Publication Year</label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    value={filters.yearFrom}
+                    onChange={(e) => updateParams({ yearFrom: e.target.value })}
+                    placeholder={facets?.min_year ? String(facets.min_year) : 'From'}
+                    min={facets?.min_year ?? undefined}
+                    max={facets?.max_year ?? undefined}
+                    className="input-field w-full"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    value={filters.yearTo}
+                    onChange={(e) => updateParams({ yearTo: e.target.value })}
+                    placeholder={facets?.max_year ? String(facets.max_year) : 'To'}
+                    min={facets?.min_year ?? undefined}
+                    max={facets?.max_year ?? undefined}
+                    className="input-field w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Author</label>
+                <input
+                  type="text"
+                  value={authorInput}
+                  onChange={(e) => setAuthorInput(e.target.value)}
+                  placeholder="Any author"
+                  className="input-field w-full"
+                />
+              </div>
+            </div>
+          </aside>
+
+          {/* Results */}
+          <section className="lg:col-span-3 space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search by title or barcode..."
+                className="input-field w-full pl-10"
+              />
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {total > 0
+                  ? `Showing ${firstItem}–${lastItem} of ${total.toLocaleString()} theses`
+                  : isLoading ? '' : 'No theses found'}
+              </span>
+              {isFetching && !isLoading && <span className="text-gray-400">Updating...</span>}
+            </div>
+
+            {isLoading ? (
+              <div className="py-16 flex justify-center">
+                <LoadingSpinner size={80} message="Loading catalog..." />
+              </div>
+            ) : error ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+                Unable to load the catalog right now. Please try again later.
+              </div>
+            ) : data && data.rows.length > 0 ? (
+              <ul className="space-y-3">
+                {data.rows.map((thesis) => (
+                  <li key={thesis.id}>
+                    <Link
+                      to={`/catalog/${encodeURIComponent(thesis.barcode)}`}
+                      state={{ catalogSearch: searchParams.toString() }}
+                      className="block bg-white rounded-lg shadow-sm border border-gray-200 p-5 card-hover"
+                    >
+                      <h3 className="text-lg font-semibold text-gray-900">{thesis.thesis_title}</h3>
+                      <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+                        {thesis.authors?.length > 0 && (
+                          <span className="flex items-center space-x-1">
+                            <Users size={14} />
+                            <span>{thesis.authors.join(', ')}</span>
+                          </span>
+                        )}
+                        <span className="flex items-center space-x-1">
+                          <Calendar size={14} />
+                          <span>{thesis.publication_year}</span>
+                        </span>
+                      </div>
+                      <div className="mt-3 flex items-center gap-2 text-xs">
+                        <span className="px-2 py-1 rounded-full bg-red-50 text-red-700">{thesis.department}</span>
+                        <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600 font-mono">{thesis.barcode}</span>
+                        {thesis.copy_count > 1 && (
+                          <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600">{formatCopyCount(thesis.copy_count)}</span>
+                        )}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+                No theses match the selected filters.
+              </div>
+            )}
+
+            {total > CATALOG_PAGE_SIZE && (
+              <div className="flex items-center justify-between pt-2">
+                <button
+                  onClick={() => updateParams({}, page - 1)}
+                  disabled={page <= 1}
+                  className="btn-outline flex items-center space-x-1 px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft size={16} />
+                  <span>Previous</span>
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => updateParams({}, page + 1)}
+                  disabled={page >= totalPages}
+                  className="btn-outline flex items-center space-x-1 px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span>Next</span>
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default Catalog;
@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, BookOpen, Users, Calendar, Building, Barcode, GraduationCap, UserCheck, Tag, FileText, Languages, Library, Eye, Quote } from 'lucide-react';
+import Header from '../components/Header';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ThesisFileViewer from '../components/ThesisFileViewer';
+import CitationDialog from '../components/CitationDialog';
+import { fetchCatalogThesesByBarcode, type CatalogThesisDetail } from '../lib/thesis-catalog';
+import { CONDITION_LABELS, formatCopyCount } from '../lib/thesis-copies';
+import {
+  ATTACHMENT_KIND_LABELS,
+  fetchFileViewer,
+  fetchThesisAttachments,
+  formatFileSize,
+  type ThesisAttachment,
+} from '../lib/thesis-attachments';
+
+const CatalogDetail = () => {
+  const { barcode = '' } = useParams<{ barcode: string }>();
+  const location = useLocation();
+  // Return to the same filtered page the patron came from
+  const catalogSearch = (location.state as { catalogSearch?: string } | null)?.catalogSearch;
+
+  const { data: theses = [], isLoading, error } = useQuery({
+    queryKey: ['thesis-catalog-detail', barcode],
+    queryFn: () => fetchCatalogThesesByBarcode(barcode),
+    enabled: !!barcode,
+  });
+
+  // Visitors only get abstract pages back; library staff see every file
+  const thesisIds = theses.map((thesis) => thesis.id);
+  const { data: attachments = [] } = useQuery({
+    queryKey: ['thesis-attachments', 'catalog', thesisIds],
+    queryFn: () => fetchThesisAttachments(thesisIds),
+    enabled: thesisIds.length > 0,
+  });
+  const { data: viewer = null } = useQuery({
+    queryKey: ['file-viewer'],
+    queryFn: fetchFileViewer,
+    staleTime: 5 * 60 * 1000,
+  });
+  const [viewing, setViewing] = useState<{ attachment: ThesisAttachment; thesisTitle: string } | null>(null);
+  const [citing, setCiting] = useState<CatalogThesisDetail | null>(null);
+
+  return (
+    <motion.div
+      className="min-h-screen bg-gray-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Header enableLogoRedirect />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link
+          to={catalogSearch ? `/catalog?${catalogSearch}` : '/catalog'}
+          className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-red-600 mb-6"
+        >
+          <ArrowLeft size={16} />
+          <span>Back to catalog</span>
+        </Link>
+
+        {isLoading ? (
+          <div className="py-16 flex justify-center">
+            <LoadingSpinner size={80} message="Loading thesis..." />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            Unable to load this thesis right now. Please try again later.
+          </div>
+        ) : theses.length === 0 ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-10 text-center">
+            <BookOpen className="mx-auto text-gray-300 mb-3" size={40} />
+            <h2 className="text-xl font-semibold text-gray-900">Thesis not found</h2>
+            <p className="text-gray-600 mt-1">
+              No thesis with barcode <span className="font-mono">{barcode}</span> is in the catalog.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {theses.map((thesis) => (
+              <article
+                key={thesis.id}
+                className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <h2 className="text-2xl font-bold text-gray-900">{thesis.thesis_title}</h2>
+                  <button
+                    onClick={() => setCiting(thesis)}
+                    className="btn-secondary flex items-center space-x-1 text-sm shrink-0"
+                  >
+                    <Quote size={14} />
+                    <span>Cite</span>
+                  </button>
+                </div>
+
+                {thesis.keywords?.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-2" aria-label="Keywords">
+                    <Tag size={14} className="text-gray-400 mt-1" />
+                    {thesis.keywords.map((keyword) => (
+                      <span
+                        key={keyword}
+                        className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+                      >
+                        {keyword}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {thesis.abstract && (
+                  <section className="mt-6">
+                    <h3 className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                      <FileText size={14} />
+                      <span>Abstract</span>
+                    </h3>
+                    <p className="mt-1 text-gray-900 whitespace-pre-line leading-relaxed">{thesis.abstract}</p>
+                  </section>
+                )}
+
+                <dl className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-5">
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                      <Users size={14} />
+                      <span>Authors</span>
+                    </dt>
+                    <dd className="mt-1 text-gray-900">
+                      {thesis.authors?.length > 0 ? (
+                        <ul className="space-y-0.5">
+                          {thesis.authors.map((author, index) => (
+                            <li key={index}>{author}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-gray-400">Not listed</span>
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                      <Building size={14} />
+                      <span>Department</span>
+                    </dt>
+                    <dd className="mt-1 text-gray-900">{thesis.department}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                      <Calendar size={14} />
+                      <span>Publication Year</span>
+                    </dt>
+                    <dd className="mt-1 text-gray-900">{thesis.publication_year}</dd>
+                  </div>
+                  {thesis.degree_program && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                        <GraduationCap size={14} />
+                        <span>Degree / Program</span>
+                      </dt>
+                      <dd className="mt-1 text-gray-900">{thesis.degree_program}</dd>
+                    </div>
+                  )}
+                  {thesis.adviser && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                        <UserCheck size={14} />
+                        <span>Adviser</span>
+                      </dt>
+                      <dd className="mt-1 text-gray-900">{thesis.adviser}</dd>
+                    </div>
+                  )}
+                  {thesis.panel_members?.length > 0 && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                        <Users size={14} />
+                        <span>Panel Members</span>
+                      </dt>
+                      <dd className="mt-1 text-gray-900">
+                        <ul className="space-y-0.5">
+                          {thesis.panel_members.map((member, index) => (
+                            <li key={index}>{member}</li>
+                          ))}
+                        </ul>
+                      </dd>
+                    </div>
+                  )}
+                  {(thesis.call_number || thesis.page_count) && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                        <Library size={14} />
+                        <span>Call Number</span>
+                      </dt>
+                      <dd className="mt-1 text-gray-900">
+                        {thesis.call_number ? <span className="font-mono">{thesis.call_number}</span> : <span className="text-gray-400">Not assigned</span>}
+                        {thesis.page_count && <span className="text-sm text-gray-500"> • {thesis.page_count} pages</span>}
+                      </dd>
+                    </div>
+                  )}
+                  {thesis.language && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                        <Languages size={14} />
+                        <span>Language</span>
+                      </dt>
+                      <dd className="mt-1 text-gray-900">{thesis.language}</dd>
+                    </div>
+                  )}
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                      <Barcode size={14} />
+                      <span>{thesis.copies.length > 1 ? formatCopyCount(thesis.copies.length) : 'Barcode'}</span>
+                    </dt>
+                    <dd className="mt-1 text-gray-900">
+                      {thesis.copies.length > 0 ? (
+                        <ul className="space-y-0.5">
+                          {thesis.copies.map((copy) => (
+                            <li key={copy.barcode}>
+                              <span className="font-mono">{copy.barcode}</span>
+                              {copy.location && <span className="text-sm text-gray-500"> • {copy.location}</span>}
+                              {copy.condition !== 'good' && (
+                                <span className="text-sm text-gray-500"> • {CONDITION_LABELS[copy.condition]}</span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="font-mono">{thesis.barcode}</span>
+                      )}
+                    </dd>
+                  </div>
+                </dl>
+
+                {attachments.some((attachment) => attachment.thesis_id === thesis.id) && (
+                  <section className="mt-6 border-t border-gray-200 pt-4">
+                    <h3 className="text-sm font-medium text-gray-500 flex items-center space-x-2">
+                      <FileText size={14} />
+                      <span>Digital Copy</span>
+                    </h3>
+                    <ul className="mt-2 space-y-2">
+                      {attachments
+                        .filter((attachment) => attachment.thesis_id === thesis.id)
+                        .map((attachment) => (
+                          <li key={attachment.id}>
+                            <button
+                              onClick={() => setViewing({ attachment, thesisTitle: thesis.thesis_title })}
+                              className="inline-flex items-center space-x-2 text-sm text-red-600 hover:text-red-700"
+                            >
+                              <Eye size={14} />
+                              <span>{ATTACHMENT_KIND_LABELS[attachment.kind]}</span>
+                              <span className="text-gray-500">({formatFileSize(attachment.file_size)})</span>
+                            </button>
+                          </li>
+                        ))}
+                    </ul>
+                  </section>
+                )}
+              </article>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CitationDialog
+        theses={citing ? [citing] : null}
+        onClose={() => setCiting(null)}
+      />
+
+      <ThesisFileViewer
+        attachment={viewing?.attachment ?? null}
+        thesisTitle={viewing?.thesisTitle ?? ''}
+        viewer={viewer}
+        onClose={() => setViewing(null)}
+      />
+    </motion.div>
+  );
+};
+
+export default CatalogDetail;
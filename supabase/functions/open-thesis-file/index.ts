@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { corsHeaders } from '../_shared/cors.ts'
+
+const BUCKET = 'thesis-files'
+
+// Signed links expire quickly so a copied URL stops working soon after
+const SIGNED_URL_SECONDS = 300
+
+const respond = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// Staff open thesis files here rather than signing URLs in the browser: the
+// access is written to the audit log as the caller before a link is created,
+// and Readers have no storage access of their own to skip that step.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { attachmentId, action } = await req.json()
+
+    if (!attachmentId || (action !== 'VIEW' && action !== 'DOWNLOAD')) {
+      return respond({ success: false, error: 'An attachment id and a VIEW or DOWNLOAD action are required' }, 400)
+    }
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return respond({ success: false, error: 'Authorization header is required' }, 401)
+    }
+
+    const supabaseUrl = Deno.env.get('PROJECT_URL')
+    const supabaseAnonKey = Deno.env.get('PROJECT_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('PROJECT_SERVICE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return respond({ success: false, error: 'Server configuration error: Missing environment variables' }, 500)
+    }
+
+    // The access check and the audit row run as the caller
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    })
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: files, error: openError } = await supabase.rpc('open_thesis_file', {
+      p_attachment_id: attachmentId,
+      p_action: action,
+    })
+
+    if (openError || !files?.length) {
+      return respond({ success: false, error: openError?.message || 'Thesis file not found' }, 403)
+    }
+
+    const file = files[0]
+    const { data: signed, error: signError } = await supabaseAdmin.storage
+      .from(BUCKET)
+      .createSignedUrl(
+        file.storage_path,
+        SIGNED_URL_SECONDS,
+        action === 'DOWNLOAD' ? { download: file.file_name } : undefined
+      )
+
+    if (signError || !signed) {
+      console.error('Error creating thesis file link:', signError)
+      return respond({ success: false, error: 'Failed to create the file link' }, 500)
+    }
+
+    return respond({ success: true, url: signed.signedUrl }, 200)
+  } catch (error) {
+    console.error('Unexpected error in open-thesis-file function:', error)
+    return respond({
+      success: false,
+      error: 'An unexpected error occurred: ' + (error instanceof Error ? error.message : 'Unknown error'),
+    }, 500)
+  }
+})
@@ -2,6 +2,7 @@
 // supabase/functions/send-verification-email/index.ts
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { Resend } from "npm:resend@3";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY")!);
 
@@ -11,18 +12,43 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// Either a login code the caller already stored, or a student registration
+// request whose code is generated here so it never reaches the browser.
 interface VerificationEmailRequest {
-  email: string;
-  code: string;
+  email?: string;
+  code?: string;
+  registrationId?: number;
 }
 
+const issueRegistrationCode = async (registrationId: number) => {
+  const supabaseUrl = Deno.env.get("PROJECT_URL");
+  const supabaseServiceKey = Deno.env.get("PROJECT_SERVICE_KEY");
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Server configuration error: Missing environment variables");
+  }
+
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+  const { data, error } = await supabaseAdmin.rpc("issue_student_registration_code", {
+    p_request_id: registrationId,
+  });
+  if (error) throw new Error(error.message);
+  return data as { email: string; code: string };
+};
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { email, code }: VerificationEmailRequest = await req.json();
+    const body: VerificationEmailRequest = await req.json();
+    const isRegistration = body.registrationId !== undefined;
+    const { email, code } = isRegistration
+      ? await issueRegistrationCode(body.registrationId!)
+      : body;
+    const purpose = isRegistration
+      ? "Thank you for requesting a LyceumVault student registration. Please use the verification code below to confirm your email address:"
+      : "Thank you for signing in to LyceumVault. Please use the verification code below to complete your login:";
 
     // Development mode - just log the code without sending email
     // Uncomment to enable dev mode:
@@ -65,7 +91,7 @@ const handler = async (req: Request): Promise<Response> => {
                     <!-- Message -->
                     <tr>
                       <td style="padding: 0 40px 30px 40px; color: #666666; font-size: 16px; line-height: 24px;">
-                        <p style="margin: 0 0 20px 0;">Thank you for signing in to LyceumVault. Please use the verification code below to complete your login:</p>
+                        <p style="margin: 0 0 20px 0;">${purpose}</p>
                         <!-- Verification Code Box -->
                         <div style="background-color: #f8f9fa; border: 2px solid #e9ecef; border-radius: 8px; padding: 20px; text-align: center; margin: 20px 0;">
                           <div style="font-size: 32px; font-weight: bold; color: #2563eb; letter-spacing: 8px; font-family: 'Courier New', monospace;">${code}</div>
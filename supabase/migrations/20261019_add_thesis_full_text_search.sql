@@ -0,0 +1,124 @@
+-- Migration: Full-text thesis search with relevance ranking and typo tolerance
+-- Date: 2026-10-19
+
+-- 1) Extensions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 2) Search vector column on thesis_data
+-- authors is TEXT[] and array_to_string() is not immutable, so the vector is
+-- maintained by a trigger instead of a generated column.
+ALTER TABLE public.thesis_data
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.thesis_data_build_search_vector(
+  p_title TEXT,
+  p_authors TEXT[],
+  p_department TEXT
+)
+RETURNS TSVECTOR
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(array_to_string(p_authors, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_department, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.thesis_data_set_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector = public.thesis_data_build_search_vector(
+    NEW.thesis_title,
+    NEW.authors,
+    NEW.department
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_data_set_search_vector ON public.thesis_data;
+CREATE TRIGGER trg_thesis_data_set_search_vector
+BEFORE INSERT OR UPDATE OF thesis_title, authors, department ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.thesis_data_set_search_vector();
+
+-- Backfill existing rows
+UPDATE public.thesis_data
+SET search_vector = public.thesis_data_build_search_vector(thesis_title, authors, department);
+
+-- 3) Indexes
+CREATE INDEX IF NOT EXISTS idx_thesis_data_search_vector
+ON public.thesis_data USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_thesis_data_title_trgm
+ON public.thesis_data USING GIN (lower(thesis_title) gin_trgm_ops);
+
+-- 4) Ranked search RPC
+-- Every word in the query is matched as a prefix (so results appear while the
+-- patron is still typing) regardless of word order. Rows that miss the
+-- full-text match but are close to the title by trigram similarity are also
+-- returned, which covers misspellings such as "machne lerning".
+CREATE OR REPLACE FUNCTION public.search_theses(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cleaned_query TEXT := lower(trim(COALESCE(search_query, '')));
+  prefix_query TSQUERY;
+BEGIN
+  IF length(cleaned_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(cleaned_query, '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    (
+      COALESCE(ts_rank_cd(t.search_vector, prefix_query), 0) * 2 +
+      word_similarity(cleaned_query, lower(t.thesis_title))
+    )::REAL AS rank
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (
+      (prefix_query IS NOT NULL AND t.search_vector @@ prefix_query)
+      OR cleaned_query <% lower(t.thesis_title)
+    )
+  ORDER BY 7 DESC, t.thesis_title
+  LIMIT GREATEST(1, LEAST(COALESCE(result_limit, 10), 50));
+END;
+$$;
+
+-- 5) Grant permissions (the submission book is public)
+REVOKE ALL ON FUNCTION public.search_theses(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.search_theses(TEXT, INTEGER) IS
+'Ranked thesis search over title, authors and department with prefix matching and trigram typo tolerance. Used by ThesisTitleSearch.';
@@ -0,0 +1,112 @@
+-- Migration: Public thesis catalog browse and facet RPCs
+-- Date: 2026-10-20
+
+-- 0) LIKE pattern escaping
+-- Backslash-escapes %, _ and \ so typed text is matched literally.
+CREATE OR REPLACE FUNCTION public.escape_like_pattern(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_');
+$$;
+
+-- 1) Paginated, filtered catalog listing
+-- Authors are stored as TEXT[], which PostgREST cannot partially match, so the
+-- listing is served by an RPC. total_count is repeated on every row so the
+-- client gets the page and the overall count in one round trip.
+CREATE OR REPLACE FUNCTION public.browse_thesis_catalog(
+  p_department TEXT DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 20), 100));
+  page_offset INTEGER;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    COUNT(*) OVER () AS total_count
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (NULLIF(TRIM(p_department), '') IS NULL OR t.department = TRIM(p_department))
+    AND (p_year_from IS NULL OR t.publication_year >= p_year_from)
+    AND (p_year_to IS NULL OR t.publication_year <= p_year_to)
+    AND (
+      NULLIF(TRIM(p_author), '') IS NULL
+      OR array_to_string(t.authors, ' ') ILIKE '%' || escape_like_pattern(TRIM(p_author)) || '%'
+    )
+    AND (
+      NULLIF(TRIM(p_search), '') IS NULL
+      OR t.thesis_title ILIKE '%' || escape_like_pattern(TRIM(p_search)) || '%'
+      OR t.barcode ILIKE '%' || escape_like_pattern(TRIM(p_search)) || '%'
+    )
+  ORDER BY t.publication_year DESC, t.thesis_title
+  OFFSET page_offset
+  LIMIT page_size;
+END;
+$$;
+
+-- 2) Facet values for the catalog filters
+CREATE OR REPLACE FUNCTION public.thesis_catalog_facets()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'departments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', d.department, 'count', d.total) ORDER BY d.department)
+      FROM (
+        SELECT department, COUNT(*) AS total
+        FROM public.thesis_data
+        WHERE is_deleted = false
+        GROUP BY department
+      ) d
+    ), '[]'::jsonb),
+    'min_year', (SELECT MIN(publication_year) FROM public.thesis_data WHERE is_deleted = false),
+    'max_year', (SELECT MAX(publication_year) FROM public.thesis_data WHERE is_deleted = false),
+    'total', (SELECT COUNT(*) FROM public.thesis_data WHERE is_deleted = false)
+  );
+$$;
+
+-- 3) Grant permissions (catalog is public)
+REVOKE ALL ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+REVOKE ALL ON FUNCTION public.thesis_catalog_facets() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.thesis_catalog_facets() TO anon;
+GRANT EXECUTE ON FUNCTION public.thesis_catalog_facets() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.thesis_catalog_facets() TO service_role;
+
+COMMENT ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) IS
+'Server-side paginated listing of non-deleted thesis_data rows for the public /catalog page.';
@@ -0,0 +1,110 @@
+-- Migration: Server-side pagination, sorting and filtering for the admin thesis table
+-- Date: 2026-10-21
+
+-- 1) Filtered, sorted page of thesis_data for ThesisDataTable
+-- Runs as the caller (SECURITY INVOKER) so the existing thesis_data RLS
+-- policies still decide what an admin can read. The sort column is checked
+-- against a whitelist before it is interpolated into the query.
+CREATE OR REPLACE FUNCTION public.list_thesis_data(
+  p_search TEXT DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_barcode TEXT DEFAULT NULL,
+  p_year INTEGER DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_sort_column TEXT DEFAULT 'upload_date',
+  p_sort_ascending BOOLEAN DEFAULT false,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  upload_date TIMESTAMP WITH TIME ZONE,
+  last_modified TIMESTAMP WITH TIME ZONE,
+  is_deleted BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200));
+  page_offset INTEGER;
+  sort_expression TEXT;
+  sort_direction TEXT := CASE WHEN COALESCE(p_sort_ascending, false) THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  sort_expression := CASE p_sort_column
+    WHEN 'barcode' THEN 't.barcode'
+    WHEN 'thesis_title' THEN 'lower(t.thesis_title)'
+    WHEN 'authors' THEN 'lower(array_to_string(t.authors, '', ''))'
+    WHEN 'department' THEN 'lower(t.department)'
+    WHEN 'publication_year' THEN 't.publication_year'
+    WHEN 'last_modified' THEN 't.last_modified'
+    ELSE 't.upload_date'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    $query$
+      SELECT
+        t.id,
+        t.barcode,
+        t.thesis_title,
+        t.authors,
+        t.department,
+        t.publication_year,
+        t.upload_date,
+        t.last_modified,
+        t.is_deleted,
+        COUNT(*) OVER () AS total_count
+      FROM public.thesis_data t
+      WHERE t.is_deleted = false
+        AND (
+          $1 IS NULL
+          OR t.thesis_title ILIKE '%%' || $1 || '%%'
+          OR array_to_string(t.authors, ' ') ILIKE '%%' || $1 || '%%'
+          OR t.department ILIKE '%%' || $1 || '%%'
+          OR t.barcode ILIKE '%%' || $1 || '%%'
+        )
+        AND ($2 IS NULL OR lower(t.department) = lower($2))
+        AND ($3 IS NULL OR array_to_string(t.authors, ' ') ILIKE '%%' || $3 || '%%')
+        AND ($4 IS NULL OR t.barcode ILIKE '%%' || $4 || '%%')
+        AND ($5 IS NULL OR t.publication_year = $5)
+        AND ($6 IS NULL OR t.publication_year >= $6)
+        AND ($7 IS NULL OR t.publication_year <= $7)
+      ORDER BY %s %s, t.id %s
+      OFFSET $8
+      LIMIT $9
+    $query$,
+    sort_expression,
+    sort_direction,
+    sort_direction
+  )
+  USING
+    NULLIF(TRIM(p_search), ''),
+    NULLIF(TRIM(p_department), ''),
+    NULLIF(TRIM(p_author), ''),
+    NULLIF(TRIM(p_barcode), ''),
+    p_year,
+    p_year_from,
+    p_year_to,
+    page_offset,
+    page_size;
+END;
+$$;
+
+-- 2) Grant permissions (admin dashboard only)
+REVOKE ALL ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) IS
+'Server-side filtered, sorted and paginated thesis_data listing for the admin ThesisDataTable. total_count is repeated on every row.';
@@ -0,0 +1,132 @@
+-- Migration: Audit trail for thesis_data, students, thesis_submissions and system_users
+-- Date: 2026-10-22
+
+-- 1) Audit table
+-- One row per inserted, updated or deleted record. record_id is text because
+-- the audited tables use bigint, uuid and text keys.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id UUID,
+  actor_name TEXT,
+  actor_email TEXT,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  changed_fields TEXT[],
+  old_data JSONB,
+  new_data JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON public.audit_log(table_name, record_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_at ON public.audit_log(changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log(actor_id, changed_at DESC);
+
+-- 2) Trigger function
+-- TG_ARGV[0] is the key column of the audited table; any further arguments
+-- are bookkeeping columns (timestamps, search vectors) that are left out of
+-- the snapshots so an update touching only them is not logged. The actor is
+-- resolved from system_users when the change comes from a signed-in admin;
+-- changes made by anonymous visitors or the service role have no actor.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  key_column TEXT := TG_ARGV[0];
+  ignored_columns TEXT[] := COALESCE(TG_ARGV[1:], ARRAY[]::TEXT[]);
+  old_row JSONB;
+  new_row JSONB;
+  fields TEXT[];
+  actor UUID := auth.uid();
+  actor_record RECORD;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - ignored_columns;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - ignored_columns;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key)
+    INTO fields
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row -> n.key;
+
+    IF fields IS NULL THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    SELECT array_agg(k ORDER BY k)
+    INTO fields
+    FROM jsonb_object_keys(COALESCE(new_row, old_row)) k;
+  END IF;
+
+  IF actor IS NOT NULL THEN
+    SELECT su.name, su.email
+    INTO actor_record
+    FROM system_users su
+    WHERE su.user_id = actor
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO audit_log (
+    table_name, record_id, operation, actor_id, actor_name, actor_email,
+    changed_fields, old_data, new_data
+  ) VALUES (
+    TG_TABLE_NAME,
+    COALESCE(new_row, old_row) ->> key_column,
+    TG_OP,
+    actor,
+    actor_record.name,
+    actor_record.email,
+    fields,
+    old_row,
+    new_row
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+COMMENT ON FUNCTION public.audit_row_change() IS
+'Writes a before/after snapshot of the changed row to audit_log. Args: key column, then columns to ignore.';
+
+-- 3) Triggers
+DROP TRIGGER IF EXISTS trg_audit_thesis_data ON public.thesis_data;
+CREATE TRIGGER trg_audit_thesis_data
+AFTER INSERT OR UPDATE OR DELETE ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('id', 'last_modified', 'search_vector');
+
+DROP TRIGGER IF EXISTS trg_audit_students ON public.students;
+CREATE TRIGGER trg_audit_students
+AFTER INSERT OR UPDATE OR DELETE ON public.students
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('student_no', 'updated_at');
+
+DROP TRIGGER IF EXISTS trg_audit_thesis_submissions ON public.thesis_submissions;
+CREATE TRIGGER trg_audit_thesis_submissions
+AFTER INSERT OR UPDATE OR DELETE ON public.thesis_submissions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('id');
+
+-- last_login changes on every sign-in and is not an administrative change
+DROP TRIGGER IF EXISTS trg_audit_system_users ON public.system_users;
+CREATE TRIGGER trg_audit_system_users
+AFTER INSERT OR UPDATE OR DELETE ON public.system_users
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('id', 'last_login');
+
+-- 4) RLS: admins read the log; only the trigger writes to it
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can select audit log" ON public.audit_log;
+CREATE POLICY "Admins can select audit log"
+ON public.audit_log
+FOR SELECT
+USING (is_admin_user());
+
+REVOKE ALL ON public.audit_log FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.audit_log FROM authenticated;
+GRANT SELECT ON public.audit_log TO authenticated;
+GRANT ALL ON public.audit_log TO service_role;
@@ -0,0 +1,190 @@
+-- Migration: Trash for soft-deleted theses with restore, purge and auto-purge
+-- Date: 2026-10-23
+
+-- 1) Who deleted a thesis and when
+ALTER TABLE public.thesis_data
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+-- Rows already in the trash get their last change as the deletion time
+UPDATE public.thesis_data
+SET deleted_at = last_modified
+WHERE is_deleted = true AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_thesis_data_deleted_at
+  ON public.thesis_data(deleted_at)
+  WHERE is_deleted = true;
+
+-- 2) Stamp deleted_at/deleted_by whenever is_deleted flips
+CREATE OR REPLACE FUNCTION public.thesis_data_track_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_deleted AND NOT OLD.is_deleted THEN
+    NEW.deleted_at = now();
+    NEW.deleted_by = auth.uid();
+  ELSIF NOT NEW.is_deleted AND OLD.is_deleted THEN
+    NEW.deleted_at = NULL;
+    NEW.deleted_by = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_data_track_deletion ON public.thesis_data;
+CREATE TRIGGER trg_thesis_data_track_deletion
+BEFORE UPDATE OF is_deleted ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.thesis_data_track_deletion();
+
+-- 3) Application settings
+-- Small key/value store for admin-configurable behaviour.
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_by UUID
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated can read app settings" ON public.app_settings;
+CREATE POLICY "Authenticated can read app settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can insert app settings" ON public.app_settings;
+CREATE POLICY "Admins can insert app settings"
+ON public.app_settings
+FOR INSERT
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can update app settings" ON public.app_settings;
+CREATE POLICY "Admins can update app settings"
+ON public.app_settings
+FOR UPDATE
+USING (is_admin_user())
+WITH CHECK (is_admin_user());
+
+GRANT SELECT, INSERT, UPDATE ON public.app_settings TO authenticated;
+GRANT ALL ON public.app_settings TO service_role;
+
+-- Days a deleted thesis stays in the trash; 0 keeps it until purged by hand
+INSERT INTO public.app_settings (key, value)
+VALUES ('thesis_trash_retention_days', '30'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- 4) Only admins may permanently delete, and only from the trash
+DROP POLICY IF EXISTS "auth_delete_thesis" ON public.thesis_data;
+DROP POLICY IF EXISTS "Authenticated users can delete thesis records" ON public.thesis_data;
+DROP POLICY IF EXISTS "Admins can purge deleted thesis records" ON public.thesis_data;
+CREATE POLICY "Admins can purge deleted thesis records"
+ON public.thesis_data
+FOR DELETE
+TO authenticated
+USING (is_admin_user() AND is_deleted = true);
+
+-- 5) Trash listing with the deleting user's name
+CREATE OR REPLACE FUNCTION public.list_deleted_theses(
+  p_search TEXT DEFAULT NULL,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID,
+  deleted_by_name TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    t.deleted_at,
+    t.deleted_by,
+    su.name AS deleted_by_name,
+    COUNT(*) OVER () AS total_count
+  FROM thesis_data t
+  LEFT JOIN system_users su ON su.user_id = t.deleted_by
+  WHERE t.is_deleted = true
+    AND (
+      NULLIF(trim(p_search), '') IS NULL
+      OR t.barcode ILIKE '%' || trim(p_search) || '%'
+      OR t.thesis_title ILIKE '%' || trim(p_search) || '%'
+      OR array_to_string(t.authors, ' ') ILIKE '%' || trim(p_search) || '%'
+    )
+  ORDER BY t.deleted_at DESC NULLS LAST, t.id DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200))
+  OFFSET (GREATEST(COALESCE(p_page, 1), 1) - 1) * GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200));
+$$;
+
+REVOKE ALL ON FUNCTION public.list_deleted_theses(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_deleted_theses(TEXT, INTEGER, INTEGER) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.list_deleted_theses(TEXT, INTEGER, INTEGER) IS
+'Page of soft-deleted theses for the admin trash view, newest deletion first.';
+
+-- 6) Auto-purge
+-- Permanently deletes trashed theses older than the retention setting and
+-- returns how many were removed. Callable by admins and by pg_cron.
+CREATE OR REPLACE FUNCTION public.purge_expired_thesis_trash()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  retention_days INTEGER;
+  purged INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can purge the thesis trash';
+  END IF;
+
+  SELECT (value #>> '{}')::INTEGER
+  INTO retention_days
+  FROM app_settings
+  WHERE key = 'thesis_trash_retention_days';
+
+  IF COALESCE(retention_days, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM thesis_data
+  WHERE is_deleted = true
+    AND deleted_at < now() - make_interval(days => retention_days);
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_thesis_trash() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.purge_expired_thesis_trash() TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.purge_expired_thesis_trash() IS
+'Deletes trashed theses older than app_settings.thesis_trash_retention_days. Returns the number purged.';
+
+-- Run nightly where pg_cron is enabled; otherwise the trash view runs it when opened
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-expired-thesis-trash', '15 3 * * *', 'SELECT public.purge_expired_thesis_trash()');
+  END IF;
+END;
+$$;
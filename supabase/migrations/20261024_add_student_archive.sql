@@ -0,0 +1,171 @@
+-- Migration: Archive students instead of deleting them
+-- Date: 2026-10-24
+
+-- 1) Archive state
+-- Archived students stay in the table so thesis_submissions keeps its link to
+-- them, but they no longer pass LPU validation.
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS archived_by UUID;
+
+ALTER TABLE public.students DROP CONSTRAINT IF EXISTS students_status_check;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_status_check
+  CHECK (status IN ('active', 'graduated', 'withdrawn', 'deleted'));
+
+CREATE INDEX IF NOT EXISTS idx_students_status ON public.students(status);
+
+-- 2) Stamp archived_at/archived_by whenever a student leaves or returns to active
+CREATE OR REPLACE FUNCTION public.students_track_archive()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status <> 'active' AND OLD.status = 'active' THEN
+    NEW.archived_at = now();
+    NEW.archived_by = auth.uid();
+  ELSIF NEW.status = 'active' AND OLD.status <> 'active' THEN
+    NEW.archived_at = NULL;
+    NEW.archived_by = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_students_track_archive ON public.students;
+CREATE TRIGGER trg_students_track_archive
+BEFORE UPDATE OF status ON public.students
+FOR EACH ROW EXECUTE FUNCTION public.students_track_archive();
+
+-- 3) Students are archived, never deleted, so reading history is preserved
+DROP POLICY IF EXISTS "Admins can delete students" ON public.students;
+
+-- 4) Only active students pass validation
+CREATE OR REPLACE FUNCTION public.validate_lpu_student(student_num TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.students
+    WHERE student_no = student_num
+      AND status = 'active'
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in validate_lpu_student: %', SQLERRM;
+    RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_lpu_student_with_name(
+  student_num TEXT,
+  student_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  student_record RECORD;
+BEGIN
+  SELECT student_no, full_name, course_section, email, school_year, status
+  INTO student_record
+  FROM public.students
+  WHERE student_no = student_num;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'student_not_found',
+      'message', 'Student number not found in database'
+    );
+  END IF;
+
+  IF student_record.status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'student_archived',
+      'message', 'This student record is no longer active. Please contact the library staff.'
+    );
+  END IF;
+
+  IF LOWER(TRIM(student_record.full_name)) <> LOWER(TRIM(student_name)) THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'name_mismatch',
+      'message', 'Student name does not match the name on file',
+      'expected_name', student_record.full_name
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'student_details', jsonb_build_object(
+      'student_no', student_record.student_no,
+      'full_name', student_record.full_name,
+      'course_section', student_record.course_section,
+      'email', student_record.email,
+      'school_year', student_record.school_year
+    )
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in validate_lpu_student_with_name: %', SQLERRM;
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'validation_error',
+      'message', 'An error occurred during validation'
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.validate_lpu_student_with_name(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.validate_lpu_student_with_name(TEXT, TEXT) TO anon, authenticated, service_role;
+
+REVOKE ALL ON FUNCTION public.validate_lpu_student(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.validate_lpu_student(TEXT) TO anon, authenticated, service_role;
+
+-- 5) Archive a whole school year at once
+-- Moves every active student of the given school year to the given archived
+-- status and returns how many were archived.
+CREATE OR REPLACE FUNCTION public.archive_school_year(
+  p_school_year TEXT,
+  p_status TEXT DEFAULT 'graduated'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  archived INTEGER;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can archive students';
+  END IF;
+
+  IF p_status NOT IN ('graduated', 'withdrawn', 'deleted') THEN
+    RAISE EXCEPTION 'Invalid archive status: %', p_status;
+  END IF;
+
+  UPDATE students
+  SET status = p_status
+  WHERE school_year = p_school_year
+    AND status = 'active';
+
+  GET DIAGNOSTICS archived = ROW_COUNT;
+  RETURN archived;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.archive_school_year(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.archive_school_year(TEXT, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.archive_school_year(TEXT, TEXT) IS
+'Archives every active student of a school year as graduated, withdrawn or deleted. Returns the number archived.';
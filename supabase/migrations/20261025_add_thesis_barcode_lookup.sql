@@ -0,0 +1,41 @@
+-- Migration: Resolve scanned barcodes to theses for the submission book
+-- Date: 2026-10-25
+
+-- 1) Barcode lookup RPC
+-- Barcodes are unique per department, so a scan can match more than one
+-- thesis. Deleted matches are returned flagged and without their details so
+-- the form can tell patrons the copy was withdrawn rather than unknown.
+CREATE OR REPLACE FUNCTION public.lookup_thesis_by_barcode(p_barcode TEXT)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  is_deleted BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.barcode,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.thesis_title END,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.authors END,
+    t.department,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.publication_year END,
+    t.is_deleted
+  FROM thesis_data t
+  WHERE t.barcode = trim(p_barcode)
+  ORDER BY t.is_deleted, t.department;
+$$;
+
+-- 2) Grant permissions (the submission book is public)
+REVOKE ALL ON FUNCTION public.lookup_thesis_by_barcode(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.lookup_thesis_by_barcode(TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.lookup_thesis_by_barcode(TEXT) IS
+'Theses carrying a scanned barcode, active ones first. Deleted matches are flagged with their details withheld.';
@@ -0,0 +1,156 @@
+-- Migration: Link thesis_submissions to the thesis_data record that was read
+-- Date: 2026-10-26
+
+-- 1) Catalog link
+-- thesis_title stays as typed by the patron; thesis_id/thesis_barcode record
+-- the catalog entry it was matched to.
+ALTER TABLE public.thesis_submissions
+  ADD COLUMN IF NOT EXISTS thesis_id BIGINT,
+  ADD COLUMN IF NOT EXISTS thesis_barcode VARCHAR;
+
+ALTER TABLE public.thesis_submissions DROP CONSTRAINT IF EXISTS fk_thesis_submissions_thesis_id;
+ALTER TABLE public.thesis_submissions
+  ADD CONSTRAINT fk_thesis_submissions_thesis_id
+  FOREIGN KEY (thesis_id)
+  REFERENCES public.thesis_data(id)
+  ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_thesis_submissions_thesis_id
+  ON public.thesis_submissions(thesis_id);
+
+CREATE INDEX IF NOT EXISTS idx_thesis_submissions_unlinked_title
+  ON public.thesis_submissions(lower(trim(thesis_title)))
+  WHERE thesis_id IS NULL;
+
+-- 2) Backfill exact matches
+-- Titles that match exactly one active thesis (ignoring case and surrounding
+-- spaces) are linked straight away; the rest go through admin review.
+WITH unique_titles AS (
+  SELECT lower(trim(thesis_title)) AS title_key, MIN(id) AS thesis_id
+  FROM public.thesis_data
+  WHERE is_deleted = false
+  GROUP BY lower(trim(thesis_title))
+  HAVING COUNT(*) = 1
+)
+UPDATE public.thesis_submissions s
+SET thesis_id = t.id,
+    thesis_barcode = t.barcode
+FROM unique_titles u
+JOIN public.thesis_data t ON t.id = u.thesis_id
+WHERE s.thesis_id IS NULL
+  AND lower(trim(s.thesis_title)) = u.title_key;
+
+-- 3) Suggested links for the remaining free-text titles
+-- One row per distinct unlinked title with its closest active thesis by
+-- trigram similarity, most-read titles first.
+CREATE OR REPLACE FUNCTION public.suggest_submission_thesis_links(
+  p_min_similarity REAL DEFAULT 0.4,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  submission_title TEXT,
+  submission_count BIGINT,
+  thesis_id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  department VARCHAR,
+  publication_year INTEGER,
+  match_score REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can review submission links';
+  END IF;
+
+  RETURN QUERY
+  WITH unlinked AS (
+    SELECT MIN(s.thesis_title) AS title, COUNT(*) AS total
+    FROM thesis_submissions s
+    WHERE s.thesis_id IS NULL
+      AND trim(COALESCE(s.thesis_title, '')) <> ''
+    GROUP BY lower(trim(s.thesis_title))
+  )
+  SELECT
+    u.title,
+    u.total,
+    m.id,
+    m.barcode,
+    m.thesis_title,
+    m.department,
+    m.publication_year,
+    m.score
+  FROM unlinked u
+  CROSS JOIN LATERAL (
+    SELECT
+      t.id,
+      t.barcode,
+      t.thesis_title,
+      t.department,
+      t.publication_year,
+      similarity(lower(t.thesis_title), lower(trim(u.title))) AS score
+    FROM thesis_data t
+    WHERE t.is_deleted = false
+    ORDER BY 6 DESC
+    LIMIT 1
+  ) m
+  WHERE m.score >= COALESCE(p_min_similarity, 0.4)
+  ORDER BY u.total DESC, m.score DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 50), 200));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.suggest_submission_thesis_links(REAL, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.suggest_submission_thesis_links(REAL, INTEGER) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.suggest_submission_thesis_links(REAL, INTEGER) IS
+'Closest catalog thesis for each distinct unlinked submission title, for admin confirmation.';
+
+-- 4) Confirm a link
+-- Links every unlinked submission with the given title (ignoring case and
+-- surrounding spaces) and returns how many were updated.
+CREATE OR REPLACE FUNCTION public.link_submissions_to_thesis(
+  p_submission_title TEXT,
+  p_thesis_id BIGINT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_barcode VARCHAR;
+  linked INTEGER;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can link submissions';
+  END IF;
+
+  SELECT barcode INTO target_barcode
+  FROM thesis_data
+  WHERE id = p_thesis_id AND is_deleted = false;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thesis % does not exist or is deleted', p_thesis_id;
+  END IF;
+
+  UPDATE thesis_submissions
+  SET thesis_id = p_thesis_id,
+      thesis_barcode = target_barcode
+  WHERE thesis_id IS NULL
+    AND lower(trim(thesis_title)) = lower(trim(p_submission_title));
+
+  GET DIAGNOSTICS linked = ROW_COUNT;
+  RETURN linked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.link_submissions_to_thesis(TEXT, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.link_submissions_to_thesis(TEXT, BIGINT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.link_submissions_to_thesis(TEXT, BIGINT) IS
+'Links all unlinked submissions with a given free-text title to a catalog thesis. Returns the number linked.';
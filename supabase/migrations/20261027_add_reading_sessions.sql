@@ -0,0 +1,127 @@
+-- Migration: Check-out / return lifecycle for reading-room sessions
+-- Date: 2026-10-27
+
+-- 1) Return tracking
+-- A submission is the check-out; submission_date is when the thesis went out
+-- and returned_at is when it came back.
+ALTER TABLE public.thesis_submissions
+  ADD COLUMN IF NOT EXISTS returned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS returned_by UUID,
+  ADD COLUMN IF NOT EXISTS return_method TEXT;
+
+ALTER TABLE public.thesis_submissions DROP CONSTRAINT IF EXISTS thesis_submissions_return_method_check;
+ALTER TABLE public.thesis_submissions
+  ADD CONSTRAINT thesis_submissions_return_method_check
+  CHECK (return_method IN ('rescan', 'staff', 'next_checkout', 'legacy'));
+
+-- Records from before sessions were tracked are closed with an unknown duration
+UPDATE public.thesis_submissions
+SET returned_at = submission_date,
+    return_method = 'legacy'
+WHERE returned_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_thesis_submissions_open
+  ON public.thesis_submissions(submission_date)
+  WHERE returned_at IS NULL;
+
+-- 2) A new check-out of the same thesis closes any session left open
+CREATE OR REPLACE FUNCTION public.close_previous_reading_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.thesis_id IS NOT NULL THEN
+    UPDATE thesis_submissions
+    SET returned_at = NEW.submission_date,
+        return_method = 'next_checkout'
+    WHERE thesis_id = NEW.thesis_id
+      AND id <> NEW.id
+      AND returned_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_close_previous_reading_session ON public.thesis_submissions;
+CREATE TRIGGER trg_close_previous_reading_session
+AFTER INSERT ON public.thesis_submissions
+FOR EACH ROW EXECUTE FUNCTION public.close_previous_reading_session();
+
+-- 3) Return by re-scanning at the submission book
+-- Patrons are anonymous there, so this is the only way they can close a session.
+CREATE OR REPLACE FUNCTION public.return_thesis(p_thesis_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  returned INTEGER;
+BEGIN
+  UPDATE thesis_submissions
+  SET returned_at = now(),
+      returned_by = auth.uid(),
+      return_method = 'rescan'
+  WHERE thesis_id = p_thesis_id
+    AND returned_at IS NULL;
+
+  GET DIAGNOSTICS returned = ROW_COUNT;
+  RETURN returned;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.return_thesis(BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.return_thesis(BIGINT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.return_thesis(BIGINT) IS
+'Closes the open reading session for a thesis when it is re-scanned. Returns the number of sessions closed.';
+
+-- 4) Barcode lookup also reports whether the thesis is currently out
+DROP FUNCTION IF EXISTS public.lookup_thesis_by_barcode(TEXT);
+CREATE OR REPLACE FUNCTION public.lookup_thesis_by_barcode(p_barcode TEXT)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  is_deleted BOOLEAN,
+  checked_out_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.barcode,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.thesis_title END,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.authors END,
+    t.department,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.publication_year END,
+    t.is_deleted,
+    (
+      SELECT MAX(s.submission_date)
+      FROM thesis_submissions s
+      WHERE s.thesis_id = t.id
+        AND s.returned_at IS NULL
+    )
+  FROM thesis_data t
+  WHERE t.barcode = trim(p_barcode)
+  ORDER BY t.is_deleted, t.department;
+$$;
+
+REVOKE ALL ON FUNCTION public.lookup_thesis_by_barcode(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.lookup_thesis_by_barcode(TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.lookup_thesis_by_barcode(TEXT) IS
+'Theses carrying a scanned barcode, active ones first, with the start of any open reading session. Deleted matches are flagged with their details withheld.';
+
+-- 5) Minutes a thesis may stay out before the board flags it as overdue
+INSERT INTO public.app_settings (key, value)
+VALUES ('reading_overdue_minutes', '120'::jsonb)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,292 @@
+-- Migration: Thesis availability status and concurrent-use guard
+-- Date: 2026-10-28
+
+-- 1) Availability set by library staff
+-- 'in_use' is normally derived from open reading sessions (see step 2), so a
+-- check-out does not have to rewrite the catalog row; staff can still set it
+-- by hand for a copy taken out without a submission.
+ALTER TABLE public.thesis_data
+  ADD COLUMN IF NOT EXISTS availability TEXT NOT NULL DEFAULT 'available';
+
+ALTER TABLE public.thesis_data DROP CONSTRAINT IF EXISTS thesis_data_availability_check;
+ALTER TABLE public.thesis_data
+  ADD CONSTRAINT thesis_data_availability_check
+  CHECK (availability IN ('available', 'in_use', 'on_hold', 'missing', 'under_repair'));
+
+-- 2) Availability as patrons see it
+-- An 'available' thesis with an open reading session is in use.
+CREATE OR REPLACE FUNCTION public.effective_thesis_availability(
+  p_thesis_id BIGINT,
+  p_availability TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_availability = 'available' AND EXISTS (
+      SELECT 1
+      FROM thesis_submissions s
+      WHERE s.thesis_id = p_thesis_id
+        AND s.returned_at IS NULL
+    ) THEN 'in_use'
+    ELSE p_availability
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.effective_thesis_availability(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.effective_thesis_availability(BIGINT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.effective_thesis_availability(BIGINT, TEXT) IS
+'Staff-set availability of a thesis, reported as in_use while it has an open reading session.';
+
+-- 3) Refuse check-outs of copies that are not on the shelf
+-- Copies in use or on hold only produce a warning in the submission book; a
+-- new check-out closes the previous session (close_previous_reading_session).
+CREATE OR REPLACE FUNCTION public.guard_thesis_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_availability TEXT;
+BEGIN
+  IF NEW.thesis_id IS NOT NULL THEN
+    SELECT availability INTO current_availability
+    FROM thesis_data
+    WHERE id = NEW.thesis_id;
+
+    IF current_availability IN ('missing', 'under_repair') THEN
+      RAISE EXCEPTION 'Thesis % is not available for reading (%)', NEW.thesis_id, current_availability;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_thesis_availability ON public.thesis_submissions;
+CREATE TRIGGER trg_guard_thesis_availability
+BEFORE INSERT ON public.thesis_submissions
+FOR EACH ROW EXECUTE FUNCTION public.guard_thesis_availability();
+
+-- 4) Search suggestions carry the availability
+DROP FUNCTION IF EXISTS public.search_theses(TEXT, INTEGER);
+CREATE OR REPLACE FUNCTION public.search_theses(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  availability TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cleaned_query TEXT := lower(trim(COALESCE(search_query, '')));
+  prefix_query TSQUERY;
+BEGIN
+  IF length(cleaned_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(cleaned_query, '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    public.effective_thesis_availability(t.id, t.availability),
+    (
+      COALESCE(ts_rank_cd(t.search_vector, prefix_query), 0) * 2 +
+      word_similarity(cleaned_query, lower(t.thesis_title))
+    )::REAL AS rank
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (
+      (prefix_query IS NOT NULL AND t.search_vector @@ prefix_query)
+      OR cleaned_query <% lower(t.thesis_title)
+    )
+  ORDER BY 8 DESC, t.thesis_title
+  LIMIT GREATEST(1, LEAST(COALESCE(result_limit, 10), 50));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.search_theses(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.search_theses(TEXT, INTEGER) IS
+'Ranked thesis search over title, authors and department with prefix matching and trigram typo tolerance. Used by ThesisTitleSearch.';
+
+-- 5) So does the barcode lookup
+DROP FUNCTION IF EXISTS public.lookup_thesis_by_barcode(TEXT);
+CREATE OR REPLACE FUNCTION public.lookup_thesis_by_barcode(p_barcode TEXT)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  is_deleted BOOLEAN,
+  checked_out_at TIMESTAMPTZ,
+  availability TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.barcode,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.thesis_title END,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.authors END,
+    t.department,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.publication_year END,
+    t.is_deleted,
+    (
+      SELECT MAX(s.submission_date)
+      FROM thesis_submissions s
+      WHERE s.thesis_id = t.id
+        AND s.returned_at IS NULL
+    ),
+    public.effective_thesis_availability(t.id, t.availability)
+  FROM thesis_data t
+  WHERE t.barcode = trim(p_barcode)
+  ORDER BY t.is_deleted, t.department;
+$$;
+
+REVOKE ALL ON FUNCTION public.lookup_thesis_by_barcode(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.lookup_thesis_by_barcode(TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.lookup_thesis_by_barcode(TEXT) IS
+'Theses carrying a scanned barcode, active ones first, with the start of any open reading session and the current availability. Deleted matches are flagged with their details withheld.';
+
+-- 6) Admin table lists and sorts by availability
+DROP FUNCTION IF EXISTS public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION public.list_thesis_data(
+  p_search TEXT DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_barcode TEXT DEFAULT NULL,
+  p_year INTEGER DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_sort_column TEXT DEFAULT 'upload_date',
+  p_sort_ascending BOOLEAN DEFAULT false,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  upload_date TIMESTAMP WITH TIME ZONE,
+  last_modified TIMESTAMP WITH TIME ZONE,
+  is_deleted BOOLEAN,
+  availability TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200));
+  page_offset INTEGER;
+  sort_expression TEXT;
+  sort_direction TEXT := CASE WHEN COALESCE(p_sort_ascending, false) THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  sort_expression := CASE p_sort_column
+    WHEN 'barcode' THEN 't.barcode'
+    WHEN 'thesis_title' THEN 'lower(t.thesis_title)'
+    WHEN 'authors' THEN 'lower(array_to_string(t.authors, '', ''))'
+    WHEN 'department' THEN 'lower(t.department)'
+    WHEN 'publication_year' THEN 't.publication_year'
+    WHEN 'availability' THEN 'public.effective_thesis_availability(t.id, t.availability)'
+    WHEN 'last_modified' THEN 't.last_modified'
+    ELSE 't.upload_date'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    $query$
+      SELECT
+        t.id,
+        t.barcode,
+        t.thesis_title,
+        t.authors,
+        t.department,
+        t.publication_year,
+        t.upload_date,
+        t.last_modified,
+        t.is_deleted,
+        public.effective_thesis_availability(t.id, t.availability),
+        COUNT(*) OVER () AS total_count
+      FROM public.thesis_data t
+      WHERE t.is_deleted = false
+        AND (
+          $1 IS NULL
+          OR t.thesis_title ILIKE '%%' || $1 || '%%'
+          OR array_to_string(t.authors, ' ') ILIKE '%%' || $1 || '%%'
+          OR t.department ILIKE '%%' || $1 || '%%'
+          OR t.barcode ILIKE '%%' || $1 || '%%'
+        )
+        AND ($2 IS NULL OR lower(t.department) = lower($2))
+        AND ($3 IS NULL OR array_to_string(t.authors, ' ') ILIKE '%%' || $3 || '%%')
+        AND ($4 IS NULL OR t.barcode ILIKE '%%' || $4 || '%%')
+        AND ($5 IS NULL OR t.publication_year = $5)
+        AND ($6 IS NULL OR t.publication_year >= $6)
+        AND ($7 IS NULL OR t.publication_year <= $7)
+      ORDER BY %s %s, t.id %s
+      OFFSET $8
+      LIMIT $9
+    $query$,
+    sort_expression,
+    sort_direction,
+    sort_direction
+  )
+  USING
+    NULLIF(TRIM(p_search), ''),
+    NULLIF(TRIM(p_department), ''),
+    NULLIF(TRIM(p_author), ''),
+    NULLIF(TRIM(p_barcode), ''),
+    p_year,
+    p_year_from,
+    p_year_to,
+    page_offset,
+    page_size;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) IS
+'Server-side filtered, sorted and paginated thesis_data listing for the admin ThesisDataTable. total_count is repeated on every row.';
@@ -0,0 +1,569 @@
+-- Migration: Reservation queue for theses that are being read
+-- Date: 2026-10-29
+
+-- 1) Reservations
+-- A reservation waits in line until the thesis is back on the shelf, then the
+-- first student in line gets a time-limited hold ('ready'). Checking the thesis
+-- out fulfils the reservation; a hold that runs out is expired and the next
+-- student is moved up.
+CREATE TABLE IF NOT EXISTS public.thesis_reservations (
+  id BIGSERIAL PRIMARY KEY,
+  thesis_id BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  student_no TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'ready', 'fulfilled', 'cancelled', 'expired')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ready_at TIMESTAMPTZ,
+  hold_expires_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID
+);
+
+-- One place in line per student per thesis
+CREATE UNIQUE INDEX IF NOT EXISTS uq_thesis_reservations_active
+  ON public.thesis_reservations(thesis_id, student_no)
+  WHERE status IN ('waiting', 'ready');
+
+CREATE INDEX IF NOT EXISTS idx_thesis_reservations_queue
+  ON public.thesis_reservations(thesis_id, created_at)
+  WHERE status IN ('waiting', 'ready');
+
+ALTER TABLE public.thesis_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Patrons are anonymous at the kiosk and only go through the RPCs below
+DROP POLICY IF EXISTS "Admins can select thesis reservations" ON public.thesis_reservations;
+CREATE POLICY "Admins can select thesis reservations"
+ON public.thesis_reservations
+FOR SELECT
+USING (is_admin_user());
+
+GRANT SELECT ON public.thesis_reservations TO authenticated;
+GRANT ALL ON public.thesis_reservations TO service_role;
+
+-- Minutes a returned thesis is held for the next student in line
+INSERT INTO public.app_settings (key, value)
+VALUES ('reservation_hold_minutes', '30'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- 2) Queue position
+-- 1 is the front of the line, including a student whose hold is ready.
+CREATE OR REPLACE FUNCTION public.reservation_queue_position(p_reservation_id BIGINT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM thesis_reservations mine
+  JOIN thesis_reservations ahead
+    ON ahead.thesis_id = mine.thesis_id
+   AND ahead.status IN ('waiting', 'ready')
+   AND (ahead.status = 'ready' OR (ahead.created_at, ahead.id) <= (mine.created_at, mine.id))
+  WHERE mine.id = p_reservation_id
+    AND mine.status IN ('waiting', 'ready');
+$$;
+
+-- 3) Move the queue along
+-- Expires a hold that ran out, then gives the next student a hold if the
+-- thesis is back on the shelf and nobody is holding it.
+CREATE OR REPLACE FUNCTION public.advance_reservation_queue(p_thesis_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hold_minutes INTEGER;
+BEGIN
+  UPDATE thesis_reservations
+  SET status = 'expired',
+      closed_at = now()
+  WHERE thesis_id = p_thesis_id
+    AND status = 'ready'
+    AND hold_expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM thesis_reservations
+    WHERE thesis_id = p_thesis_id AND status = 'ready'
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thesis_data
+    WHERE id = p_thesis_id AND availability = 'available' AND is_deleted = false
+  ) OR EXISTS (
+    SELECT 1 FROM thesis_submissions
+    WHERE thesis_id = p_thesis_id AND returned_at IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT (value #>> '{}')::INTEGER
+  INTO hold_minutes
+  FROM app_settings
+  WHERE key = 'reservation_hold_minutes';
+
+  UPDATE thesis_reservations
+  SET status = 'ready',
+      ready_at = now(),
+      hold_expires_at = now() + make_interval(mins => GREATEST(COALESCE(hold_minutes, 30), 1))
+  WHERE id = (
+    SELECT id FROM thesis_reservations
+    WHERE thesis_id = p_thesis_id AND status = 'waiting'
+    ORDER BY created_at, id
+    LIMIT 1
+  );
+END;
+$$;
+
+-- Holds run out with time rather than on an event, so every reservation read
+-- moves the queues along first.
+CREATE OR REPLACE FUNCTION public.refresh_reservation_queues()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  queued RECORD;
+BEGIN
+  FOR queued IN
+    SELECT DISTINCT thesis_id
+    FROM thesis_reservations
+    WHERE status IN ('waiting', 'ready')
+  LOOP
+    PERFORM advance_reservation_queue(queued.thesis_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reservation_queue_position(BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.advance_reservation_queue(BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.refresh_reservation_queues() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reservation_queue_position(BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.advance_reservation_queue(BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_reservation_queues() TO service_role;
+
+-- 4) Keep the queue in step with check-outs, returns and staff changes
+CREATE OR REPLACE FUNCTION public.sync_reservations_with_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.thesis_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Checking out a reserved thesis uses up the reservation
+    UPDATE thesis_reservations
+    SET status = 'fulfilled',
+        closed_at = now()
+    WHERE thesis_id = NEW.thesis_id
+      AND student_no = NEW.student_number
+      AND status IN ('waiting', 'ready');
+  ELSIF OLD.returned_at IS NULL AND NEW.returned_at IS NOT NULL THEN
+    PERFORM advance_reservation_queue(NEW.thesis_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_reservations_on_checkout ON public.thesis_submissions;
+CREATE TRIGGER trg_sync_reservations_on_checkout
+AFTER INSERT ON public.thesis_submissions
+FOR EACH ROW EXECUTE FUNCTION public.sync_reservations_with_sessions();
+
+DROP TRIGGER IF EXISTS trg_sync_reservations_on_return ON public.thesis_submissions;
+CREATE TRIGGER trg_sync_reservations_on_return
+AFTER UPDATE OF returned_at ON public.thesis_submissions
+FOR EACH ROW EXECUTE FUNCTION public.sync_reservations_with_sessions();
+
+CREATE OR REPLACE FUNCTION public.advance_reservations_on_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.availability = 'available' AND OLD.availability IS DISTINCT FROM 'available' THEN
+    PERFORM advance_reservation_queue(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_advance_reservations_on_availability ON public.thesis_data;
+CREATE TRIGGER trg_advance_reservations_on_availability
+AFTER UPDATE OF availability ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.advance_reservations_on_availability();
+
+-- 5) A held thesis is on hold for everyone but the student holding it
+CREATE OR REPLACE FUNCTION public.effective_thesis_availability(
+  p_thesis_id BIGINT,
+  p_availability TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_availability <> 'available' THEN p_availability
+    WHEN EXISTS (
+      SELECT 1
+      FROM thesis_submissions s
+      WHERE s.thesis_id = p_thesis_id
+        AND s.returned_at IS NULL
+    ) THEN 'in_use'
+    WHEN EXISTS (
+      SELECT 1
+      FROM thesis_reservations r
+      WHERE r.thesis_id = p_thesis_id
+        AND r.status = 'ready'
+        AND r.hold_expires_at > now()
+    ) THEN 'on_hold'
+    ELSE p_availability
+  END;
+$$;
+
+COMMENT ON FUNCTION public.effective_thesis_availability(BIGINT, TEXT) IS
+'Staff-set availability of a thesis, reported as in_use while it has an open reading session and on_hold while a reservation hold is ready.';
+
+CREATE OR REPLACE FUNCTION public.guard_thesis_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_availability TEXT;
+BEGIN
+  IF NEW.thesis_id IS NOT NULL THEN
+    SELECT availability INTO current_availability
+    FROM thesis_data
+    WHERE id = NEW.thesis_id;
+
+    IF current_availability IN ('missing', 'under_repair') THEN
+      RAISE EXCEPTION 'Thesis % is not available for reading (%)', NEW.thesis_id, current_availability;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM thesis_reservations r
+      WHERE r.thesis_id = NEW.thesis_id
+        AND r.status = 'ready'
+        AND r.hold_expires_at > now()
+        AND r.student_no IS DISTINCT FROM NEW.student_number
+    ) THEN
+      RAISE EXCEPTION 'Thesis % is not available for reading (on hold)', NEW.thesis_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 6) Patron RPCs
+-- Every call re-checks the student number and name the same way the
+-- submission book does, since patrons are not signed in.
+CREATE OR REPLACE FUNCTION public.reserve_thesis(
+  p_thesis_id BIGINT,
+  p_student_no TEXT,
+  p_full_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  validation JSONB;
+  thesis_record RECORD;
+  reservation_id BIGINT;
+  already_reserved BOOLEAN := false;
+BEGIN
+  validation := validate_lpu_student_with_name(p_student_no, p_full_name);
+  IF NOT COALESCE((validation ->> 'valid')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', validation ->> 'error',
+      'message', validation ->> 'message'
+    );
+  END IF;
+
+  SELECT id, availability INTO thesis_record
+  FROM thesis_data
+  WHERE id = p_thesis_id AND is_deleted = false;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'thesis_not_found', 'message', 'Thesis not found');
+  END IF;
+
+  IF thesis_record.availability IN ('missing', 'under_repair') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'thesis_unavailable',
+      'message', 'This thesis cannot be reserved right now. Please ask the library staff.'
+    );
+  END IF;
+
+  PERFORM advance_reservation_queue(p_thesis_id);
+
+  SELECT id INTO reservation_id
+  FROM thesis_reservations
+  WHERE thesis_id = p_thesis_id
+    AND student_no = TRIM(p_student_no)
+    AND status IN ('waiting', 'ready');
+
+  IF FOUND THEN
+    already_reserved := true;
+  ELSE
+    IF effective_thesis_availability(p_thesis_id, thesis_record.availability) = 'available'
+      AND NOT EXISTS (
+        SELECT 1 FROM thesis_reservations
+        WHERE thesis_id = p_thesis_id AND status IN ('waiting', 'ready')
+      )
+    THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'thesis_available',
+        'message', 'This thesis is on the shelf. You can read it now.'
+      );
+    END IF;
+
+    INSERT INTO thesis_reservations (thesis_id, student_no, full_name)
+    VALUES (p_thesis_id, TRIM(p_student_no), validation #>> '{student_details,full_name}')
+    RETURNING id INTO reservation_id;
+
+    PERFORM advance_reservation_queue(p_thesis_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_reserved', already_reserved,
+    'reservation_id', reservation_id,
+    'status', (SELECT status FROM thesis_reservations WHERE id = reservation_id),
+    'position', reservation_queue_position(reservation_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_student_reservations(
+  p_student_no TEXT,
+  p_full_name TEXT
+)
+RETURNS TABLE (
+  id BIGINT,
+  thesis_id BIGINT,
+  thesis_title TEXT,
+  barcode VARCHAR,
+  status TEXT,
+  queue_position INTEGER,
+  created_at TIMESTAMPTZ,
+  hold_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE((validate_lpu_student_with_name(p_student_no, p_full_name) ->> 'valid')::BOOLEAN, false) THEN
+    RETURN;
+  END IF;
+
+  PERFORM refresh_reservation_queues();
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.thesis_id,
+    t.thesis_title,
+    t.barcode,
+    r.status,
+    reservation_queue_position(r.id),
+    r.created_at,
+    r.hold_expires_at
+  FROM thesis_reservations r
+  JOIN thesis_data t ON t.id = r.thesis_id
+  WHERE r.student_no = TRIM(p_student_no)
+    AND r.status IN ('waiting', 'ready')
+  ORDER BY r.status = 'ready' DESC, r.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_student_reservation(
+  p_reservation_id BIGINT,
+  p_student_no TEXT,
+  p_full_name TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cancelled_thesis_id BIGINT;
+BEGIN
+  IF NOT COALESCE((validate_lpu_student_with_name(p_student_no, p_full_name) ->> 'valid')::BOOLEAN, false) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE thesis_reservations
+  SET status = 'cancelled',
+      closed_at = now()
+  WHERE id = p_reservation_id
+    AND student_no = TRIM(p_student_no)
+    AND status IN ('waiting', 'ready')
+  RETURNING thesis_id INTO cancelled_thesis_id;
+
+  IF cancelled_thesis_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM advance_reservation_queue(cancelled_thesis_id);
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_thesis(BIGINT, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_student_reservations(TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.cancel_student_reservation(BIGINT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_thesis(BIGINT, TEXT, TEXT) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_student_reservations(TEXT, TEXT) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_student_reservation(BIGINT, TEXT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.reserve_thesis(BIGINT, TEXT, TEXT) IS
+'Queues a validated LPU student for a thesis that is in use or held. Returns the reservation id, status and queue position.';
+COMMENT ON FUNCTION public.get_student_reservations(TEXT, TEXT) IS
+'Active reservations of a validated LPU student with their queue positions.';
+COMMENT ON FUNCTION public.cancel_student_reservation(BIGINT, TEXT, TEXT) IS
+'Lets a validated LPU student leave a queue.';
+
+-- 7) Admin queue management
+CREATE OR REPLACE FUNCTION public.list_thesis_reservations(p_thesis_id BIGINT DEFAULT NULL)
+RETURNS TABLE (
+  id BIGINT,
+  thesis_id BIGINT,
+  thesis_title TEXT,
+  barcode VARCHAR,
+  student_no TEXT,
+  full_name TEXT,
+  status TEXT,
+  queue_position INTEGER,
+  created_at TIMESTAMPTZ,
+  ready_at TIMESTAMPTZ,
+  hold_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can view the reservation queue';
+  END IF;
+
+  PERFORM refresh_reservation_queues();
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.thesis_id,
+    t.thesis_title,
+    t.barcode,
+    r.student_no,
+    r.full_name,
+    r.status,
+    reservation_queue_position(r.id),
+    r.created_at,
+    r.ready_at,
+    r.hold_expires_at
+  FROM thesis_reservations r
+  JOIN thesis_data t ON t.id = r.thesis_id
+  WHERE r.status IN ('waiting', 'ready')
+    AND (p_thesis_id IS NULL OR r.thesis_id = p_thesis_id)
+  ORDER BY t.thesis_title, r.thesis_id, 8;
+END;
+$$;
+
+-- Actions: 'hold' gives the student a hold now, 'extend' restarts a hold,
+-- 'fulfil' closes it as picked up and 'cancel' removes it from the line.
+-- A thesis has one hold at a time, so 'hold' is refused while another
+-- student's hold is still running.
+CREATE OR REPLACE FUNCTION public.manage_reservation(
+  p_reservation_id BIGINT,
+  p_action TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target RECORD;
+  hold_minutes INTEGER;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can manage reservations';
+  END IF;
+
+  SELECT * INTO target
+  FROM thesis_reservations
+  WHERE id = p_reservation_id AND status IN ('waiting', 'ready');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation % is not in the queue', p_reservation_id;
+  END IF;
+
+  SELECT (value #>> '{}')::INTEGER
+  INTO hold_minutes
+  FROM app_settings
+  WHERE key = 'reservation_hold_minutes';
+  hold_minutes := GREATEST(COALESCE(hold_minutes, 30), 1);
+
+  IF p_action = 'hold' AND EXISTS (
+    SELECT 1 FROM thesis_reservations
+    WHERE thesis_id = target.thesis_id
+      AND id <> p_reservation_id
+      AND status = 'ready'
+      AND hold_expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'Another student already has this thesis on hold';
+  END IF;
+
+  CASE p_action
+    WHEN 'hold', 'extend' THEN
+      UPDATE thesis_reservations
+      SET status = 'ready',
+          ready_at = COALESCE(ready_at, now()),
+          hold_expires_at = now() + make_interval(mins => hold_minutes)
+      WHERE id = p_reservation_id;
+    WHEN 'fulfil', 'cancel' THEN
+      UPDATE thesis_reservations
+      SET status = CASE WHEN p_action = 'fulfil' THEN 'fulfilled' ELSE 'cancelled' END,
+          closed_at = now(),
+          closed_by = auth.uid()
+      WHERE id = p_reservation_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown reservation action %', p_action;
+  END CASE;
+
+  PERFORM advance_reservation_queue(target.thesis_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_thesis_reservations(BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.manage_reservation(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_thesis_reservations(BIGINT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.manage_reservation(BIGINT, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.list_thesis_reservations(BIGINT) IS
+'Active reservations in queue order, for one thesis or all of them. Admin only.';
+COMMENT ON FUNCTION public.manage_reservation(BIGINT, TEXT) IS
+'Admin actions on a queued reservation: hold, extend, fulfil or cancel.';
@@ -0,0 +1,820 @@
+-- Migration: Multi-copy holdings per thesis
+-- Date: 2026-10-30
+
+-- 1) Copies
+-- thesis_data is the bibliographic record; every physical copy on the shelf
+-- has its own barcode, location and condition. thesis_data.barcode is kept as
+-- the barcode of the first copy so existing links, submissions and the public
+-- catalog URLs keep working (see step 3).
+CREATE TABLE IF NOT EXISTS public.thesis_copies (
+  id BIGSERIAL PRIMARY KEY,
+  thesis_id BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  barcode VARCHAR NOT NULL,
+  location TEXT,
+  condition TEXT NOT NULL DEFAULT 'good'
+    CHECK (condition IN ('good', 'fair', 'poor', 'damaged')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_modified TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT thesis_copies_thesis_barcode_key UNIQUE (thesis_id, barcode)
+);
+
+-- Barcodes from before this migration are only unique per department, so
+-- uniqueness across theses is enforced by the admin UI and import instead.
+CREATE INDEX IF NOT EXISTS idx_thesis_copies_barcode ON public.thesis_copies(barcode);
+
+-- One copy for every existing record, trashed ones included so a restore
+-- brings its copy back with it
+INSERT INTO public.thesis_copies (thesis_id, barcode)
+SELECT id, barcode
+FROM public.thesis_data
+ON CONFLICT (thesis_id, barcode) DO NOTHING;
+
+-- Copies replace the barcode/department workaround from 20251104
+ALTER TABLE public.thesis_data DROP CONSTRAINT IF EXISTS thesis_data_barcode_department_key;
+
+ALTER TABLE public.thesis_copies ENABLE ROW LEVEL SECURITY;
+
+-- Copy locations are shown in the public catalog
+DROP POLICY IF EXISTS "Anyone can select thesis copies" ON public.thesis_copies;
+CREATE POLICY "Anyone can select thesis copies"
+ON public.thesis_copies
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can insert thesis copies" ON public.thesis_copies;
+CREATE POLICY "Admins can insert thesis copies"
+ON public.thesis_copies
+FOR INSERT
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can update thesis copies" ON public.thesis_copies;
+CREATE POLICY "Admins can update thesis copies"
+ON public.thesis_copies
+FOR UPDATE
+USING (is_admin_user())
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can delete thesis copies" ON public.thesis_copies;
+CREATE POLICY "Admins can delete thesis copies"
+ON public.thesis_copies
+FOR DELETE
+USING (is_admin_user());
+
+GRANT SELECT ON public.thesis_copies TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.thesis_copies TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.thesis_copies_id_seq TO authenticated;
+GRANT ALL ON public.thesis_copies TO service_role;
+
+DROP TRIGGER IF EXISTS trg_audit_thesis_copies ON public.thesis_copies;
+CREATE TRIGGER trg_audit_thesis_copies
+AFTER INSERT OR UPDATE OR DELETE ON public.thesis_copies
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('id', 'last_modified');
+
+-- 2) Copy count used by the circulation rules below
+-- Never less than one, so a record without copies still behaves like a single copy.
+CREATE OR REPLACE FUNCTION public.thesis_copy_count(p_thesis_id BIGINT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(COUNT(*), 1)::INTEGER
+  FROM thesis_copies
+  WHERE thesis_id = p_thesis_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.thesis_copy_count(BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.thesis_copy_count(BIGINT) TO anon, authenticated, service_role;
+
+-- 3) Keep thesis_data.barcode and the copies in step
+-- A new record gets its first copy from the barcode it was created with.
+CREATE OR REPLACE FUNCTION public.thesis_data_create_first_copy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO thesis_copies (thesis_id, barcode)
+  VALUES (NEW.id, NEW.barcode)
+  ON CONFLICT (thesis_id, barcode) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_data_create_first_copy ON public.thesis_data;
+CREATE TRIGGER trg_thesis_data_create_first_copy
+AFTER INSERT ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.thesis_data_create_first_copy();
+
+CREATE OR REPLACE FUNCTION public.thesis_copies_touch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.barcode := TRIM(NEW.barcode);
+  NEW.location := NULLIF(TRIM(NEW.location), '');
+  NEW.notes := NULLIF(TRIM(NEW.notes), '');
+  NEW.last_modified := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_copies_touch ON public.thesis_copies;
+CREATE TRIGGER trg_thesis_copies_touch
+BEFORE INSERT OR UPDATE ON public.thesis_copies
+FOR EACH ROW EXECUTE FUNCTION public.thesis_copies_touch();
+
+-- Deleting a thesis removes its copies; deleting its last copy on its own is refused.
+CREATE OR REPLACE FUNCTION public.thesis_copies_keep_one()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM thesis_data WHERE id = OLD.thesis_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM thesis_copies
+      WHERE thesis_id = OLD.thesis_id AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'Thesis % must keep at least one copy', OLD.thesis_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_copies_keep_one ON public.thesis_copies;
+CREATE TRIGGER trg_thesis_copies_keep_one
+BEFORE DELETE ON public.thesis_copies
+FOR EACH ROW EXECUTE FUNCTION public.thesis_copies_keep_one();
+
+-- The first remaining copy supplies thesis_data.barcode
+CREATE OR REPLACE FUNCTION public.sync_thesis_primary_barcode()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected_thesis BIGINT := CASE WHEN TG_OP = 'DELETE' THEN OLD.thesis_id ELSE NEW.thesis_id END;
+  primary_barcode VARCHAR;
+BEGIN
+  SELECT barcode INTO primary_barcode
+  FROM thesis_copies
+  WHERE thesis_id = affected_thesis
+  ORDER BY id
+  LIMIT 1;
+
+  IF primary_barcode IS NOT NULL THEN
+    UPDATE thesis_data
+    SET barcode = primary_barcode
+    WHERE id = affected_thesis
+      AND barcode IS DISTINCT FROM primary_barcode;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_thesis_primary_barcode ON public.thesis_copies;
+CREATE TRIGGER trg_sync_thesis_primary_barcode
+AFTER INSERT OR DELETE OR UPDATE OF barcode ON public.thesis_copies
+FOR EACH ROW EXECUTE FUNCTION public.sync_thesis_primary_barcode();
+
+-- 4) Circulation counts copies
+-- A thesis is in use once every copy is out, and on hold once the remaining
+-- copies are all held for students in the reservation queue.
+CREATE OR REPLACE FUNCTION public.effective_thesis_availability(
+  p_thesis_id BIGINT,
+  p_availability TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_availability <> 'available' THEN p_availability
+    WHEN counts.out_count >= counts.copy_count THEN 'in_use'
+    WHEN counts.out_count + counts.held_count >= counts.copy_count THEN 'on_hold'
+    ELSE p_availability
+  END
+  FROM (
+    SELECT
+      thesis_copy_count(p_thesis_id) AS copy_count,
+      (
+        SELECT COUNT(*)
+        FROM thesis_submissions s
+        WHERE s.thesis_id = p_thesis_id
+          AND s.returned_at IS NULL
+      ) AS out_count,
+      (
+        SELECT COUNT(*)
+        FROM thesis_reservations r
+        WHERE r.thesis_id = p_thesis_id
+          AND r.status = 'ready'
+          AND r.hold_expires_at > now()
+      ) AS held_count
+  ) counts;
+$$;
+
+COMMENT ON FUNCTION public.effective_thesis_availability(BIGINT, TEXT) IS
+'Staff-set availability of a thesis, reported as in_use while every copy is out and on_hold while the copies left are held for reservations.';
+
+CREATE OR REPLACE FUNCTION public.guard_thesis_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_availability TEXT;
+  held_for_others INTEGER;
+  out_count INTEGER;
+BEGIN
+  IF NEW.thesis_id IS NOT NULL THEN
+    SELECT availability INTO current_availability
+    FROM thesis_data
+    WHERE id = NEW.thesis_id;
+
+    IF current_availability IN ('missing', 'under_repair') THEN
+      RAISE EXCEPTION 'Thesis % is not available for reading (%)', NEW.thesis_id, current_availability;
+    END IF;
+
+    SELECT COUNT(*) INTO held_for_others
+    FROM thesis_reservations r
+    WHERE r.thesis_id = NEW.thesis_id
+      AND r.status = 'ready'
+      AND r.hold_expires_at > now()
+      AND r.student_no IS DISTINCT FROM NEW.student_number;
+
+    SELECT COUNT(*) INTO out_count
+    FROM thesis_submissions s
+    WHERE s.thesis_id = NEW.thesis_id
+      AND s.returned_at IS NULL;
+
+    IF held_for_others > 0 AND out_count + held_for_others >= thesis_copy_count(NEW.thesis_id) THEN
+      RAISE EXCEPTION 'Thesis % is not available for reading (on hold)', NEW.thesis_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Every free copy goes to the next student in line
+CREATE OR REPLACE FUNCTION public.advance_reservation_queue(p_thesis_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hold_minutes INTEGER;
+  free_copies INTEGER;
+BEGIN
+  UPDATE thesis_reservations
+  SET status = 'expired',
+      closed_at = now()
+  WHERE thesis_id = p_thesis_id
+    AND status = 'ready'
+    AND hold_expires_at <= now();
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thesis_data
+    WHERE id = p_thesis_id AND availability = 'available' AND is_deleted = false
+  ) THEN
+    RETURN;
+  END IF;
+
+  free_copies := thesis_copy_count(p_thesis_id)
+    - (SELECT COUNT(*) FROM thesis_submissions WHERE thesis_id = p_thesis_id AND returned_at IS NULL)
+    - (SELECT COUNT(*) FROM thesis_reservations WHERE thesis_id = p_thesis_id AND status = 'ready');
+
+  IF free_copies <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT (value #>> '{}')::INTEGER
+  INTO hold_minutes
+  FROM app_settings
+  WHERE key = 'reservation_hold_minutes';
+
+  UPDATE thesis_reservations
+  SET status = 'ready',
+      ready_at = now(),
+      hold_expires_at = now() + make_interval(mins => GREATEST(COALESCE(hold_minutes, 30), 1))
+  WHERE id IN (
+    SELECT id FROM thesis_reservations
+    WHERE thesis_id = p_thesis_id AND status = 'waiting'
+    ORDER BY created_at, id
+    LIMIT free_copies
+  );
+END;
+$$;
+
+-- A new check-out closes the session left open on the same copy, and the
+-- oldest sessions once more copies are out than the library holds.
+CREATE OR REPLACE FUNCTION public.close_previous_reading_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  extra_sessions INTEGER;
+BEGIN
+  IF NEW.thesis_id IS NOT NULL THEN
+    IF NEW.thesis_barcode IS NOT NULL THEN
+      UPDATE thesis_submissions
+      SET returned_at = NEW.submission_date,
+          return_method = 'next_checkout'
+      WHERE thesis_id = NEW.thesis_id
+        AND thesis_barcode = NEW.thesis_barcode
+        AND id <> NEW.id
+        AND returned_at IS NULL;
+    END IF;
+
+    SELECT COUNT(*) - thesis_copy_count(NEW.thesis_id) INTO extra_sessions
+    FROM thesis_submissions
+    WHERE thesis_id = NEW.thesis_id
+      AND returned_at IS NULL;
+
+    IF extra_sessions > 0 THEN
+      UPDATE thesis_submissions
+      SET returned_at = NEW.submission_date,
+          return_method = 'next_checkout'
+      WHERE id IN (
+        SELECT id FROM thesis_submissions
+        WHERE thesis_id = NEW.thesis_id
+          AND id <> NEW.id
+          AND returned_at IS NULL
+        ORDER BY submission_date, id
+        LIMIT extra_sessions
+      );
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Re-scanning a copy returns that copy. A session recorded without the copy's
+-- barcode (picked by title) is matched to the oldest one still out.
+DROP FUNCTION IF EXISTS public.return_thesis(BIGINT);
+CREATE OR REPLACE FUNCTION public.return_thesis(
+  p_thesis_id BIGINT,
+  p_barcode TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  returned INTEGER;
+BEGIN
+  IF NULLIF(TRIM(p_barcode), '') IS NULL THEN
+    UPDATE thesis_submissions
+    SET returned_at = now(),
+        returned_by = auth.uid(),
+        return_method = 'rescan'
+    WHERE thesis_id = p_thesis_id
+      AND returned_at IS NULL;
+
+    GET DIAGNOSTICS returned = ROW_COUNT;
+    RETURN returned;
+  END IF;
+
+  UPDATE thesis_submissions
+  SET returned_at = now(),
+      returned_by = auth.uid(),
+      return_method = 'rescan'
+  WHERE thesis_id = p_thesis_id
+    AND thesis_barcode = TRIM(p_barcode)
+    AND returned_at IS NULL;
+
+  GET DIAGNOSTICS returned = ROW_COUNT;
+  IF returned > 0 THEN
+    RETURN returned;
+  END IF;
+
+  UPDATE thesis_submissions
+  SET returned_at = now(),
+      returned_by = auth.uid(),
+      return_method = 'rescan'
+  WHERE id = (
+    SELECT id FROM thesis_submissions
+    WHERE thesis_id = p_thesis_id
+      AND returned_at IS NULL
+    ORDER BY submission_date, id
+    LIMIT 1
+  );
+
+  GET DIAGNOSTICS returned = ROW_COUNT;
+  RETURN returned;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.return_thesis(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.return_thesis(BIGINT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.return_thesis(BIGINT, TEXT) IS
+'Closes the open reading session for a re-scanned copy, or every open session of the thesis when no barcode is given. Returns the number of sessions closed.';
+
+-- 5) The barcode lookup resolves copies
+DROP FUNCTION IF EXISTS public.lookup_thesis_by_barcode(TEXT);
+CREATE OR REPLACE FUNCTION public.lookup_thesis_by_barcode(p_barcode TEXT)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  is_deleted BOOLEAN,
+  checked_out_at TIMESTAMPTZ,
+  availability TEXT,
+  location TEXT,
+  copy_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    c.barcode,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.thesis_title END,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.authors END,
+    t.department,
+    CASE WHEN t.is_deleted THEN NULL ELSE t.publication_year END,
+    t.is_deleted,
+    (
+      SELECT MAX(s.submission_date)
+      FROM thesis_submissions s
+      WHERE s.thesis_id = t.id
+        AND s.returned_at IS NULL
+        AND (s.thesis_barcode = c.barcode OR public.thesis_copy_count(t.id) = 1)
+    ),
+    public.effective_thesis_availability(t.id, t.availability),
+    c.location,
+    public.thesis_copy_count(t.id)
+  FROM thesis_copies c
+  JOIN thesis_data t ON t.id = c.thesis_id
+  WHERE c.barcode = trim(p_barcode)
+  ORDER BY t.is_deleted, t.department;
+$$;
+
+REVOKE ALL ON FUNCTION public.lookup_thesis_by_barcode(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.lookup_thesis_by_barcode(TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.lookup_thesis_by_barcode(TEXT) IS
+'Theses with a copy carrying a scanned barcode, active ones first, with the start of any open reading session on that copy, the current availability and the copy location. Deleted matches are flagged with their details withheld.';
+
+-- 6) Search suggestions report how many copies a title has
+DROP FUNCTION IF EXISTS public.search_theses(TEXT, INTEGER);
+CREATE OR REPLACE FUNCTION public.search_theses(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  availability TEXT,
+  copy_count INTEGER,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cleaned_query TEXT := lower(trim(COALESCE(search_query, '')));
+  prefix_query TSQUERY;
+BEGIN
+  IF length(cleaned_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(cleaned_query, '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    public.effective_thesis_availability(t.id, t.availability),
+    public.thesis_copy_count(t.id),
+    (
+      COALESCE(ts_rank_cd(t.search_vector, prefix_query), 0) * 2 +
+      word_similarity(cleaned_query, lower(t.thesis_title))
+    )::REAL AS rank
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (
+      (prefix_query IS NOT NULL AND t.search_vector @@ prefix_query)
+      OR cleaned_query <% lower(t.thesis_title)
+    )
+  ORDER BY 9 DESC, t.thesis_title
+  LIMIT GREATEST(1, LEAST(COALESCE(result_limit, 10), 50));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.search_theses(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.search_theses(TEXT, INTEGER) IS
+'Ranked thesis search over title, authors and department with prefix matching and trigram typo tolerance. Used by ThesisTitleSearch.';
+
+-- 7) Admin table: one row per title, found by any of its copy barcodes
+DROP FUNCTION IF EXISTS public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION public.list_thesis_data(
+  p_search TEXT DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_barcode TEXT DEFAULT NULL,
+  p_year INTEGER DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_sort_column TEXT DEFAULT 'upload_date',
+  p_sort_ascending BOOLEAN DEFAULT false,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  upload_date TIMESTAMP WITH TIME ZONE,
+  last_modified TIMESTAMP WITH TIME ZONE,
+  is_deleted BOOLEAN,
+  availability TEXT,
+  copy_count INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200));
+  page_offset INTEGER;
+  sort_expression TEXT;
+  sort_direction TEXT := CASE WHEN COALESCE(p_sort_ascending, false) THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  sort_expression := CASE p_sort_column
+    WHEN 'barcode' THEN 't.barcode'
+    WHEN 'thesis_title' THEN 'lower(t.thesis_title)'
+    WHEN 'authors' THEN 'lower(array_to_string(t.authors, '', ''))'
+    WHEN 'department' THEN 'lower(t.department)'
+    WHEN 'publication_year' THEN 't.publication_year'
+    WHEN 'availability' THEN 'public.effective_thesis_availability(t.id, t.availability)'
+    WHEN 'last_modified' THEN 't.last_modified'
+    ELSE 't.upload_date'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    $query$
+      SELECT
+        t.id,
+        t.barcode,
+        t.thesis_title,
+        t.authors,
+        t.department,
+        t.publication_year,
+        t.upload_date,
+        t.last_modified,
+        t.is_deleted,
+        public.effective_thesis_availability(t.id, t.availability),
+        public.thesis_copy_count(t.id),
+        COUNT(*) OVER () AS total_count
+      FROM public.thesis_data t
+      WHERE t.is_deleted = false
+        AND (
+          $1 IS NULL
+          OR t.thesis_title ILIKE '%%' || $1 || '%%'
+          OR array_to_string(t.authors, ' ') ILIKE '%%' || $1 || '%%'
+          OR t.department ILIKE '%%' || $1 || '%%'
+          OR EXISTS (
+            SELECT 1 FROM public.thesis_copies c
+            WHERE c.thesis_id = t.id AND c.barcode ILIKE '%%' || $1 || '%%'
+          )
+        )
+        AND ($2 IS NULL OR lower(t.department) = lower($2))
+        AND ($3 IS NULL OR array_to_string(t.authors, ' ') ILIKE '%%' || $3 || '%%')
+        AND (
+          $4 IS NULL
+          OR EXISTS (
+            SELECT 1 FROM public.thesis_copies c
+            WHERE c.thesis_id = t.id AND c.barcode ILIKE '%%' || $4 || '%%'
+          )
+        )
+        AND ($5 IS NULL OR t.publication_year = $5)
+        AND ($6 IS NULL OR t.publication_year >= $6)
+        AND ($7 IS NULL OR t.publication_year <= $7)
+      ORDER BY %s %s, t.id %s
+      OFFSET $8
+      LIMIT $9
+    $query$,
+    sort_expression,
+    sort_direction,
+    sort_direction
+  )
+  USING
+    NULLIF(TRIM(p_search), ''),
+    NULLIF(TRIM(p_department), ''),
+    NULLIF(TRIM(p_author), ''),
+    NULLIF(TRIM(p_barcode), ''),
+    p_year,
+    p_year_from,
+    p_year_to,
+    page_offset,
+    page_size;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) IS
+'Server-side filtered, sorted and paginated thesis_data listing for the admin ThesisDataTable. Barcode filters match any copy. total_count is repeated on every row.';
+
+-- 8) So does the public catalog
+DROP FUNCTION IF EXISTS public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION public.browse_thesis_catalog(
+  p_department TEXT DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  copy_count INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 20), 100));
+  page_offset INTEGER;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    public.thesis_copy_count(t.id),
+    COUNT(*) OVER () AS total_count
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (NULLIF(TRIM(p_department), '') IS NULL OR t.department = TRIM(p_department))
+    AND (p_year_from IS NULL OR t.publication_year >= p_year_from)
+    AND (p_year_to IS NULL OR t.publication_year <= p_year_to)
+    AND (
+      NULLIF(TRIM(p_author), '') IS NULL
+      OR array_to_string(t.authors, ' ') ILIKE '%' || TRIM(p_author) || '%'
+    )
+    AND (
+      NULLIF(TRIM(p_search), '') IS NULL
+      OR t.thesis_title ILIKE '%' || TRIM(p_search) || '%'
+      OR EXISTS (
+        SELECT 1 FROM public.thesis_copies c
+        WHERE c.thesis_id = t.id AND c.barcode ILIKE '%' || TRIM(p_search) || '%'
+      )
+    )
+  ORDER BY t.publication_year DESC, t.thesis_title
+  OFFSET page_offset
+  LIMIT page_size;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated, service_role;
+
+-- 9) Import
+-- Rows for a title that is already catalogued (same title, department and
+-- year) become extra copies of it, including rows for the same title earlier
+-- in the same file. A barcode the title already has updates that copy and
+-- is counted separately. Runs as one transaction.
+CREATE OR REPLACE FUNCTION public.import_thesis_records(p_records JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rec RECORD;
+  target_thesis BIGINT;
+  theses_created INTEGER := 0;
+  copies_added INTEGER := 0;
+  copies_updated INTEGER := 0;
+  thesis_created BOOLEAN;
+  copy_inserted BOOLEAN;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can import thesis records';
+  END IF;
+
+  FOR rec IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(p_records, '[]'::jsonb)) AS r(
+      barcode TEXT,
+      thesis_title TEXT,
+      authors TEXT[],
+      department TEXT,
+      publication_year INTEGER,
+      location TEXT,
+      condition TEXT
+    )
+  LOOP
+    SELECT id INTO target_thesis
+    FROM thesis_data
+    WHERE is_deleted = false
+      AND lower(trim(thesis_title)) = lower(trim(rec.thesis_title))
+      AND lower(department) = lower(rec.department)
+      AND publication_year = rec.publication_year
+    ORDER BY id
+    LIMIT 1;
+    thesis_created := target_thesis IS NULL;
+
+    IF thesis_created THEN
+      INSERT INTO thesis_data (barcode, thesis_title, authors, department, publication_year)
+      VALUES (rec.barcode, rec.thesis_title, rec.authors, rec.department, rec.publication_year)
+      RETURNING id INTO target_thesis;
+      theses_created := theses_created + 1;
+    END IF;
+
+    IF thesis_created THEN
+      -- The insert trigger already made the first copy
+      UPDATE thesis_copies
+      SET location = rec.location,
+          condition = COALESCE(NULLIF(rec.condition, ''), 'good')
+      WHERE thesis_id = target_thesis;
+      copies_added := copies_added + 1;
+    ELSE
+      INSERT INTO thesis_copies (thesis_id, barcode, location, condition)
+      VALUES (target_thesis, rec.barcode, rec.location, COALESCE(NULLIF(rec.condition, ''), 'good'))
+      ON CONFLICT (thesis_id, barcode) DO UPDATE
+        SET location = EXCLUDED.location,
+            condition = EXCLUDED.condition
+      RETURNING (xmax = 0) INTO copy_inserted;
+
+      IF copy_inserted THEN
+        copies_added := copies_added + 1;
+      ELSE
+        copies_updated := copies_updated + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'theses_created', theses_created,
+    'copies_added', copies_added,
+    'copies_updated', copies_updated
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.import_thesis_records(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.import_thesis_records(JSONB) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.import_thesis_records(JSONB) IS
+'Bulk thesis import. Each row is one copy; rows matching a catalogued title (title, department and year) are added to it as copies. Returns the number of theses created, copies added and existing copies updated.';
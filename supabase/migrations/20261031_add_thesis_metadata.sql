@@ -0,0 +1,248 @@
+-- Migration: Structured thesis metadata
+-- Date: 2026-10-31
+
+-- 1) Metadata columns
+-- Everything is optional so existing records and minimal imports stay valid.
+ALTER TABLE public.thesis_data
+  ADD COLUMN IF NOT EXISTS abstract TEXT,
+  ADD COLUMN IF NOT EXISTS keywords TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS adviser TEXT,
+  ADD COLUMN IF NOT EXISTS panel_members TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS degree_program TEXT,
+  ADD COLUMN IF NOT EXISTS call_number TEXT,
+  ADD COLUMN IF NOT EXISTS page_count INTEGER,
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE public.thesis_data DROP CONSTRAINT IF EXISTS thesis_data_page_count_check;
+ALTER TABLE public.thesis_data
+  ADD CONSTRAINT thesis_data_page_count_check
+  CHECK (page_count IS NULL OR page_count > 0);
+
+-- 2) Search covers keywords, adviser and abstract
+-- Keywords rank with the authors, the adviser with the department and the
+-- abstract lowest, so a title match still comes first.
+CREATE OR REPLACE FUNCTION public.thesis_data_build_search_vector(
+  p_title TEXT,
+  p_authors TEXT[],
+  p_department TEXT,
+  p_keywords TEXT[],
+  p_adviser TEXT,
+  p_abstract TEXT
+)
+RETURNS TSVECTOR
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    public.thesis_data_build_search_vector(p_title, p_authors, p_department) ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(p_keywords, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(p_adviser, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(p_abstract, '')), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION public.thesis_data_set_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector = public.thesis_data_build_search_vector(
+    NEW.thesis_title,
+    NEW.authors,
+    NEW.department,
+    NEW.keywords,
+    NEW.adviser,
+    NEW.abstract
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_data_set_search_vector ON public.thesis_data;
+CREATE TRIGGER trg_thesis_data_set_search_vector
+BEFORE INSERT OR UPDATE OF thesis_title, authors, department, keywords, adviser, abstract ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.thesis_data_set_search_vector();
+
+-- 3) Search suggestions carry the keywords and adviser they may have matched on
+DROP FUNCTION IF EXISTS public.search_theses(TEXT, INTEGER);
+CREATE OR REPLACE FUNCTION public.search_theses(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  availability TEXT,
+  copy_count INTEGER,
+  keywords TEXT[],
+  adviser TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cleaned_query TEXT := lower(trim(COALESCE(search_query, '')));
+  prefix_query TSQUERY;
+BEGIN
+  IF length(cleaned_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(cleaned_query, '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    public.effective_thesis_availability(t.id, t.availability),
+    public.thesis_copy_count(t.id),
+    t.keywords,
+    t.adviser,
+    (
+      COALESCE(ts_rank_cd(t.search_vector, prefix_query), 0) * 2 +
+      word_similarity(cleaned_query, lower(t.thesis_title))
+    )::REAL AS rank
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (
+      (prefix_query IS NOT NULL AND t.search_vector @@ prefix_query)
+      OR cleaned_query <% lower(t.thesis_title)
+    )
+  ORDER BY 11 DESC, t.thesis_title
+  LIMIT GREATEST(1, LEAST(COALESCE(result_limit, 10), 50));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.search_theses(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_theses(TEXT, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.search_theses(TEXT, INTEGER) IS
+'Ranked thesis search over title, authors, department, keywords, adviser and abstract with prefix matching and trigram typo tolerance. Used by ThesisTitleSearch.';
+
+-- Backfill existing rows
+UPDATE public.thesis_data
+SET search_vector = public.thesis_data_build_search_vector(thesis_title, authors, department, keywords, adviser, abstract);
+
+-- 4) Import takes the metadata columns
+-- A row that becomes a copy of a catalogued title only fills in metadata the
+-- title does not have yet.
+CREATE OR REPLACE FUNCTION public.import_thesis_records(p_records JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rec RECORD;
+  target_thesis BIGINT;
+  theses_created INTEGER := 0;
+  copies_added INTEGER := 0;
+  copies_updated INTEGER := 0;
+  thesis_created BOOLEAN;
+  copy_inserted BOOLEAN;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can import thesis records';
+  END IF;
+
+  FOR rec IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(p_records, '[]'::jsonb)) AS r(
+      barcode TEXT,
+      thesis_title TEXT,
+      authors TEXT[],
+      department TEXT,
+      publication_year INTEGER,
+      location TEXT,
+      condition TEXT,
+      abstract TEXT,
+      keywords TEXT[],
+      adviser TEXT,
+      panel_members TEXT[],
+      degree_program TEXT,
+      call_number TEXT,
+      page_count INTEGER,
+      language TEXT
+    )
+  LOOP
+    SELECT id INTO target_thesis
+    FROM thesis_data
+    WHERE is_deleted = false
+      AND lower(trim(thesis_title)) = lower(trim(rec.thesis_title))
+      AND lower(department) = lower(rec.department)
+      AND publication_year = rec.publication_year
+    ORDER BY id
+    LIMIT 1;
+    thesis_created := target_thesis IS NULL;
+
+    IF thesis_created THEN
+      INSERT INTO thesis_data (
+        barcode, thesis_title, authors, department, publication_year,
+        abstract, keywords, adviser, panel_members, degree_program, call_number, page_count, language
+      )
+      VALUES (
+        rec.barcode, rec.thesis_title, rec.authors, rec.department, rec.publication_year,
+        NULLIF(rec.abstract, ''), COALESCE(rec.keywords, '{}'), NULLIF(rec.adviser, ''),
+        COALESCE(rec.panel_members, '{}'), NULLIF(rec.degree_program, ''), NULLIF(rec.call_number, ''),
+        rec.page_count, NULLIF(rec.language, '')
+      )
+      RETURNING id INTO target_thesis;
+      theses_created := theses_created + 1;
+    ELSE
+      UPDATE thesis_data
+      SET abstract = COALESCE(abstract, NULLIF(rec.abstract, '')),
+          keywords = CASE WHEN cardinality(keywords) = 0 THEN COALESCE(rec.keywords, '{}') ELSE keywords END,
+          adviser = COALESCE(adviser, NULLIF(rec.adviser, '')),
+          panel_members = CASE WHEN cardinality(panel_members) = 0 THEN COALESCE(rec.panel_members, '{}') ELSE panel_members END,
+          degree_program = COALESCE(degree_program, NULLIF(rec.degree_program, '')),
+          call_number = COALESCE(call_number, NULLIF(rec.call_number, '')),
+          page_count = COALESCE(page_count, rec.page_count),
+          language = COALESCE(language, NULLIF(rec.language, ''))
+      WHERE id = target_thesis;
+    END IF;
+
+    IF thesis_created THEN
+      -- The insert trigger already made the first copy
+      UPDATE thesis_copies
+      SET location = rec.location,
+          condition = COALESCE(NULLIF(rec.condition, ''), 'good')
+      WHERE thesis_id = target_thesis;
+      copies_added := copies_added + 1;
+    ELSE
+      INSERT INTO thesis_copies (thesis_id, barcode, location, condition)
+      VALUES (target_thesis, rec.barcode, rec.location, COALESCE(NULLIF(rec.condition, ''), 'good'))
+      ON CONFLICT (thesis_id, barcode) DO UPDATE
+        SET location = EXCLUDED.location,
+            condition = EXCLUDED.condition
+      RETURNING (xmax = 0) INTO copy_inserted;
+
+      IF copy_inserted THEN
+        copies_added := copies_added + 1;
+      ELSE
+        copies_updated := copies_updated + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'theses_created', theses_created,
+    'copies_added', copies_added,
+    'copies_updated', copies_updated
+  );
+END;
+$$;
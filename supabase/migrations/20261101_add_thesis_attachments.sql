@@ -0,0 +1,222 @@
+-- Migration: Digital full-text PDF attachments for theses
+-- Date: 2026-11-01
+
+-- 1) Private storage bucket
+-- Files are only reached through signed URLs, so the storage policies below
+-- decide who can open what.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('thesis-files', 'thesis-files', false, 52428800, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- 2) Library staff check
+-- Admins and Readers may open every file; is_admin_user() stays the check
+-- for changes.
+CREATE OR REPLACE FUNCTION public.is_staff_user()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.system_users
+    WHERE user_id = auth.uid()
+      AND role IN ('Admin', 'Reader')
+      AND status = 'Active'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_staff_user() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_staff_user() TO anon;
+GRANT EXECUTE ON FUNCTION public.is_staff_user() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_staff_user() TO service_role;
+
+COMMENT ON FUNCTION public.is_staff_user() IS
+'True for active Admin and Reader system users. Used by the thesis file policies.';
+
+-- 3) Attachments table
+-- At most one file of each kind per thesis; uploading again replaces it.
+CREATE TABLE IF NOT EXISTS public.thesis_attachments (
+  id BIGSERIAL PRIMARY KEY,
+  thesis_id BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('full_text', 'approval_sheet', 'abstract_page')),
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL CHECK (file_size > 0),
+  uploaded_by UUID DEFAULT auth.uid(),
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (thesis_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_thesis_attachments_thesis ON public.thesis_attachments(thesis_id);
+
+-- Uploads and removals go to the audit trail like other catalog changes
+DROP TRIGGER IF EXISTS trg_audit_thesis_attachments ON public.thesis_attachments;
+CREATE TRIGGER trg_audit_thesis_attachments
+AFTER INSERT OR UPDATE OR DELETE ON public.thesis_attachments
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('id');
+
+-- 4) RLS: staff see every attachment, the public only abstract pages of
+-- catalogued theses; admins manage them
+ALTER TABLE public.thesis_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff and public can select thesis attachments" ON public.thesis_attachments;
+CREATE POLICY "Staff and public can select thesis attachments"
+ON public.thesis_attachments
+FOR SELECT
+USING (
+  is_staff_user()
+  OR (
+    kind = 'abstract_page'
+    AND EXISTS (
+      SELECT 1 FROM public.thesis_data t
+      WHERE t.id = thesis_attachments.thesis_id AND t.is_deleted = false
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can insert thesis attachments" ON public.thesis_attachments;
+CREATE POLICY "Admins can insert thesis attachments"
+ON public.thesis_attachments
+FOR INSERT
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can update thesis attachments" ON public.thesis_attachments;
+CREATE POLICY "Admins can update thesis attachments"
+ON public.thesis_attachments
+FOR UPDATE
+USING (is_admin_user())
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can delete thesis attachments" ON public.thesis_attachments;
+CREATE POLICY "Admins can delete thesis attachments"
+ON public.thesis_attachments
+FOR DELETE
+USING (is_admin_user());
+
+GRANT SELECT ON public.thesis_attachments TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.thesis_attachments TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.thesis_attachments_id_seq TO authenticated;
+GRANT ALL ON public.thesis_attachments TO service_role;
+
+-- 5) Storage policies mirror the table: a file can be opened by anyone who
+-- can see its attachment row, and only admins upload or remove files
+DROP POLICY IF EXISTS "Thesis files are readable by role" ON storage.objects;
+CREATE POLICY "Thesis files are readable by role"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'thesis-files'
+  AND (
+    public.is_staff_user()
+    OR EXISTS (
+      SELECT 1
+      FROM public.thesis_attachments a
+      JOIN public.thesis_data t ON t.id = a.thesis_id
+      WHERE a.storage_path = storage.objects.name
+        AND a.kind = 'abstract_page'
+        AND t.is_deleted = false
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can upload thesis files" ON storage.objects;
+CREATE POLICY "Admins can upload thesis files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'thesis-files' AND public.is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can update thesis files" ON storage.objects;
+CREATE POLICY "Admins can update thesis files"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'thesis-files' AND public.is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can delete thesis files" ON storage.objects;
+CREATE POLICY "Admins can delete thesis files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'thesis-files' AND public.is_admin_user());
+
+-- 6) File access in the audit trail
+-- Views and downloads are not row changes, so they get their own operations.
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_operation_check;
+ALTER TABLE public.audit_log
+  ADD CONSTRAINT audit_log_operation_check
+  CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE', 'VIEW', 'DOWNLOAD'));
+
+-- Staff opening a file is logged; anonymous abstract-page views are not.
+-- Only admins may download, so a DOWNLOAD from anyone else is refused.
+CREATE OR REPLACE FUNCTION public.log_thesis_file_access(
+  p_attachment_id BIGINT,
+  p_action TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attachment RECORD;
+  actor_record RECORD;
+  snapshot JSONB;
+BEGIN
+  IF p_action NOT IN ('VIEW', 'DOWNLOAD') THEN
+    RAISE EXCEPTION 'Unknown file access action: %', p_action;
+  END IF;
+
+  IF NOT is_staff_user() THEN
+    RAISE EXCEPTION 'Only library staff can open thesis files';
+  END IF;
+
+  IF p_action = 'DOWNLOAD' AND NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can download thesis files';
+  END IF;
+
+  SELECT a.id, a.thesis_id, a.kind, a.file_name, t.thesis_title
+  INTO attachment
+  FROM thesis_attachments a
+  JOIN thesis_data t ON t.id = a.thesis_id
+  WHERE a.id = p_attachment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thesis file % not found', p_attachment_id;
+  END IF;
+
+  SELECT su.name, su.email
+  INTO actor_record
+  FROM system_users su
+  WHERE su.user_id = auth.uid()
+  LIMIT 1;
+
+  snapshot := jsonb_build_object(
+    'thesis_id', attachment.thesis_id,
+    'thesis_title', attachment.thesis_title,
+    'kind', attachment.kind,
+    'file_name', attachment.file_name
+  );
+
+  INSERT INTO audit_log (
+    table_name, record_id, operation, actor_id, actor_name, actor_email,
+    changed_fields, old_data, new_data
+  ) VALUES (
+    'thesis_attachments',
+    attachment.id::TEXT,
+    p_action,
+    auth.uid(),
+    actor_record.name,
+    actor_record.email,
+    ARRAY['file_name', 'kind', 'thesis_id', 'thesis_title'],
+    NULL,
+    snapshot
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_thesis_file_access(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.log_thesis_file_access(BIGINT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.log_thesis_file_access(BIGINT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.log_thesis_file_access(BIGINT, TEXT) IS
+'Records a staff VIEW or admin DOWNLOAD of a thesis file in audit_log.';
@@ -0,0 +1,420 @@
+-- Migration: Duplicate thesis detection, review queue and merge
+-- Date: 2026-11-02
+
+-- 1) Normalised keys for comparing records
+-- Titles ignore case and punctuation; author names also ignore word order so
+-- "Dela Cruz, Juan" and "Juan Dela Cruz" compare equal.
+CREATE OR REPLACE FUNCTION public.thesis_title_key(p_title TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(lower(COALESCE(p_title, '')), '[^[:alnum:]]+', ' ', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.thesis_author_key(p_author TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(word, ' ' ORDER BY word), '')
+  FROM regexp_split_to_table(public.thesis_title_key(p_author), ' ') AS word
+  WHERE word <> '';
+$$;
+
+-- Share of the shorter author list that also appears in the other list
+CREATE OR REPLACE FUNCTION public.thesis_author_overlap(p_authors_a TEXT[], p_authors_b TEXT[])
+RETURNS REAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH a AS (
+    SELECT DISTINCT public.thesis_author_key(author) AS author_key
+    FROM unnest(COALESCE(p_authors_a, '{}')) AS author
+  ),
+  b AS (
+    SELECT DISTINCT public.thesis_author_key(author) AS author_key
+    FROM unnest(COALESCE(p_authors_b, '{}')) AS author
+  )
+  SELECT CASE
+    WHEN (SELECT COUNT(*) FROM a WHERE author_key <> '') = 0
+      OR (SELECT COUNT(*) FROM b WHERE author_key <> '') = 0 THEN 0
+    ELSE (
+      (SELECT COUNT(*) FROM a JOIN b USING (author_key) WHERE author_key <> '')::REAL
+      / LEAST(
+          (SELECT COUNT(*) FROM a WHERE author_key <> ''),
+          (SELECT COUNT(*) FROM b WHERE author_key <> '')
+        )
+    )
+  END;
+$$;
+
+-- 2) Records the merge came from
+ALTER TABLE public.thesis_data
+  ADD COLUMN IF NOT EXISTS merged_into BIGINT;
+
+ALTER TABLE public.thesis_data DROP CONSTRAINT IF EXISTS fk_thesis_data_merged_into;
+ALTER TABLE public.thesis_data
+  ADD CONSTRAINT fk_thesis_data_merged_into
+  FOREIGN KEY (merged_into)
+  REFERENCES public.thesis_data(id)
+  ON DELETE SET NULL;
+
+-- 3) Candidate pairs and dismissed pairs
+-- Pairs are stored with the lower id first. A dismissed pair is never
+-- suggested again.
+CREATE TABLE IF NOT EXISTS public.thesis_duplicate_candidates (
+  thesis_a BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  thesis_b BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  title_similarity REAL NOT NULL,
+  author_overlap REAL NOT NULL,
+  score REAL NOT NULL,
+  found_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (thesis_a, thesis_b),
+  CHECK (thesis_a < thesis_b)
+);
+
+CREATE TABLE IF NOT EXISTS public.thesis_duplicate_dismissals (
+  thesis_a BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  thesis_b BIGINT NOT NULL REFERENCES public.thesis_data(id) ON DELETE CASCADE,
+  dismissed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  dismissed_by UUID DEFAULT auth.uid(),
+  PRIMARY KEY (thesis_a, thesis_b),
+  CHECK (thesis_a < thesis_b)
+);
+
+-- Only the functions below write to these tables
+ALTER TABLE public.thesis_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.thesis_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can select thesis duplicate candidates" ON public.thesis_duplicate_candidates;
+CREATE POLICY "Admins can select thesis duplicate candidates"
+ON public.thesis_duplicate_candidates
+FOR SELECT
+USING (is_admin_user());
+
+DROP POLICY IF EXISTS "Admins can select thesis duplicate dismissals" ON public.thesis_duplicate_dismissals;
+CREATE POLICY "Admins can select thesis duplicate dismissals"
+ON public.thesis_duplicate_dismissals
+FOR SELECT
+USING (is_admin_user());
+
+REVOKE ALL ON public.thesis_duplicate_candidates FROM anon;
+REVOKE ALL ON public.thesis_duplicate_dismissals FROM anon;
+GRANT SELECT ON public.thesis_duplicate_candidates TO authenticated;
+GRANT SELECT ON public.thesis_duplicate_dismissals TO authenticated;
+GRANT ALL ON public.thesis_duplicate_candidates TO service_role;
+GRANT ALL ON public.thesis_duplicate_dismissals TO service_role;
+
+-- 4) Duplicate finder
+-- Same publication year and similar normalised titles; the authors must
+-- overlap unless the titles are near identical. Rebuilds the candidate list
+-- and returns how many pairs were found. Callable by admins and by pg_cron.
+CREATE OR REPLACE FUNCTION public.refresh_thesis_duplicate_candidates(
+  p_min_title_similarity REAL DEFAULT 0.5
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can scan for duplicate theses';
+  END IF;
+
+  DELETE FROM thesis_duplicate_candidates;
+
+  INSERT INTO thesis_duplicate_candidates (thesis_a, thesis_b, title_similarity, author_overlap, score)
+  SELECT
+    a.id,
+    b.id,
+    m.title_similarity,
+    m.author_overlap,
+    (0.7 * m.title_similarity + 0.3 * m.author_overlap)::REAL
+  FROM thesis_data a
+  JOIN thesis_data b
+    ON b.publication_year = a.publication_year
+   AND b.id > a.id
+   AND b.is_deleted = false
+  CROSS JOIN LATERAL (
+    SELECT
+      similarity(thesis_title_key(a.thesis_title), thesis_title_key(b.thesis_title)) AS title_similarity,
+      thesis_author_overlap(a.authors, b.authors) AS author_overlap
+  ) m
+  WHERE a.is_deleted = false
+    AND m.title_similarity >= COALESCE(p_min_title_similarity, 0.5)
+    AND (m.author_overlap > 0 OR m.title_similarity >= 0.9)
+    AND NOT EXISTS (
+      SELECT 1 FROM thesis_duplicate_dismissals d
+      WHERE d.thesis_a = a.id AND d.thesis_b = b.id
+    );
+
+  GET DIAGNOSTICS found = ROW_COUNT;
+  RETURN found;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_thesis_duplicate_candidates(REAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refresh_thesis_duplicate_candidates(REAL) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.refresh_thesis_duplicate_candidates(REAL) IS
+'Rebuilds thesis_duplicate_candidates from title similarity, author overlap and year. Returns the number of pairs.';
+
+-- Scan nightly where pg_cron is enabled; otherwise admins scan from the review queue
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-thesis-duplicate-candidates', '45 3 * * *', 'SELECT public.refresh_thesis_duplicate_candidates()');
+  END IF;
+END;
+$$;
+
+-- 5) Review queue
+-- Both records of each pair with what a merge would move, best match first.
+CREATE OR REPLACE FUNCTION public.thesis_duplicate_record(p_thesis_id BIGINT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'barcode', t.barcode,
+    'thesis_title', t.thesis_title,
+    'authors', t.authors,
+    'department', t.department,
+    'publication_year', t.publication_year,
+    'adviser', t.adviser,
+    'upload_date', t.upload_date,
+    'copy_count', public.thesis_copy_count(t.id),
+    'submission_count', (SELECT COUNT(*) FROM thesis_submissions s WHERE s.thesis_id = t.id),
+    'reservation_count', (
+      SELECT COUNT(*) FROM thesis_reservations r
+      WHERE r.thesis_id = t.id AND r.status IN ('waiting', 'ready')
+    )
+  )
+  FROM thesis_data t
+  WHERE t.id = p_thesis_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.thesis_duplicate_record(BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.thesis_duplicate_record(BIGINT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.list_thesis_duplicate_candidates(
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  thesis_a BIGINT,
+  thesis_b BIGINT,
+  title_similarity REAL,
+  author_overlap REAL,
+  score REAL,
+  found_at TIMESTAMPTZ,
+  record_a JSONB,
+  record_b JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can review duplicate theses';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.thesis_a,
+    c.thesis_b,
+    c.title_similarity,
+    c.author_overlap,
+    c.score,
+    c.found_at,
+    thesis_duplicate_record(c.thesis_a),
+    thesis_duplicate_record(c.thesis_b)
+  FROM thesis_duplicate_candidates c
+  JOIN thesis_data a ON a.id = c.thesis_a AND a.is_deleted = false
+  JOIN thesis_data b ON b.id = c.thesis_b AND b.is_deleted = false
+  ORDER BY c.score DESC, c.thesis_a, c.thesis_b
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 50), 200));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_thesis_duplicate_candidates(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_thesis_duplicate_candidates(INTEGER) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.list_thesis_duplicate_candidates(INTEGER) IS
+'Candidate duplicate pairs with both records side by side, for the admin review queue.';
+
+CREATE OR REPLACE FUNCTION public.dismiss_thesis_duplicate(p_thesis_a BIGINT, p_thesis_b BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can review duplicate theses';
+  END IF;
+
+  INSERT INTO thesis_duplicate_dismissals (thesis_a, thesis_b)
+  VALUES (LEAST(p_thesis_a, p_thesis_b), GREATEST(p_thesis_a, p_thesis_b))
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM thesis_duplicate_candidates
+  WHERE thesis_a = LEAST(p_thesis_a, p_thesis_b)
+    AND thesis_b = GREATEST(p_thesis_a, p_thesis_b);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.dismiss_thesis_duplicate(BIGINT, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.dismiss_thesis_duplicate(BIGINT, BIGINT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.dismiss_thesis_duplicate(BIGINT, BIGINT) IS
+'Marks a candidate pair as not duplicates so it is not suggested again.';
+
+-- 6) Merge
+-- Keeps one record and moves everything attached to the other onto it, then
+-- soft-deletes the other with merged_into pointing at the kept record.
+-- Blank metadata on the kept record is filled in from the other.
+-- Copies, attachments and reservations that would clash with the kept
+-- record's own stay behind: a copy barcode the kept record already has, a
+-- file kind it already has, a student already in its queue (cancelled).
+CREATE OR REPLACE FUNCTION public.merge_theses(p_keep_id BIGINT, p_merge_id BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  merged RECORD;
+  submissions_moved INTEGER;
+  copies_moved INTEGER;
+  reservations_moved INTEGER;
+  attachments_moved INTEGER;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can merge theses';
+  END IF;
+
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'A thesis cannot be merged into itself';
+  END IF;
+
+  -- Lock both rows so a concurrent check-out sees the finished merge
+  PERFORM 1 FROM thesis_data
+  WHERE id IN (p_keep_id, p_merge_id) AND is_deleted = false
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM thesis_data WHERE id = p_keep_id AND is_deleted = false) THEN
+    RAISE EXCEPTION 'Thesis % does not exist or is deleted', p_keep_id;
+  END IF;
+
+  SELECT * INTO merged
+  FROM thesis_data
+  WHERE id = p_merge_id AND is_deleted = false;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thesis % does not exist or is deleted', p_merge_id;
+  END IF;
+
+  UPDATE thesis_submissions
+  SET thesis_id = p_keep_id
+  WHERE thesis_id = p_merge_id;
+  GET DIAGNOSTICS submissions_moved = ROW_COUNT;
+
+  UPDATE thesis_copies c
+  SET thesis_id = p_keep_id
+  WHERE c.thesis_id = p_merge_id
+    AND NOT EXISTS (
+      SELECT 1 FROM thesis_copies k
+      WHERE k.thesis_id = p_keep_id AND k.barcode = c.barcode
+    );
+  GET DIAGNOSTICS copies_moved = ROW_COUNT;
+
+  UPDATE thesis_reservations r
+  SET status = 'cancelled',
+      closed_at = now(),
+      closed_by = auth.uid()
+  WHERE r.thesis_id = p_merge_id
+    AND r.status IN ('waiting', 'ready')
+    AND EXISTS (
+      SELECT 1 FROM thesis_reservations k
+      WHERE k.thesis_id = p_keep_id
+        AND k.student_no = r.student_no
+        AND k.status IN ('waiting', 'ready')
+    );
+
+  UPDATE thesis_reservations
+  SET thesis_id = p_keep_id
+  WHERE thesis_id = p_merge_id;
+  GET DIAGNOSTICS reservations_moved = ROW_COUNT;
+
+  UPDATE thesis_attachments a
+  SET thesis_id = p_keep_id
+  WHERE a.thesis_id = p_merge_id
+    AND NOT EXISTS (
+      SELECT 1 FROM thesis_attachments k
+      WHERE k.thesis_id = p_keep_id AND k.kind = a.kind
+    );
+  GET DIAGNOSTICS attachments_moved = ROW_COUNT;
+
+  UPDATE thesis_data
+  SET abstract = COALESCE(abstract, merged.abstract),
+      keywords = CASE WHEN cardinality(keywords) = 0 THEN merged.keywords ELSE keywords END,
+      adviser = COALESCE(adviser, merged.adviser),
+      panel_members = CASE WHEN cardinality(panel_members) = 0 THEN merged.panel_members ELSE panel_members END,
+      degree_program = COALESCE(degree_program, merged.degree_program),
+      call_number = COALESCE(call_number, merged.call_number),
+      page_count = COALESCE(page_count, merged.page_count),
+      language = COALESCE(language, merged.language)
+  WHERE id = p_keep_id;
+
+  UPDATE thesis_data
+  SET is_deleted = true,
+      merged_into = p_keep_id
+  WHERE id = p_merge_id;
+
+  DELETE FROM thesis_duplicate_candidates
+  WHERE p_merge_id IN (thesis_a, thesis_b);
+
+  -- Moved copies may free a hold for the next student in line
+  PERFORM advance_reservation_queue(p_keep_id);
+
+  RETURN jsonb_build_object(
+    'submissions_moved', submissions_moved,
+    'copies_moved', copies_moved,
+    'reservations_moved', reservations_moved,
+    'attachments_moved', attachments_moved
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_theses(BIGINT, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.merge_theses(BIGINT, BIGINT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.merge_theses(BIGINT, BIGINT) IS
+'Moves submissions, copies, reservations and files from one thesis onto another and soft-deletes it. Returns what was moved.';
+
+-- 7) Restoring a merged record from the trash makes it independent again
+CREATE OR REPLACE FUNCTION public.thesis_data_clear_merged_into()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.is_deleted = true AND NEW.is_deleted = false THEN
+    NEW.merged_into = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_thesis_data_clear_merged_into ON public.thesis_data;
+CREATE TRIGGER trg_thesis_data_clear_merged_into
+BEFORE UPDATE OF is_deleted ON public.thesis_data
+FOR EACH ROW EXECUTE FUNCTION public.thesis_data_clear_merged_into();
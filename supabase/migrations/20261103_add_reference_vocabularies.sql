@@ -0,0 +1,333 @@
+-- Migration: Controlled vocabulary for campuses, colleges and programs
+-- Date: 2026-11-03
+
+-- 1) Matching key
+-- Terms and their aliases match free text regardless of case and spacing.
+CREATE OR REPLACE FUNCTION public.vocabulary_key(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(btrim(COALESCE(p_value, '')), '\s+', ' ', 'g'));
+$$;
+
+-- 2) Reference tables
+-- Inactive terms stay so older records keep a match; forms only offer
+-- active ones.
+CREATE TABLE IF NOT EXISTS public.campuses (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Colleges double as the thesis department list
+CREATE TABLE IF NOT EXISTS public.colleges (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  level TEXT NOT NULL DEFAULT 'undergraduate' CHECK (level IN ('undergraduate', 'graduate')),
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.programs (
+  id BIGSERIAL PRIMARY KEY,
+  college_id BIGINT NOT NULL REFERENCES public.colleges(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_programs_college ON public.programs(college_id);
+
+-- 3) RLS: everyone reads the lists (the submission forms are public),
+-- admins maintain them
+ALTER TABLE public.campuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.colleges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.programs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can select campuses" ON public.campuses;
+CREATE POLICY "Anyone can select campuses"
+ON public.campuses
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage campuses" ON public.campuses;
+CREATE POLICY "Admins can manage campuses"
+ON public.campuses
+FOR ALL
+USING (is_admin_user())
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Anyone can select colleges" ON public.colleges;
+CREATE POLICY "Anyone can select colleges"
+ON public.colleges
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage colleges" ON public.colleges;
+CREATE POLICY "Admins can manage colleges"
+ON public.colleges
+FOR ALL
+USING (is_admin_user())
+WITH CHECK (is_admin_user());
+
+DROP POLICY IF EXISTS "Anyone can select programs" ON public.programs;
+CREATE POLICY "Anyone can select programs"
+ON public.programs
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage programs" ON public.programs;
+CREATE POLICY "Admins can manage programs"
+ON public.programs
+FOR ALL
+USING (is_admin_user())
+WITH CHECK (is_admin_user());
+
+GRANT SELECT ON public.campuses, public.colleges, public.programs TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.campuses, public.colleges, public.programs TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.campuses_id_seq, public.colleges_id_seq, public.programs_id_seq TO authenticated;
+GRANT ALL ON public.campuses, public.colleges, public.programs TO service_role;
+
+-- 4) Seed with the lists the submission forms used to hardcode. The short
+-- program names from the older form are kept as aliases.
+INSERT INTO public.campuses (name, sort_order) VALUES
+  ('LIMA Campus', 1),
+  ('Main Campus', 2),
+  ('Riverside Campus', 3)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.colleges (name, level, aliases, sort_order) VALUES
+  ('Lyceum International Maritime Academy', 'undergraduate', ARRAY['LIMA'], 1),
+  ('College of Computing, Arts and Sciences', 'undergraduate', ARRAY['CCAS'], 2),
+  ('College of Allied Medical Professions', 'undergraduate', ARRAY['CAMP'], 3),
+  ('College of Nursing', 'undergraduate', ARRAY['CON'], 4),
+  ('College of Business Administration', 'undergraduate', ARRAY['CBA'], 5),
+  ('College of International Tourism & Hospitality Management', 'undergraduate', ARRAY['CITHM'], 6),
+  ('College of Criminal Justice Education', 'undergraduate', ARRAY['CCJE'], 7),
+  ('College of Dentistry', 'undergraduate', ARRAY['COD'], 8),
+  ('Expanded Tertiary Education Equivalency and Accreditation Program', 'undergraduate', ARRAY['ETEEAP'], 9),
+  ('Center for Technical Education and Lifelong Learning', 'undergraduate', ARRAY['CTELL'], 10),
+  ('Business Management', 'graduate', '{}', 11),
+  ('Hospitality', 'graduate', '{}', 12),
+  ('Humanities & Social Sciences', 'graduate', '{}', 13),
+  ('Maritime', 'graduate', '{}', 14),
+  ('Engineering & Technology', 'graduate', '{}', 15),
+  ('Health Sciences', 'graduate', '{}', 16)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.programs (college_id, name, aliases, sort_order)
+SELECT c.id, p.name, p.aliases, p.sort_order
+FROM (VALUES
+  ('Lyceum International Maritime Academy', 'BS Marine Transportation', '{}'::TEXT[], 1),
+  ('Lyceum International Maritime Academy', 'BS Marine Engineering', '{}'::TEXT[], 2),
+  ('College of Computing, Arts and Sciences', 'AB Communication', '{}'::TEXT[], 3),
+  ('College of Computing, Arts and Sciences', 'AB Psychology', '{}'::TEXT[], 4),
+  ('College of Computing, Arts and Sciences', 'BS Psychology', ARRAY['Psychology'], 5),
+  ('College of Computing, Arts and Sciences', 'Bachelor of Multimedia Arts', '{}'::TEXT[], 6),
+  ('College of Computing, Arts and Sciences', 'BS Computer Science', ARRAY['Computer Science'], 7),
+  ('College of Computing, Arts and Sciences', 'BS Cybersecurity', '{}'::TEXT[], 8),
+  ('College of Computing, Arts and Sciences', 'BS Information Technology', ARRAY['Information Technology'], 9),
+  ('College of Allied Medical Professions', 'BS Biology Major in Medical Biology', '{}'::TEXT[], 10),
+  ('College of Allied Medical Professions', 'BS Medical Laboratory Science', '{}'::TEXT[], 11),
+  ('College of Allied Medical Professions', 'BS Pharmacy', '{}'::TEXT[], 12),
+  ('College of Allied Medical Professions', 'BS Physical Therapy', '{}'::TEXT[], 13),
+  ('College of Allied Medical Professions', 'BS Radiologic Technology', '{}'::TEXT[], 14),
+  ('College of Allied Medical Professions', 'Diploma in Pharmacy Assisting', '{}'::TEXT[], 15),
+  ('College of Allied Medical Professions', 'Diploma in Phlebotomy', '{}'::TEXT[], 16),
+  ('College of Nursing', 'BS Nursing', ARRAY['Nursing'], 17),
+  ('College of Business Administration', 'BS Accountancy', ARRAY['Accountancy'], 18),
+  ('College of Business Administration', 'BS Business Administration', ARRAY['Business Administration'], 19),
+  ('College of Business Administration', 'BS Customs Administration', '{}'::TEXT[], 20),
+  ('College of International Tourism & Hospitality Management', 'BS International Tourism Management', '{}'::TEXT[], 21),
+  ('College of International Tourism & Hospitality Management', 'BS International Hospitality Management', '{}'::TEXT[], 22),
+  ('College of International Tourism & Hospitality Management', 'Associate in International Tourism Management', '{}'::TEXT[], 23),
+  ('College of Criminal Justice Education', 'BS Criminology', '{}'::TEXT[], 24),
+  ('College of Criminal Justice Education', 'Bachelor of Forensic Science', '{}'::TEXT[], 25),
+  ('College of Criminal Justice Education', 'Double Degree for Criminology and Forensic Science', '{}'::TEXT[], 26),
+  ('College of Criminal Justice Education', 'Straight Program BS Criminology to Master of Science in Criminal Justice with specialization in Criminology', '{}'::TEXT[], 27),
+  ('College of Dentistry', 'Doctor of Dental Medicine', '{}'::TEXT[], 28),
+  ('Expanded Tertiary Education Equivalency and Accreditation Program', 'Bachelor of Science in Business Administration', '{}'::TEXT[], 29),
+  ('Expanded Tertiary Education Equivalency and Accreditation Program', 'Bachelor of Science in Criminology', '{}'::TEXT[], 30),
+  ('Expanded Tertiary Education Equivalency and Accreditation Program', 'Bachelor of Science in Information Technology', '{}'::TEXT[], 31),
+  ('Expanded Tertiary Education Equivalency and Accreditation Program', 'Bachelor of Science in International Hospitality Management', '{}'::TEXT[], 32),
+  ('Expanded Tertiary Education Equivalency and Accreditation Program', 'Bachelor of Science in Nursing', '{}'::TEXT[], 33),
+  ('Center for Technical Education and Lifelong Learning', 'Certificate in Culinary Arts', '{}'::TEXT[], 34),
+  ('Center for Technical Education and Lifelong Learning', 'Certificate in Pastry Arts', '{}'::TEXT[], 35),
+  ('Business Management', 'PhD in Management', '{}'::TEXT[], 36),
+  ('Business Management', 'Master in Business Administration', '{}'::TEXT[], 37),
+  ('Hospitality', 'PhD in International Hospitality and Tourism Management', '{}'::TEXT[], 38),
+  ('Hospitality', 'Master in International Hospitality and Tourism Management', '{}'::TEXT[], 39),
+  ('Humanities & Social Sciences', 'Doctor of Public Administration', '{}'::TEXT[], 40),
+  ('Humanities & Social Sciences', 'PhD in Criminal Justice with specialization in Criminology', '{}'::TEXT[], 41),
+  ('Humanities & Social Sciences', 'PhD in English Language Studies', '{}'::TEXT[], 42),
+  ('Humanities & Social Sciences', 'PhD in Management with specialization in Education', '{}'::TEXT[], 43),
+  ('Humanities & Social Sciences', 'PhD in Psychology', '{}'::TEXT[], 44),
+  ('Humanities & Social Sciences', 'Master in Public Administration', '{}'::TEXT[], 45),
+  ('Humanities & Social Sciences', 'Master of Arts in Educational Leadership and Management', '{}'::TEXT[], 46),
+  ('Humanities & Social Sciences', 'Master of Arts in English Language Studies', '{}'::TEXT[], 47),
+  ('Humanities & Social Sciences', 'Master of Arts in Psychology', '{}'::TEXT[], 48),
+  ('Humanities & Social Sciences', 'Master of Science in Criminal Justice with specialization in Criminology', '{}'::TEXT[], 49),
+  ('Humanities & Social Sciences', 'Straight Master to Phd in Criminal Justice with specialization in Criminology', '{}'::TEXT[], 50),
+  ('Maritime', 'Master in Maritime Education and Training', '{}'::TEXT[], 51),
+  ('Engineering & Technology', 'Master of Science in Information Technology', '{}'::TEXT[], 52),
+  ('Health Sciences', 'Master of Arts in Nursing', '{}'::TEXT[], 53),
+  ('Health Sciences', 'Master of Science in Medical Laboratory Science', '{}'::TEXT[], 54)
+) AS p(college, name, aliases, sort_order)
+JOIN public.colleges c ON c.name = p.college
+ON CONFLICT (name) DO NOTHING;
+
+-- 5) Values outside the vocabulary
+-- Free text that is not exactly a term name, with how often it is used and
+-- the term it already matches by name or alias, if any.
+-- Campuses come from submissions, colleges from thesis departments and
+-- programs from both submissions and thesis degree programs.
+CREATE OR REPLACE FUNCTION public.list_unmatched_vocabulary_values(p_kind TEXT)
+RETURNS TABLE (
+  value TEXT,
+  usage_count BIGINT,
+  suggested_term_id BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can remap reference data';
+  END IF;
+
+  IF p_kind NOT IN ('campus', 'college', 'program') THEN
+    RAISE EXCEPTION 'Unknown vocabulary kind: %', p_kind;
+  END IF;
+
+  RETURN QUERY
+  WITH used AS (
+    SELECT s.campus AS value FROM thesis_submissions s WHERE p_kind = 'campus'
+    UNION ALL
+    SELECT t.department FROM thesis_data t WHERE p_kind = 'college'
+    UNION ALL
+    SELECT s.program FROM thesis_submissions s WHERE p_kind = 'program'
+    UNION ALL
+    SELECT t.degree_program FROM thesis_data t WHERE p_kind = 'program'
+  ),
+  terms AS (
+    SELECT c.id, c.name, c.aliases FROM campuses c WHERE p_kind = 'campus'
+    UNION ALL
+    SELECT c.id, c.name, c.aliases FROM colleges c WHERE p_kind = 'college'
+    UNION ALL
+    SELECT p.id, p.name, p.aliases FROM programs p WHERE p_kind = 'program'
+  ),
+  term_keys AS (
+    SELECT terms.id, vocabulary_key(terms.name) AS term_key FROM terms
+    UNION
+    SELECT terms.id, vocabulary_key(alias) FROM terms, unnest(terms.aliases) AS alias
+  )
+  SELECT
+    u.value,
+    COUNT(*)::BIGINT,
+    (SELECT MIN(k.id) FROM term_keys k WHERE k.term_key = vocabulary_key(u.value))
+  FROM used u
+  WHERE btrim(COALESCE(u.value, '')) <> ''
+    AND u.value <> 'Not Specified'
+    AND u.value NOT IN (SELECT terms.name FROM terms)
+  GROUP BY u.value
+  ORDER BY COUNT(*) DESC, u.value;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_unmatched_vocabulary_values(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_unmatched_vocabulary_values(TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.list_unmatched_vocabulary_values(TEXT) IS
+'Free-text campus, department or program values that are not a vocabulary term name, for the remap tool.';
+
+-- 6) Remap
+-- Rewrites every use of a free-text value to the term's name and keeps the
+-- old spelling as an alias so imports and filters match it from now on.
+CREATE OR REPLACE FUNCTION public.remap_vocabulary_value(p_kind TEXT, p_value TEXT, p_term_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  term_name TEXT;
+  term_aliases TEXT[];
+  rows_changed INTEGER;
+  total_changed INTEGER := 0;
+  keep_alias BOOLEAN;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can remap reference data';
+  END IF;
+
+  IF p_kind = 'campus' THEN
+    SELECT name, aliases INTO term_name, term_aliases FROM campuses WHERE id = p_term_id;
+  ELSIF p_kind = 'college' THEN
+    SELECT name, aliases INTO term_name, term_aliases FROM colleges WHERE id = p_term_id;
+  ELSIF p_kind = 'program' THEN
+    SELECT name, aliases INTO term_name, term_aliases FROM programs WHERE id = p_term_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown vocabulary kind: %', p_kind;
+  END IF;
+
+  IF term_name IS NULL THEN
+    RAISE EXCEPTION 'Vocabulary term % not found', p_term_id;
+  END IF;
+
+  IF p_value IS NULL OR p_value = term_name THEN
+    RETURN 0;
+  END IF;
+
+  IF p_kind = 'campus' THEN
+    UPDATE thesis_submissions SET campus = term_name WHERE campus = p_value;
+    GET DIAGNOSTICS rows_changed = ROW_COUNT;
+    total_changed := rows_changed;
+  ELSIF p_kind = 'college' THEN
+    UPDATE thesis_data SET department = term_name WHERE department = p_value;
+    GET DIAGNOSTICS rows_changed = ROW_COUNT;
+    total_changed := rows_changed;
+  ELSE
+    UPDATE thesis_submissions SET program = term_name WHERE program = p_value;
+    GET DIAGNOSTICS rows_changed = ROW_COUNT;
+    total_changed := rows_changed;
+
+    UPDATE thesis_data SET degree_program = term_name WHERE degree_program = p_value;
+    GET DIAGNOSTICS rows_changed = ROW_COUNT;
+    total_changed := total_changed + rows_changed;
+  END IF;
+
+  keep_alias := vocabulary_key(p_value) <> vocabulary_key(term_name)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(term_aliases) AS alias
+      WHERE vocabulary_key(alias) = vocabulary_key(p_value)
+    );
+
+  IF keep_alias THEN
+    IF p_kind = 'campus' THEN
+      UPDATE campuses SET aliases = array_append(aliases, btrim(p_value)) WHERE id = p_term_id;
+    ELSIF p_kind = 'college' THEN
+      UPDATE colleges SET aliases = array_append(aliases, btrim(p_value)) WHERE id = p_term_id;
+    ELSE
+      UPDATE programs SET aliases = array_append(aliases, btrim(p_value)) WHERE id = p_term_id;
+    END IF;
+  END IF;
+
+  RETURN total_changed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.remap_vocabulary_value(TEXT, TEXT, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.remap_vocabulary_value(TEXT, TEXT, BIGINT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.remap_vocabulary_value(TEXT, TEXT, BIGINT) IS
+'Replaces a free-text campus, department or program value with a vocabulary term and records it as an alias.';
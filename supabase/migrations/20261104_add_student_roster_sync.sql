@@ -0,0 +1,191 @@
+-- Migration: Reconcile students against the registrar's full list
+-- Date: 2026-11-04
+
+-- 1) Registrar rows
+-- Parses the uploaded list the same way for the diff and the sync. A blank
+-- course, email or school year means "not given" and never clears a value.
+CREATE OR REPLACE FUNCTION public.student_roster_rows(p_students JSONB)
+RETURNS TABLE (
+  student_no TEXT,
+  full_name TEXT,
+  course_section TEXT,
+  email TEXT,
+  school_year TEXT
+)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT DISTINCT ON (btrim(r->>'student_no'))
+    btrim(r->>'student_no'),
+    btrim(COALESCE(r->>'full_name', '')),
+    btrim(COALESCE(r->>'course_section', '')),
+    btrim(COALESCE(r->>'email', '')),
+    btrim(COALESCE(r->>'school_year', ''))
+  FROM jsonb_array_elements(COALESCE(p_students, '[]'::JSONB)) AS r
+  WHERE btrim(COALESCE(r->>'student_no', '')) <> ''
+  ORDER BY btrim(r->>'student_no');
+$$;
+
+-- 2) Diff
+-- Students the list would add, change or leave out. Archived students on
+-- the list count as changed since the sync makes them active again; active
+-- students not on the list are missing.
+CREATE OR REPLACE FUNCTION public.diff_student_roster(p_students JSONB)
+RETURNS TABLE (
+  student_no TEXT,
+  change TEXT,
+  changed_fields TEXT[],
+  current_data JSONB,
+  incoming_data JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can sync student records';
+  END IF;
+
+  RETURN QUERY
+  WITH incoming AS (
+    SELECT * FROM student_roster_rows(p_students)
+  ),
+  compared AS (
+    SELECT
+      i.student_no,
+      to_jsonb(s) - 'archived_at' - 'archived_by' - 'created_at' - 'updated_at' AS current_data,
+      to_jsonb(i) AS incoming_data,
+      s.student_no IS NULL AS is_new,
+      array_remove(ARRAY[
+        CASE WHEN i.full_name <> '' AND i.full_name IS DISTINCT FROM s.full_name THEN 'full_name' END,
+        CASE WHEN i.course_section <> '' AND i.course_section IS DISTINCT FROM s.course_section THEN 'course_section' END,
+        CASE WHEN i.email <> '' AND i.email IS DISTINCT FROM s.email THEN 'email' END,
+        CASE WHEN i.school_year <> '' AND i.school_year IS DISTINCT FROM s.school_year THEN 'school_year' END,
+        CASE WHEN s.status <> 'active' THEN 'status' END
+      ], NULL) AS fields
+    FROM incoming i
+    LEFT JOIN students s ON s.student_no = i.student_no
+  )
+  SELECT c.student_no, 'added', NULL::TEXT[], NULL::JSONB, c.incoming_data
+  FROM compared c
+  WHERE c.is_new
+  UNION ALL
+  SELECT c.student_no, 'changed', c.fields, c.current_data, c.incoming_data
+  FROM compared c
+  WHERE NOT c.is_new AND cardinality(c.fields) > 0
+  UNION ALL
+  SELECT
+    s.student_no,
+    'missing',
+    NULL::TEXT[],
+    to_jsonb(s) - 'archived_at' - 'archived_by' - 'created_at' - 'updated_at',
+    NULL::JSONB
+  FROM students s
+  WHERE s.status = 'active'
+    AND NOT EXISTS (SELECT 1 FROM incoming i WHERE i.student_no = s.student_no)
+  ORDER BY 2, 1;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.diff_student_roster(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.diff_student_roster(JSONB) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.diff_student_roster(JSONB) IS
+'Compares the registrar list with the students table: added, changed and missing students.';
+
+-- 3) Sync
+-- Applies the diff in one transaction: adds new students, updates and
+-- reactivates listed ones and, when asked, archives the missing ones.
+CREATE OR REPLACE FUNCTION public.sync_student_roster(
+  p_students JSONB,
+  p_archive_missing BOOLEAN DEFAULT false,
+  p_archive_status TEXT DEFAULT 'withdrawn'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listed INTEGER;
+  added INTEGER;
+  updated INTEGER;
+  reactivated INTEGER;
+  missing INTEGER;
+  archived INTEGER := 0;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can sync student records';
+  END IF;
+
+  IF p_archive_status NOT IN ('graduated', 'withdrawn', 'deleted') THEN
+    RAISE EXCEPTION 'Invalid archive status: %', p_archive_status;
+  END IF;
+
+  SELECT COUNT(*) INTO listed FROM student_roster_rows(p_students);
+  -- An empty or misread file would otherwise archive every student
+  IF listed = 0 THEN
+    RAISE EXCEPTION 'The registrar list has no students';
+  END IF;
+
+  SELECT COUNT(*) INTO reactivated
+  FROM students s
+  JOIN student_roster_rows(p_students) r ON r.student_no = s.student_no
+  WHERE s.status <> 'active';
+
+  UPDATE students s
+  SET
+    full_name = COALESCE(NULLIF(r.full_name, ''), s.full_name),
+    course_section = COALESCE(NULLIF(r.course_section, ''), s.course_section),
+    email = COALESCE(NULLIF(r.email, ''), s.email),
+    school_year = COALESCE(NULLIF(r.school_year, ''), s.school_year),
+    status = 'active'
+  FROM student_roster_rows(p_students) r
+  WHERE s.student_no = r.student_no
+    AND (
+      s.status <> 'active'
+      OR (r.full_name <> '' AND r.full_name IS DISTINCT FROM s.full_name)
+      OR (r.course_section <> '' AND r.course_section IS DISTINCT FROM s.course_section)
+      OR (r.email <> '' AND r.email IS DISTINCT FROM s.email)
+      OR (r.school_year <> '' AND r.school_year IS DISTINCT FROM s.school_year)
+    );
+  GET DIAGNOSTICS updated = ROW_COUNT;
+
+  INSERT INTO students (student_no, full_name, course_section, email, school_year)
+  SELECT r.student_no, r.full_name, r.course_section, r.email, r.school_year
+  FROM student_roster_rows(p_students) r
+  WHERE NOT EXISTS (SELECT 1 FROM students s WHERE s.student_no = r.student_no);
+  GET DIAGNOSTICS added = ROW_COUNT;
+
+  SELECT COUNT(*) INTO missing
+  FROM students s
+  WHERE s.status = 'active'
+    AND NOT EXISTS (SELECT 1 FROM student_roster_rows(p_students) r WHERE r.student_no = s.student_no);
+
+  IF p_archive_missing THEN
+    UPDATE students s
+    SET status = p_archive_status
+    WHERE s.status = 'active'
+      AND NOT EXISTS (SELECT 1 FROM student_roster_rows(p_students) r WHERE r.student_no = s.student_no);
+    GET DIAGNOSTICS archived = ROW_COUNT;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'listed', listed,
+    'added', added,
+    'updated', updated - reactivated,
+    'reactivated', reactivated,
+    'unchanged', listed - added - updated,
+    'missing', missing,
+    'archived', archived
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_student_roster(JSONB, BOOLEAN, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sync_student_roster(JSONB, BOOLEAN, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.sync_student_roster(JSONB, BOOLEAN, TEXT) IS
+'Reconciles students with the registrar list in one transaction and returns counts of what changed.';
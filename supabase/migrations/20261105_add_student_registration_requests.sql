@@ -0,0 +1,263 @@
+-- Migration: Registration requests from students missing in the student records
+-- Date: 2026-11-05
+
+-- 1) Requests
+-- A request starts 'unverified' until the student enters the code emailed to
+-- them, then waits as 'pending' for an admin. Approving it adds the student;
+-- codes are stored hashed and never sent back to the browser.
+CREATE TABLE IF NOT EXISTS public.student_registration_requests (
+  id BIGSERIAL PRIMARY KEY,
+  student_no TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  course_section TEXT NOT NULL,
+  email TEXT NOT NULL,
+  school_year TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unverified'
+    CHECK (status IN ('unverified', 'pending', 'approved', 'rejected')),
+  code_hash TEXT,
+  code_sent_at TIMESTAMPTZ,
+  code_expires_at TIMESTAMPTZ,
+  code_attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  verified_at TIMESTAMPTZ,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID,
+  review_note TEXT
+);
+
+-- One open request per student number
+CREATE UNIQUE INDEX IF NOT EXISTS uq_student_registration_requests_open
+  ON public.student_registration_requests(student_no)
+  WHERE status IN ('unverified', 'pending');
+
+CREATE INDEX IF NOT EXISTS idx_student_registration_requests_status
+  ON public.student_registration_requests(status, created_at);
+
+ALTER TABLE public.student_registration_requests ENABLE ROW LEVEL SECURITY;
+
+-- Students are anonymous at the kiosk and only go through the RPCs below
+DROP POLICY IF EXISTS "Admins can select student registration requests" ON public.student_registration_requests;
+CREATE POLICY "Admins can select student registration requests"
+ON public.student_registration_requests
+FOR SELECT
+USING (is_admin_user());
+
+GRANT SELECT ON public.student_registration_requests TO authenticated;
+GRANT ALL ON public.student_registration_requests TO service_role;
+
+-- 2) Submit
+-- Resubmitting while a request is still unverified replaces its details and
+-- voids the old code, so a typo in the email can be fixed.
+CREATE OR REPLACE FUNCTION public.submit_student_registration(
+  p_student_no TEXT,
+  p_full_name TEXT,
+  p_course_section TEXT,
+  p_email TEXT,
+  p_school_year TEXT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_no TEXT := btrim(COALESCE(p_student_no, ''));
+  v_email TEXT := lower(btrim(COALESCE(p_email, '')));
+  v_id BIGINT;
+BEGIN
+  IF v_student_no = '' OR btrim(COALESCE(p_full_name, '')) = ''
+     OR btrim(COALESCE(p_course_section, '')) = '' OR btrim(COALESCE(p_school_year, '')) = '' THEN
+    RAISE EXCEPTION 'Please fill in every field';
+  END IF;
+
+  IF v_email !~ '^[^@[:space:]]+@[^@[:space:]]+\.[^@[:space:]]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM students WHERE student_no = v_student_no) THEN
+    RAISE EXCEPTION 'This student number is already on file. Please contact the library staff.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM student_registration_requests
+    WHERE student_no = v_student_no AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'A request for this student number is already waiting for approval';
+  END IF;
+
+  UPDATE student_registration_requests
+  SET
+    full_name = btrim(p_full_name),
+    course_section = btrim(p_course_section),
+    email = v_email,
+    school_year = btrim(p_school_year),
+    code_hash = NULL,
+    code_expires_at = NULL,
+    code_attempts = 0
+  WHERE student_no = v_student_no AND status = 'unverified'
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    INSERT INTO student_registration_requests (student_no, full_name, course_section, email, school_year)
+    VALUES (v_student_no, btrim(p_full_name), btrim(p_course_section), v_email, btrim(p_school_year))
+    RETURNING id INTO v_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_student_registration(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_student_registration(TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.submit_student_registration(TEXT, TEXT, TEXT, TEXT, TEXT) IS
+'Opens (or updates) an unverified registration request for a student number not yet on file.';
+
+-- 3) Issue a code
+-- Only the send-verification-email function calls this, with the service
+-- key, so the code goes straight into the email.
+CREATE OR REPLACE FUNCTION public.issue_student_registration_code(p_request_id BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req student_registration_requests%ROWTYPE;
+  v_code TEXT := lpad(floor(random() * 1000000)::INTEGER::TEXT, 6, '0');
+BEGIN
+  SELECT * INTO req
+  FROM student_registration_requests
+  WHERE id = p_request_id AND status = 'unverified'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration request not found or already verified';
+  END IF;
+
+  IF req.code_sent_at > now() - INTERVAL '1 minute' THEN
+    RAISE EXCEPTION 'Please wait a minute before asking for another code';
+  END IF;
+
+  UPDATE student_registration_requests
+  SET
+    code_hash = encode(sha256(convert_to(v_code, 'UTF8')), 'hex'),
+    code_sent_at = now(),
+    code_expires_at = now() + INTERVAL '10 minutes',
+    code_attempts = 0
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object('email', req.email, 'code', v_code);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_student_registration_code(BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.issue_student_registration_code(BIGINT) TO service_role;
+
+COMMENT ON FUNCTION public.issue_student_registration_code(BIGINT) IS
+'Generates a 10-minute email code for an unverified registration request. Service role only.';
+
+-- 4) Verify
+-- Same reasons as the admin login codes: NOT_FOUND, EXPIRED, MAX_ATTEMPTS
+-- and INVALID. A verified request moves to the admin queue.
+CREATE OR REPLACE FUNCTION public.verify_student_registration(p_request_id BIGINT, p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req student_registration_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO req
+  FROM student_registration_requests
+  WHERE id = p_request_id AND status = 'unverified'
+  FOR UPDATE;
+
+  IF NOT FOUND OR req.code_hash IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'NOT_FOUND');
+  END IF;
+  IF now() > req.code_expires_at THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'EXPIRED');
+  END IF;
+  IF req.code_attempts >= 5 THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'MAX_ATTEMPTS');
+  END IF;
+
+  IF encode(sha256(convert_to(btrim(COALESCE(p_code, '')), 'UTF8')), 'hex') <> req.code_hash THEN
+    UPDATE student_registration_requests
+    SET code_attempts = code_attempts + 1
+    WHERE id = p_request_id;
+    RETURN jsonb_build_object('valid', false, 'reason', 'INVALID');
+  END IF;
+
+  UPDATE student_registration_requests
+  SET
+    status = 'pending',
+    verified_at = now(),
+    code_hash = NULL
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object('valid', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.verify_student_registration(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.verify_student_registration(BIGINT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.verify_student_registration(BIGINT, TEXT) IS
+'Checks the emailed code and moves the registration request to the admin queue.';
+
+-- 5) Review
+-- Approving adds the student as active; the students audit trigger records
+-- the insert under the reviewing admin.
+CREATE OR REPLACE FUNCTION public.review_student_registration(
+  p_request_id BIGINT,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req student_registration_requests%ROWTYPE;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can review registration requests';
+  END IF;
+
+  SELECT * INTO req
+  FROM student_registration_requests
+  WHERE id = p_request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration request % is not waiting for review', p_request_id;
+  END IF;
+
+  IF p_approve THEN
+    IF EXISTS (SELECT 1 FROM students WHERE student_no = req.student_no) THEN
+      RAISE EXCEPTION 'Student number % is already on file', req.student_no;
+    END IF;
+
+    INSERT INTO students (student_no, full_name, course_section, email, school_year)
+    VALUES (req.student_no, req.full_name, req.course_section, req.email, req.school_year);
+  END IF;
+
+  UPDATE student_registration_requests
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_at = now(),
+    reviewed_by = auth.uid(),
+    review_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_request_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_student_registration(BIGINT, BOOLEAN, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_student_registration(BIGINT, BOOLEAN, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.review_student_registration(BIGINT, BOOLEAN, TEXT) IS
+'Approves (adding the student) or rejects a verified registration request.';
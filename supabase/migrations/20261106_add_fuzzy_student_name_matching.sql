@@ -0,0 +1,354 @@
+-- Migration: Fuzzy name matching for LPU student validation
+-- Date: 2026-11-06
+
+-- 1) Name tokens
+-- Lowercased words with accents folded (Ñ -> n), apostrophes dropped and
+-- other punctuation treated as a space, sorted so word order does not matter.
+CREATE OR REPLACE FUNCTION public.student_name_tokens(p_name TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(token ORDER BY token), '{}')
+  FROM regexp_split_to_table(
+    trim(regexp_replace(
+      regexp_replace(
+        translate(lower(COALESCE(p_name, '')), 'áàâäãåāéèêëēíìîïīóòôöõøōúùûüūñçýÿ', 'aaaaaaaeeeeeiiiiiooooooouuuuuncyy'),
+        '[''’`]', '', 'g'
+      ),
+      '[^a-z0-9]+', ' ', 'g'
+    )),
+    ' '
+  ) AS token
+  WHERE token <> '';
+$$;
+
+-- 2) Match score
+-- Pairs each entered word with its best unused word on file: the same word
+-- scores 1, an initial and a word starting with it 0.9, and close spellings
+-- their trigram similarity. Initials weigh half a word, so a left-out middle
+-- initial costs little. Returns 0 to 1, rounded to two places.
+CREATE OR REPLACE FUNCTION public.student_name_match_score(p_name_on_file TEXT, p_entered_name TEXT)
+RETURNS REAL
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  file_tokens TEXT[] := student_name_tokens(p_name_on_file);
+  entered_tokens TEXT[] := student_name_tokens(p_entered_name);
+  used BOOLEAN[];
+  total_weight REAL := 0;
+  matched REAL := 0;
+  entered TEXT;
+  pair REAL;
+  best REAL;
+  best_index INTEGER;
+  i INTEGER;
+BEGIN
+  IF cardinality(file_tokens) = 0 OR cardinality(entered_tokens) = 0 THEN
+    RETURN 0;
+  END IF;
+  IF file_tokens = entered_tokens THEN
+    RETURN 1;
+  END IF;
+
+  used := array_fill(false, ARRAY[cardinality(file_tokens)]);
+
+  SELECT SUM(CASE WHEN length(token) = 1 THEN 0.5 ELSE 1 END)
+  INTO total_weight
+  FROM unnest(file_tokens || entered_tokens) AS token;
+
+  FOREACH entered IN ARRAY entered_tokens LOOP
+    best := 0;
+    best_index := NULL;
+    FOR i IN 1..cardinality(file_tokens) LOOP
+      CONTINUE WHEN used[i];
+      pair := CASE
+        WHEN file_tokens[i] = entered THEN 1
+        WHEN length(file_tokens[i]) = 1 OR length(entered) = 1 THEN
+          CASE WHEN left(file_tokens[i], 1) = left(entered, 1) THEN 0.9 ELSE 0 END
+        ELSE
+          CASE WHEN similarity(file_tokens[i], entered) >= 0.5 THEN similarity(file_tokens[i], entered) ELSE 0 END
+      END;
+      IF pair > best THEN
+        best := pair;
+        best_index := i;
+      END IF;
+    END LOOP;
+
+    IF best_index IS NOT NULL THEN
+      used[best_index] := true;
+      matched := matched + best * LEAST(
+        CASE WHEN length(file_tokens[best_index]) = 1 THEN 0.5 ELSE 1 END,
+        CASE WHEN length(entered) = 1 THEN 0.5 ELSE 1 END
+      );
+    END IF;
+  END LOOP;
+
+  RETURN round((2 * matched / total_weight)::NUMERIC, 2)::REAL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.student_name_match_score(TEXT, TEXT) IS
+'How closely an entered name matches the name on file, from 0 to 1, ignoring case, accents, punctuation and word order.';
+
+-- Lowest score accepted as the student on file
+INSERT INTO public.app_settings (key, value)
+VALUES ('student_name_match_threshold', '0.85'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- 3) Borderline matches
+-- Imperfect names scoring near the threshold, accepted or not, so admins can
+-- fix the name on file or confirm the call. Repeats of the same name are
+-- counted on the open entry.
+CREATE TABLE IF NOT EXISTS public.student_name_match_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  student_no TEXT NOT NULL,
+  entered_name TEXT NOT NULL,
+  name_on_file TEXT NOT NULL,
+  score REAL NOT NULL,
+  threshold REAL NOT NULL,
+  accepted BOOLEAN NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'dismissed', 'name_updated')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_student_name_match_reviews_open
+  ON public.student_name_match_reviews(student_no, lower(entered_name))
+  WHERE status = 'open';
+
+ALTER TABLE public.student_name_match_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can select student name match reviews" ON public.student_name_match_reviews;
+CREATE POLICY "Admins can select student name match reviews"
+ON public.student_name_match_reviews
+FOR SELECT
+USING (is_admin_user());
+
+GRANT SELECT ON public.student_name_match_reviews TO authenticated;
+GRANT ALL ON public.student_name_match_reviews TO service_role;
+
+-- 4) Logging borderline names
+-- Only reached through the validation below. The kiosk validates as the
+-- student types, so a different name for the same student within a few
+-- minutes replaces the entry being typed instead of adding one, a repeat is
+-- counted at most once per window, and a student number collects at most
+-- five open entries.
+CREATE OR REPLACE FUNCTION public.log_student_name_match(
+  p_student_no TEXT,
+  p_entered_name TEXT,
+  p_name_on_file TEXT,
+  p_score REAL,
+  p_threshold REAL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  window_start TIMESTAMPTZ := now() - interval '5 minutes';
+  review student_name_match_reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO review
+  FROM student_name_match_reviews
+  WHERE student_no = p_student_no
+    AND lower(entered_name) = lower(p_entered_name)
+    AND status = 'open';
+
+  IF FOUND THEN
+    UPDATE student_name_match_reviews
+    SET attempts = attempts + CASE WHEN last_seen_at < window_start THEN 1 ELSE 0 END,
+        last_seen_at = now(),
+        name_on_file = p_name_on_file,
+        score = p_score,
+        threshold = p_threshold,
+        accepted = p_score >= p_threshold
+    WHERE id = review.id;
+    RETURN;
+  END IF;
+
+  SELECT * INTO review
+  FROM student_name_match_reviews
+  WHERE student_no = p_student_no
+    AND status = 'open'
+    AND last_seen_at >= window_start
+  ORDER BY last_seen_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE student_name_match_reviews
+    SET entered_name = p_entered_name,
+        last_seen_at = now(),
+        name_on_file = p_name_on_file,
+        score = p_score,
+        threshold = p_threshold,
+        accepted = p_score >= p_threshold
+    WHERE id = review.id;
+    RETURN;
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM student_name_match_reviews
+    WHERE student_no = p_student_no AND status = 'open'
+  ) >= 5 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO student_name_match_reviews (student_no, entered_name, name_on_file, score, threshold, accepted)
+  VALUES (p_student_no, p_entered_name, p_name_on_file, p_score, p_threshold, p_score >= p_threshold)
+  ON CONFLICT (student_no, lower(entered_name)) WHERE status = 'open' DO NOTHING;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_student_name_match(TEXT, TEXT, TEXT, REAL, REAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.log_student_name_match(TEXT, TEXT, TEXT, REAL, REAL) TO service_role;
+
+-- 5) Validation
+-- Same result shape as before without the name on file, so the check cannot
+-- be used to look a student's name up or to tune a guess. Scores within 0.15
+-- below the threshold count as borderline and are logged.
+DROP FUNCTION IF EXISTS public.validate_lpu_student_with_name(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.validate_lpu_student_with_name(TEXT, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.validate_lpu_student_with_name(
+  student_num TEXT,
+  student_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  student_record RECORD;
+  match_threshold REAL;
+  match_score REAL;
+BEGIN
+  SELECT student_no, full_name, course_section, email, school_year, status
+  INTO student_record
+  FROM public.students
+  WHERE student_no = student_num;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'student_not_found',
+      'message', 'Student number not found in database'
+    );
+  END IF;
+
+  IF student_record.status <> 'active' THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'student_archived',
+      'message', 'This student record is no longer active. Please contact the library staff.'
+    );
+  END IF;
+
+  SELECT (value #>> '{}')::REAL
+  INTO match_threshold
+  FROM app_settings
+  WHERE key = 'student_name_match_threshold';
+  match_threshold := LEAST(GREATEST(COALESCE(match_threshold, 0.85), 0.5), 1);
+
+  match_score := student_name_match_score(student_record.full_name, student_name);
+
+  IF match_score < 1 AND match_score >= match_threshold - 0.15 THEN
+    PERFORM log_student_name_match(
+      student_record.student_no,
+      btrim(student_name),
+      student_record.full_name,
+      match_score,
+      match_threshold
+    );
+  END IF;
+
+  IF match_score < match_threshold THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'name_mismatch',
+      'message', 'Student name does not match the name on file'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'student_details', jsonb_build_object(
+      'student_no', student_record.student_no,
+      'full_name', student_record.full_name,
+      'course_section', student_record.course_section,
+      'email', student_record.email,
+      'school_year', student_record.school_year
+    )
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in validate_lpu_student_with_name: %', SQLERRM;
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'validation_error',
+      'message', 'An error occurred during validation'
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.validate_lpu_student_with_name(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.validate_lpu_student_with_name(TEXT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.validate_lpu_student_with_name(TEXT, TEXT) IS
+'Checks a student number and name against the active students, accepting names at or above the configured match score.';
+
+-- 6) Review
+-- Dismissing keeps the name on file; using the entered name replaces it,
+-- e.g. when the records are missing an accent or a middle name.
+CREATE OR REPLACE FUNCTION public.resolve_student_name_match(
+  p_review_id BIGINT,
+  p_use_entered_name BOOLEAN DEFAULT false
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review student_name_match_reviews%ROWTYPE;
+BEGIN
+  IF NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can review name matches';
+  END IF;
+
+  SELECT * INTO review
+  FROM student_name_match_reviews
+  WHERE id = p_review_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Name match % is not open for review', p_review_id;
+  END IF;
+
+  IF p_use_entered_name THEN
+    UPDATE students
+    SET full_name = review.entered_name
+    WHERE student_no = review.student_no;
+  END IF;
+
+  UPDATE student_name_match_reviews
+  SET
+    status = CASE WHEN p_use_entered_name THEN 'name_updated' ELSE 'dismissed' END,
+    reviewed_at = now(),
+    reviewed_by = auth.uid()
+  WHERE id = p_review_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_student_name_match(BIGINT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resolve_student_name_match(BIGINT, BOOLEAN) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.resolve_student_name_match(BIGINT, BOOLEAN) IS
+'Closes a borderline name match, optionally replacing the name on file with the entered name.';
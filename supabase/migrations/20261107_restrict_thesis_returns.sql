@@ -0,0 +1,58 @@
+-- Migration: Returns at the submission book close only the patron's own session
+-- Date: 2026-11-07
+
+-- 1) Return by re-scanning
+-- Patrons are anonymous at the submission book, so the return has to name the
+-- patron: LPU students are validated by student number and name like
+-- reserve_thesis, visitors are matched by the name they checked out under.
+-- Only that patron's open sessions for the thesis are closed, and of those
+-- only the ones for the scanned copy or recorded without a barcode.
+DROP FUNCTION IF EXISTS public.return_thesis(BIGINT, TEXT);
+CREATE OR REPLACE FUNCTION public.return_thesis(
+  p_thesis_id BIGINT,
+  p_full_name TEXT,
+  p_student_no TEXT DEFAULT NULL,
+  p_barcode TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  patron_student_no TEXT := NULLIF(TRIM(p_student_no), '');
+  scanned_barcode TEXT := NULLIF(TRIM(p_barcode), '');
+  returned INTEGER;
+BEGIN
+  IF NULLIF(TRIM(p_full_name), '') IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF patron_student_no IS NOT NULL
+    AND NOT COALESCE((validate_lpu_student_with_name(patron_student_no, p_full_name) ->> 'valid')::BOOLEAN, false)
+  THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE thesis_submissions s
+  SET returned_at = now(),
+      returned_by = auth.uid(),
+      return_method = 'rescan'
+  WHERE s.thesis_id = p_thesis_id
+    AND s.returned_at IS NULL
+    AND (scanned_barcode IS NULL OR s.thesis_barcode IS NULL OR s.thesis_barcode = scanned_barcode)
+    AND CASE
+      WHEN patron_student_no IS NOT NULL THEN s.student_number = patron_student_no
+      ELSE s.student_number IS NULL AND lower(TRIM(s.full_name)) = lower(TRIM(p_full_name))
+    END;
+
+  GET DIAGNOSTICS returned = ROW_COUNT;
+  RETURN returned;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.return_thesis(BIGINT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.return_thesis(BIGINT, TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.return_thesis(BIGINT, TEXT, TEXT, TEXT) IS
+'Closes the re-scanning patron''s open reading sessions for a thesis. LPU students must pass the student number and name check. Returns the number of sessions closed.';
@@ -0,0 +1,108 @@
+-- Migration: Staff open thesis files through the open-thesis-file edge function
+-- Date: 2026-11-08
+
+-- 1) Storage access
+-- Readers no longer sign file URLs themselves: the edge function logs the
+-- access and signs the URL with the service role. Admins keep direct access
+-- for uploads and replacements; visitors still reach abstract pages.
+DROP POLICY IF EXISTS "Thesis files are readable by role" ON storage.objects;
+CREATE POLICY "Thesis files are readable by role"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'thesis-files'
+  AND (
+    public.is_admin_user()
+    OR EXISTS (
+      SELECT 1
+      FROM public.thesis_attachments a
+      JOIN public.thesis_data t ON t.id = a.thesis_id
+      WHERE a.storage_path = storage.objects.name
+        AND a.kind = 'abstract_page'
+        AND t.is_deleted = false
+    )
+  )
+);
+
+-- 2) Logged file access
+-- Replaces log_thesis_file_access: the same checks and audit row, and the
+-- file's location is only handed out once the access has been recorded.
+DROP FUNCTION IF EXISTS public.log_thesis_file_access(BIGINT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.open_thesis_file(
+  p_attachment_id BIGINT,
+  p_action TEXT
+)
+RETURNS TABLE (
+  storage_path TEXT,
+  file_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attachment RECORD;
+  actor_record RECORD;
+  snapshot JSONB;
+BEGIN
+  IF p_action NOT IN ('VIEW', 'DOWNLOAD') THEN
+    RAISE EXCEPTION 'Unknown file access action: %', p_action;
+  END IF;
+
+  IF NOT is_staff_user() THEN
+    RAISE EXCEPTION 'Only library staff can open thesis files';
+  END IF;
+
+  IF p_action = 'DOWNLOAD' AND NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can download thesis files';
+  END IF;
+
+  SELECT a.id, a.thesis_id, a.kind, a.storage_path, a.file_name, t.thesis_title
+  INTO attachment
+  FROM thesis_attachments a
+  JOIN thesis_data t ON t.id = a.thesis_id
+  WHERE a.id = p_attachment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thesis file % not found', p_attachment_id;
+  END IF;
+
+  SELECT su.name, su.email
+  INTO actor_record
+  FROM system_users su
+  WHERE su.user_id = auth.uid()
+  LIMIT 1;
+
+  snapshot := jsonb_build_object(
+    'thesis_id', attachment.thesis_id,
+    'thesis_title', attachment.thesis_title,
+    'kind', attachment.kind,
+    'file_name', attachment.file_name
+  );
+
+  INSERT INTO audit_log (
+    table_name, record_id, operation, actor_id, actor_name, actor_email,
+    changed_fields, old_data, new_data
+  ) VALUES (
+    'thesis_attachments',
+    attachment.id::TEXT,
+    p_action,
+    auth.uid(),
+    actor_record.name,
+    actor_record.email,
+    ARRAY['file_name', 'kind', 'thesis_id', 'thesis_title'],
+    NULL,
+    snapshot
+  );
+
+  RETURN QUERY SELECT attachment.storage_path, attachment.file_name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.open_thesis_file(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.open_thesis_file(BIGINT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.open_thesis_file(BIGINT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.open_thesis_file(BIGINT, TEXT) IS
+'Records a staff VIEW or admin DOWNLOAD of a thesis file in audit_log and returns where the file is stored. Called by the open-thesis-file edge function.';
@@ -0,0 +1,238 @@
+-- Migration: Search input is matched literally in every thesis search
+-- Date: 2026-11-09
+
+-- The search boxes paste their input into ILIKE patterns, so a % or _ typed
+-- by the user matched anything. Each function is redefined as it stands
+-- with the input passed through escape_like_pattern().
+
+-- 1) Admin thesis table
+CREATE OR REPLACE FUNCTION public.list_thesis_data(
+  p_search TEXT DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_barcode TEXT DEFAULT NULL,
+  p_year INTEGER DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_sort_column TEXT DEFAULT 'upload_date',
+  p_sort_ascending BOOLEAN DEFAULT false,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  upload_date TIMESTAMP WITH TIME ZONE,
+  last_modified TIMESTAMP WITH TIME ZONE,
+  is_deleted BOOLEAN,
+  availability TEXT,
+  copy_count INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200));
+  page_offset INTEGER;
+  sort_expression TEXT;
+  sort_direction TEXT := CASE WHEN COALESCE(p_sort_ascending, false) THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  sort_expression := CASE p_sort_column
+    WHEN 'barcode' THEN 't.barcode'
+    WHEN 'thesis_title' THEN 'lower(t.thesis_title)'
+    WHEN 'authors' THEN 'lower(array_to_string(t.authors, '', ''))'
+    WHEN 'department' THEN 'lower(t.department)'
+    WHEN 'publication_year' THEN 't.publication_year'
+    WHEN 'availability' THEN 'public.effective_thesis_availability(t.id, t.availability)'
+    WHEN 'last_modified' THEN 't.last_modified'
+    ELSE 't.upload_date'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    $query$
+      SELECT
+        t.id,
+        t.barcode,
+        t.thesis_title,
+        t.authors,
+        t.department,
+        t.publication_year,
+        t.upload_date,
+        t.last_modified,
+        t.is_deleted,
+        public.effective_thesis_availability(t.id, t.availability),
+        public.thesis_copy_count(t.id),
+        COUNT(*) OVER () AS total_count
+      FROM public.thesis_data t
+      WHERE t.is_deleted = false
+        AND (
+          $1 IS NULL
+          OR t.thesis_title ILIKE '%%' || $1 || '%%'
+          OR array_to_string(t.authors, ' ') ILIKE '%%' || $1 || '%%'
+          OR t.department ILIKE '%%' || $1 || '%%'
+          OR EXISTS (
+            SELECT 1 FROM public.thesis_copies c
+            WHERE c.thesis_id = t.id AND c.barcode ILIKE '%%' || $1 || '%%'
+          )
+        )
+        AND ($2 IS NULL OR lower(t.department) = lower($2))
+        AND ($3 IS NULL OR array_to_string(t.authors, ' ') ILIKE '%%' || $3 || '%%')
+        AND (
+          $4 IS NULL
+          OR EXISTS (
+            SELECT 1 FROM public.thesis_copies c
+            WHERE c.thesis_id = t.id AND c.barcode ILIKE '%%' || $4 || '%%'
+          )
+        )
+        AND ($5 IS NULL OR t.publication_year = $5)
+        AND ($6 IS NULL OR t.publication_year >= $6)
+        AND ($7 IS NULL OR t.publication_year <= $7)
+      ORDER BY %s %s, t.id %s
+      OFFSET $8
+      LIMIT $9
+    $query$,
+    sort_expression,
+    sort_direction,
+    sort_direction
+  )
+  USING
+    escape_like_pattern(NULLIF(TRIM(p_search), '')),
+    NULLIF(TRIM(p_department), ''),
+    escape_like_pattern(NULLIF(TRIM(p_author), '')),
+    escape_like_pattern(NULLIF(TRIM(p_barcode), '')),
+    p_year,
+    p_year_from,
+    p_year_to,
+    page_offset,
+    page_size;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_thesis_data(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT, BOOLEAN, INTEGER, INTEGER) TO service_role;
+
+-- 2) Public catalog
+CREATE OR REPLACE FUNCTION public.browse_thesis_catalog(
+  p_department TEXT DEFAULT NULL,
+  p_year_from INTEGER DEFAULT NULL,
+  p_year_to INTEGER DEFAULT NULL,
+  p_author TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  copy_count INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  page_size INTEGER := GREATEST(1, LEAST(COALESCE(p_page_size, 20), 100));
+  page_offset INTEGER;
+BEGIN
+  page_offset := (GREATEST(COALESCE(p_page, 1), 1) - 1) * page_size;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    public.thesis_copy_count(t.id),
+    COUNT(*) OVER () AS total_count
+  FROM public.thesis_data t
+  WHERE t.is_deleted = false
+    AND (NULLIF(TRIM(p_department), '') IS NULL OR t.department = TRIM(p_department))
+    AND (p_year_from IS NULL OR t.publication_year >= p_year_from)
+    AND (p_year_to IS NULL OR t.publication_year <= p_year_to)
+    AND (
+      NULLIF(TRIM(p_author), '') IS NULL
+      OR array_to_string(t.authors, ' ') ILIKE '%' || escape_like_pattern(TRIM(p_author)) || '%'
+    )
+    AND (
+      NULLIF(TRIM(p_search), '') IS NULL
+      OR t.thesis_title ILIKE '%' || escape_like_pattern(TRIM(p_search)) || '%'
+      OR EXISTS (
+        SELECT 1 FROM public.thesis_copies c
+        WHERE c.thesis_id = t.id AND c.barcode ILIKE '%' || escape_like_pattern(TRIM(p_search)) || '%'
+      )
+    )
+  ORDER BY t.publication_year DESC, t.thesis_title
+  OFFSET page_offset
+  LIMIT page_size;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.browse_thesis_catalog(TEXT, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated, service_role;
+
+-- 3) Trash
+CREATE OR REPLACE FUNCTION public.list_deleted_theses(
+  p_search TEXT DEFAULT NULL,
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id BIGINT,
+  barcode VARCHAR,
+  thesis_title TEXT,
+  authors TEXT[],
+  department VARCHAR,
+  publication_year INTEGER,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID,
+  deleted_by_name TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.barcode,
+    t.thesis_title,
+    t.authors,
+    t.department,
+    t.publication_year,
+    t.deleted_at,
+    t.deleted_by,
+    su.name AS deleted_by_name,
+    COUNT(*) OVER () AS total_count
+  FROM thesis_data t
+  LEFT JOIN system_users su ON su.user_id = t.deleted_by
+  WHERE t.is_deleted = true
+    AND (
+      NULLIF(trim(p_search), '') IS NULL
+      OR t.barcode ILIKE '%' || escape_like_pattern(trim(p_search)) || '%'
+      OR t.thesis_title ILIKE '%' || escape_like_pattern(trim(p_search)) || '%'
+      OR array_to_string(t.authors, ' ') ILIKE '%' || escape_like_pattern(trim(p_search)) || '%'
+    )
+  ORDER BY t.deleted_at DESC NULLS LAST, t.id DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200))
+  OFFSET (GREATEST(COALESCE(p_page, 1), 1) - 1) * GREATEST(1, LEAST(COALESCE(p_page_size, 25), 200));
+$$;
+
+REVOKE ALL ON FUNCTION public.list_deleted_theses(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_deleted_theses(TEXT, INTEGER, INTEGER) TO authenticated, service_role;